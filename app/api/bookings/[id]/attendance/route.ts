@@ -0,0 +1,25 @@
+// app/api/bookings/[id]/attendance/route.ts
+import { NextResponse } from "next/server";
+import { setSlotAttendance, ATTENDANCE_STATES } from "@/lib/attendance";
+import type { Attendance } from "@/lib/bookingService";
+
+/** Mark one slot checked in / no-show. Body: { slotIndex, status: "checked_in" | "no_show" | null } */
+export async function PATCH(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const id = params?.id;
+    if (!id) return NextResponse.json({ error: "Missing id" }, { status: 400 });
+
+    const body = (await req.json().catch(() => ({}))) as { slotIndex?: number; status?: Attendance | null };
+    const status = body.status ?? null;
+    if (status !== null && !ATTENDANCE_STATES.includes(status)) {
+      return NextResponse.json({ error: `status must be one of ${ATTENDANCE_STATES.join(", ")} or null` }, { status: 400 });
+    }
+
+    const { status: code, body: out } = await setSlotAttendance(id, Number(body.slotIndex), status);
+    return NextResponse.json(out, { status: code });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : "Server error";
+    console.error("attendance error:", e);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,123 +1,29 @@
 // app/api/bookings/[id]/mark-paid/route.ts
 import { NextResponse } from "next/server";
-import { BookingModel } from "@/models/Booking";
-import { GuestBookingModel } from "@/models/GuestBooking";
-import { updateBookingPaymentById } from "@/lib/googleSheets";
+import { getUserFromCookie } from "@/lib/auth";
+import { recordBookingPayment, validatePaymentBody, type PaymentInput } from "@/lib/bookingPayments";
 
-type PaidDoc = {
-  _id: string;
-  orderId?: string;
-  adminPaid?: boolean;
-  paymentRef?: string;
-};
-
-function toPaidRef(current?: string): string | undefined {
-  const ref = String(current || "").toUpperCase().trim();
-  if (!ref) return undefined;
-
-  // If already PAID.*, keep as-is.
-  if (ref.startsWith("PAID.")) return ref;
-
-  // If UNPAID.X -> PAID.X
-  if (ref.startsWith("UNPAID.")) return `PAID.${ref.slice("UNPAID.".length)}`;
-
-  // Normalize common values
-  if (ref === "CASH") return "PAID.CASH";
-  if (ref === "ONLINE") return "PAID.ONLINE";
-
-  // Membership is always paid, do not prefix
-  if (ref === "MEMBERSHIP") return "MEMBERSHIP";
-
-  // Otherwise prefix with PAID.
-  return `PAID.${ref}`;
-}
+type AdminClaims = { email?: string; name?: string };
 
+/**
+ * Record a payment against a booking (bookings or guest_bookings).
+ * Body (optional): { amount?, method?, reference?, note? } – no body settles the full balance in cash.
+ */
 export async function PATCH(
-  _req: Request,
+  req: Request,
   { params }: { params: { id: string } }
 ) {
   try {
     const id = params?.id;
     if (!id) return NextResponse.json({ error: "Missing id" }, { status: 400 });
 
-    // 1) Try regular bookings first
-    {
-      const Booking = await BookingModel();
-      const found = await Booking.findById(id)
-        .select({ _id: 1, orderId: 1, adminPaid: 1, paymentRef: 1 })
-        .lean<PaidDoc | null>();
-
-      if (found) {
-        const refUpper = String(found.paymentRef || "").toUpperCase();
-        const alreadyPaid =
-          found.adminPaid === true ||
-          refUpper.startsWith("PAID.") ||
-          refUpper === "MEMBERSHIP";
-
-        if (alreadyPaid) {
-          // Idempotent success
-          return NextResponse.json({ ok: true, already: true, source: "bookings" });
-        }
-
-        const nextRef = toPaidRef(found.paymentRef) || "PAID.CASH";
-
-        await Booking.updateOne(
-          { _id: id },
-          { $set: { adminPaid: true, paymentRef: nextRef } }
-        );
-
-        // 🔹 Update payment in Google Sheets using orderId as key
-        try {
-          if (found.orderId) {
-            await updateBookingPaymentById(found.orderId, nextRef, true);
-          }
-        } catch (sheetErr) {
-          console.error("Sheets update (mark-paid booking) failed:", sheetErr);
-        }
-
-        return NextResponse.json({ ok: true, source: "bookings" });
-      }
-    }
-
-    // 2) If not found in bookings, try guest_bookings
-    {
-      const GuestBooking = await GuestBookingModel();
-      const foundGuest = await GuestBooking.findById(id)
-        .select({ _id: 1, orderId: 1, adminPaid: 1, paymentRef: 1 })
-        .lean<PaidDoc | null>();
-
-      if (foundGuest) {
-        const refUpper = String(foundGuest.paymentRef || "").toUpperCase();
-        const alreadyPaid =
-          foundGuest.adminPaid === true || refUpper.startsWith("PAID.");
-
-        if (alreadyPaid) {
-          // Idempotent success
-          return NextResponse.json({ ok: true, already: true, source: "guest_bookings" });
-        }
-
-        // Guest pending should be UNPAID.CASH → mark to PAID.CASH
-        const nextRef = toPaidRef(foundGuest.paymentRef) || "PAID.CASH";
-
-        await GuestBooking.updateOne(
-          { _id: id },
-          { $set: { adminPaid: true, paymentRef: nextRef } }
-        );
-
-        // 🔹 Update payment in Google Sheets using orderId as key
-        try {
-          if (foundGuest.orderId) {
-            await updateBookingPaymentById(foundGuest.orderId, nextRef, true);
-          }
-        } catch (sheetErr) {
-          console.error("Sheets update (mark-paid guest) failed:", sheetErr);
-        }
-
-        return NextResponse.json({ ok: true, source: "guest_bookings" });
-      }
-    }
+    const body = (await req.json().catch(() => ({}))) as PaymentInput;
+    const err = validatePaymentBody(body);
+    if (err) return NextResponse.json({ error: err }, { status: 400 });
 
-    return NextResponse.json({ error: "Booking not found" }, { status: 404 });
+    const admin = getUserFromCookie<AdminClaims>();
+    const { status, body: out } = await recordBookingPayment(id, body, admin?.name || admin?.email);
+    return NextResponse.json(out, { status });
   } catch (e: unknown) {
     const message = e instanceof Error ? e.message : "Server error";
     console.error("mark-paid error:", e);
@@ -0,0 +1,25 @@
+// app/api/bookings/[id]/participants/route.ts
+import { NextResponse } from "next/server";
+import { setBookingParticipants, validateParticipantsBody, type ParticipantInput } from "@/lib/bookingPayments";
+
+/**
+ * Replace the players a booking's cost is split between.
+ * Body: { participants: [{ id?, name, phone?, share }] } – an empty list removes the split.
+ */
+export async function PUT(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const id = params?.id;
+    if (!id) return NextResponse.json({ error: "Missing id" }, { status: 400 });
+
+    const body = (await req.json().catch(() => ({}))) as { participants?: ParticipantInput[] };
+    const err = validateParticipantsBody(body.participants);
+    if (err) return NextResponse.json({ error: err }, { status: 400 });
+
+    const { status, body: out } = await setBookingParticipants(id, body.participants!);
+    return NextResponse.json(out, { status });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : "Server error";
+    console.error("booking participants error:", e);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+// app/api/bookings/[id]/payments/route.ts
+import { NextResponse } from "next/server";
+import { listBookingPayments } from "@/lib/bookingPayments";
+
+/** Payment ledger of one booking with paid / due totals. */
+export async function GET(_req: Request, { params }: { params: { id: string } }) {
+  try {
+    const id = params?.id;
+    if (!id) return NextResponse.json({ error: "Missing id" }, { status: 400 });
+
+    const ledger = await listBookingPayments(id);
+    if (!ledger) return NextResponse.json({ error: "Booking not found" }, { status: 404 });
+
+    const { booking, items, shares, paid, due } = ledger;
+    return NextResponse.json({ ok: true, items, shares, paid, due, amount: booking.amount, currency: booking.currency });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : "Server error";
+    console.error("booking payments error:", e);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
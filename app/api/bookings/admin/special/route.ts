@@ -1,10 +1,19 @@
 // app/api/bookings/admin/special/route.ts
 import { NextResponse } from "next/server";
-import { getOfferModel } from "@/models/Offer";
 import { BookingModel } from "@/models/Booking";
 import { GuestBookingModel } from "@/models/GuestBooking";
 import { UserModel } from "@/models/User"; // ⬅️ to fetch phone for member/user
 import { bookingToRows, appendRows } from "@/lib/googleSheets"; // ⬅️ Sheets helpers
+import { reserveSlots, releaseSlots, describeSlots, normalizeSlots } from "@/lib/slotReservations";
+import { findUnbookableSlots } from "@/lib/courts";
+import { quoteOfferBooking } from "@/lib/offers";
+import {
+  reserveOfferRedemption,
+  confirmOfferRedemption,
+  releaseOfferRedemption,
+  type RedemptionInput,
+} from "@/lib/offerRedemptions";
+import { withIdempotency } from "@/lib/idempotency";
 
 type SlotIn = { courtId: number; start: string; end: string };
 
@@ -26,17 +35,6 @@ type Body = {
   guestPhone?: string;
 };
 
-function toMin(hhmm: string) {
-  const m = /^(\d{1,2}):(\d{2})$/.exec(String(hhmm || "").trim());
-  if (!m) return NaN;
-  return Number(m[1]) * 60 + Number(m[2]);
-}
-
-function withinRange(hhmm: string, from: string, to: string) {
-  const v = toMin(hhmm), f = toMin(from), t = toMin(to);
-  return !Number.isNaN(v) && !Number.isNaN(f) && !Number.isNaN(t) && v >= f && v <= t;
-}
-
 function randId(n = 6) {
   const alphabet = "abcdefghijklmnopqrstuvwxyz0123456789";
   let s = "";
@@ -44,7 +42,12 @@ function randId(n = 6) {
   return s;
 }
 
+/** Retries carrying the same Idempotency-Key get the first response back. */
 export async function POST(req: Request) {
+  return withIdempotency(req, "bookings.admin.special", () => create(req));
+}
+
+async function create(req: Request) {
   try {
     const body = (await req.json()) as Body;
 
@@ -78,49 +81,29 @@ export async function POST(req: Request) {
       }
     }
 
-    // Load models
-    const Offer        = await getOfferModel();
-    const Booking      = await BookingModel();
-    const GuestBooking = await GuestBookingModel();
-
-    // Validate offer
-    const offer = await Offer.findById(body.offerId).lean();
-    if (!offer || !offer.active) {
-      return NextResponse.json({ ok: false, error: "Offer not found or inactive" }, { status: 404 });
-    }
-
-    // Date within offer window
-    const selectedDate = new Date(`${body.date}T00:00:00.000Z`);
-    if (!(selectedDate >= new Date(offer.dateFrom) && selectedDate <= new Date(offer.dateTo))) {
-      return NextResponse.json({ ok: false, error: "Selected date is outside offer range" }, { status: 400 });
+    // Slots must exist in the court catalog
+    const unbookable = await findUnbookableSlots(body.date, normalizeSlots(body.slots));
+    if (unbookable.length) {
+      return NextResponse.json({ ok: false, error: `Not bookable: ${describeSlots(unbookable)}` }, { status: 400 });
     }
 
-    // Time window validation for each slot
-    for (const s of body.slots) {
-      if (!withinRange(s.start, offer.timeFrom, offer.timeTo) || !withinRange(s.end, offer.timeFrom, offer.timeTo)) {
-        return NextResponse.json({ ok: false, error: "One or more slot times are outside offer hours" }, { status: 400 });
-      }
-    }
+    // Validate the offer (active, date / hours) and price it server-side
+    const priced = await quoteOfferBooking({
+      offerId: body.offerId,
+      date: body.date,
+      slots: normalizeSlots(body.slots),
+      ruleLabel: body.selectedRuleLabel,
+      who: body.type,
+      userEmail: isGuest ? undefined : body.userEmail,
+      phone: isGuest ? body.guestPhone : undefined,
+    });
+    if (!priced.ok) return NextResponse.json({ ok: false, error: priced.error }, { status: priced.status });
+    const perSlot = priced.quote.unitPrice;
+    const totalAmount = priced.quote.total;
 
-    // Pricing
-    let perSlot = 0;
-    if (isMember) {
-      perSlot = 0; // MEMBERSHIP = free
-    } else {
-      if (offer.type === "flat") {
-        if (typeof offer.flatPrice !== "number") {
-          return NextResponse.json({ ok: false, error: "Offer missing flatPrice" }, { status: 400 });
-        }
-        perSlot = Math.max(0, Math.round(offer.flatPrice));
-      } else {
-        const rule = (offer.rules || []).find((r) => r.label === body.selectedRuleLabel);
-        if (!rule) {
-          return NextResponse.json({ ok: false, error: "Please select a valid rule" }, { status: 400 });
-        }
-        perSlot = Math.max(0, Math.round(rule.price));
-      }
-    }
-    const totalAmount = perSlot * body.slots.length;
+    // Load models
+    const Booking      = await BookingModel();
+    const GuestBooking = await GuestBookingModel();
 
     // Build common fields
     const orderId = `admin_${Date.now()}_${randId()}`;
@@ -128,12 +111,56 @@ export async function POST(req: Request) {
       courtId: Number(s.courtId),
       start: s.start,
       end: s.end,
+      price: perSlot,
     }));
 
+
     // Default paymentRef semantics
     const paymentRef =
       body.paymentRef || (isMember ? "MEMBERSHIP" : "PAID.CASH");
 
+    // Authoritative clash check — reservations are released again if the insert fails
+    const reserved = await reserveSlots(body.date, normalizedSlots, orderId);
+    if (!reserved.ok) {
+      return NextResponse.json(
+        { ok: false, error: `Already booked: ${describeSlots(reserved.conflicts)}`, conflicts: reserved.conflicts },
+        { status: 409 }
+      );
+    }
+
+    // Offer use held before the insert so parallel bookings can't push it past its caps
+    const held = await reserveOfferRedemption(
+      {
+        offerId: priced.quote.offerId,
+        orderId,
+        date: body.date,
+        who: body.type,
+        userName: isGuest ? body.guestName : body.userName,
+        userEmail: isGuest ? undefined : body.userEmail,
+        phone: isGuest ? body.guestPhone : undefined,
+        slots: normalizeSlots(body.slots),
+        ruleLabel: priced.quote.ruleLabel,
+        amount: totalAmount,
+      },
+      priced.quote.caps
+    ).catch(async (holdErr) => {
+      await releaseSlots(orderId);
+      throw holdErr;
+    });
+    if (!held.ok) {
+      await releaseSlots(orderId);
+      return NextResponse.json({ ok: false, error: held.error }, { status: 409 });
+    }
+
+    // Confirm the offer use; the booking stands even if this write fails
+    const logRedemption = async (r: Pick<RedemptionInput, "bookingId" | "source" | "phone">) => {
+      try {
+        await confirmOfferRedemption(held.id, r);
+      } catch (e) {
+        console.error("Offer redemption record failed:", e);
+      }
+    };
+
     // =========================
     // Guest special bookings
     // =========================
@@ -149,6 +176,10 @@ export async function POST(req: Request) {
         status: "PAID",
         paymentRef,
         adminPaid: true,
+      }).catch(async (createErr) => {
+        await releaseSlots(orderId);
+        await releaseOfferRedemption(held.id);
+        throw createErr;
       });
 
       // ---- Google Sheets append (guest) ----
@@ -170,6 +201,8 @@ export async function POST(req: Request) {
         console.error("Sheets append (special guest) failed:", sheetErr);
       }
 
+      await logRedemption({ bookingId: String(created._id), source: "guest_bookings" });
+
       return NextResponse.json({
         ok: true,
         bookingId: String(created._id),
@@ -193,6 +226,10 @@ export async function POST(req: Request) {
       userId: body.userId || undefined,
       userName: body.userName || "—",
       userEmail: body.userEmail || undefined,
+    }).catch(async (createErr) => {
+      await releaseSlots(orderId);
+      await releaseOfferRedemption(held.id);
+      throw createErr;
     });
 
     // Resolve phone for member/user if possible
@@ -227,6 +264,8 @@ export async function POST(req: Request) {
       console.error("Sheets append (special member/user) failed:", sheetErr);
     }
 
+    await logRedemption({ bookingId: String(created._id), source: "bookings", phone: phoneForSheet || undefined });
+
     return NextResponse.json({
       ok: true,
       bookingId: String(created._id),
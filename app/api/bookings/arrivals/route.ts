@@ -0,0 +1,52 @@
+// app/api/bookings/arrivals/route.ts
+import { NextResponse } from "next/server";
+import { listArrivals, checkInByCode } from "@/lib/attendance";
+import { noShowHistory } from "@/lib/noShows";
+
+const isYMD = (s: string) => /^\d{4}-\d{2}-\d{2}$/.test(s);
+
+/** Booked slots for a date with check-in state and each player's no-show count. */
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const date = (searchParams.get("date") || "").trim();
+    if (!isYMD(date)) return NextResponse.json({ error: "date (YYYY-MM-DD) is required" }, { status: 400 });
+
+    const arrivals = await listArrivals(date);
+
+    // one history lookup per player (email for members/users, phone for guests)
+    const keyOf = (a: (typeof arrivals)[number]) => (a.who === "guest" ? `p:${a.phone || ""}` : `e:${a.userEmail || ""}`);
+    const counts = new Map<string, number>();
+    for (const a of arrivals) {
+      const key = keyOf(a);
+      if (counts.has(key)) continue;
+      const history = await noShowHistory(a.who === "guest" ? { phone: a.phone } : { userEmail: a.userEmail });
+      counts.set(key, history.length);
+    }
+
+    const items = arrivals.map((a) => ({ ...a, noShows: counts.get(keyOf(a)) ?? 0 }));
+    return NextResponse.json({ ok: true, date, items });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : "Server error";
+    console.error("arrivals error:", e);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/** Check in by booking code. Body: { code, date } */
+export async function POST(req: Request) {
+  try {
+    const body = (await req.json().catch(() => ({}))) as { code?: string; date?: string };
+    const code = String(body.code || "").trim();
+    const date = String(body.date || "").trim();
+    if (!code) return NextResponse.json({ error: "Missing code" }, { status: 400 });
+    if (!isYMD(date)) return NextResponse.json({ error: "date (YYYY-MM-DD) is required" }, { status: 400 });
+
+    const { status, body: out } = await checkInByCode(code, date);
+    return NextResponse.json(out, { status });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : "Server error";
+    console.error("check-in error:", e);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+// app/api/bookings/availability/range/route.ts
+import { NextResponse } from "next/server";
+import { getScheduleRange, MAX_SCHEDULE_DAYS } from "@/lib/schedule";
+import { addDaysYMD } from "@/lib/courts";
+
+const YMD = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET ?from=YYYY-MM-DD&to=YYYY-MM-DD[&courtId=N]
+ * Per date and court, every grid cell with its state (free / booked / pending / blocked / held).
+ */
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const from = (searchParams.get("from") || "").trim();
+    const to = (searchParams.get("to") || "").trim() || from;
+    const courtIdRaw = (searchParams.get("courtId") || "").trim();
+
+    if (!YMD.test(from) || !YMD.test(to)) {
+      return NextResponse.json({ error: "from/to must be YYYY-MM-DD" }, { status: 400 });
+    }
+    if (from > to) return NextResponse.json({ error: "from must be on or before to" }, { status: 400 });
+    if (addDaysYMD(from, MAX_SCHEDULE_DAYS - 1) < to) {
+      return NextResponse.json({ error: `Range is limited to ${MAX_SCHEDULE_DAYS} days` }, { status: 400 });
+    }
+    const courtId = courtIdRaw && Number.isFinite(Number(courtIdRaw)) ? Number(courtIdRaw) : undefined;
+
+    const days = await getScheduleRange(from, to, courtId);
+    return NextResponse.json({ from, to, days });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : "Server error";
+    console.error("availability range error:", e);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
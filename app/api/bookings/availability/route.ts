@@ -1,26 +1,33 @@
 // app/api/bookings/availability/route.ts
 import { NextResponse } from "next/server";
-import { BookingModel } from "@/models/Booking";
-import { GuestBookingModel } from "@/models/GuestBooking";
+import { listBookings } from "@/lib/bookingService";
+import { getCourtGrid } from "@/lib/courts";
+import { getHoliday } from "@/lib/holidays";
+import { blocksForDate, blockCovering, type BlockedCell } from "@/lib/courtBlocks";
+import { SlotReservationModel } from "@/models/SlotReservation";
 
 type SlotLoose = { courtId: number | string; start: string; end: string };
-type BookingSlotsOnly = { slots?: SlotLoose[] };
 
 export async function GET(req: Request) {
   try {
     const { searchParams } = new URL(req.url);
     const date = (searchParams.get("date") || "").trim();
-    if (!date) return NextResponse.json({ availability: {} });
+    if (!date) return NextResponse.json({ availability: {}, courts: [], holiday: null, blocked: {} });
 
-    const Booking = await BookingModel();
-    const GuestBooking = await GuestBookingModel();
+    const SlotReservation = await SlotReservationModel();
 
-    const [docsA, docsG] = await Promise.all([
-      Booking.find({ date }).select({ slots: 1 }).lean<BookingSlotsOnly[]>(),
-      GuestBooking.find({ date }).select({ slots: 1 }).lean<BookingSlotsOnly[]>(),
+    const [bookings, holds, courts, holiday, blocks] = await Promise.all([
+      listBookings({ date }, { resolvePhones: false }), // bookings + guest_bookings
+      // temporary holds (waitlist offers) block the slot like a booking until they lapse
+      SlotReservation.find({ date, expiresAt: { $gt: new Date() } })
+        .select({ courtId: 1, start: 1, end: 1 })
+        .lean<SlotLoose[]>(),
+      getCourtGrid(date), // courts open that day + their slot grid
+      getHoliday(date),   // premium / closed / special hours note for the desk
+      blocksForDate(date), // maintenance / coaching / tournament block-outs
     ]);
 
-    const all = [...docsA, ...docsG];
+    const all: { slots?: SlotLoose[] }[] = [...bookings, { slots: holds }];
 
     const availability: Record<number, { start: string; end: string }[]> = {};
     for (const b of all) {
@@ -33,7 +40,19 @@ export async function GET(req: Request) {
       }
     }
 
-    return NextResponse.json({ availability });
+    // grid cells inside a block – shown distinctly (and not bookable)
+    const blocked: Record<number, BlockedCell[]> = {};
+    if (blocks.length) {
+      for (const c of courts) {
+        for (const s of c.slots) {
+          const b = blockCovering(blocks, s);
+          if (!b) continue;
+          (blocked[c.courtId] ||= []).push({ start: s.start, end: s.end, reason: b.reason, kind: b.kind });
+        }
+      }
+    }
+
+    return NextResponse.json({ availability, courts, holiday, blocked });
   } catch (e: unknown) {
     const message = e instanceof Error ? e.message : "Server error";
     console.error("availability error:", e);
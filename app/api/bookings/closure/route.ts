@@ -0,0 +1,39 @@
+// app/api/bookings/closure/route.ts
+import { NextResponse } from "next/server";
+import { getUserFromCookie } from "@/lib/auth";
+import { closeVenue, validateClosureBody, type ClosureInput } from "@/lib/venueClosure";
+
+type AdminClaims = { email?: string; name?: string };
+
+/**
+ * Venue closure: cancel every booked slot in a date/time window on the given courts.
+ * Body: { date, timeFrom?, timeTo?, courtIds?, reason, blockCourts?, dryRun?, exclude? }
+ * `dryRun: true` only lists the affected bookings. Otherwise one chunk is cancelled; repeat
+ * the call (blockCourts off, failed bookings in `exclude`) while `remaining` > 0.
+ */
+export async function POST(req: Request) {
+  try {
+    const body = (await req.json().catch(() => ({}))) as Partial<ClosureInput>;
+    const err = validateClosureBody(body);
+    if (err) return NextResponse.json({ error: err }, { status: 400 });
+
+    const admin = getUserFromCookie<AdminClaims>();
+
+    const report = await closeVenue({
+      date: String(body.date),
+      timeFrom: body.timeFrom || undefined,
+      timeTo: body.timeTo || undefined,
+      courtIds: body.courtIds || [],
+      reason: String(body.reason),
+      blockCourts: body.blockCourts === true,
+      dryRun: body.dryRun === true,
+      exclude: body.exclude || [],
+      admin: admin?.name || admin?.email,
+    });
+    return NextResponse.json({ ok: true, ...report });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : "Server error";
+    console.error("venue closure error:", e);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
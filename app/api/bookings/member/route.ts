@@ -1,8 +1,21 @@
 // app/api/bookings/member/route.ts
 import { NextResponse } from "next/server";
 import { BookingModel } from "@/models/Booking";
-import { MembershipModel } from "@/models/Membership";
+import {
+  MembershipModel,
+  backfillValidity,
+  usableMembershipFilter,
+  creditGuardError,
+  creditPipeline,
+  linkCreditsToBooking,
+  type MembershipDoc,
+} from "@/models/Membership";
+import { getUserFromCookie } from "@/lib/auth";
 import { UserModel } from "@/models/User";
+import { reserveSlots, releaseSlots, describeSlots, normalizeSlots } from "@/lib/slotReservations";
+import { findUnbookableSlots } from "@/lib/courts";
+import { withIdempotency } from "@/lib/idempotency";
+import { slotsOutsideTerms } from "@/lib/membershipPlans";
 
 type Slot = { courtId: number; start: string; end: string };
 type Body = {
@@ -13,11 +26,18 @@ type Body = {
   userName?: string;     // optional display name to store on booking row
 };
 
+type AdminClaims = { email?: string; name?: string };
+
 function genMemFreeOrderId() {
   return `memfree_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
 }
 
+/** Retries carrying the same Idempotency-Key get the first response back. */
 export async function POST(req: Request) {
+  return withIdempotency(req, "bookings.member", () => create(req));
+}
+
+async function create(req: Request) {
   try {
     const body = (await req.json().catch(() => ({}))) as Body;
     const { date, slots, userEmail, userId, userName } = body || {};
@@ -30,6 +50,11 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Need userEmail or userId to resolve membership" }, { status: 400 });
     }
 
+    const unbookable = await findUnbookableSlots(date, normalizeSlots(slots));
+    if (unbookable.length) {
+      return NextResponse.json({ error: `Not bookable: ${describeSlots(unbookable)}` }, { status: 400 });
+    }
+
     // Resolve users._id (memberships store users._id as string in membership.userId)
     const User = await UserModel();
     const userDoc = await User.findOne({
@@ -44,49 +69,104 @@ export async function POST(req: Request) {
     }
     const userObjectIdStr = String(userDoc._id);
 
-    // Atomically consume credits: require enough remaining (games - gamesUsed >= slots.length)
+    // Credits only count inside the membership's validity window (play date). The membership
+    // is picked once: its plan's court / hour limits are checked and its credits taken.
     const slotsCount = Math.max(1, slots.length);
+    await backfillValidity({ userId: userObjectIdStr });
     const Membership = await MembershipModel();
-    const updated = await Membership.findOneAndUpdate(
-      {
-        userId: userObjectIdStr,
-        status: "PAID",
-        $expr: { $lte: ["$gamesUsed", { $subtract: ["$games", slotsCount] }] },
-      },
-      [
-        { $set: { gamesUsed: { $add: ["$gamesUsed", slotsCount] } } },
-      ] as unknown as import("mongoose").UpdateWithAggregationPipeline,
-      { new: true, sort: { createdAt: -1 } }
-    );
-
-    if (!updated) {
+    const usable = usableMembershipFilter(userObjectIdStr, date, slotsCount);
+    const current = await Membership.findOne(usable)
+      .sort({ createdAt: -1 })
+      .select({ planTerms: 1 })
+      .lean<(Pick<MembershipDoc, "planTerms"> & { _id: unknown }) | null>();
+    if (!current) {
+      return NextResponse.json({ error: await creditGuardError(userObjectIdStr, date) }, { status: 400 });
+    }
+    const outside = slotsOutsideTerms(current.planTerms, slots);
+    if (outside) return NextResponse.json({ error: `${outside}. Book as a user.` }, { status: 400 });
+
+    // Hold the slots first
+    const orderId = genMemFreeOrderId();
+    const reserved = await reserveSlots(date, slots, orderId);
+    if (!reserved.ok) {
       return NextResponse.json(
-        { error: "Membership credits are over. Book as a user." },
-        { status: 400 }
+        { error: `Already booked: ${describeSlots(reserved.conflicts)}`, conflicts: reserved.conflicts },
+        { status: 409 }
       );
     }
 
-    // Create PAID membership booking
-    const Booking = await BookingModel();
-    const created = await Booking.create({
-      orderId: genMemFreeOrderId(),     // e.g., "memfree_1760949124241_4jicdh"
-      userId: userId || undefined,      // store your username if you keep it
-      userName: userName || userDoc.name || "—",
-      userEmail: userEmail ? String(userEmail).toLowerCase() : (userDoc.email || undefined),
-      date,
-      slots,
-      amount: 0,
-      currency: "INR",
-      status: "PAID",
-      paymentRef: "MEMBERSHIP",         // 🔴 key piece
-      adminPaid: true,                  // hide "Mark Paid" button in UI
-
-      // NEW metadata for table columns/filters
-      bookingType: "Normal",            // member flow = normal (not special/individual)
-      who: "member",
-    });
-
-    return NextResponse.json({ ok: true, id: String(created._id) });
+    // From here on the hold is released on the way out (early return or a throw) unless the booking was saved
+    let saved = false;
+    try {
+      // Atomically consume credits on that membership; the same filter again so credits used
+      // meanwhile (or an expiry / freeze) still block the booking
+      const admin = getUserFromCookie<AdminClaims>();
+      const updated = await Membership.findOneAndUpdate(
+        { ...usable, _id: current._id },
+        creditPipeline(slotsCount, {
+          reason: "booking",
+          orderId,
+          date,
+          slots: reserved.slots,
+          admin: admin?.name || admin?.email,
+        }),
+        { new: true }
+      );
+
+      if (!updated) {
+        return NextResponse.json(
+          { error: await creditGuardError(userObjectIdStr, date) },
+          { status: 400 }
+        );
+      }
+
+      // Create PAID membership booking
+      const Booking = await BookingModel();
+      const created = await Booking.create({
+        orderId,                          // e.g., "memfree_1760949124241_4jicdh"
+        userId: userId || undefined,      // store your username if you keep it
+        userName: userName || userDoc.name || "—",
+        userEmail: userEmail ? String(userEmail).toLowerCase() : (userDoc.email || undefined),
+        date,
+        slots: reserved.slots,
+        amount: 0,
+        currency: "INR",
+        status: "PAID",
+        paymentRef: "MEMBERSHIP",         // 🔴 key piece
+        adminPaid: true,                  // hide "Mark Paid" button in UI
+
+        // NEW metadata for table columns/filters
+        bookingType: "Normal",            // member flow = normal (not special/individual)
+        who: "member",
+      }).catch(async (createErr) => {
+        try {
+          await Membership.findOneAndUpdate(
+            { _id: updated._id },
+            creditPipeline(-slotsCount, { reason: "rollback", orderId, date, note: "Booking could not be saved" })
+          );
+        } catch (rollbackErr) {
+          console.error("Rollback membership credits failed:", rollbackErr);
+        }
+        throw createErr;
+      });
+      saved = true;
+
+      try {
+        await linkCreditsToBooking(orderId, String(created._id));
+      } catch (e) {
+        console.error("Credit ledger link failed:", e);
+      }
+
+      return NextResponse.json({ ok: true, id: String(created._id) });
+    } finally {
+      if (!saved) {
+        try {
+          await releaseSlots(orderId);
+        } catch (releaseErr) {
+          console.error("Release slot reservations failed:", releaseErr);
+        }
+      }
+    }
   } catch (e) {
     console.error("member booking create error:", e);
     const msg = e instanceof Error ? e.message : "Server error";
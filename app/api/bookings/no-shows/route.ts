@@ -0,0 +1,20 @@
+// app/api/bookings/no-shows/route.ts
+import { NextResponse } from "next/server";
+import { noShowHistory, noShowPolicy } from "@/lib/noShows";
+
+/** No-show history of one player: ?email= (members/users) and/or ?phone= (guests). */
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const userEmail = (searchParams.get("email") || "").trim();
+    const phone = (searchParams.get("phone") || "").trim();
+    if (!userEmail && !phone) return NextResponse.json({ error: "email or phone is required" }, { status: 400 });
+
+    const items = await noShowHistory({ userEmail, phone });
+    return NextResponse.json({ ok: true, items, policy: noShowPolicy() });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : "Server error";
+    console.error("no-show history error:", e);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+// app/api/bookings/series/[seriesId]/route.ts
+import { NextResponse } from "next/server";
+import { getUserFromCookie } from "@/lib/auth";
+import { cancelBookingSeries } from "@/lib/bookingSeries";
+
+type AdminClaims = { email?: string; name?: string };
+
+/**
+ * Cancel an occurrence of a series (`scope: "one"`) or it and every later
+ * occurrence (`scope: "following"`). Body: { bookingId, scope }.
+ */
+export async function DELETE(req: Request, { params }: { params: { seriesId: string } }) {
+  try {
+    const body = (await req.json().catch(() => ({}))) as { bookingId?: string; scope?: string };
+    const bookingId = String(body.bookingId || "");
+    const scope = body.scope === "following" ? "following" : body.scope === "one" ? "one" : null;
+
+    if (!bookingId) return NextResponse.json({ error: "Missing bookingId" }, { status: 400 });
+    if (!scope) return NextResponse.json({ error: "scope must be one or following" }, { status: 400 });
+
+    const admin = getUserFromCookie<AdminClaims>();
+    const { status, error, result } = await cancelBookingSeries(
+      params.seriesId,
+      bookingId,
+      scope,
+      admin?.name || admin?.email
+    );
+    if (!result) return NextResponse.json({ error }, { status });
+
+    if (result.cancelled.length === 0 && result.failed.length > 0) {
+      return NextResponse.json({ error: result.failed[0].error, ...result }, { status: 502 });
+    }
+    return NextResponse.json({ ok: true, seriesId: params.seriesId, ...result });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : "Server error";
+    console.error("booking series cancel error:", e);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
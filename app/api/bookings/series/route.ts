@@ -0,0 +1,57 @@
+// app/api/bookings/series/route.ts
+import { NextResponse } from "next/server";
+import type { AdminCreateBody } from "@/lib/adminBooking";
+import { createBookingSeries, MAX_SERIES_OCCURRENCES, type SeriesFrequency } from "@/lib/bookingSeries";
+import { withIdempotency } from "@/lib/idempotency";
+import { getUserFromCookie } from "@/lib/auth";
+
+type SeriesBody = AdminCreateBody & { frequency?: SeriesFrequency; count?: number };
+type AdminClaims = { email?: string; name?: string };
+
+/**
+ * Create a recurring series: same slots, same customer, `count` occurrences
+ * `frequency` apart starting at `date`. Conflicting dates are skipped and returned.
+ * Retries carrying the same Idempotency-Key get the first response back.
+ */
+export async function POST(req: Request) {
+  return withIdempotency(req, "bookings.series", () => create(req));
+}
+
+async function create(req: Request) {
+  try {
+    const body = (await req.json().catch(() => ({}))) as SeriesBody;
+    const { frequency, count, ...base } = body;
+
+    if (frequency !== "weekly" && frequency !== "daily") {
+      return NextResponse.json({ error: "frequency must be weekly or daily" }, { status: 400 });
+    }
+    const n = Number(count);
+    if (!Number.isInteger(n) || n < 2 || n > MAX_SERIES_OCCURRENCES) {
+      return NextResponse.json(
+        { error: `count must be between 2 and ${MAX_SERIES_OCCURRENCES}` },
+        { status: 400 }
+      );
+    }
+    if (!base.date || !/^\d{4}-\d{2}-\d{2}$/.test(String(base.date))) {
+      return NextResponse.json({ error: "Missing date" }, { status: 400 });
+    }
+
+    const admin = getUserFromCookie<AdminClaims>();
+    const { seriesId, created, skipped } = await createBookingSeries(
+      { ...base, admin: admin?.name || admin?.email },
+      frequency,
+      n
+    );
+    if (created.length === 0) {
+      return NextResponse.json(
+        { error: skipped[0]?.error || "No occurrence could be booked", skipped },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json({ ok: true, seriesId, created, skipped });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : "Server error";
+    console.error("booking series create error:", e);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+// app/api/cancellation-policies/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { CancellationPolicyModel } from "@/models/CancellationPolicy";
+import { validateCancellationPolicyBody, normalizeTiers } from "@/lib/cancellationPolicy";
+
+function bad(msg: string, status = 400) {
+  return NextResponse.json({ ok: false, error: msg }, { status });
+}
+
+export async function PUT(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const body = await req.json();
+    const err = validateCancellationPolicyBody(body, true);
+    if (err) return bad(err);
+
+    // allow partial updates
+    const updates: any = {};
+    const keys = ["name", "appliesTo", "tiers", "active"];
+    for (const k of keys) {
+      if (k in body) updates[k] = body[k];
+    }
+    if ("name" in updates) updates.name = String(updates.name).trim();
+    if ("tiers" in updates) updates.tiers = normalizeTiers(updates.tiers);
+
+    const Policy = await CancellationPolicyModel();
+    const item = await Policy.findByIdAndUpdate(params.id, { $set: updates }, { new: true, runValidators: true });
+    if (!item) return bad("Cancellation policy not found", 404);
+
+    return NextResponse.json({ ok: true, item });
+  } catch (e: any) {
+    console.error("cancellation policies update error:", e);
+    return bad(e?.message || "Failed to update cancellation policy", 500);
+  }
+}
+
+export async function DELETE(_: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const Policy = await CancellationPolicyModel();
+    const res = await Policy.findByIdAndDelete(params.id);
+    if (!res) return bad("Cancellation policy not found", 404);
+    return NextResponse.json({ ok: true, deletedId: params.id });
+  } catch (e: any) {
+    console.error("cancellation policies delete error:", e);
+    return bad(e?.message || "Failed to delete cancellation policy", 500);
+  }
+}
@@ -0,0 +1,40 @@
+// app/api/cancellation-policies/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { CancellationPolicyModel } from "@/models/CancellationPolicy";
+import { validateCancellationPolicyBody, normalizeTiers } from "@/lib/cancellationPolicy";
+
+function bad(msg: string, status = 400) {
+  return NextResponse.json({ ok: false, error: msg }, { status });
+}
+
+export async function GET() {
+  try {
+    const Policy = await CancellationPolicyModel();
+    const items = await Policy.find({}).sort({ active: -1, updatedAt: -1 }).lean();
+    return NextResponse.json({ ok: true, items });
+  } catch (e: any) {
+    console.error("cancellation policies list error:", e);
+    return bad(e?.message || "Failed to load cancellation policies", 500);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const err = validateCancellationPolicyBody(body);
+    if (err) return bad(err);
+
+    const Policy = await CancellationPolicyModel();
+    const item = await Policy.create({
+      name: String(body.name).trim(),
+      appliesTo: Array.isArray(body.appliesTo) ? body.appliesTo : [],
+      tiers: normalizeTiers(body.tiers),
+      active: body.active !== false,
+    });
+
+    return NextResponse.json({ ok: true, item });
+  } catch (e: any) {
+    console.error("cancellation policies create error:", e);
+    return bad(e?.message || "Failed to create cancellation policy", 500);
+  }
+}
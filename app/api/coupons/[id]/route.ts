@@ -0,0 +1,59 @@
+// app/api/coupons/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { CouponModel } from "@/models/Coupon";
+import { validateCouponBody, normalizeCode } from "@/lib/coupons";
+
+function bad(msg: string, status = 400) {
+  return NextResponse.json({ ok: false, error: msg }, { status });
+}
+
+export async function PUT(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const body = await req.json();
+    const err = validateCouponBody(body, true);
+    if (err) return bad(err);
+
+    // allow partial updates; null clears an optional limit
+    const updates: any = {};
+    const keys = [
+      "code",
+      "description",
+      "kind",
+      "value",
+      "maxDiscount",
+      "minAmount",
+      "products",
+      "validFrom",
+      "validTo",
+      "maxUses",
+      "maxUsesPerCustomer",
+      "active",
+    ];
+    for (const k of keys) {
+      if (k in body) updates[k] = body[k] === "" ? null : body[k];
+    }
+    if ("code" in updates) updates.code = normalizeCode(updates.code);
+
+    const Coupon = await CouponModel();
+    const item = await Coupon.findByIdAndUpdate(params.id, { $set: updates }, { new: true, runValidators: true });
+    if (!item) return bad("Coupon not found", 404);
+
+    return NextResponse.json({ ok: true, item });
+  } catch (e: any) {
+    if ((e as { code?: number })?.code === 11000) return bad("A coupon with this code already exists", 409);
+    console.error("coupons update error:", e);
+    return bad(e?.message || "Failed to update coupon", 500);
+  }
+}
+
+export async function DELETE(_: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const Coupon = await CouponModel();
+    const res = await Coupon.findByIdAndDelete(params.id);
+    if (!res) return bad("Coupon not found", 404);
+    return NextResponse.json({ ok: true, deletedId: params.id });
+  } catch (e: any) {
+    console.error("coupons delete error:", e);
+    return bad(e?.message || "Failed to delete coupon", 500);
+  }
+}
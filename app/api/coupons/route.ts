@@ -0,0 +1,53 @@
+// app/api/coupons/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { CouponModel } from "@/models/Coupon";
+import { validateCouponBody, normalizeCode, couponUsage } from "@/lib/coupons";
+
+function bad(msg: string, status = 400) {
+  return NextResponse.json({ ok: false, error: msg }, { status });
+}
+
+export async function GET() {
+  try {
+    const Coupon = await CouponModel();
+    const [coupons, usage] = await Promise.all([
+      Coupon.find({}).sort({ active: -1, updatedAt: -1 }).lean(),
+      couponUsage(),
+    ]);
+    const items = coupons.map((c) => ({ ...c, usage: usage.get(String(c._id)) || { uses: 0, discount: 0 } }));
+    return NextResponse.json({ ok: true, items });
+  } catch (e: any) {
+    console.error("coupons list error:", e);
+    return bad(e?.message || "Failed to load coupons", 500);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const err = validateCouponBody(body);
+    if (err) return bad(err);
+
+    const Coupon = await CouponModel();
+    const item = await Coupon.create({
+      code: normalizeCode(body.code),
+      description: body.description || "",
+      kind: body.kind,
+      value: body.value,
+      maxDiscount: body.kind === "percent" ? body.maxDiscount ?? undefined : undefined,
+      minAmount: body.minAmount ?? undefined,
+      products: body.products,
+      validFrom: body.validFrom || undefined,
+      validTo: body.validTo || undefined,
+      maxUses: body.maxUses ?? undefined,
+      maxUsesPerCustomer: body.maxUsesPerCustomer ?? undefined,
+      active: body.active !== false,
+    });
+
+    return NextResponse.json({ ok: true, item });
+  } catch (e: any) {
+    if ((e as { code?: number })?.code === 11000) return bad("A coupon with this code already exists", 409);
+    console.error("coupons create error:", e);
+    return bad(e?.message || "Failed to create coupon", 500);
+  }
+}
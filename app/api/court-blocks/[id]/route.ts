@@ -0,0 +1,52 @@
+// app/api/court-blocks/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { CourtBlockModel } from "@/models/CourtBlock";
+import { validateCourtBlockBody } from "@/lib/courtBlocks";
+
+function bad(msg: string, status = 400) {
+  return NextResponse.json({ ok: false, error: msg }, { status });
+}
+
+export async function PUT(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const body = await req.json();
+    const err = validateCourtBlockBody(body, true);
+    if (err) return bad(err);
+
+    // allow partial updates; blank times mean "whole day"
+    const updates: any = {};
+    const unset: Record<string, 1> = {};
+    const keys = ["reason", "kind", "courtIds", "dateFrom", "dateTo", "timeFrom", "timeTo", "weekdays", "active"];
+    for (const k of keys) {
+      if (!(k in body)) continue;
+      if ((k === "timeFrom" || k === "timeTo") && !body[k]) unset[k] = 1;
+      else updates[k] = body[k];
+    }
+    if ("reason" in updates) updates.reason = String(updates.reason).trim();
+
+    const CourtBlock = await CourtBlockModel();
+    const item = await CourtBlock.findByIdAndUpdate(
+      params.id,
+      { $set: updates, ...(Object.keys(unset).length ? { $unset: unset } : {}) },
+      { new: true, runValidators: true }
+    );
+    if (!item) return bad("Court block not found", 404);
+
+    return NextResponse.json({ ok: true, item });
+  } catch (e: any) {
+    console.error("court blocks update error:", e);
+    return bad(e?.message || "Failed to update court block", 500);
+  }
+}
+
+export async function DELETE(_: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const CourtBlock = await CourtBlockModel();
+    const res = await CourtBlock.findByIdAndDelete(params.id);
+    if (!res) return bad("Court block not found", 404);
+    return NextResponse.json({ ok: true, deletedId: params.id });
+  } catch (e: any) {
+    console.error("court blocks delete error:", e);
+    return bad(e?.message || "Failed to delete court block", 500);
+  }
+}
@@ -0,0 +1,51 @@
+// app/api/court-blocks/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { CourtBlockModel } from "@/models/CourtBlock";
+import { validateCourtBlockBody } from "@/lib/courtBlocks";
+
+function bad(msg: string, status = 400) {
+  return NextResponse.json({ ok: false, error: msg }, { status });
+}
+
+/** GET ?from=YYYY-MM-DD → blocks still running on/after that date (default: all). */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const from = (searchParams.get("from") || "").trim();
+
+    const CourtBlock = await CourtBlockModel();
+    const items = await CourtBlock.find(from ? { dateTo: { $gte: from } } : {})
+      .sort({ dateFrom: 1, timeFrom: 1 })
+      .lean();
+    return NextResponse.json({ ok: true, items });
+  } catch (e: any) {
+    console.error("court blocks list error:", e);
+    return bad(e?.message || "Failed to load court blocks", 500);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const err = validateCourtBlockBody(body);
+    if (err) return bad(err);
+
+    const CourtBlock = await CourtBlockModel();
+    const item = await CourtBlock.create({
+      reason: String(body.reason).trim(),
+      kind: body.kind || "maintenance",
+      courtIds: Array.isArray(body.courtIds) ? body.courtIds : [],
+      dateFrom: body.dateFrom,
+      dateTo: body.dateTo,
+      timeFrom: body.timeFrom || undefined,
+      timeTo: body.timeTo || undefined,
+      weekdays: Array.isArray(body.weekdays) ? body.weekdays : [],
+      active: body.active !== false,
+    });
+
+    return NextResponse.json({ ok: true, item });
+  } catch (e: any) {
+    console.error("court blocks create error:", e);
+    return bad(e?.message || "Failed to create court block", 500);
+  }
+}
@@ -0,0 +1,55 @@
+// app/api/courts/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { CourtModel } from "@/models/Court";
+import { ensureCourtsSeeded, validateCourtBody } from "@/lib/courts";
+
+function bad(msg: string, status = 400) {
+  return NextResponse.json({ ok: false, error: msg }, { status });
+}
+
+// [id] is the numeric courtId (the fallback courts have no _id yet)
+export async function PUT(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const courtId = Number(params.id);
+    if (!Number.isInteger(courtId)) return bad("Invalid court id");
+
+    const body = await req.json();
+    const err = validateCourtBody(body, true);
+    if (err) return bad(err);
+
+    // allow partial updates; courtId itself is immutable (bookings reference it)
+    const updates: any = {};
+    const keys = ["name", "active", "hours", "slotMinutes", "sortOrder"];
+    for (const k of keys) if (k in body) updates[k] = body[k];
+    if ("name" in updates) updates.name = String(updates.name).trim();
+
+    await ensureCourtsSeeded();
+    const Court = await CourtModel();
+    const item = await Court.findOneAndUpdate({ courtId }, updates, {
+      new: true,
+      runValidators: true,
+    });
+    if (!item) return bad("Court not found", 404);
+
+    return NextResponse.json({ ok: true, item });
+  } catch (e: any) {
+    console.error("courts update error:", e);
+    return bad(e?.message || "Failed to update court", 500);
+  }
+}
+
+export async function DELETE(_: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const courtId = Number(params.id);
+    if (!Number.isInteger(courtId)) return bad("Invalid court id");
+
+    await ensureCourtsSeeded();
+    const Court = await CourtModel();
+    const res = await Court.findOneAndDelete({ courtId });
+    if (!res) return bad("Court not found", 404);
+    return NextResponse.json({ ok: true, deletedId: courtId });
+  } catch (e: any) {
+    console.error("courts delete error:", e);
+    return bad(e?.message || "Failed to delete court", 500);
+  }
+}
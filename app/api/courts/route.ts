@@ -0,0 +1,52 @@
+// app/api/courts/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { CourtModel } from "@/models/Court";
+import {
+  getCourtCatalog,
+  ensureCourtsSeeded,
+  validateCourtBody,
+  defaultHours,
+  DEFAULT_SLOT_MINUTES,
+} from "@/lib/courts";
+
+function bad(msg: string, status = 400) {
+  return NextResponse.json({ ok: false, error: msg }, { status });
+}
+
+export async function GET() {
+  try {
+    // includes the fallback courts until the first court is saved
+    const items = await getCourtCatalog({ includeInactive: true });
+    return NextResponse.json({ ok: true, items });
+  } catch (e: any) {
+    console.error("courts list error:", e);
+    return bad(e?.message || "Failed to load courts", 500);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const err = validateCourtBody(body);
+    if (err) return bad(err);
+
+    await ensureCourtsSeeded();
+    const Court = await CourtModel();
+    const exists = await Court.exists({ courtId: body.courtId });
+    if (exists) return bad(`Court ${body.courtId} already exists`, 409);
+
+    const item = await Court.create({
+      courtId: body.courtId,
+      name: String(body.name).trim(),
+      active: body.active ?? true,
+      hours: Array.isArray(body.hours) ? body.hours : defaultHours(),
+      slotMinutes: body.slotMinutes ?? DEFAULT_SLOT_MINUTES,
+      sortOrder: body.sortOrder ?? body.courtId,
+    });
+
+    return NextResponse.json({ ok: true, item });
+  } catch (e: any) {
+    console.error("courts create error:", e);
+    return bad(e?.message || "Failed to create court", 500);
+  }
+}
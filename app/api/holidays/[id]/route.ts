@@ -0,0 +1,57 @@
+// app/api/holidays/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { HolidayModel } from "@/models/Holiday";
+import { validateHolidayBody } from "@/lib/holidays";
+
+function bad(msg: string, status = 400) {
+  return NextResponse.json({ ok: false, error: msg }, { status });
+}
+
+export async function PUT(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const body = await req.json();
+    const err = validateHolidayBody(body, true);
+    if (err) return bad(err);
+
+    // allow partial updates; hours only survive on special_hours days
+    const updates: any = {};
+    const keys = ["date", "name", "kind", "open", "close"];
+    for (const k of keys) if (k in body) updates[k] = body[k];
+    if ("name" in updates) updates.name = String(updates.name).trim();
+    const unset = "kind" in updates && updates.kind !== "special_hours" ? { open: 1, close: 1 } : null;
+    if (unset) {
+      delete updates.open;
+      delete updates.close;
+    }
+
+    const Holiday = await HolidayModel();
+    if ("date" in updates) {
+      const clash = await Holiday.exists({ date: updates.date, _id: { $ne: params.id } });
+      if (clash) return bad(`${updates.date} is already in the calendar`, 409);
+    }
+
+    const item = await Holiday.findByIdAndUpdate(
+      params.id,
+      { $set: updates, ...(unset ? { $unset: unset } : {}) },
+      { new: true, runValidators: true }
+    );
+    if (!item) return bad("Holiday not found", 404);
+
+    return NextResponse.json({ ok: true, item });
+  } catch (e: any) {
+    console.error("holidays update error:", e);
+    return bad(e?.message || "Failed to update holiday", 500);
+  }
+}
+
+export async function DELETE(_: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const Holiday = await HolidayModel();
+    const res = await Holiday.findByIdAndDelete(params.id);
+    if (!res) return bad("Holiday not found", 404);
+    return NextResponse.json({ ok: true, deletedId: params.id });
+  } catch (e: any) {
+    console.error("holidays delete error:", e);
+    return bad(e?.message || "Failed to delete holiday", 500);
+  }
+}
@@ -0,0 +1,46 @@
+// app/api/holidays/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { HolidayModel } from "@/models/Holiday";
+import { listHolidays, validateHolidayBody } from "@/lib/holidays";
+
+function bad(msg: string, status = 400) {
+  return NextResponse.json({ ok: false, error: msg }, { status });
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const from = (searchParams.get("from") || "").trim() || undefined;
+    const to = (searchParams.get("to") || "").trim() || undefined;
+    const items = await listHolidays(from, to);
+    return NextResponse.json({ ok: true, items });
+  } catch (e: any) {
+    console.error("holidays list error:", e);
+    return bad(e?.message || "Failed to load holidays", 500);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const err = validateHolidayBody(body);
+    if (err) return bad(err);
+
+    const Holiday = await HolidayModel();
+    const exists = await Holiday.exists({ date: body.date });
+    if (exists) return bad(`${body.date} is already in the calendar`, 409);
+
+    const item = await Holiday.create({
+      date: body.date,
+      name: String(body.name).trim(),
+      kind: body.kind,
+      open: body.kind === "special_hours" ? body.open : undefined,
+      close: body.kind === "special_hours" ? body.close : undefined,
+    });
+
+    return NextResponse.json({ ok: true, item });
+  } catch (e: any) {
+    console.error("holidays create error:", e);
+    return bad(e?.message || "Failed to create holiday", 500);
+  }
+}
@@ -0,0 +1,62 @@
+// app/api/membership-plans/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { MembershipPlanModel } from "@/models/MembershipPlan";
+import { ensurePlansSeeded, validatePlanBody, normalizePlanId } from "@/lib/membershipPlans";
+
+function bad(msg: string, status = 400) {
+  return NextResponse.json({ ok: false, error: msg }, { status });
+}
+
+// [id] is the plan code (the fallback plans have no _id yet).
+// Edits only affect memberships sold afterwards — sold ones keep their planTerms.
+export async function PUT(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const planId = normalizePlanId(params.id);
+    if (!planId) return bad("Invalid plan id");
+
+    const body = await req.json();
+    const err = validatePlanBody(body, true);
+    if (err) return bad(err);
+
+    // allow partial updates; planId itself is immutable (memberships reference it)
+    const updates: any = {};
+    const unset: any = {};
+    const keys = ["name", "durationMonths", "games", "price", "courtIds", "windows", "active", "sortOrder", "maxFreezeDays"];
+    for (const k of keys) if (k in body) updates[k] = body[k];
+    if ("name" in updates) updates.name = String(updates.name).trim();
+    if ("childPrice" in body) {
+      if (body.childPrice == null) unset.childPrice = 1;
+      else updates.childPrice = body.childPrice;
+    }
+
+    await ensurePlansSeeded();
+    const Plan = await MembershipPlanModel();
+    const item = await Plan.findOneAndUpdate(
+      { planId },
+      { $set: updates, ...(Object.keys(unset).length ? { $unset: unset } : {}) },
+      { new: true, runValidators: true }
+    );
+    if (!item) return bad("Plan not found", 404);
+
+    return NextResponse.json({ ok: true, item });
+  } catch (e: any) {
+    console.error("membership plans update error:", e);
+    return bad(e?.message || "Failed to update plan", 500);
+  }
+}
+
+export async function DELETE(_: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const planId = normalizePlanId(params.id);
+    if (!planId) return bad("Invalid plan id");
+
+    await ensurePlansSeeded();
+    const Plan = await MembershipPlanModel();
+    const res = await Plan.findOneAndDelete({ planId });
+    if (!res) return bad("Plan not found", 404);
+    return NextResponse.json({ ok: true, deletedId: planId });
+  } catch (e: any) {
+    console.error("membership plans delete error:", e);
+    return bad(e?.message || "Failed to delete plan", 500);
+  }
+}
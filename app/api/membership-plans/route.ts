@@ -0,0 +1,60 @@
+// app/api/membership-plans/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { MembershipPlanModel } from "@/models/MembershipPlan";
+import {
+  getPlanCatalog,
+  ensurePlansSeeded,
+  validatePlanBody,
+  normalizePlanId,
+} from "@/lib/membershipPlans";
+
+function bad(msg: string, status = 400) {
+  return NextResponse.json({ ok: false, error: msg }, { status });
+}
+
+// ?all=1 includes inactive plans (admin page); the desk form only sees plans on sale
+export async function GET(req: NextRequest) {
+  try {
+    const includeInactive = req.nextUrl.searchParams.get("all") === "1";
+    // includes the fallback plans until the first plan is saved
+    const items = await getPlanCatalog({ includeInactive });
+    return NextResponse.json({ ok: true, items });
+  } catch (e: any) {
+    console.error("membership plans list error:", e);
+    return bad(e?.message || "Failed to load plans", 500);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const err = validatePlanBody(body);
+    if (err) return bad(err);
+
+    const planId = normalizePlanId(body.planId);
+    await ensurePlansSeeded();
+    const Plan = await MembershipPlanModel();
+    const exists = await Plan.exists({ planId });
+    if (exists) return bad(`Plan ${planId} already exists`, 409);
+
+    const item = await Plan.create({
+      planId,
+      name: String(body.name).trim(),
+      durationMonths: body.durationMonths,
+      games: body.games,
+      price: body.price,
+      ...(body.childPrice != null ? { childPrice: body.childPrice } : {}),
+      courtIds: body.courtIds ?? [],
+      windows: body.windows ?? [],
+      active: body.active ?? true,
+      sortOrder: body.sortOrder ?? body.durationMonths,
+      maxFreezeDays: body.maxFreezeDays ?? 0,
+    });
+
+    return NextResponse.json({ ok: true, item });
+  } catch (e: any) {
+    if ((e as { code?: number })?.code === 11000) return bad("Plan id already exists", 409);
+    console.error("membership plans create error:", e);
+    return bad(e?.message || "Failed to create plan", 500);
+  }
+}
@@ -1,7 +1,8 @@
 // app/api/memberships/[id]/route.ts
 import { NextResponse } from "next/server";
-import { MembershipModel } from "@/models/Membership";
-import { appendMembershipToSheet } from "@/lib/membershipSheets"; // ✅ corrected import
+import { MembershipModel, validityWindow, clubToday } from "@/models/Membership";
+import { appendMembershipToSheet, updateLatestSheetRowForMembership } from "@/lib/membershipSheets"; // ✅ corrected import
+import { freezeMembership } from "@/lib/membershipFreeze";
 
 export async function PATCH(req: Request, { params }: { params: { id: string } }) {
   try {
@@ -14,9 +15,21 @@ export async function PATCH(req: Request, { params }: { params: { id: string } }
     const Membership = await MembershipModel();
 
     if (action === "markpaid") {
+      const current = await Membership.findById(id).select({ status: 1, durationMonths: 1, validTo: 1 }).lean();
+      if (!current) return NextResponse.json({ error: "Membership not found" }, { status: 404 });
+      if (current.status === "EXPIRED") {
+        return NextResponse.json({ error: "Membership has expired; sell a renewal instead" }, { status: 409 });
+      }
+
+      // Validity runs from the day payment is received (kept if it was already set)
       const doc = await Membership.findByIdAndUpdate(
         id,
-        { $set: { status: "PAID" } },
+        {
+          $set: {
+            status: "PAID",
+            ...(current.validTo ? {} : validityWindow(clubToday(), Number(current.durationMonths || 0))),
+          },
+        },
         { new: true }
       ).lean();
 
@@ -33,6 +46,21 @@ export async function PATCH(req: Request, { params }: { params: { id: string } }
       return NextResponse.json({ ok: true });
     }
 
+    // { action: "freeze", from, to, reason? } — pause credits and push the end date out
+    if (action === "freeze") {
+      const r = await freezeMembership(id, body);
+      if (!r.ok) return NextResponse.json({ error: r.error }, { status: r.status });
+
+      // End date moved: refresh the member's current row in "Membership Details"
+      try {
+        await updateLatestSheetRowForMembership(id);
+      } catch (e) {
+        console.error("Sheets sync (freeze) failed:", e);
+      }
+
+      return NextResponse.json({ ok: true, freeze: r.freeze, validTo: r.validTo, freezeDaysLeft: r.freezeDaysLeft });
+    }
+
     return NextResponse.json({ error: "Unsupported action" }, { status: 400 });
   } catch (e) {
     console.error("PATCH membership error:", e);
@@ -0,0 +1,28 @@
+// app/api/memberships/credits/route.ts
+import { NextResponse } from "next/server";
+import { memberCreditHistory } from "@/lib/membershipCredits";
+
+export const dynamic = "force-dynamic";
+
+// GET ?userId=<users._id> or ?email= → the member's credit ledger across all their memberships
+export async function GET(req: Request) {
+  try {
+    const url = new URL(req.url);
+    const userId = (url.searchParams.get("userId") || "").trim();
+    const email = (url.searchParams.get("email") || "").trim();
+    if (!userId && !email) {
+      return NextResponse.json({ error: "Provide userId or email" }, { status: 400 });
+    }
+    if (userId && !/^[a-f0-9]{24}$/i.test(userId)) {
+      return NextResponse.json({ error: "Invalid userId" }, { status: 400 });
+    }
+
+    const history = await memberCreditHistory({ userId, email });
+    if (!history) return NextResponse.json({ error: "User not found" }, { status: 404 });
+
+    return NextResponse.json({ ok: true, ...history });
+  } catch (e) {
+    console.error("Membership credit history error:", e);
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,17 @@
+// app/api/memberships/expire/route.ts
+import { NextResponse } from "next/server";
+import { expireMemberships } from "@/models/Membership";
+
+export const dynamic = "force-dynamic";
+
+// Expiry sweep: PAID memberships past their validTo become EXPIRED.
+// The memberships page runs it on every load; point a scheduler here to keep statuses current in between.
+export async function POST() {
+  try {
+    const r = await expireMemberships();
+    return NextResponse.json({ ok: true, ...r });
+  } catch (e) {
+    console.error("Membership expiry sweep error:", e);
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
@@ -1,7 +1,7 @@
 // app/api/memberships/export/route.ts
 import { NextResponse } from "next/server";
 import ExcelJS from "exceljs";
-import { MembershipModel } from "@/models/Membership";
+import { MembershipModel, type PlanId } from "@/models/Membership";
 import { UserModel } from "@/models/User";
 
 function fmtISO(d?: Date | string) {
@@ -20,7 +20,6 @@ function addMonths(date: Date, months: number) {
   return d;
 }
 
-type PlanId = "1M" | "3M" | "6M";
 type Query = {
   $or?: Array<
     | { userName: { $regex: string; $options: string } }
@@ -32,7 +31,7 @@ type Query = {
 export async function GET(req: Request) {
   const url = new URL(req.url);
   const q = (url.searchParams.get("q") || "").trim();
-  const plan = (url.searchParams.get("plan") || "all") as "all" | PlanId;
+  const plan = (url.searchParams.get("plan") || "all").trim().toUpperCase() as "ALL" | PlanId;
 
   const Membership = await MembershipModel();
   const User = await UserModel();
@@ -44,7 +43,7 @@ export async function GET(req: Request) {
       { userEmail: { $regex: q, $options: "i" } },
     ];
   }
-  if (plan && plan !== "all") {
+  if (plan && plan !== "ALL") {
     query.planId = plan;
   }
 
@@ -58,6 +57,8 @@ export async function GET(req: Request) {
       currency: 1,
       durationMonths: 1,
       createdAt: 1,
+      validFrom: 1,
+      validTo: 1,
     })
     .sort({ createdAt: -1 })
     .lean();
@@ -89,10 +90,14 @@ export async function GET(req: Request) {
 
   for (const m of items) {
     const createdAt = (m as { createdAt?: Date | string }).createdAt;
-    const start = createdAt ? new Date(createdAt as Date | string) : undefined;
+    const { validFrom, validTo } = m as { validFrom?: string; validTo?: string };
+    const start = validFrom
+      ? new Date(`${validFrom}T12:00:00+05:30`)
+      : createdAt ? new Date(createdAt as Date | string) : undefined;
     const durationMonths = (m as { durationMonths?: unknown }).durationMonths;
-    const end =
-      start && durationMonths != null ? addMonths(start, Number(durationMonths)) : undefined;
+    const end = validTo
+      ? new Date(`${validTo}T12:00:00+05:30`)
+      : start && durationMonths != null ? addMonths(start, Number(durationMonths)) : undefined;
 
     const amountVal = (m as { amount?: unknown }).amount;
     const currency = (m as { currency?: string }).currency || "";
@@ -1,23 +1,14 @@
 // app/api/memberships/route.ts
 import { NextResponse } from "next/server";
-import { MembershipModel } from "@/models/Membership";
+import { MembershipModel, validityWindow, clubToday } from "@/models/Membership";
 import { UserModel } from "@/models/User";
 import { appendMembershipToSheet } from "@/lib/membershipSheets";
+import { withIdempotency } from "@/lib/idempotency";
+import { applyCoupon, confirmCouponUse } from "@/lib/coupons";
+import type { DiscountLine } from "@/models/Coupon";
+import { findPlan, normalizePlanId, planTerms } from "@/lib/membershipPlans";
 
 
-function planDefaults(planId: "1M" | "3M" | "6M") {
-  switch (planId) {
-    case "1M":
-      return { durationMonths: 1, planName: "1 month", games: 25 };
-    case "3M":
-      return { durationMonths: 3, planName: "3 months", games: 75 };
-    case "6M":
-      return { durationMonths: 6, planName: "6 months", games: 150 };
-    default:
-      return { durationMonths: 1, planName: "1 month", games: 25 };
-  }
-}
-
 type ListQuery = {
   $or?: Array<
     | { userEmail: { $regex: string; $options: string } }
@@ -79,16 +70,23 @@ async function generateMemberId(last4: string): Promise<string> {
 }
 
 // POST: create membership (supports both new purchase and restore/renewal)
+/** Retries carrying the same Idempotency-Key get the first response back. */
 export async function POST(req: Request) {
+  return withIdempotency(req, "memberships", () => create(req));
+}
+
+async function create(req: Request) {
   try {
     const body = await req.json();
 
     const userId = String(body.userId || "").trim();
     const userEmail = String(body.userEmail || "").trim().toLowerCase();
     const userName = String(body.userName || "").trim();
-    const planId = String(body.planId || "1M").trim().toUpperCase() as "1M" | "3M" | "6M";
-    const amount = Number(body.amount || 0);
+    const planId = normalizePlanId(body.planId || "1M");
+    // Desk may charge a different amount (child rate, joining fee); defaults to the plan price
+    const amountRaw = body.amount;
     const paidNow = Boolean(body.paidNow);
+    const couponCode = String(body.couponCode || "").trim();
 
     // Member identification:
     // - New purchase: provide `aadhar` (12 digits) → generate new memberId
@@ -107,9 +105,11 @@ export async function POST(req: Request) {
     if (!userEmail || !userName) {
       return NextResponse.json({ error: "userEmail and userName are required." }, { status: 400 });
     }
-    if (!["1M", "3M", "6M"].includes(planId)) {
-      return NextResponse.json({ error: "Invalid planId." }, { status: 400 });
+    const plan = await findPlan(planId);
+    if (!plan) {
+      return NextResponse.json({ error: `Unknown or inactive plan: ${planId}` }, { status: 400 });
     }
+    const amount = amountRaw == null || amountRaw === "" ? plan.price : Number(amountRaw);
     if (!Number.isFinite(amount) || amount < 0) {
       return NextResponse.json({ error: "Invalid amount." }, { status: 400 });
     }
@@ -120,6 +120,16 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "User not found. Please create the user first." }, { status: 404 });
     }
 
+    // Coupon comes off the plan amount
+    let discount: DiscountLine | undefined;
+    let couponUseId = ""; // reserved use; left to expire if the save below fails
+    if (couponCode) {
+      const res = await applyCoupon({ code: couponCode, product: "membership", amount, userEmail });
+      if (!res.ok) return NextResponse.json({ error: res.error }, { status: res.status });
+      discount = res.line;
+      couponUseId = res.useId;
+    }
+
     // Work out the memberId to persist
     let memberIdToSave: string | undefined;
 
@@ -146,24 +156,35 @@ export async function POST(req: Request) {
     // else: neither provided → no memberId stored (legacy case)
 
     const Membership = await MembershipModel();
-    const d = planDefaults(planId);
 
     const doc = await Membership.create({
       orderId: `mem_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
-      amount,
+      amount: discount ? amount - discount.amount : amount,
       currency: "INR",
-      durationMonths: d.durationMonths,
-      games: d.games,
+      durationMonths: plan.durationMonths,
+      games: plan.games,
       gamesUsed: 0,
-      planId,
-      planName: d.planName,
+      planId: plan.planId,
+      planName: plan.name,
+      planTerms: planTerms(plan, amount),
       status: paidNow ? "PAID" : "PENDING",
+      // validity starts the day it's paid; pending ones get it on mark-paid
+      ...(paidNow ? validityWindow(clubToday(), plan.durationMonths) : {}),
       userEmail,
       userId: String(user._id),
       userName,
       ...(memberIdToSave ? { memberId: memberIdToSave } : {}),
+      discount,
     });
 
+    if (couponUseId) {
+      try {
+        await confirmCouponUse(couponUseId, String(doc._id));
+      } catch (e) {
+        console.error("Coupon use record failed:", e);
+      }
+    }
+
     // Decide whether to always append a new row in Google Sheets (restore/renewal)
     const isRestore = hasMemberId || mode === "restore" || forceAppendFlag;
 
@@ -180,6 +201,8 @@ export async function POST(req: Request) {
         ok: true,
         membershipId: String(doc._id),
         status: doc.status,
+        amount: doc.amount,
+        ...(discount ? { discount } : {}),
         ...(memberIdToSave ? { memberId: memberIdToSave } : {}),
       },
       { status: 201 }
@@ -0,0 +1,21 @@
+// app/api/offers/[id]/redemptions/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getOfferModel } from "@/models/Offer";
+import { offerRedemptions } from "@/lib/offerRedemptions";
+
+function bad(msg: string, status = 400) {
+  return NextResponse.json({ ok: false, error: msg }, { status });
+}
+
+export async function GET(_: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const OfferModel = await getOfferModel();
+    const offer = await OfferModel.findById(params.id).select({ _id: 1 }).lean().catch(() => null);
+    if (!offer) return bad("Offer not found", 404);
+
+    const { items, summary } = await offerRedemptions(params.id);
+    return NextResponse.json({ ok: true, items, summary });
+  } catch (e: any) {
+    return bad(e?.message || "Failed to load redemptions", 500);
+  }
+}
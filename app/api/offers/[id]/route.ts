@@ -1,6 +1,8 @@
 // app/api/offers/[id]/route.ts
 import { NextRequest, NextResponse } from "next/server";
 import { getOfferModel } from "@/models/Offer";
+import { validateOfferCaps } from "@/lib/offerRedemptions";
+import { validateOfferTargeting } from "@/lib/offers";
 
 function bad(msg: string, status = 400) {
   return NextResponse.json({ ok: false, error: msg }, { status });
@@ -22,10 +24,21 @@ export async function PUT(req: NextRequest, { params }: { params: { id: string }
       "timeTo",
       "flatPrice",
       "rules",
+      "weekdays",
+      "windows",
+      "courtIds",
+      "customerTypes",
+      "minSlots",
       "active",
+      "maxRedemptions",
+      "maxPerUser",
+      "maxPerDay",
     ];
     for (const k of keys) if (k in body) updates[k] = body[k];
 
+    const fieldErr = validateOfferTargeting(updates) || validateOfferCaps(updates);
+    if (fieldErr) return bad(fieldErr);
+
     if ("dateFrom" in updates) updates.dateFrom = new Date(updates.dateFrom);
     if ("dateTo" in updates) updates.dateTo = new Date(updates.dateTo);
 
@@ -1,14 +1,51 @@
 // app/api/offers/active/route.ts
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { getOfferModel } from "@/models/Offer";
+import { offerMismatch, type OfferContext, type OfferLean } from "@/lib/offers";
 
 export const dynamic = "force-dynamic";
 
-export async function GET() {
+/** Optional booking context from the query: ?date=&courtId=&time=&who=&slots= */
+function parseContext(sp: URLSearchParams): { ctx: OfferContext; error?: string } {
+  const get = (k: string) => (sp.get(k) || "").trim();
+  const ctx: OfferContext = {};
+
+  const date = get("date");
+  if (date) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return { ctx, error: "date must be YYYY-MM-DD" };
+    ctx.date = date;
+  }
+  const court = get("courtId");
+  if (court) {
+    if (!Number.isInteger(Number(court))) return { ctx, error: "courtId must be a number" };
+    ctx.courtId = Number(court);
+  }
+  const time = get("time");
+  if (time) {
+    if (!/^\d{2}:\d{2}$/.test(time)) return { ctx, error: "time must be HH:mm" };
+    ctx.time = time;
+  }
+  const who = get("who");
+  if (who) {
+    if (!["member", "user", "guest"].includes(who)) return { ctx, error: "who must be member, user or guest" };
+    ctx.who = who as OfferContext["who"];
+  }
+  const slots = get("slots");
+  if (slots) {
+    if (!Number.isInteger(Number(slots)) || Number(slots) < 1) return { ctx, error: "slots must be a whole number >= 1" };
+    ctx.slots = Number(slots);
+  }
+  return { ctx };
+}
+
+export async function GET(req: NextRequest) {
+  const { ctx, error } = parseContext(req.nextUrl.searchParams);
+  if (error) return NextResponse.json({ ok: false, error }, { status: 400 });
+
   const Offer = await getOfferModel();
   const now = new Date();
 
-  const offers = await Offer.find({
+  const found = await Offer.find({
     active: true,
     dateTo: { $gte: now },
   })
@@ -20,11 +57,17 @@ export async function GET() {
       dateTo: 1,
       timeFrom: 1,
       timeTo: 1,
+      weekdays: 1,
+      windows: 1,
+      courtIds: 1,
+      customerTypes: 1,
+      minSlots: 1,
       flatPrice: 1,
       rules: 1,
     })
     .sort({ createdAt: -1 })
-    .lean();
+    .lean<OfferLean[]>();
 
+  const offers = found.filter((o) => !offerMismatch(o, ctx));
   return NextResponse.json({ ok: true, offers });
 }
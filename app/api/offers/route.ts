@@ -1,6 +1,8 @@
 // app/api/offers/route.ts
 import { NextRequest, NextResponse } from "next/server";
 import { getOfferModel } from "@/models/Offer";
+import { redemptionSummaries, validateOfferCaps } from "@/lib/offerRedemptions";
+import { validateOfferTargeting } from "@/lib/offers";
 
 function bad(msg: string, status = 400) {
   return NextResponse.json({ ok: false, error: msg }, { status });
@@ -35,12 +37,16 @@ function validateBody(b: any) {
   // r.criteria (if present) can be any text — no validation needed
   }
   }
-  return null;
+  return validateOfferTargeting(b) || validateOfferCaps(b);
 }
 
 export async function GET() {
   const OfferModel = await getOfferModel();
-  const items = await OfferModel.find().sort({ createdAt: -1 }).lean();
+  const [offers, usage] = await Promise.all([
+    OfferModel.find().sort({ createdAt: -1 }).lean(),
+    redemptionSummaries(),
+  ]);
+  const items = offers.map((o) => ({ ...o, usage: usage.get(String(o._id)) || null }));
   return NextResponse.json({ ok: true, items });
 }
 
@@ -61,7 +67,15 @@ export async function POST(req: NextRequest) {
       timeTo: body.timeTo,
       flatPrice: body.type === "flat" ? body.flatPrice : undefined,
       rules: body.type === "conditional" ? body.rules : [],
+      weekdays: body.weekdays || [],
+      windows: body.windows || [],
+      courtIds: body.courtIds || [],
+      customerTypes: body.customerTypes || [],
+      minSlots: body.minSlots ?? undefined,
       active: body.active ?? true,
+      maxRedemptions: body.maxRedemptions ?? undefined,
+      maxPerUser: body.maxPerUser ?? undefined,
+      maxPerDay: body.maxPerDay ?? undefined,
     });
 
     return NextResponse.json({ ok: true, item: doc });
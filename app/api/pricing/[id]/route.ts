@@ -0,0 +1,52 @@
+// app/api/pricing/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { PricingRuleModel } from "@/models/PricingRule";
+import { validatePricingRuleBody } from "@/lib/pricing";
+
+function bad(msg: string, status = 400) {
+  return NextResponse.json({ ok: false, error: msg }, { status });
+}
+
+export async function PUT(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const body = await req.json();
+    const err = validatePricingRuleBody(body, true);
+    if (err) return bad(err);
+
+    // allow partial updates; blank optional fields clear the restriction
+    const updates: any = {};
+    const unset: any = {};
+    const keys = ["name", "pricingMode", "dayType", "weekdays", "courtIds", "price", "priority", "active"];
+    for (const k of keys) if (k in body) updates[k] = body[k];
+    for (const k of ["timeFrom", "timeTo", "dateFrom", "dateTo"]) {
+      if (!(k in body)) continue;
+      if (body[k]) updates[k] = body[k];
+      else unset[k] = 1;
+    }
+
+    const PricingRule = await PricingRuleModel();
+    const item = await PricingRule.findByIdAndUpdate(
+      params.id,
+      { $set: updates, ...(Object.keys(unset).length ? { $unset: unset } : {}) },
+      { new: true, runValidators: true }
+    );
+    if (!item) return bad("Pricing rule not found", 404);
+
+    return NextResponse.json({ ok: true, item });
+  } catch (e: any) {
+    console.error("pricing update error:", e);
+    return bad(e?.message || "Failed to update pricing rule", 500);
+  }
+}
+
+export async function DELETE(_: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const PricingRule = await PricingRuleModel();
+    const res = await PricingRule.findByIdAndDelete(params.id);
+    if (!res) return bad("Pricing rule not found", 404);
+    return NextResponse.json({ ok: true, deletedId: params.id });
+  } catch (e: any) {
+    console.error("pricing delete error:", e);
+    return bad(e?.message || "Failed to delete pricing rule", 500);
+  }
+}
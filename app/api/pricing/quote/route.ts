@@ -0,0 +1,46 @@
+// app/api/pricing/quote/route.ts
+import { NextResponse } from "next/server";
+import { quoteGrid, quoteSlots, isPricingMode } from "@/lib/pricing";
+import { normalizeSlots } from "@/lib/slotReservations";
+
+/**
+ * GET  ?date=YYYY-MM-DD&mode=court        → price of every bookable slot that day (grids)
+ * POST { date, pricingMode, slots }       → price of the given slots + total
+ */
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const date = (searchParams.get("date") || "").trim();
+    const mode = searchParams.get("mode") || "court";
+    if (!date) return NextResponse.json({ error: "Missing date" }, { status: 400 });
+    if (!isPricingMode(mode)) return NextResponse.json({ error: "Invalid pricing mode" }, { status: 400 });
+
+    const quote = await quoteGrid(date, mode);
+    return NextResponse.json({ ok: true, ...quote });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : "Server error";
+    console.error("pricing quote error:", e);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const body = (await req.json().catch(() => ({}))) as {
+      date?: string;
+      pricingMode?: string;
+      slots?: { courtId: number; start: string; end: string }[];
+    };
+    const mode = body.pricingMode || "court";
+    if (!body.date) return NextResponse.json({ error: "Missing date" }, { status: 400 });
+    if (!isPricingMode(mode)) return NextResponse.json({ error: "Invalid pricing mode" }, { status: 400 });
+    if (!Array.isArray(body.slots)) return NextResponse.json({ error: "slots[] is required" }, { status: 400 });
+
+    const quote = await quoteSlots(body.date, normalizeSlots(body.slots), mode);
+    return NextResponse.json({ ok: true, ...quote });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : "Server error";
+    console.error("pricing quote error:", e);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+// app/api/pricing/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { PricingRuleModel } from "@/models/PricingRule";
+import { validatePricingRuleBody, FALLBACK_PRICES } from "@/lib/pricing";
+
+function bad(msg: string, status = 400) {
+  return NextResponse.json({ ok: false, error: msg }, { status });
+}
+
+export async function GET() {
+  try {
+    const PricingRule = await PricingRuleModel();
+    const items = await PricingRule.find().sort({ pricingMode: 1, priority: -1, updatedAt: -1 }).lean();
+    return NextResponse.json({ ok: true, items, fallback: FALLBACK_PRICES });
+  } catch (e: any) {
+    console.error("pricing list error:", e);
+    return bad(e?.message || "Failed to load pricing rules", 500);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const err = validatePricingRuleBody(body);
+    if (err) return bad(err);
+
+    const PricingRule = await PricingRuleModel();
+    const item = await PricingRule.create({
+      name: String(body.name).trim(),
+      pricingMode: body.pricingMode,
+      dayType: body.dayType || "any",
+      weekdays: body.weekdays || [],
+      timeFrom: body.timeFrom || undefined,
+      timeTo: body.timeTo || undefined,
+      courtIds: body.courtIds || [],
+      dateFrom: body.dateFrom || undefined,
+      dateTo: body.dateTo || undefined,
+      price: body.price,
+      priority: body.priority ?? 0,
+      active: body.active ?? true,
+    });
+
+    return NextResponse.json({ ok: true, item });
+  } catch (e: any) {
+    console.error("pricing create error:", e);
+    return bad(e?.message || "Failed to create pricing rule", 500);
+  }
+}
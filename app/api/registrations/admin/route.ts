@@ -2,6 +2,9 @@
 import { NextResponse } from "next/server";
 import { RegistrationModel } from "@/models/Registrations";
 import { EventModel } from "@/models/Event";
+import { withIdempotency } from "@/lib/idempotency";
+import { applyCoupon, confirmCouponUse } from "@/lib/coupons";
+import type { DiscountLine } from "@/models/Coupon";
 
 type EventLean = { entryFee?: number; title?: string };
 
@@ -9,7 +12,12 @@ function genGuestId() {
   return `guest_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
 }
 
+/** Retries carrying the same Idempotency-Key get the first response back. */
 export async function POST(req: Request) {
+  return withIdempotency(req, "registrations.admin", () => create(req));
+}
+
+async function create(req: Request) {
   try {
     const body = await req.json();
     const {
@@ -22,6 +30,7 @@ export async function POST(req: Request) {
       userEmail,
       guestName,
       guestPhone,
+      couponCode,           // optional promo code
     } = body || {};
 
     if (!eventId) return NextResponse.json({ error: "Missing eventId" }, { status: 400 });
@@ -31,7 +40,6 @@ export async function POST(req: Request) {
     if (!ev) return NextResponse.json({ error: "Event not found" }, { status: 404 });
 
     const fee = Number(ev.entryFee || 0);
-    const isFree = fee <= 0;
 
     const isMember = type === "member";
     const isUser   = type === "user";
@@ -44,6 +52,19 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Guest name and phone are required" }, { status: 400 });
     }
 
+    // Coupon comes off the entry fee; a fully discounted entry counts as free
+    const customer = isGuest ? { phone: guestPhone } : { userEmail };
+    let discount: DiscountLine | undefined;
+    let couponUseId = ""; // reserved use; left to expire if the save below fails
+    if (couponCode && String(couponCode).trim()) {
+      const res = await applyCoupon({ code: couponCode, product: "event", amount: fee, ...customer });
+      if (!res.ok) return NextResponse.json({ error: res.error }, { status: res.status });
+      discount = res.line;
+      couponUseId = res.useId;
+    }
+    const amount = discount ? fee - discount.amount : fee;
+    const isFree = amount <= 0;
+
     const Registration = await RegistrationModel();
 
     const adminPaid = isFree ? true : !!markPaid;
@@ -66,13 +87,22 @@ export async function POST(req: Request) {
       guestName: isGuest ? guestName : undefined,
       guestPhone:isGuest ? guestPhone : undefined,
 
-      amount: fee,
+      amount,
       currency: "INR",
       status: "PAID",
       adminPaid,
       paymentRef,
+      discount,
     });
 
+    if (couponUseId) {
+      try {
+        await confirmCouponUse(couponUseId, String(doc._id));
+      } catch (e) {
+        console.error("Coupon use record failed:", e);
+      }
+    }
+
     return NextResponse.json({
       ok: true,
       id: String(doc._id),
@@ -0,0 +1,17 @@
+// app/api/waitlist/[id]/book/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { bookWaitlistEntry } from "@/lib/waitlist";
+import { isPricingMode } from "@/lib/pricing";
+
+/** Book the entry's slot for its player. Body: { markPaid?, pricingMode? } */
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const pricingMode = isPricingMode(body?.pricingMode) ? body.pricingMode : undefined;
+    const { status, body: out } = await bookWaitlistEntry(params.id, { markPaid: !!body?.markPaid, pricingMode });
+    return NextResponse.json(out, { status });
+  } catch (e: any) {
+    console.error("waitlist book error:", e);
+    return NextResponse.json({ ok: false, error: e?.message || "Failed to book" }, { status: 500 });
+  }
+}
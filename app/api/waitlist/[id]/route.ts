@@ -0,0 +1,43 @@
+// app/api/waitlist/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { WaitlistModel } from "@/models/Waitlist";
+import { releaseWaitlistHold, validateWaitlistBody } from "@/lib/waitlist";
+
+function bad(msg: string, status = 400) {
+  return NextResponse.json({ ok: false, error: msg }, { status });
+}
+
+export async function PUT(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const body = await req.json();
+    const err = validateWaitlistBody(body, true);
+    if (err) return bad(err);
+
+    // contact details only; the slot itself is the queue key
+    const updates: any = {};
+    const keys = ["who", "name", "phone", "userEmail", "userId", "note"];
+    for (const k of keys) if (k in body) updates[k] = typeof body[k] === "string" ? body[k].trim() : body[k];
+
+    const Waitlist = await WaitlistModel();
+    const item = await Waitlist.findByIdAndUpdate(params.id, { $set: updates }, { new: true, runValidators: true });
+    if (!item) return bad("Waitlist entry not found", 404);
+
+    return NextResponse.json({ ok: true, item });
+  } catch (e: any) {
+    console.error("waitlist update error:", e);
+    return bad(e?.message || "Failed to update waitlist entry", 500);
+  }
+}
+
+export async function DELETE(_: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const Waitlist = await WaitlistModel();
+    const res = await Waitlist.findByIdAndDelete(params.id);
+    if (!res) return bad("Waitlist entry not found", 404);
+    if (res.status === "offered") await releaseWaitlistHold(res);
+    return NextResponse.json({ ok: true, deletedId: params.id });
+  } catch (e: any) {
+    console.error("waitlist delete error:", e);
+    return bad(e?.message || "Failed to delete waitlist entry", 500);
+  }
+}
@@ -0,0 +1,58 @@
+// app/api/waitlist/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { WaitlistModel } from "@/models/Waitlist";
+import { expireWaitlistOffers, validateWaitlistBody } from "@/lib/waitlist";
+
+function bad(msg: string, status = 400) {
+  return NextResponse.json({ ok: false, error: msg }, { status });
+}
+
+/** GET ?date=YYYY-MM-DD → that day's queue; without date → everything from `from` (default: all) not yet booked or lapsed. */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const date = (searchParams.get("date") || "").trim();
+    const from = (searchParams.get("from") || "").trim();
+
+    const filter: Record<string, unknown> = date
+      ? { date }
+      : { status: { $nin: ["booked", "expired"] }, ...(from ? { date: { $gte: from } } : {}) };
+
+    await expireWaitlistOffers(date || undefined);
+
+    const Waitlist = await WaitlistModel();
+    const items = await Waitlist.find(filter).sort({ date: 1, courtId: 1, start: 1, createdAt: 1 }).lean();
+    return NextResponse.json({ ok: true, items });
+  } catch (e: any) {
+    console.error("waitlist list error:", e);
+    return bad(e?.message || "Failed to load waitlist", 500);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const err = validateWaitlistBody(body);
+    if (err) return bad(err);
+
+    const who = body.who || "guest";
+    const Waitlist = await WaitlistModel();
+    const item = await Waitlist.create({
+      date: body.date,
+      courtId: Number(body.courtId),
+      start: body.start,
+      end: body.end,
+      who,
+      name: String(body.name).trim(),
+      phone: body.phone ? String(body.phone).trim() : undefined,
+      userEmail: who !== "guest" && body.userEmail ? String(body.userEmail).trim() : undefined,
+      userId: who !== "guest" && body.userId ? String(body.userId).trim() : undefined,
+      note: body.note ? String(body.note).trim() : undefined,
+    });
+
+    return NextResponse.json({ ok: true, item });
+  } catch (e: any) {
+    console.error("waitlist create error:", e);
+    return bad(e?.message || "Failed to add to waitlist", 500);
+  }
+}
@@ -2,12 +2,17 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
+import { useIdempotencyKey } from "@/lib/useIdempotencyKey";
 
 type UserLite = { _id: string; userId?: string; name?: string; email?: string; phone?: string };
 type Availability = Record<number, { start: string; end: string }[]>;
+type Blocked = Record<number, { start: string; end: string; reason: string; kind: string }[]>;
 type Slot = { courtId: number; start: string; end: string };
+type CourtGrid = { courtId: number; name: string; slots: Slot[] };
+type HolidayNote = { name: string; kind: "premium" | "closed" | "special_hours"; open?: string; close?: string };
 type Who = "member" | "user" | "guest";
 type PricingMode = "court" | "individual" | "individual2";
+type Repeat = "none" | "weekly" | "daily";
 
 type AdminBookingBody = {
   type: Who;
@@ -22,11 +27,12 @@ type AdminBookingBody = {
   userId?: string; // username
   guestName?: string;
   guestPhone?: string;
-};
+  couponCode?: string;
 
-const COURTS = [1, 2, 3];
-const SLOT_START_HOUR = 6;   // 6:00
-const SLOT_END_HOUR = 23;    // 23:00 (11pm)
+  // recurring series only
+  frequency?: Exclude<Repeat, "none">;
+  count?: number;
+};
 
 /** Parse "YYYY-MM-DD" as UTC midnight, return UTC day (0=Sun..6=Sat) */
 function getUTCDayFromYMD(ymd: string): number {
@@ -34,12 +40,12 @@ function getUTCDayFromYMD(ymd: string): number {
   if (!y || !m || !d) return NaN;
   return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
 }
-/** Weekend price (Sat/Sun) ₹700, Weekday ₹500 */
-function pricePerSlotCourt(dateYMD: string | ""): number {
-  if (!dateYMD) return 500; // default fallback
-  const dow = getUTCDayFromYMD(dateYMD);
-  if (Number.isNaN(dow)) return 500;
-  return dow === 0 || dow === 6 ? 700 : 500;
+/** "₹500" or "₹500–₹700" for the prices quoted on the date */
+function priceRangeLabel(prices: number[]): string | null {
+  if (!prices.length) return null;
+  const min = Math.min(...prices);
+  const max = Math.max(...prices);
+  return min === max ? `₹${min}` : `₹${min}–₹${max}`;
 }
 function dayLabel(dateYMD: string | ""): string | null {
   if (!dateYMD) return null;
@@ -48,16 +54,25 @@ function dayLabel(dateYMD: string | ""): string | null {
   return ["Sunday","Monday","Tuesday","Wednesday","Thursday","Friday","Saturday"][dow] || null;
 }
 
-function hhmm(h: number) {
-  return `${String(h).padStart(2, "0")}:00`;
-}
-function label12h(h: number) {
-  const ampm = h >= 12 ? "PM" : "AM";
+/** "18:30" → "6:30 PM" */
+function label12h(hhmm: string) {
+  const [h, m] = hhmm.split(":").map((v) => Number(v));
+  const ampm = h >= 12 && h < 24 ? "PM" : "AM";
   const hour = ((h + 11) % 12) + 1;
-  return `${hour}:00 ${ampm}`;
+  return `${hour}:${String(m || 0).padStart(2, "0")} ${ampm}`;
 }
 
-export default function AddBookingButton() {
+/**
+ * `prefill` opens the dialog on a date with a slot already selected (calendar view);
+ * `onClose` lets the opener clear it again.
+ */
+export default function AddBookingButton({
+  prefill,
+  onClose,
+}: {
+  prefill?: { date: string; slot?: Slot } | null;
+  onClose?: () => void;
+} = {}) {
   const [open, setOpen] = useState(false);
 
   // who
@@ -66,6 +81,10 @@ export default function AddBookingButton() {
   // pricing mode
   const [pricingMode, setPricingMode] = useState<PricingMode>("court");
 
+  // Recurring series
+  const [repeat, setRepeat] = useState<Repeat>("none");
+  const [repeatCount, setRepeatCount] = useState(4);
+
   // date
   const [date, setDate] = useState<string>("");
 
@@ -79,15 +98,26 @@ export default function AddBookingButton() {
   const [guestName, setGuestName] = useState("");
   const [guestPhone, setGuestPhone] = useState("");
 
+  // Promo code quoted by the customer
+  const [couponCode, setCouponCode] = useState("");
+
   // slot selection [{courtId, start, end}]
   const [selected, setSelected] = useState<Slot[]>([]);
 
   // availability
   const [availability, setAvailability] = useState<Availability>({});
+  const [blocked, setBlocked] = useState<Blocked>({}); // court block-outs for the date
+  const [courts, setCourts] = useState<CourtGrid[]>([]); // catalog grid for the date
+  const [holiday, setHoliday] = useState<HolidayNote | null>(null);
   const [loadingAvail, setLoadingAvail] = useState(false);
+  const [availTick, setAvailTick] = useState(0); // bump to re-fetch after a 409
+
+  // per-slot prices quoted by the server for date + pricing mode: key = `${courtId}_${start}_${end}`
+  const [prices, setPrices] = useState<Record<string, number>>({});
 
   // submit state
   const [saving, setSaving] = useState(false);
+  const idempotency = useIdempotencyKey(); // one key per distinct submit
   const [err, setErr] = useState<string | null>(null);
 
   /* ------------------------ Search: members vs users ------------------------ */
@@ -137,12 +167,20 @@ export default function AddBookingButton() {
     return () => { abort = true; };
   }, [query, open, who]);
 
+  /* ------------------------ Prefill from the calendar ----------------------- */
+  useEffect(() => {
+    if (!prefill) return;
+    setDate(prefill.date);
+    setSelected(prefill.slot ? [prefill.slot] : []);
+    setOpen(true);
+  }, [prefill]);
+
   /* ------------------------ Availability for the date ----------------------- */
   useEffect(() => {
     let abort = false;
     async function run() {
       if (!open) return;
-      if (!date) { setAvailability({}); return; }
+      if (!date) { setAvailability({}); setBlocked({}); setCourts([]); setHoliday(null); return; }
       setLoadingAvail(true);
       try {
         const r = await fetch(`/api/bookings/availability?date=${encodeURIComponent(date)}`, { cache: "no-store" });
@@ -150,16 +188,45 @@ export default function AddBookingButton() {
         if (!abort) {
           const avail = (j as { availability?: Availability }).availability || {};
           setAvailability(avail);
+          setBlocked((j as { blocked?: Blocked }).blocked || {});
+          setCourts((j as { courts?: CourtGrid[] }).courts || []);
+          setHoliday((j as { holiday?: HolidayNote | null }).holiday || null);
         }
       } catch {
-        if (!abort) setAvailability({});
+        if (!abort) { setAvailability({}); setBlocked({}); setCourts([]); setHoliday(null); }
       } finally {
         if (!abort) setLoadingAvail(false);
       }
     }
     run();
     return () => { abort = true; };
-  }, [date, open]);
+  }, [date, open, availTick]);
+
+  /* ------------------------ Prices for the date + mode ---------------------- */
+  useEffect(() => {
+    let abort = false;
+    async function run() {
+      if (!open) return;
+      if (!date) { setPrices({}); return; }
+      try {
+        const r = await fetch(
+          `/api/pricing/quote?date=${encodeURIComponent(date)}&mode=${encodeURIComponent(pricingMode)}`,
+          { cache: "no-store" }
+        );
+        const j: unknown = await r.json().catch(() => ({}));
+        if (!abort) {
+          const list = (j as { slots?: (Slot & { price: number })[] }).slots || [];
+          const map: Record<string, number> = {};
+          for (const s of list) map[`${s.courtId}_${s.start}_${s.end}`] = s.price;
+          setPrices(map);
+        }
+      } catch {
+        if (!abort) setPrices({});
+      }
+    }
+    run();
+    return () => { abort = true; };
+  }, [date, open, pricingMode]);
 
   // Build a quick lookup for booked slots: key = `${courtId}_${start}_${end}`
   const bookedSet = useMemo(() => {
@@ -174,17 +241,24 @@ export default function AddBookingButton() {
     return s;
   }, [availability]);
 
+  // key → block reason for cells inside a court block
+  const blockedMap = useMemo(() => {
+    const m = new Map<string, string>();
+    for (const cid of Object.keys(blocked)) {
+      for (const it of blocked[Number(cid)] || []) m.set(`${cid}_${it.start}_${it.end}`, `${it.reason} (${it.kind})`);
+    }
+    return m;
+  }, [blocked]);
+
   // past-slot logic disabled (as earlier)
-  function isPastSlot(_hour: number) {
+  function isPastSlot(_start: string) {
     return false;
   }
 
-  function toggle(courtId: number, hour: number) {
-    const start = hhmm(hour);
-    const end = hhmm(hour + 1);
+  function toggle({ courtId, start, end }: Slot) {
     const key = `${courtId}_${start}_${end}`;
 
-    if (bookedSet.has(key)) return;
+    if (bookedSet.has(key) || blockedMap.has(key)) return;
 
     const exists = selected.find(s => s.courtId === courtId && s.start === start && s.end === end);
     if (exists) {
@@ -196,29 +270,20 @@ export default function AddBookingButton() {
 
   const totalSlots = selected.length;
 
-  // Compute day + weekend once and reuse
   const day = dayLabel(date);
-  const weekend = (() => {
-    if (!date) return false;
-    const dow = getUTCDayFromYMD(date);
-    return dow === 0 || dow === 6; // Sunday or Saturday
-  })();
-
-  // UPDATED: pricing depends on mode + weekend
-  const effectivePerSlot =
+  const dayPriceLabel = priceRangeLabel(Object.values(prices));
+
+  // Same numbers the server stores: sum of the quoted slot prices
+  const totalAmount =
     who === "member"
       ? 0
-      : pricingMode === "individual"
-        ? (weekend ? 200 : 150)          // 200 on Sat/Sun, 150 on weekdays
-        : pricingMode === "individual2"
-          ? (weekend ? 400 : 300)        // 400 on Sat/Sun, 300 on weekdays
-          : pricePerSlotCourt(date);     // existing court pricing
-
-  const totalAmount = who === "member" ? 0 : totalSlots * effectivePerSlot;
+      : selected.reduce((sum, s) => sum + (prices[`${s.courtId}_${s.start}_${s.end}`] ?? 0), 0);
 
   function resetAll() {
     setWho("member");
     setPricingMode("court");
+    setRepeat("none");
+    setRepeatCount(4);
     setDate("");
     setQuery("");
     setResults([]);
@@ -229,6 +294,11 @@ export default function AddBookingButton() {
     setErr(null);
     setSaving(false);
     setAvailability({});
+    setBlocked({});
+    setCourts([]);
+    setHoliday(null);
+    setPrices({});
+    onClose?.();
   }
 
   async function createBooking(markPaid: boolean) {
@@ -248,7 +318,7 @@ export default function AddBookingButton() {
 
       for (const s of selected) {
         const key = `${s.courtId}_${s.start}_${s.end}`;
-        if (bookedSet.has(key)) {
+        if (bookedSet.has(key) || blockedMap.has(key)) {
           throw new Error("Some selected slots are no longer available. Please refresh availability and try again.");
         }
       }
@@ -276,17 +346,44 @@ export default function AddBookingButton() {
         body.guestPhone = guestPhone.trim();
       }
 
-      const res = await fetch("/api/bookings/admin", {
+      if (who !== "member" && couponCode.trim()) body.couponCode = couponCode.trim().toUpperCase();
+
+      if (repeat !== "none") {
+        body.frequency = repeat;
+        body.count = repeatCount;
+      }
+
+      const payload = JSON.stringify(body);
+      const res = await fetch(repeat === "none" ? "/api/bookings/admin" : "/api/bookings/series", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(body),
+        headers: { "Content-Type": "application/json", "Idempotency-Key": idempotency.keyFor(payload) },
+        body: payload,
       });
       const j: unknown = await res.json().catch(() => ({}));
+      idempotency.reset();
       if (!res.ok) {
+        // 409 = someone else took these slots meanwhile → drop them and refresh the grid
+        const conflicts = (j as { conflicts?: Slot[] })?.conflicts;
+        if (res.status === 409 && Array.isArray(conflicts)) {
+          setSelected((cur) =>
+            cur.filter((s) => !conflicts.some((c) => c.courtId === s.courtId && c.start === s.start))
+          );
+          setAvailTick((t) => t + 1);
+        }
         const msg = (j as { error?: string })?.error || "Failed to create booking";
         throw new Error(msg);
       }
 
+      // Series: some dates may have been skipped (clash / closed / no credits)
+      const skipped = (j as { skipped?: { date: string; error: string }[] })?.skipped;
+      if (Array.isArray(skipped) && skipped.length > 0) {
+        const created = (j as { created?: unknown[] })?.created?.length ?? 0;
+        alert(
+          `Booked ${created} of ${created + skipped.length} dates. Skipped:\n` +
+            skipped.map((s) => `${s.date}: ${s.error}`).join("\n")
+        );
+      }
+
       setOpen(false);
       resetAll();
       window.location.reload();
@@ -335,7 +432,7 @@ export default function AddBookingButton() {
             <div className="card__header" style={{ position: "sticky", top: 0, background: "var(--card)", zIndex: 1 }}>
               <h3 className="card__title">Add Booking</h3>
               <p className="card__subtitle">
-                Pick who, date and one-hour slots between 6:00 AM and 11:00 PM.
+                Pick who, date and slots. Courts and opening hours follow the court catalog.
                 {loadingAvail && <span style={{ marginLeft: 8, fontSize: 12, color: "#666" }}>Checking availability…</span>}
               </p>
             </div>
@@ -373,17 +470,18 @@ export default function AddBookingButton() {
                     {date && (
                       <div style={{ marginTop: 6, fontSize: 12, color: "#555" }}>
                         {day ? `${day}` : "Selected date"}
-                        {pricingMode === "court" && (
-                          <>
-                            {" "}• <b>₹{pricePerSlotCourt(date)}/slot</b>
-                            {weekend && <span> (weekend pricing)</span>}
-                          </>
-                        )}
-                        {pricingMode === "individual" && (
-                          <> • <b>₹{weekend ? 200 : 150}/slot</b></>
+                        {dayPriceLabel && (
+                          <> • <b>{dayPriceLabel}/slot</b></>
                         )}
-                        {pricingMode === "individual2" && (
-                          <> • <b>₹{weekend ? 400 : 300}/slot</b></>
+                        {holiday && (
+                          <div style={{ marginTop: 2, color: "#b45309" }}>
+                            {holiday.name} —{" "}
+                            {holiday.kind === "premium"
+                              ? "premium (weekend) pricing"
+                              : holiday.kind === "closed"
+                                ? "closed"
+                                : `special hours ${holiday.open}–${holiday.close}`}
+                          </div>
                         )}
                       </div>
                     )}
@@ -396,14 +494,50 @@ export default function AddBookingButton() {
                       onChange={(e) => setPricingMode(e.target.value as PricingMode)}
                     >
                       <option value="court">Court</option>
-                      <option value="individual">
-                        Individual (₹150 weekday / ₹200 weekend)
-                      </option>
-                      <option value="individual2">
-                        Individuals (2) (₹300 weekday / ₹400 weekend)
-                      </option>
+                      <option value="individual">Individual</option>
+                      <option value="individual2">Individuals (2)</option>
                     </select>
                   </div>
+                  {who !== "member" && (
+                    <div>
+                      <label className="label">Coupon code</label>
+                      <input
+                        className="input"
+                        value={couponCode}
+                        onChange={(e) => setCouponCode(e.target.value.toUpperCase())}
+                        placeholder="Optional"
+                      />
+                    </div>
+                  )}
+                </div>
+
+                {/* Repeat (recurring series) */}
+                <div style={{ display: "grid", gap: 10, gridTemplateColumns: "1fr 1fr 1fr", marginTop: 10 }}>
+                  <div>
+                    <label className="label">Repeat</label>
+                    <select
+                      className="input"
+                      value={repeat}
+                      onChange={(e) => setRepeat(e.target.value as Repeat)}
+                    >
+                      <option value="none">Does not repeat</option>
+                      <option value="weekly">Weekly</option>
+                      <option value="daily">Daily</option>
+                    </select>
+                  </div>
+                  {repeat !== "none" && (
+                    <div>
+                      <label className="label">Occurrences</label>
+                      <input
+                        className="input"
+                        type="number"
+                        min={2}
+                        max={52}
+                        value={repeatCount}
+                        onChange={(e) => setRepeatCount(Math.max(2, Math.min(52, Number(e.target.value) || 2)))}
+                      />
+                    </div>
+                  )}
                 </div>
 
                 {/* Member/User → search */}
@@ -471,26 +605,35 @@ export default function AddBookingButton() {
 
               {/* Slot picker */}
               <div style={{ display: "grid", gap: 12, maxHeight: "48vh", overflowY: "auto", paddingRight: 4 }}>
-                {COURTS.map((c) => (
-                  <div key={c} style={{ border: "1px solid rgba(17,17,17,0.1)", borderRadius: 12, overflow: "hidden", background: "#fff" }}>
+                {date && !loadingAvail && courts.length === 0 && (
+                  <div style={{ padding: 10, fontSize: 14, color: "#555" }}>
+                    {holiday?.kind === "closed" ? `Closed for ${holiday.name}.` : "No courts are open on this date."}
+                  </div>
+                )}
+                {courts.map((court) => (
+                  <div key={court.courtId} style={{ border: "1px solid rgba(17,17,17,0.1)", borderRadius: 12, overflow: "hidden", background: "#fff" }}>
                     <div style={{ padding: "10px 12px", fontWeight: 800, background: "#fff7f2", borderBottom: "1px solid rgba(17,17,17,0.08)" }}>
-                      Court {c}
+                      {court.name}
                     </div>
                     <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill,minmax(110px,1fr))", gap: 8, padding: 12 }}>
-                      {Array.from({ length: SLOT_END_HOUR - SLOT_START_HOUR }, (_, i) => SLOT_START_HOUR + i).map((h) => {
-                        const start = hhmm(h);
-                        const end = hhmm(h + 1);
+                      {court.slots.map((slot) => {
+                        const { courtId: c, start, end } = slot;
                         const key = `${c}_${start}_${end}`;
                         const isBooked = bookedSet.has(key);
-                        const past = isPastSlot(h);
+                        const blockReason = blockedMap.get(key);
+                        const past = isPastSlot(start);
                         const active = selected.some(s => s.courtId === c && s.start === start && s.end === end);
 
-                        const disabled = isBooked;
+                        const disabled = isBooked || !!blockReason;
 
                         let bg = "#fff";
                         let border = "1px solid rgba(17,17,17,0.12)";
                         let color = "inherit";
-                        if (isBooked) {
+                        if (blockReason) {
+                          bg = "repeating-linear-gradient(45deg,#f3f4f6,#f3f4f6 6px,#e5e7eb 6px,#e5e7eb 12px)";
+                          border = "1px dashed #9ca3af";
+                          color = "#6b7280";
+                        } else if (isBooked) {
                           bg = "#22c55e"; // green
                           border = "1px solid #16a34a";
                           color = "#fff";
@@ -502,9 +645,9 @@ export default function AddBookingButton() {
 
                         return (
                           <button
-                            key={`${c}_${h}`}
+                            key={key}
                             type="button"
-                            onClick={() => toggle(c, h)}
+                            onClick={() => toggle(slot)}
                             className="btn"
                             disabled={disabled}
                             style={{
@@ -515,9 +658,13 @@ export default function AddBookingButton() {
                               cursor: disabled ? "not-allowed" : "pointer",
                               opacity: disabled ? 0.9 : 1,
                             }}
-                            title={isBooked ? "Already booked" : active ? "Selected" : "Available"}
+                            title={blockReason ? `Blocked: ${blockReason}` : isBooked ? "Already booked" : active ? "Selected" : "Available"}
                           >
-                            {label12h(h)} - {label12h(h + 1)}
+                            {label12h(start)} - {label12h(end)}
+                            {blockReason && <div style={{ fontSize: 11, fontWeight: 400 }}>Blocked</div>}
+                            {who !== "member" && !isBooked && !blockReason && prices[key] != null && (
+                              <div style={{ fontSize: 11, fontWeight: 400 }}>₹{prices[key]}</div>
+                            )}
                             {past ? "" : ""}
                           </button>
                         );
@@ -533,8 +680,12 @@ export default function AddBookingButton() {
                   {totalSlots} slot{totalSlots === 1 ? "" : "s"}
                   {who !== "member" && (
                     <>
-                      {" "}• ₹{effectivePerSlot}/slot • Total: <b>₹{totalAmount}</b>
-                      {pricingMode === "court" && weekend && " (weekend pricing)"}
+                      {" "}• Total: <b>₹{totalAmount}</b>
+                    </>
+                  )}
+                  {repeat !== "none" && (
+                    <>
+                      {" "}• × {repeatCount} {repeat === "weekly" ? "weeks" : "days"}
                     </>
                   )}
                 </div>
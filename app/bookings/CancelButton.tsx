@@ -3,6 +3,33 @@
 
 import { useState } from "react";
 
+type CancelQuote = {
+  kind: "membership_credit" | "refund";
+  currency: string;
+  policyName: string;
+  hoursBefore: number;
+  refundPercent: number;
+  restoreCredit: boolean;
+  tier: string;
+  slotPrice: number;
+  refundAmount: number;
+  paid?: number;
+};
+
+function describeQuote(q: CancelQuote): string {
+  const when =
+    q.hoursBefore >= 0 ? `${Math.floor(q.hoursBefore)}h before start` : `${Math.ceil(-q.hoursBefore)}h after start`;
+  const outcome =
+    q.kind === "membership_credit"
+      ? q.restoreCredit
+        ? "1 membership credit will be restored."
+        : `The membership credit will be forfeited (${q.tier} band).`
+      : q.refundAmount < Math.round((q.slotPrice * q.refundPercent) / 100)
+        ? `Refund ${q.refundPercent}%, limited to what was paid (${q.currency} ${q.paid ?? 0}): ${q.currency} ${q.refundAmount}.`
+        : `Refund ${q.refundPercent}%: ${q.currency} ${q.refundAmount}.`;
+  return `${q.policyName}, ${q.tier} band (${when})\n${outcome}`;
+}
+
 export default function CancelButton({
   bookingId,
   slotIndex,
@@ -21,11 +48,23 @@ export default function CancelButton({
   const [loading, setLoading] = useState(false);
 
   async function onClick() {
-    const ok = window.confirm("Cancel this slot?");
-    if (!ok) return;
-
     setLoading(true);
     try {
+      // show what the cancellation policy gives back before confirming
+      const qs = new URLSearchParams({ slotIndex: String(slotIndex), start, end });
+      if (courtId != null) qs.set("courtId", String(courtId));
+      const qr = await fetch(`/api/bookings/${bookingId}/slot?${qs}`, { cache: "no-store" });
+      const quote = await qr.json().catch(() => ({}));
+      if (!qr.ok) {
+        alert(quote.error || "Could not check the cancellation policy");
+        setLoading(false);
+        return;
+      }
+      if (!window.confirm(`Cancel this slot?\n\n${describeQuote(quote)}`)) {
+        setLoading(false);
+        return;
+      }
+
       const res = await fetch(`/api/bookings/${bookingId}/slot`, {
         method: "DELETE",
         headers: { "Content-Type": "application/json" },
@@ -37,6 +76,14 @@ export default function CancelButton({
         setLoading(false);
         return;
       }
+      // freed slot went to the next waitlisted player
+      if (j.waitlist) {
+        const w = j.waitlist as { name: string; phone?: string; holdUntil?: string };
+        alert(
+          `Next on the waitlist: ${w.name}${w.phone ? ` (${w.phone})` : ""}` +
+            (w.holdUntil ? `\nSlot held for them until ${new Date(w.holdUntil).toLocaleTimeString()}.` : "")
+        );
+      }
       window.location.reload();
     } catch {
       alert("Cancellation failed");
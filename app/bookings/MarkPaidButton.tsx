@@ -3,36 +3,140 @@
 
 import { useState } from "react";
 
-export default function MarkPaidButton({ bookingId }: { bookingId: string }) {
+const METHODS = ["CASH", "UPI", "CARD", "BANK", "ONLINE", "OTHER"] as const;
+
+type Payment = {
+  id: string;
+  amount: number;
+  method: string;
+  reference?: string;
+  paidAt: string;
+  recordedBy?: string;
+};
+
+export default function MarkPaidButton({
+  bookingId,
+  due,
+  currency = "INR",
+}: {
+  bookingId: string;
+  due?: number; // balance still to collect (defaults the amount field)
+  currency?: string;
+}) {
+  const [open, setOpen] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [amount, setAmount] = useState(due != null ? String(due) : "");
+  const [method, setMethod] = useState<(typeof METHODS)[number]>("CASH");
+  const [reference, setReference] = useState("");
+  const [history, setHistory] = useState<Payment[]>([]);
 
-  async function onClick() {
-    const ok = window.confirm("Mark this booking as PAID?");
+  async function openForm() {
+    setOpen(true);
+    try {
+      const r = await fetch(`/api/bookings/${bookingId}/payments`, { cache: "no-store" });
+      const j = await r.json().catch(() => ({}));
+      if (r.ok) {
+        setHistory(j.items || []);
+        setAmount(String(j.due ?? due ?? ""));
+      }
+    } catch {
+      // ledger is informational only
+    }
+  }
+
+  async function onSave() {
+    const n = Number(amount);
+    if (!Number.isFinite(n) || n <= 0) {
+      alert("Enter the amount received");
+      return;
+    }
+    const ok = window.confirm(`Record ${currency} ${n} received by ${method}?`);
     if (!ok) return;
     setLoading(true);
     try {
-      const res = await fetch(`/api/bookings/${bookingId}/mark-paid`, { method: "PATCH" });
+      const res = await fetch(`/api/bookings/${bookingId}/mark-paid`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ amount: n, method, reference: reference.trim() || undefined }),
+      });
+      const j = await res.json().catch(() => ({}));
       if (!res.ok) {
-        const j = await res.json().catch(() => ({}));
-        alert(j.error || "Failed to mark paid");
+        alert(j.error || "Failed to record payment");
         setLoading(false);
         return;
       }
+      if (j.due > 0) alert(`Payment recorded. ${currency} ${j.due} still due.`);
       window.location.reload();
     } catch {
-      alert("Failed to mark paid");
+      alert("Failed to record payment");
       setLoading(false);
     }
   }
 
+  if (!open) {
+    return (
+      <button
+        className="btn btn--primary"
+        onClick={openForm}
+        title="Record a full or part payment for this booking"
+      >
+        Mark Paid
+      </button>
+    );
+  }
+
   return (
-    <button
-      className="btn btn--primary"
-      onClick={onClick}
-      disabled={loading}
-      title="Set this booking as paid"
-    >
-      {loading ? "Marking…" : "Mark Paid"}
-    </button>
+    <div style={{ display: "grid", gap: 6 }}>
+      {history.length > 0 && (
+        <div style={{ fontSize: 12, color: "#555" }}>
+          {history.map((p) => (
+            <div key={p.id}>
+              {new Date(p.paidAt).toLocaleDateString()} · {currency} {p.amount} {p.method}
+              {p.reference ? ` (${p.reference})` : ""}
+              {p.recordedBy ? ` · ${p.recordedBy}` : ""}
+            </div>
+          ))}
+        </div>
+      )}
+      <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+        <input
+          className="input"
+          type="number"
+          min={1}
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          style={{ width: 90 }}
+          disabled={loading}
+        />
+        <select
+          className="input"
+          value={method}
+          onChange={(e) => setMethod(e.target.value as (typeof METHODS)[number])}
+          disabled={loading}
+        >
+          {METHODS.map((m) => (
+            <option key={m} value={m}>{m}</option>
+          ))}
+        </select>
+        <input
+          className="input"
+          value={reference}
+          onChange={(e) => setReference(e.target.value)}
+          placeholder="Reference"
+          style={{ width: 110 }}
+          disabled={loading}
+        />
+        <button className="btn btn--primary" onClick={onSave} disabled={loading}>
+          {loading ? "Saving…" : "Save"}
+        </button>
+        <button
+          className="btn"
+          onClick={() => setOpen(false)}
+          style={{ background: "#fff", border: "1px solid rgba(17,17,17,0.12)" }}
+        >
+          ✕
+        </button>
+      </div>
+    </div>
   );
 }
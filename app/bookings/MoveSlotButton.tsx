@@ -0,0 +1,118 @@
+// app/bookings/MoveSlotButton.tsx
+"use client";
+
+import { useState } from "react";
+
+type Slot = { courtId: number; start: string; end: string };
+type CourtGrid = { courtId: number; name: string; slots: Slot[] };
+type Availability = Record<number, { start: string; end: string }[]>;
+
+export default function MoveSlotButton({
+  bookingId,
+  slotIndex,
+  date,
+  courtId,
+  start,
+  end,
+}: {
+  bookingId: string;
+  slotIndex: number;
+  date: string; // YYYY-MM-DD
+  courtId?: number;
+  start: string;
+  end: string;
+}) {
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [free, setFree] = useState<Slot[]>([]);
+  const [target, setTarget] = useState("");
+
+  async function openPicker() {
+    setOpen(true);
+    setLoading(true);
+    try {
+      const r = await fetch(`/api/bookings/availability?date=${encodeURIComponent(date)}`, { cache: "no-store" });
+      const j = (await r.json().catch(() => ({}))) as {
+        availability?: Availability;
+        courts?: CourtGrid[];
+        blocked?: Availability;
+      };
+      const taken = j.availability || {};
+      const blocked = j.blocked || {};
+      setFree(
+        (j.courts || []).flatMap((c) =>
+          c.slots.filter(
+            (s) =>
+              !(taken[c.courtId] || []).some((t) => t.start === s.start) &&
+              !(blocked[c.courtId] || []).some((t) => t.start === s.start)
+          )
+        )
+      );
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function move() {
+    const to = free.find((s) => `${s.courtId}_${s.start}` === target);
+    if (!to) return;
+    if (!window.confirm(`Move Court ${courtId ?? "?"} ${start}–${end} to Court ${to.courtId} ${to.start}–${to.end}?`)) return;
+
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/bookings/${bookingId}/slot`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ slotIndex, courtId, start, end, to }),
+      });
+      const j = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        alert(j.error || "Move failed");
+        setLoading(false);
+        return;
+      }
+      if (j.due) alert(`Moved. Collect ₹${j.due} price difference.`);
+      else if (j.refunded) alert(`Moved. ₹${j.refunded} refunded (${j.refundStatus}).`);
+      window.location.reload();
+    } catch {
+      alert("Move failed");
+      setLoading(false);
+    }
+  }
+
+  if (!open) {
+    return (
+      <button
+        className="btn"
+        onClick={openPicker}
+        style={{ background: "#fff", border: "1px solid rgba(17,17,17,0.12)" }}
+        title="Move this slot to another court / time"
+      >
+        Move
+      </button>
+    );
+  }
+
+  return (
+    <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+      <select className="input" value={target} onChange={(e) => setTarget(e.target.value)} disabled={loading}>
+        <option value="">{loading ? "Loading…" : free.length ? "Move to…" : "No free slots"}</option>
+        {free.map((s) => (
+          <option key={`${s.courtId}_${s.start}`} value={`${s.courtId}_${s.start}`}>
+            Court {s.courtId} {s.start}–{s.end}
+          </option>
+        ))}
+      </select>
+      <button className="btn btn--primary" onClick={move} disabled={loading || !target}>
+        Move
+      </button>
+      <button
+        className="btn"
+        onClick={() => setOpen(false)}
+        style={{ background: "#fff", border: "1px solid rgba(17,17,17,0.12)" }}
+      >
+        ✕
+      </button>
+    </div>
+  );
+}
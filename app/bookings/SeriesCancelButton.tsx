@@ -0,0 +1,69 @@
+// app/bookings/SeriesCancelButton.tsx
+"use client";
+
+import { useState } from "react";
+
+type Scope = "one" | "following";
+
+export default function SeriesCancelButton({
+  seriesId,
+  bookingId,
+}: {
+  seriesId: string;
+  bookingId: string;
+}) {
+  const [loading, setLoading] = useState(false);
+
+  async function cancel(scope: Scope) {
+    const ok = window.confirm(
+      scope === "one"
+        ? "Cancel every slot of this occurrence?"
+        : "Cancel this occurrence and all later ones in the series?"
+    );
+    if (!ok) return;
+
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/bookings/series/${encodeURIComponent(seriesId)}`, {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ bookingId, scope }),
+      });
+      const j = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        alert(j.error || "Cancellation failed");
+        setLoading(false);
+        return;
+      }
+      if (Array.isArray(j.failed) && j.failed.length > 0) {
+        alert(
+          `Some occurrences could not be cancelled:\n` +
+            j.failed.map((f: { date: string; error: string }) => `${f.date}: ${f.error}`).join("\n")
+        );
+      }
+      window.location.reload();
+    } catch {
+      alert("Cancellation failed");
+      setLoading(false);
+    }
+  }
+
+  return (
+    <select
+      className="input"
+      value=""
+      disabled={loading}
+      onChange={(e) => {
+        const v = e.target.value as Scope | "";
+        if (v) cancel(v);
+      }}
+      style={{ minWidth: 140, color: "#b00020" }}
+      aria-label="Cancel recurring series"
+      title="Recurring booking"
+    >
+      <option value="">{loading ? "Cancelling…" : "Series…"}</option>
+      <option value="one">Cancel this date</option>
+      <option value="following">Cancel this & following</option>
+    </select>
+  );
+}
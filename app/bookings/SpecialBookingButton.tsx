@@ -2,6 +2,7 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
+import { useIdempotencyKey } from "@/lib/useIdempotencyKey";
 
 type OfferType = "flat" | "conditional";
 type Rule = { label: string; price: number; criteria?: string };
@@ -14,18 +15,22 @@ type Offer = {
   dateTo: string;   // ISO
   timeFrom: string; // "HH:mm"
   timeTo: string;   // "HH:mm"
+  weekdays?: number[];
+  windows?: { from: string; to: string }[];
+  courtIds?: number[];
+  minSlots?: number;
   flatPrice?: number;
   rules?: Rule[];
 };
 
 type Availability = Record<number, { start: string; end: string }[]>;
+type Blocked = Record<number, { start: string; end: string; reason: string; kind: string }[]>;
 type Slot = { courtId: number; start: string; end: string };
+type CourtGrid = { courtId: number; name: string; slots: Slot[] };
 type Who = "member" | "user" | "guest";
 
 type UserLite = { _id: string; userId?: string; name?: string; email?: string; phone?: string };
 
-const COURTS = [1, 2, 3];
-
 /* ----------------------------- Utils ----------------------------- */
 function isoDateOnly(d?: string | Date) {
   if (!d) return "";
@@ -35,18 +40,12 @@ function isoDateOnly(d?: string | Date) {
   const day = `${dt.getDate()}`.padStart(2, "0");
   return `${y}-${m}-${day}`;
 }
-function hhmm(h: number) {
-  return `${String(h).padStart(2, "0")}:00`;
-}
-function label12h(h: number) {
-  const ampm = h >= 12 ? "PM" : "AM";
+/** "18:30" → "6:30 PM" */
+function label12h(hhmm: string) {
+  const [h, m] = hhmm.split(":").map((v) => Number(v));
+  const ampm = h >= 12 && h < 24 ? "PM" : "AM";
   const hour = ((h + 11) % 12) + 1;
-  return `${hour}:00 ${ampm}`;
-}
-function toHour(hhmm: string) {
-  const m = /^(\d{1,2}):(\d{2})$/.exec(hhmm.trim());
-  if (!m) return NaN;
-  return Number(m[1]);
+  return `${hour}:${String(m || 0).padStart(2, "0")} ${ampm}`;
 }
 function toMin(hhmm: string) {
   const m = /^(\d{1,2}):(\d{2})$/.exec(hhmm.trim());
@@ -57,6 +56,19 @@ function withinRange(hhmm: string, from: string, to: string) {
   const v = toMin(hhmm), f = toMin(from), t = toMin(to);
   return !Number.isNaN(v) && !Number.isNaN(f) && !Number.isNaN(t) && v >= f && v <= t;
 }
+/** Offer windows: `windows` when set, else timeFrom..timeTo */
+function windowsOf(o: Offer) {
+  return o.windows?.length ? o.windows : [{ from: o.timeFrom, to: o.timeTo }];
+}
+/** Slot inside one of the offer's windows, on one of its courts */
+function slotInOffer(o: Offer, { courtId, start, end }: Slot) {
+  if (o.courtIds?.length && !o.courtIds.includes(courtId)) return false;
+  return windowsOf(o).some((w) => withinRange(start, w.from, w.to) && withinRange(end, w.from, w.to));
+}
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+function weekdayOf(ymd: string) {
+  return new Date(`${ymd}T00:00:00.000Z`).getUTCDay();
+}
 /** clamp yyyy-mm-dd into [min,max] (inclusive) */
 function clampDate(value: string, min?: string, max?: string) {
   if (!value) return value;
@@ -70,6 +82,7 @@ function clampDate(value: string, min?: string, max?: string) {
 
 export default function SpecialBookingButton() {
   const [open, setOpen] = useState(false);
+  const idempotency = useIdempotencyKey(); // one key per distinct submit
 
   // Who (member/user/guest)
   const [who, setWho] = useState<Who>("member");
@@ -86,7 +99,10 @@ export default function SpecialBookingButton() {
   const minDate = pickedOffer ? isoDateOnly(pickedOffer.dateFrom) : undefined;
   const maxDate = pickedOffer ? isoDateOnly(pickedOffer.dateTo) : undefined;
   const [availability, setAvailability] = useState<Availability>({});
+  const [blocked, setBlocked] = useState<Blocked>({}); // court block-outs for the date
+  const [courts, setCourts] = useState<CourtGrid[]>([]); // catalog grid for the date
   const [loadingAvail, setLoadingAvail] = useState(false);
+  const [availTick, setAvailTick] = useState(0); // bump to re-fetch after a 409
 
   // Slot selection
   const [selected, setSelected] = useState<Slot[]>([]);
@@ -103,22 +119,26 @@ export default function SpecialBookingButton() {
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string>("");
 
-  /* -------------------------- Load offers -------------------------- */
+  /* ------------------ Load offers open to `who` ------------------- */
   useEffect(() => {
     if (!open) return;
     let alive = true;
     (async () => {
       setLoadingOffers(true);
       try {
-        const r = await fetch("/api/offers/active", { cache: "no-store" });
+        const r = await fetch(`/api/offers/active?who=${who}`, { cache: "no-store" });
         const j = await r.json();
-        if (alive && j?.ok) setOffers(j.offers || []);
+        if (alive && j?.ok) {
+          const list: Offer[] = j.offers || [];
+          setOffers(list);
+          setOfferId((id) => (list.some((o) => o._id === id) ? id : ""));
+        }
       } finally {
         alive && setLoadingOffers(false);
       }
     })();
     return () => { alive = false; };
-  }, [open]);
+  }, [open, who]);
 
   /* ------------- Reset when offer changes ------------------------- */
   useEffect(() => {
@@ -129,11 +149,15 @@ export default function SpecialBookingButton() {
       setSelectedRuleLabel("");
       setSelected([]);
       setAvailability({});
+      setBlocked({});
+      setCourts([]);
     } else {
       setDate("");
       setSelectedRuleLabel("");
       setSelected([]);
       setAvailability({});
+      setBlocked({});
+      setCourts([]);
     }
   }, [pickedOffer]);
 
@@ -142,7 +166,7 @@ export default function SpecialBookingButton() {
     let abort = false;
     async function run() {
       if (!open) return;
-      if (!date) { setAvailability({}); return; }
+      if (!date) { setAvailability({}); setBlocked({}); setCourts([]); return; }
       setLoadingAvail(true);
       try {
         const r = await fetch(`/api/bookings/availability?date=${encodeURIComponent(date)}`, { cache: "no-store" });
@@ -150,6 +174,8 @@ export default function SpecialBookingButton() {
         if (!abort) {
           const avail = (j as { availability?: Availability }).availability || {};
           setAvailability(avail);
+          setBlocked((j as { blocked?: Blocked }).blocked || {});
+          setCourts((j as { courts?: CourtGrid[] }).courts || []);
         }
       } finally {
         if (!abort) setLoadingAvail(false);
@@ -157,7 +183,7 @@ export default function SpecialBookingButton() {
     }
     run();
     return () => { abort = true; };
-  }, [date, open]);
+  }, [date, open, availTick]);
 
   /* --------------------- Search (member/user) ---------------------- */
   useEffect(() => {
@@ -208,30 +234,32 @@ export default function SpecialBookingButton() {
     return s;
   }, [availability]);
 
-  /* -------- Offer hour window → show only within window ----------- */
-  const START_HOUR = useMemo(() => {
-    return pickedOffer ? Math.max(0, toHour(pickedOffer.timeFrom)) : 6;
-  }, [pickedOffer]);
-
-  const END_HOUR_EX = useMemo(() => {
-    return pickedOffer ? Math.min(24, toHour(pickedOffer.timeTo)) : 23;
-  }, [pickedOffer]);
-
-  function toggle(courtId: number, hour: number) {
-    if (!pickedOffer) return;
-    const start = hhmm(hour);
-    const end = hhmm(hour + 1);
-
-    // Guard: only within the active offer's time window
-    if (
-      !withinRange(start, pickedOffer.timeFrom, pickedOffer.timeTo) ||
-      !withinRange(end, pickedOffer.timeFrom, pickedOffer.timeTo)
-    ) {
-      return;
+  // key → block reason for cells inside a court block
+  const blockedMap = useMemo(() => {
+    const m = new Map<string, string>();
+    for (const cid of Object.keys(blocked)) {
+      for (const it of blocked[Number(cid)] || []) m.set(`${cid}_${it.start}_${it.end}`, `${it.reason} (${it.kind})`);
     }
+    return m;
+  }, [blocked]);
+
+  /* ---- Offer windows / courts / weekdays → show only eligible slots ---- */
+  const offerDay = !pickedOffer || !date || !pickedOffer.weekdays?.length || pickedOffer.weekdays.includes(weekdayOf(date));
+  const offerCourts = useMemo(() => {
+    if (!pickedOffer || !offerDay) return [];
+    return courts
+      .map((c) => ({ ...c, slots: c.slots.filter((s) => slotInOffer(pickedOffer, s)) }))
+      .filter((c) => c.slots.length > 0);
+  }, [courts, pickedOffer, offerDay]);
+
+  function toggle({ courtId, start, end }: Slot) {
+    if (!pickedOffer) return;
+
+    // Guard: only within the active offer's windows and courts
+    if (!offerDay || !slotInOffer(pickedOffer, { courtId, start, end })) return;
 
     const key = `${courtId}_${start}_${end}`;
-    if (bookedSet.has(key)) return;
+    if (bookedSet.has(key) || blockedMap.has(key)) return;
 
     setSelected((s) => {
       const exists = s.find((x) => x.courtId === courtId && x.start === start && x.end === end);
@@ -257,6 +285,10 @@ export default function SpecialBookingButton() {
     if (!date) return setError("Pick a date");
     if (!selected.length) return setError("Select at least one slot");
     if (pickedOffer.type === "conditional" && !selectedRuleLabel) return setError("Select a rule");
+    if (!offerDay) return setError("The offer does not run on this weekday");
+    if (pickedOffer.minSlots && selected.length < pickedOffer.minSlots) {
+      return setError(`This offer needs at least ${pickedOffer.minSlots} slots`);
+    }
 
     if (who === "member" || who === "user") {
       if (!selectedUser) return setError("Search and select a user");
@@ -267,12 +299,11 @@ export default function SpecialBookingButton() {
 
     // Safety re-checks for window & availability
     for (const s of selected) {
-      if (!withinRange(s.start, pickedOffer.timeFrom, pickedOffer.timeTo) ||
-          !withinRange(s.end, pickedOffer.timeFrom, pickedOffer.timeTo)) {
+      if (!slotInOffer(pickedOffer, s)) {
         return setError("Some slots are outside the offer time window.");
       }
       const key = `${s.courtId}_${s.start}_${s.end}`;
-      if (bookedSet.has(key)) return setError("Some selected slots are no longer available.");
+      if (bookedSet.has(key) || blockedMap.has(key)) return setError("Some selected slots are no longer available.");
     }
 
     setSubmitting(true);
@@ -296,12 +327,21 @@ export default function SpecialBookingButton() {
         payload.userName = guestName.trim();
       }
 
+      const reqBody = JSON.stringify(payload);
       const r = await fetch("/api/bookings/admin/special", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
+        headers: { "Content-Type": "application/json", "Idempotency-Key": idempotency.keyFor(reqBody) },
+        body: reqBody,
       });
       const j = await r.json();
+      idempotency.reset();
+      if (r.status === 409 && Array.isArray(j?.conflicts)) {
+        const conflicts = j.conflicts as Slot[];
+        setSelected((cur) =>
+          cur.filter((s) => !conflicts.some((c) => c.courtId === s.courtId && c.start === s.start))
+        );
+        setAvailTick((t) => t + 1);
+      }
       if (!j?.ok) setError(j?.error || "Failed to create booking");
       else {
         setOpen(false);
@@ -446,7 +486,11 @@ export default function SpecialBookingButton() {
                 {/* Validity */}
                 {pickedOffer && (
                   <div style={{ marginTop: 8, fontSize: 12, opacity: 0.8 }}>
-                    Valid: {isoDateOnly(pickedOffer.dateFrom)} → {isoDateOnly(pickedOffer.dateTo)} · Hours: {pickedOffer.timeFrom}–{pickedOffer.timeTo}
+                    Valid: {isoDateOnly(pickedOffer.dateFrom)} → {isoDateOnly(pickedOffer.dateTo)} · Hours:{" "}
+                    {windowsOf(pickedOffer).map((w) => `${w.from}–${w.to}`).join(", ")}
+                    {pickedOffer.weekdays?.length ? ` · ${pickedOffer.weekdays.map((d) => WEEKDAYS[d]).join(", ")}` : ""}
+                    {pickedOffer.courtIds?.length ? ` · Courts ${pickedOffer.courtIds.join(", ")}` : ""}
+                    {pickedOffer.minSlots ? ` · Min ${pickedOffer.minSlots} slots` : ""}
                   </div>
                 )}
 
@@ -474,20 +518,25 @@ export default function SpecialBookingButton() {
                   </div>
                 )}
 
-                {/* Slot picker (3 courts) within offer window only */}
+                {/* Slot picker (catalog courts) within offer window only */}
                 {pickedOffer && date && (
                   <div style={{ display: "grid", gap: 12, maxHeight: "48vh", overflowY: "auto", paddingRight: 4, marginTop: 12 }}>
-                    {COURTS.map((c) => (
-                      <div key={c} style={{ border: "1px solid rgba(17,17,17,0.1)", borderRadius: 12, overflow: "hidden", background: "#fff" }}>
+                    {!loadingAvail && offerCourts.length === 0 && (
+                      <div style={{ padding: 10, fontSize: 14, color: "#555" }}>
+                        {offerDay ? "No offer slots are open on this date." : "The offer does not run on this weekday."}
+                      </div>
+                    )}
+                    {offerCourts.map((court) => (
+                      <div key={court.courtId} style={{ border: "1px solid rgba(17,17,17,0.1)", borderRadius: 12, overflow: "hidden", background: "#fff" }}>
                         <div style={{ padding: "10px 12px", fontWeight: 800, background: "#fff7f2", borderBottom: "1px solid rgba(17,17,17,0.08)" }}>
-                          Court {c}
+                          {court.name}
                         </div>
                         <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill,minmax(110px,1fr))", gap: 8, padding: 12 }}>
-                          {Array.from({ length: Math.max(0, (END_HOUR_EX - START_HOUR)) }, (_, i) => START_HOUR + i).map((h) => {
-                            const start = hhmm(h);
-                            const end = hhmm(h + 1);
+                          {court.slots.map((slot) => {
+                            const { courtId: c, start, end } = slot;
                             const key = `${c}_${start}_${end}`;
                             const isBooked = bookedSet.has(key);
+                            const blockReason = blockedMap.get(key);
                             const active = selected.some(s => s.courtId === c && s.start === start && s.end === end);
 
                             let bg = "#fff";
@@ -495,7 +544,12 @@ export default function SpecialBookingButton() {
                             let color = "inherit";
                             let disabled = false;
 
-                            if (isBooked) {
+                            if (blockReason) {
+                              bg = "repeating-linear-gradient(45deg,#f3f4f6,#f3f4f6 6px,#e5e7eb 6px,#e5e7eb 12px)";
+                              border = "1px dashed #9ca3af";
+                              color = "#6b7280";
+                              disabled = true;
+                            } else if (isBooked) {
                               bg = "#22c55e";
                               border = "1px solid #16a34a";
                               color = "#fff";
@@ -508,9 +562,9 @@ export default function SpecialBookingButton() {
 
                             return (
                               <button
-                                key={`${c}_${h}`}
+                                key={key}
                                 type="button"
-                                onClick={() => toggle(c, h)}
+                                onClick={() => toggle(slot)}
                                 className="btn"
                                 disabled={disabled}
                                 style={{
@@ -521,9 +575,9 @@ export default function SpecialBookingButton() {
                                   cursor: disabled ? "not-allowed" : "pointer",
                                   opacity: disabled ? 0.9 : 1,
                                 }}
-                                title={isBooked ? "Already booked" : active ? "Selected" : "Available"}
+                                title={blockReason ? `Blocked: ${blockReason}` : isBooked ? "Already booked" : active ? "Selected" : "Available"}
                               >
-                                {label12h(h)} - {label12h(h + 1)}
+                                {label12h(start)} - {label12h(end)}
                               </button>
                             );
                           })}
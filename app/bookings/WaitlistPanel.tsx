@@ -0,0 +1,285 @@
+// app/bookings/WaitlistPanel.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+
+type Who = "member" | "user" | "guest";
+type Slot = { courtId: number; start: string; end: string };
+type CourtGrid = { courtId: number; name: string; slots: Slot[] };
+
+type Entry = {
+  _id: string;
+  date: string;
+  courtId: number;
+  start: string;
+  end: string;
+  who: Who;
+  name: string;
+  phone?: string;
+  userEmail?: string;
+  note?: string;
+  status: "waiting" | "offered" | "booked" | "expired";
+  holdUntil?: string;
+  createdAt?: string;
+};
+
+type Form = { courtId: number | ""; slot: string; who: Who; name: string; phone: string; userEmail: string; note: string };
+
+function todayYMD() {
+  const dt = new Date();
+  const m = `${dt.getMonth() + 1}`.padStart(2, "0");
+  const d = `${dt.getDate()}`.padStart(2, "0");
+  return `${dt.getFullYear()}-${m}-${d}`;
+}
+
+function emptyForm(): Form {
+  return { courtId: "", slot: "", who: "guest", name: "", phone: "", userEmail: "", note: "" };
+}
+
+function statusLabel(e: Entry): string {
+  if (e.status === "expired") return "Hold lapsed";
+  if (e.status !== "offered") return e.status === "booked" ? "Booked" : "Waiting";
+  if (!e.holdUntil) return "Slot free – call them";
+  const until = new Date(e.holdUntil);
+  return until.getTime() > Date.now()
+    ? `Held until ${until.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
+    : "Hold lapsed";
+}
+
+export default function WaitlistPanel({ initialDate }: { initialDate?: string }) {
+  const [date, setDate] = useState(initialDate || todayYMD());
+  const [items, setItems] = useState<Entry[]>([]);
+  const [courts, setCourts] = useState<CourtGrid[]>([]);
+  const [form, setForm] = useState<Form>(emptyForm());
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+
+  async function load(d = date) {
+    setLoading(true);
+    const [r, ra] = await Promise.all([
+      fetch(`/api/waitlist?date=${encodeURIComponent(d)}`, { cache: "no-store" }),
+      fetch(`/api/bookings/availability?date=${encodeURIComponent(d)}`, { cache: "no-store" }),
+    ]);
+    const j = await r.json().catch(() => ({}));
+    const ja = await ra.json().catch(() => ({}));
+    if (!j?.ok) setErr(j?.error || "Failed to load waitlist");
+    else setItems(j.items || []);
+    setCourts(Array.isArray(ja?.courts) ? ja.courts : []);
+    setLoading(false);
+  }
+
+  useEffect(() => {
+    load(date);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [date]);
+
+  function setField<K extends keyof Form>(k: K, v: Form[K]) {
+    setForm((f) => ({ ...f, [k]: v }));
+  }
+
+  const courtSlots = courts.find((c) => c.courtId === form.courtId)?.slots || [];
+
+  async function add() {
+    setErr(null);
+    const slot = courtSlots.find((s) => `${s.start}-${s.end}` === form.slot);
+    if (!slot) return setErr("Pick a court and slot.");
+
+    const r = await fetch("/api/waitlist", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        date,
+        courtId: slot.courtId,
+        start: slot.start,
+        end: slot.end,
+        who: form.who,
+        name: form.name.trim(),
+        phone: form.phone.trim(),
+        ...(form.who !== "guest" ? { userEmail: form.userEmail.trim().toLowerCase() } : {}),
+        note: form.note.trim(),
+      }),
+    });
+    const j = await r.json().catch(() => ({}));
+    if (!j?.ok) return setErr(j?.error || "Failed to add to waitlist");
+    setForm(emptyForm());
+    await load();
+  }
+
+  async function book(e: Entry, markPaid: boolean) {
+    setBusyId(e._id);
+    setErr(null);
+    const r = await fetch(`/api/waitlist/${e._id}/book`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ markPaid }),
+    });
+    const j = await r.json().catch(() => ({}));
+    setBusyId(null);
+    if (!r.ok) return setErr(j?.error || "Failed to book");
+    window.location.reload();
+  }
+
+  async function remove(id: string) {
+    if (!confirm("Remove this player from the waitlist?")) return;
+    setBusyId(id);
+    const r = await fetch(`/api/waitlist/${id}`, { method: "DELETE" });
+    const j = await r.json().catch(() => ({}));
+    setBusyId(null);
+    if (!j?.ok) setErr(j?.error || "Failed to remove");
+    else setItems((arr) => arr.filter((x) => x._id !== id));
+  }
+
+  return (
+    <details style={{ marginTop: 12 }} open={items.some((i) => i.status === "offered")}>
+      <summary style={{ cursor: "pointer", fontWeight: 600 }}>
+        Waitlist {items.length > 0 && <span className="badge">{items.filter((i) => i.status === "waiting" || i.status === "offered").length}</span>}
+      </summary>
+
+      <div style={{ marginTop: 10 }}>
+        {err && (
+          <div className="badge" style={{ background: "#fff0f0", borderColor: "rgba(176,0,32,0.35)", color: "#b00020", marginBottom: 8 }}>
+            {err}
+          </div>
+        )}
+
+        <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "flex-end" }}>
+          <div>
+            <label className="label">Date</label>
+            <input className="input" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          <div>
+            <label className="label">Court</label>
+            <select
+              className="input"
+              value={form.courtId}
+              onChange={(e) => { setField("courtId", e.target.value ? Number(e.target.value) : ""); setField("slot", ""); }}
+            >
+              <option value="">Select…</option>
+              {courts.map((c) => (
+                <option key={c.courtId} value={c.courtId}>{c.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="label">Slot</label>
+            <select className="input" value={form.slot} onChange={(e) => setField("slot", e.target.value)}>
+              <option value="">Select…</option>
+              {courtSlots.map((s) => (
+                <option key={s.start} value={`${s.start}-${s.end}`}>{s.start}–{s.end}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="label">Who</label>
+            <select className="input" value={form.who} onChange={(e) => setField("who", e.target.value as Who)}>
+              <option value="guest">Guest</option>
+              <option value="user">User</option>
+              <option value="member">Member</option>
+            </select>
+          </div>
+          <div>
+            <label className="label">Name</label>
+            <input className="input" value={form.name} onChange={(e) => setField("name", e.target.value)} />
+          </div>
+          <div>
+            <label className="label">Phone</label>
+            <input className="input" value={form.phone} onChange={(e) => setField("phone", e.target.value)} />
+          </div>
+          {form.who !== "guest" && (
+            <div>
+              <label className="label">Email</label>
+              <input className="input" value={form.userEmail} onChange={(e) => setField("userEmail", e.target.value)} />
+            </div>
+          )}
+          <div>
+            <label className="label">Note</label>
+            <input className="input" value={form.note} onChange={(e) => setField("note", e.target.value)} />
+          </div>
+          <button className="btn btn--primary" type="button" onClick={add}>
+            + Add to Waitlist
+          </button>
+        </div>
+
+        <div className="table-wrap" style={{ marginTop: 10 }}>
+          <table className="table">
+            <thead>
+              <tr>
+                <th>#</th>
+                <th>Court</th>
+                <th>Slot</th>
+                <th>Name</th>
+                <th>Phone</th>
+                <th>Who</th>
+                <th>Status</th>
+                <th>Note</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((e, idx) => (
+                <tr key={e._id}>
+                  <td>{idx + 1}</td>
+                  <td>{e.courtId}</td>
+                  <td>{e.start}–{e.end}</td>
+                  <td>{e.name}</td>
+                  <td>{e.phone || "—"}</td>
+                  <td style={{ textTransform: "capitalize" }}>{e.who}</td>
+                  <td>
+                    <span className="badge">{statusLabel(e)}</span>
+                  </td>
+                  <td>{e.note || "—"}</td>
+                  <td>
+                    {e.status !== "booked" && (
+                      <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                        {e.status === "offered" && (
+                          <>
+                            <button
+                              className="btn"
+                              type="button"
+                              disabled={busyId === e._id}
+                              onClick={() => book(e, false)}
+                              style={{ background: "#fff", border: "1px solid rgba(17,17,17,0.12)" }}
+                            >
+                              {e.who === "member" ? "Book" : "Book (Pending)"}
+                            </button>
+                            {e.who !== "member" && (
+                              <button
+                                className="btn btn--primary"
+                                type="button"
+                                disabled={busyId === e._id}
+                                onClick={() => book(e, true)}
+                              >
+                                Book & Mark Paid
+                              </button>
+                            )}
+                          </>
+                        )}
+                        <button
+                          className="btn"
+                          type="button"
+                          disabled={busyId === e._id}
+                          onClick={() => remove(e._id)}
+                          style={{ background: "#fff", border: "1px solid rgba(176, 0, 32, 0.35)", color: "#b00020" }}
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {items.length === 0 && (
+                <tr>
+                  <td colSpan={9} style={{ textAlign: "center", padding: "14px" }}>
+                    {loading ? "Loading…" : "Nobody waiting on this date."}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </details>
+  );
+}
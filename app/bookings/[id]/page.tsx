@@ -0,0 +1,360 @@
+// app/bookings/[id]/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import MarkPaidButton from "../MarkPaidButton";
+
+const METHODS = ["CASH", "UPI", "CARD", "BANK", "ONLINE", "OTHER"] as const;
+type Method = (typeof METHODS)[number];
+
+type Booking = {
+  id: string;
+  userName: string;
+  phone?: string;
+  userEmail?: string;
+  date: string;
+  slots: { courtId: number; start: string; end: string; attendance?: "checked_in" | "no_show" }[];
+  amount: number;
+  currency: string;
+  paymentRef?: string;
+  paymentState: "membership" | "paid" | "unpaid";
+  who: string;
+  bookingType: string;
+};
+type Payment = {
+  id: string;
+  participantId?: string;
+  amount: number;
+  method: string;
+  reference?: string;
+  paidAt: string;
+  recordedBy?: string;
+};
+type Share = { id: string; name: string; phone?: string; share: number; paid: number; due: number; settled: boolean };
+type NoShow = { bookingId: string; date: string; courtId: number; start: string; end: string };
+type DraftPlayer = { id?: string; name: string; phone: string; share: string };
+
+export default function BookingDetailPage({ params }: { params: { id: string } }) {
+  const id = params.id;
+  const [booking, setBooking] = useState<Booking | null>(null);
+  const [code, setCode] = useState("");
+  const [noShows, setNoShows] = useState<NoShow[]>([]);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [shares, setShares] = useState<Share[]>([]);
+  const [paid, setPaid] = useState(0);
+  const [due, setDue] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<DraftPlayer[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [shareMethod, setShareMethod] = useState<Record<string, Method>>({});
+
+  async function load() {
+    setLoading(true);
+    const r = await fetch(`/api/bookings/${id}`, { cache: "no-store" });
+    const j = await r.json().catch(() => ({}));
+    if (!r.ok) setError(j?.error || "Failed to load booking");
+    else {
+      setError(null);
+      setBooking(j.booking);
+      setCode(j.code || "");
+      loadNoShows(j.booking);
+      setPayments(j.payments || []);
+      setShares(j.shares || []);
+      setPaid(j.paid ?? 0);
+      setDue(j.due ?? 0);
+    }
+    setLoading(false);
+  }
+
+  async function loadNoShows(b: Booking) {
+    const qs = new URLSearchParams();
+    if (b.who === "guest") {
+      if (b.phone) qs.set("phone", b.phone);
+    } else if (b.userEmail) qs.set("email", b.userEmail);
+    if (!qs.toString()) return;
+    const r = await fetch(`/api/bookings/no-shows?${qs.toString()}`, { cache: "no-store" });
+    const j = await r.json().catch(() => ({}));
+    if (r.ok) setNoShows(j.items || []);
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [id]);
+
+  function startEdit() {
+    setDraft(
+      shares.length
+        ? shares.map((s) => ({ id: s.id, name: s.name, phone: s.phone || "", share: String(s.share) }))
+        : [{ name: booking?.userName || "", phone: booking?.phone || "", share: String(booking?.amount ?? 0) }]
+    );
+    setEditing(true);
+  }
+
+  function setDraftField(i: number, k: keyof DraftPlayer, v: string) {
+    setDraft((d) => d.map((p, idx) => (idx === i ? { ...p, [k]: v } : p)));
+  }
+
+  /** Equal shares; the rounding remainder goes to the first player */
+  function splitEqually() {
+    if (!booking || !draft.length) return;
+    const each = Math.floor(booking.amount / draft.length);
+    const rest = booking.amount - each * draft.length;
+    setDraft((d) => d.map((p, i) => ({ ...p, share: String(each + (i === 0 ? rest : 0)) })));
+  }
+
+  async function saveParticipants(list: DraftPlayer[]) {
+    setSaving(true);
+    const r = await fetch(`/api/bookings/${id}/participants`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        participants: list.map((p) => ({ id: p.id, name: p.name.trim(), phone: p.phone.trim(), share: Number(p.share) })),
+      }),
+    });
+    const j = await r.json().catch(() => ({}));
+    setSaving(false);
+    if (!r.ok) {
+      alert(j.error || "Failed to save players");
+      return;
+    }
+    setEditing(false);
+    await load();
+  }
+
+  async function payShare(s: Share) {
+    const method = shareMethod[s.id] || "CASH";
+    if (!window.confirm(`Record ${booking?.currency} ${s.due} from ${s.name} by ${method}?`)) return;
+    const r = await fetch(`/api/bookings/${id}/mark-paid`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ participantId: s.id, method }),
+    });
+    const j = await r.json().catch(() => ({}));
+    if (!r.ok) {
+      alert(j.error || "Failed to record payment");
+      return;
+    }
+    await load();
+  }
+
+  const draftTotal = draft.reduce((sum, p) => sum + (Number(p.share) || 0), 0);
+  const playerName = (pid?: string) => shares.find((s) => s.id === pid)?.name || "—";
+  const canSplit = booking?.paymentState === "unpaid";
+
+  return (
+    <div className="card" style={{ maxWidth: "100%" }}>
+      <div
+        className="card__header"
+        style={{ display: "flex", alignItems: "center", gap: 12, justifyContent: "space-between", flexWrap: "wrap" }}
+      >
+        <h1 className="card__title" style={{ marginBottom: 6 }}>
+          Booking {booking ? `· ${booking.userName}` : ""}
+        </h1>
+        <a href="/bookings" className="btn" style={{ background: "#fff", border: "1px solid rgba(17,17,17,0.12)" }}>
+          ← Bookings list
+        </a>
+      </div>
+
+      <div className="card__body">
+        {error && <div className="badge" style={{ background: "#fff0f0", color: "#b00020" }}>{error}</div>}
+        {loading && !booking && <div style={{ padding: 18, textAlign: "center" }}>Loading…</div>}
+
+        {booking && (
+          <>
+            <div style={{ display: "flex", gap: 16, flexWrap: "wrap", marginBottom: 16, fontSize: 14 }}>
+              <div><span className="label">Date</span> {booking.date}</div>
+              <div><span className="label">Phone</span> {booking.phone || "—"}</div>
+              <div style={{ textTransform: "capitalize" }}><span className="label">Who</span> {booking.who}</div>
+              <div><span className="label">Type</span> {booking.bookingType}</div>
+              <div>
+                <span className="label">Slots</span>{" "}
+                {booking.slots
+                  .map(
+                    (s) =>
+                      `Court ${s.courtId} ${s.start}–${s.end}` +
+                      (s.attendance === "checked_in" ? " ✓" : s.attendance === "no_show" ? " (no-show)" : "")
+                  )
+                  .join(", ") || "—"}
+              </div>
+              <div>
+                <span className="label">Code</span> <b style={{ fontFamily: "monospace", letterSpacing: 2 }}>{code}</b>
+              </div>
+              <div><span className="label">Amount</span> {booking.currency} {booking.amount}</div>
+              <div>
+                <span className="label">Payment</span>{" "}
+                <span
+                  className="badge"
+                  style={due > 0 ? { background: "#fff0f0", borderColor: "rgba(176,0,32,0.35)", color: "#b00020" } : undefined}
+                >
+                  {booking.paymentState === "membership" ? "MEMBERSHIP" : due > 0 ? `Paid ${paid} · Due ${due}` : "PAID"}
+                </span>
+              </div>
+            </div>
+
+            {/* Players / split shares */}
+            <div style={{ display: "flex", alignItems: "center", gap: 8, justifyContent: "space-between", flexWrap: "wrap" }}>
+              <h2 style={{ fontSize: 16, margin: "8px 0" }}>Players</h2>
+              {canSplit && !editing && (
+                <button className="btn" onClick={startEdit} style={{ background: "#fff", border: "1px solid rgba(17,17,17,0.12)" }}>
+                  {shares.length ? "Edit shares" : "Split between players"}
+                </button>
+              )}
+            </div>
+
+            {editing ? (
+              <div style={{ display: "grid", gap: 8, marginBottom: 16 }}>
+                {draft.map((p, i) => (
+                  <div key={p.id || `new-${i}`} style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+                    <input className="input" value={p.name} onChange={(e) => setDraftField(i, "name", e.target.value)} placeholder="Name" />
+                    <input className="input" value={p.phone} onChange={(e) => setDraftField(i, "phone", e.target.value)} placeholder="Phone" />
+                    <input
+                      className="input"
+                      type="number"
+                      min={0}
+                      value={p.share}
+                      onChange={(e) => setDraftField(i, "share", e.target.value)}
+                      style={{ width: 100 }}
+                    />
+                    <button
+                      className="btn"
+                      onClick={() => setDraft((d) => d.filter((_, idx) => idx !== i))}
+                      style={{ background: "#fff", border: "1px solid rgba(17,17,17,0.12)" }}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+                <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+                  <button
+                    className="btn"
+                    onClick={() => setDraft((d) => [...d, { name: "", phone: "", share: "0" }])}
+                    style={{ background: "#fff", border: "1px solid rgba(17,17,17,0.12)" }}
+                  >
+                    + Add player
+                  </button>
+                  <button className="btn" onClick={splitEqually} style={{ background: "#fff", border: "1px solid rgba(17,17,17,0.12)" }}>
+                    Split equally
+                  </button>
+                  <span style={{ fontSize: 12, color: draftTotal === booking.amount ? "#666" : "#b00020" }}>
+                    Total {draftTotal} / {booking.amount}
+                  </span>
+                  <button className="btn btn--primary" onClick={() => saveParticipants(draft)} disabled={saving}>
+                    {saving ? "Saving…" : "Save shares"}
+                  </button>
+                  {shares.length > 0 && (
+                    <button className="btn" onClick={() => saveParticipants([])} disabled={saving} style={{ color: "#b00020" }}>
+                      Remove split
+                    </button>
+                  )}
+                  <button className="btn" onClick={() => setEditing(false)} style={{ background: "#fff", border: "1px solid rgba(17,17,17,0.12)" }}>
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : shares.length ? (
+              <div className="table-wrap" style={{ marginBottom: 16 }}>
+                <table className="table">
+                  <thead>
+                    <tr>
+                      <th>Name</th>
+                      <th>Phone</th>
+                      <th>Share</th>
+                      <th>Paid</th>
+                      <th>Due</th>
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {shares.map((s) => (
+                      <tr key={s.id}>
+                        <td>{s.name}</td>
+                        <td>{s.phone || "—"}</td>
+                        <td>{s.share}</td>
+                        <td>{s.paid}</td>
+                        <td>{s.due}</td>
+                        <td>
+                          {s.settled ? (
+                            <span className="badge">PAID</span>
+                          ) : (
+                            <div style={{ display: "flex", gap: 6 }}>
+                              <select
+                                className="input"
+                                value={shareMethod[s.id] || "CASH"}
+                                onChange={(e) => setShareMethod((m) => ({ ...m, [s.id]: e.target.value as Method }))}
+                              >
+                                {METHODS.map((m) => (
+                                  <option key={m} value={m}>{m}</option>
+                                ))}
+                              </select>
+                              <button className="btn btn--primary" onClick={() => payShare(s)}>
+                                Mark share paid
+                              </button>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <div style={{ fontSize: 13, color: "#666", marginBottom: 16 }}>Not split — one payer for the whole booking.</div>
+            )}
+
+            {/* Ledger */}
+            <div style={{ display: "flex", alignItems: "center", gap: 8, justifyContent: "space-between", flexWrap: "wrap" }}>
+              <h2 style={{ fontSize: 16, margin: "8px 0" }}>Payments</h2>
+              {due > 0 && !shares.length && <MarkPaidButton bookingId={booking.id} due={due} currency={booking.currency} />}
+            </div>
+            <div className="table-wrap">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>When</th>
+                    <th>Amount</th>
+                    <th>Method</th>
+                    <th>Reference</th>
+                    {shares.length > 0 && <th>Player</th>}
+                    <th>Recorded by</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {payments.map((p) => (
+                    <tr key={p.id}>
+                      <td>{new Date(p.paidAt).toLocaleString()}</td>
+                      <td>{booking.currency} {p.amount}</td>
+                      <td>{p.method}</td>
+                      <td>{p.reference || "—"}</td>
+                      {shares.length > 0 && <td>{playerName(p.participantId)}</td>}
+                      <td>{p.recordedBy || "—"}</td>
+                    </tr>
+                  ))}
+                  {payments.length === 0 && (
+                    <tr>
+                      <td colSpan={6} style={{ textAlign: "center", padding: 18 }}>No payments recorded.</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            {noShows.length > 0 && (
+              <div style={{ marginTop: 16, fontSize: 13 }}>
+                <h2 style={{ fontSize: 16, margin: "8px 0", color: "#b00020" }}>No-shows ({noShows.length})</h2>
+                {noShows.map((n, i) => (
+                  <div key={`${n.bookingId}-${i}`}>
+                    <a href={`/bookings/${n.bookingId}`}>{n.date}</a> · Court {n.courtId} {n.start}–{n.end}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+// app/bookings/arrivals/page.tsx
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+type Attendance = "checked_in" | "no_show";
+type Arrival = {
+  bookingId: string;
+  code: string;
+  slotIndex: number;
+  courtId: number;
+  start: string;
+  end: string;
+  userName: string;
+  phone?: string;
+  who: string;
+  paymentState: "membership" | "paid" | "unpaid";
+  attendance?: Attendance;
+  noShows: number;
+};
+
+function ymd(dt: Date) {
+  const m = `${dt.getMonth() + 1}`.padStart(2, "0");
+  const d = `${dt.getDate()}`.padStart(2, "0");
+  return `${dt.getFullYear()}-${m}-${d}`;
+}
+
+const ATTENDANCE_LABEL: Record<Attendance, { text: string; bg: string; color: string }> = {
+  checked_in: { text: "Checked in", bg: "#22c55e", color: "#fff" },
+  no_show: { text: "No-show", bg: "#fff0f0", color: "#b00020" },
+};
+
+export default function ArrivalsPage() {
+  const [date, setDate] = useState(() => ymd(new Date()));
+  const [items, setItems] = useState<Arrival[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [notice, setNotice] = useState<string | null>(null);
+  const codeRef = useRef<HTMLInputElement>(null);
+
+  async function load(d = date) {
+    setLoading(true);
+    const r = await fetch(`/api/bookings/arrivals?date=${encodeURIComponent(d)}`, { cache: "no-store" });
+    const j = await r.json().catch(() => ({}));
+    if (!r.ok) setError(j?.error || "Failed to load arrivals");
+    else {
+      setError(null);
+      setItems(j.items || []);
+    }
+    setLoading(false);
+  }
+
+  useEffect(() => {
+    load(date);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [date]);
+
+  // scanners type the code and press Enter
+  async function submitCode(e: React.FormEvent) {
+    e.preventDefault();
+    if (!code.trim()) return;
+    const r = await fetch("/api/bookings/arrivals", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ code: code.trim(), date }),
+    });
+    const j = await r.json().catch(() => ({}));
+    if (!r.ok) setNotice(j?.error || "Check-in failed");
+    else {
+      const due = j.paymentState === "unpaid" ? " · payment pending" : "";
+      setNotice(j.already ? `${j.userName} is already checked in` : `Checked in ${j.userName}${due}`);
+      await load();
+    }
+    setCode("");
+    codeRef.current?.focus();
+  }
+
+  async function mark(a: Arrival, status: Attendance | null) {
+    const r = await fetch(`/api/bookings/${a.bookingId}/attendance`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ slotIndex: a.slotIndex, status }),
+    });
+    const j = await r.json().catch(() => ({}));
+    if (!r.ok) {
+      alert(j.error || "Update failed");
+      return;
+    }
+    await load();
+  }
+
+  const checkedIn = items.filter((a) => a.attendance === "checked_in").length;
+  const noShows = items.filter((a) => a.attendance === "no_show").length;
+
+  return (
+    <div className="card" style={{ maxWidth: "100%" }}>
+      <div
+        className="card__header"
+        style={{ display: "flex", alignItems: "center", gap: 12, justifyContent: "space-between", flexWrap: "wrap" }}
+      >
+        <h1 className="card__title" style={{ marginBottom: 6 }}>
+          Arrivals
+        </h1>
+        <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+          <input className="input" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          <button
+            className="btn"
+            onClick={() => setDate(ymd(new Date()))}
+            style={{ background: "#fff", border: "1px solid rgba(17,17,17,0.12)" }}
+          >
+            Today
+          </button>
+          <a href="/bookings" className="btn" style={{ background: "#fff", border: "1px solid rgba(17,17,17,0.12)" }}>
+            ← Bookings list
+          </a>
+        </div>
+      </div>
+
+      <div className="card__body">
+        <form onSubmit={submitCode} style={{ display: "flex", gap: 8, flexWrap: "wrap", marginBottom: 12 }}>
+          <input
+            ref={codeRef}
+            className="input"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="Scan or type booking code"
+            autoFocus
+            style={{ flex: 1, minWidth: 200, fontFamily: "monospace", textTransform: "uppercase" }}
+          />
+          <button className="btn btn--primary" type="submit">
+            Check in
+          </button>
+        </form>
+
+        {notice && <div className="badge" style={{ marginBottom: 10 }}>{notice}</div>}
+        {error && <div className="badge" style={{ background: "#fff0f0", color: "#b00020" }}>{error}</div>}
+
+        <div style={{ fontSize: 12, color: "#666", marginBottom: 8 }}>
+          {items.length} slots · {checkedIn} checked in · {noShows} no-show
+          {loading && " · Loading…"}
+        </div>
+
+        <div className="table-wrap">
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Time</th>
+                <th>Court</th>
+                <th>Name</th>
+                <th>Phone</th>
+                <th>Code</th>
+                <th>Payment</th>
+                <th>Status</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((a) => {
+                const st = a.attendance ? ATTENDANCE_LABEL[a.attendance] : null;
+                return (
+                  <tr key={`${a.bookingId}-${a.slotIndex}`}>
+                    <td style={{ whiteSpace: "nowrap" }}>{a.start}–{a.end}</td>
+                    <td>{a.courtId}</td>
+                    <td>
+                      <a href={`/bookings/${a.bookingId}`}>{a.userName}</a>
+                      {a.noShows > 0 && (
+                        <span
+                          className="badge"
+                          style={{ marginLeft: 6, background: "#fff0f0", color: "#b00020" }}
+                          title="No-shows on record"
+                        >
+                          {a.noShows} no-show{a.noShows > 1 ? "s" : ""}
+                        </span>
+                      )}
+                    </td>
+                    <td>{a.phone || "—"}</td>
+                    <td style={{ fontFamily: "monospace" }}>{a.code}</td>
+                    <td style={{ textTransform: "capitalize" }}>{a.paymentState}</td>
+                    <td>
+                      {st ? (
+                        <span className="badge" style={{ background: st.bg, color: st.color }}>{st.text}</span>
+                      ) : (
+                        "—"
+                      )}
+                    </td>
+                    <td>
+                      <div style={{ display: "flex", gap: 6 }}>
+                        {!a.attendance && (
+                          <>
+                            <button className="btn btn--primary" onClick={() => mark(a, "checked_in")}>
+                              Check in
+                            </button>
+                            <button
+                              className="btn"
+                              onClick={() => mark(a, "no_show")}
+                              style={{ background: "#fff", border: "1px solid rgba(17,17,17,0.12)" }}
+                            >
+                              No-show
+                            </button>
+                          </>
+                        )}
+                        {a.attendance && (
+                          <button
+                            className="btn"
+                            onClick={() => mark(a, null)}
+                            style={{ background: "#fff", border: "1px solid rgba(17,17,17,0.12)" }}
+                          >
+                            Undo
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+              {!loading && items.length === 0 && (
+                <tr>
+                  <td colSpan={8} style={{ textAlign: "center", padding: 18 }}>No bookings on this date.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+// app/bookings/calendar/page.tsx
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import AddBookingButton from "../AddBookingButton";
+
+type CellState = "free" | "booked" | "pending" | "blocked" | "held";
+type Cell = {
+  start: string;
+  end: string;
+  state: CellState;
+  bookingId?: string;
+  name?: string;
+  phone?: string;
+  who?: string;
+  paymentRef?: string;
+  reason?: string;
+};
+type Day = {
+  date: string;
+  holiday: { name: string; kind: string } | null;
+  courts: { courtId: number; name: string; cells: Cell[] }[];
+};
+type CourtLite = { courtId: number; name: string };
+type Slot = { courtId: number; start: string; end: string };
+
+const DOW = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const STATE_STYLE: Record<CellState, { bg: string; color: string; label: string }> = {
+  free: { bg: "#fff", color: "#111", label: "Free" },
+  booked: { bg: "#22c55e", color: "#fff", label: "Booked" },
+  pending: { bg: "#f59e0b", color: "#fff", label: "Pending payment" },
+  blocked: { bg: "#e5e7eb", color: "#6b7280", label: "Blocked" },
+  held: { bg: "#bfdbfe", color: "#1e3a8a", label: "Held (waitlist)" },
+};
+
+function ymd(dt: Date) {
+  const m = `${dt.getMonth() + 1}`.padStart(2, "0");
+  const d = `${dt.getDate()}`.padStart(2, "0");
+  return `${dt.getFullYear()}-${m}-${d}`;
+}
+
+/** Monday of the week containing `dt` (local time) */
+function weekStart(dt: Date) {
+  const d = new Date(dt.getFullYear(), dt.getMonth(), dt.getDate());
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return d;
+}
+
+function addDays(dt: Date, n: number) {
+  const d = new Date(dt);
+  d.setDate(d.getDate() + n);
+  return d;
+}
+
+function dayHeader(date: string) {
+  const [y, m, d] = date.split("-").map(Number);
+  return `${DOW[new Date(Date.UTC(y, m - 1, d)).getUTCDay()]} ${d}/${m}`;
+}
+
+export default function BookingCalendarPage() {
+  const [monday, setMonday] = useState<Date>(() => weekStart(new Date()));
+  const [courtFilter, setCourtFilter] = useState<string>("");
+  const [courts, setCourts] = useState<CourtLite[]>([]);
+  const [days, setDays] = useState<Day[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [prefill, setPrefill] = useState<{ date: string; slot?: Slot } | null>(null);
+
+  const from = ymd(monday);
+  const to = ymd(addDays(monday, 6));
+
+  useEffect(() => {
+    fetch("/api/courts")
+      .then((r) => r.json())
+      .then((j) => j?.ok && setCourts(j.items || []))
+      .catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    let abort = false;
+    async function run() {
+      setLoading(true);
+      setError(null);
+      try {
+        const qs = new URLSearchParams({ from, to });
+        if (courtFilter) qs.set("courtId", courtFilter);
+        const r = await fetch(`/api/bookings/availability/range?${qs.toString()}`, { cache: "no-store" });
+        const j = await r.json().catch(() => ({}));
+        if (abort) return;
+        if (!r.ok) setError(j?.error || "Failed to load schedule");
+        else setDays(j.days || []);
+      } finally {
+        if (!abort) setLoading(false);
+      }
+    }
+    run();
+    return () => { abort = true; };
+  }, [from, to, courtFilter]);
+
+  // one table per court: rows = slot start times across the week, columns = days
+  const tables = useMemo(() => {
+    const byCourt = new Map<number, { name: string; starts: Set<string>; cells: Map<string, Cell> }>();
+    for (const day of days) {
+      for (const c of day.courts) {
+        if (!byCourt.has(c.courtId)) byCourt.set(c.courtId, { name: c.name, starts: new Set(), cells: new Map() });
+        const t = byCourt.get(c.courtId)!;
+        for (const cell of c.cells) {
+          t.starts.add(cell.start);
+          t.cells.set(`${day.date}_${cell.start}`, cell);
+        }
+      }
+    }
+    return Array.from(byCourt.entries())
+      .sort((a, b) => a[0] - b[0])
+      .map(([courtId, t]) => ({ courtId, name: t.name, starts: Array.from(t.starts).sort(), cells: t.cells }));
+  }, [days]);
+
+  return (
+    <div className="card" style={{ maxWidth: "100%" }}>
+      <div
+        className="card__header"
+        style={{ display: "flex", alignItems: "center", gap: 12, justifyContent: "space-between", flexWrap: "wrap" }}
+      >
+        <h1 className="card__title" style={{ marginBottom: 6 }}>
+          Court Schedule
+        </h1>
+        <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+          <button className="btn" onClick={() => setMonday((m) => addDays(m, -7))} style={{ background: "#fff", border: "1px solid rgba(17,17,17,0.12)" }}>
+            ← Prev
+          </button>
+          <button className="btn" onClick={() => setMonday(weekStart(new Date()))} style={{ background: "#fff", border: "1px solid rgba(17,17,17,0.12)" }}>
+            This week
+          </button>
+          <button className="btn" onClick={() => setMonday((m) => addDays(m, 7))} style={{ background: "#fff", border: "1px solid rgba(17,17,17,0.12)" }}>
+            Next →
+          </button>
+          <select className="input" value={courtFilter} onChange={(e) => setCourtFilter(e.target.value)} style={{ minWidth: 140 }}>
+            <option value="">All courts</option>
+            {courts.map((c) => (
+              <option key={c.courtId} value={c.courtId}>{c.name}</option>
+            ))}
+          </select>
+          <AddBookingButton prefill={prefill} onClose={() => setPrefill(null)} />
+          <a href="/bookings" className="btn" style={{ background: "#fff", border: "1px solid rgba(17,17,17,0.12)" }}>
+            ← Bookings list
+          </a>
+        </div>
+      </div>
+
+      <div className="card__body">
+        <div style={{ display: "flex", gap: 10, flexWrap: "wrap", marginBottom: 10, fontSize: 12 }}>
+          <b>{from} → {to}</b>
+          {(Object.keys(STATE_STYLE) as CellState[]).map((k) => (
+            <span key={k} className="badge" style={{ background: STATE_STYLE[k].bg, color: STATE_STYLE[k].color }}>
+              {STATE_STYLE[k].label}
+            </span>
+          ))}
+          {loading && <span style={{ color: "#666" }}>Loading…</span>}
+        </div>
+
+        {error && <div className="badge" style={{ background: "#fff0f0", color: "#b00020" }}>{error}</div>}
+
+        {days.some((d) => d.holiday) && (
+          <div style={{ fontSize: 12, color: "#b45309", marginBottom: 10 }}>
+            {days.filter((d) => d.holiday).map((d) => `${dayHeader(d.date)}: ${d.holiday!.name} (${d.holiday!.kind})`).join(" • ")}
+          </div>
+        )}
+
+        {tables.map((t) => (
+          <div key={t.courtId} className="table-wrap" style={{ marginBottom: 16 }}>
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>{t.name}</th>
+                  {days.map((d) => (
+                    <th key={d.date}>{dayHeader(d.date)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {t.starts.map((start) => (
+                  <tr key={start}>
+                    <td style={{ whiteSpace: "nowrap" }}>{start}</td>
+                    {days.map((d) => {
+                      const cell = t.cells.get(`${d.date}_${start}`);
+                      if (!cell) return <td key={d.date} style={{ background: "#f9fafb" }} />;
+                      const st = STATE_STYLE[cell.state];
+                      const clickable = cell.state === "free";
+                      return (
+                        <td
+                          key={d.date}
+                          onClick={
+                            clickable
+                              ? () => setPrefill({ date: d.date, slot: { courtId: t.courtId, start: cell.start, end: cell.end } })
+                              : undefined
+                          }
+                          title={
+                            cell.state === "blocked"
+                              ? `Blocked: ${cell.reason}`
+                              : cell.name
+                                ? `${cell.name}${cell.phone ? ` · ${cell.phone}` : ""}${cell.paymentRef ? ` · ${cell.paymentRef}` : ""}`
+                                : clickable
+                                  ? "Click to book"
+                                  : st.label
+                          }
+                          style={{
+                            background: st.bg,
+                            color: st.color,
+                            cursor: clickable ? "pointer" : "default",
+                            fontSize: 12,
+                            minWidth: 90,
+                          }}
+                        >
+                          {cell.state === "free" ? "" : cell.state === "blocked" ? cell.reason : cell.name || st.label}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))}
+
+        {!loading && tables.length === 0 && <div style={{ padding: 18, textAlign: "center" }}>No courts open this week.</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+// app/bookings/closure/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+
+type CourtLite = { courtId: number; name: string };
+
+type Outcome = {
+  bookingId: string;
+  userName: string;
+  phone?: string;
+  who: string;
+  slots: { courtId: number; start: string; end: string }[];
+  status: "pending" | "cancelled" | "partial" | "failed";
+  cancelled: number;
+  refunded: number;
+  creditsRestored: number;
+  currency: string;
+  errors: string[];
+};
+
+type Report = {
+  date: string;
+  dryRun: boolean;
+  blockId?: string;
+  bookings: Outcome[];
+  remaining: number;
+  totals: { bookings: number; slots: number; cancelled: number; failed: number; refunded: number; creditsRestored: number };
+};
+
+function ymd(dt: Date) {
+  const m = `${dt.getMonth() + 1}`.padStart(2, "0");
+  const d = `${dt.getDate()}`.padStart(2, "0");
+  return `${dt.getFullYear()}-${m}-${d}`;
+}
+
+// Outcomes of earlier chunks plus the latest one (which lists what is still pending)
+function mergeReports(done: Outcome[], latest: Report, blockId?: string): Report {
+  const bookings = [...done, ...latest.bookings];
+  const slots = bookings.reduce((n, o) => n + o.slots.length, 0);
+  const cancelled = bookings.reduce((n, o) => n + o.cancelled, 0);
+  return {
+    ...latest,
+    blockId,
+    bookings,
+    totals: {
+      bookings: bookings.length,
+      slots,
+      cancelled,
+      failed: bookings.reduce((n, o) => n + (o.status === "pending" ? 0 : o.slots.length - o.cancelled), 0),
+      refunded: bookings.reduce((n, o) => n + o.refunded, 0),
+      creditsRestored: bookings.reduce((n, o) => n + o.creditsRestored, 0),
+    },
+  };
+}
+
+const STATUS_STYLE: Record<Outcome["status"], { bg: string; color: string }> = {
+  pending: { bg: "#f4f4f5", color: "#333" },
+  cancelled: { bg: "#22c55e", color: "#fff" },
+  partial: { bg: "#fff7e6", color: "#8a5a00" },
+  failed: { bg: "#fff0f0", color: "#b00020" },
+};
+
+export default function VenueClosurePage() {
+  const [courts, setCourts] = useState<CourtLite[]>([]);
+  const [date, setDate] = useState(() => ymd(new Date()));
+  const [timeFrom, setTimeFrom] = useState("");
+  const [timeTo, setTimeTo] = useState("");
+  const [courtIds, setCourtIds] = useState<number[]>([]);
+  const [reason, setReason] = useState("");
+  const [blockCourts, setBlockCourts] = useState(true);
+  const [report, setReport] = useState<Report | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/courts")
+      .then((r) => r.json())
+      .then((j) => j?.ok && setCourts(j.items || []))
+      .catch(() => {});
+  }, []);
+
+  function toggleCourt(id: number) {
+    setCourtIds((ids) => (ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id].sort((a, b) => a - b)));
+    setReport(null);
+  }
+
+  async function run(dryRun: boolean) {
+    if (!dryRun) {
+      const n = report?.totals.slots ?? 0;
+      const ok = window.confirm(
+        `Cancel ${n} slot${n === 1 ? "" : "s"} across ${report?.totals.bookings ?? 0} bookings on ${date}?\n\n` +
+          "Online bookings are refunded in full and membership credits restored. This cannot be undone."
+      );
+      if (!ok) return;
+    }
+
+    setLoading(true);
+    // cancels run a chunk per request; keep going until nothing is pending
+    const done: Outcome[] = [];
+    let blockId: string | undefined;
+    try {
+      for (;;) {
+        const exclude = done.filter((o) => o.status !== "cancelled").map((o) => o.bookingId);
+        const res = await fetch("/api/bookings/closure", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            date, timeFrom, timeTo, courtIds, reason, dryRun, exclude,
+            blockCourts: blockCourts && !blockId && !done.length,
+          }),
+        });
+        const j = await res.json().catch(() => ({}));
+        if (!res.ok) {
+          alert(j.error || "Closure failed");
+          return;
+        }
+        const latest = j as Report;
+        blockId = blockId || latest.blockId;
+        setReport(dryRun ? latest : mergeReports(done, latest, blockId));
+        if (dryRun || !latest.remaining) return;
+        done.push(...latest.bookings.filter((o) => o.status !== "pending"));
+      }
+    } catch {
+      alert("Closure failed");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const preview = report?.dryRun ? report : null;
+
+  return (
+    <div className="card" style={{ maxWidth: "100%" }}>
+      <div
+        className="card__header"
+        style={{ display: "flex", alignItems: "center", gap: 12, justifyContent: "space-between", flexWrap: "wrap" }}
+      >
+        <h1 className="card__title" style={{ marginBottom: 6 }}>
+          Venue Closure
+        </h1>
+        <a href="/bookings" className="btn" style={{ background: "#fff", border: "1px solid rgba(17,17,17,0.12)" }}>
+          ← Bookings list
+        </a>
+      </div>
+
+      <div className="card__body">
+        <p style={{ fontSize: 13, color: "#666", marginTop: 0 }}>
+          Cancels every booking in the window with a full refund (or membership credit back), whatever the
+          cancellation policy says. Freed slots are not offered to the waitlist.
+        </p>
+
+        <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginBottom: 10 }}>
+          <input
+            className="input"
+            type="date"
+            value={date}
+            onChange={(e) => {
+              setDate(e.target.value);
+              setReport(null);
+            }}
+          />
+          <input
+            className="input"
+            type="time"
+            value={timeFrom}
+            onChange={(e) => {
+              setTimeFrom(e.target.value);
+              setReport(null);
+            }}
+            title="From (blank = opening)"
+          />
+          <input
+            className="input"
+            type="time"
+            value={timeTo}
+            onChange={(e) => {
+              setTimeTo(e.target.value);
+              setReport(null);
+            }}
+            title="To (blank = close)"
+          />
+          <input
+            className="input"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason, e.g. Roof leak after rain"
+            style={{ flex: 1, minWidth: 220 }}
+          />
+        </div>
+
+        <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "center", marginBottom: 12 }}>
+          <span style={{ fontSize: 13, color: "#666" }}>Courts (none checked = all):</span>
+          {courts.map((c) => (
+            <label key={c.courtId} style={{ display: "flex", gap: 4, alignItems: "center" }}>
+              <input type="checkbox" checked={courtIds.includes(c.courtId)} onChange={() => toggleCourt(c.courtId)} />
+              {c.name}
+            </label>
+          ))}
+          <label style={{ display: "flex", gap: 4, alignItems: "center", marginLeft: "auto" }}>
+            <input type="checkbox" checked={blockCourts} onChange={(e) => setBlockCourts(e.target.checked)} />
+            Block the window so it can&apos;t be rebooked
+          </label>
+        </div>
+
+        <div style={{ display: "flex", gap: 8, marginBottom: 12 }}>
+          <button
+            className="btn"
+            onClick={() => run(true)}
+            disabled={loading || !reason.trim()}
+            style={{ background: "#fff", border: "1px solid rgba(17,17,17,0.12)" }}
+          >
+            {loading && !preview ? "Checking…" : "Preview affected bookings"}
+          </button>
+          <button
+            className="btn"
+            onClick={() => run(false)}
+            disabled={loading || !preview || preview.totals.slots === 0}
+            style={{ background: "#fff", border: "1px solid rgba(176, 0, 32, 0.35)", color: "#b00020" }}
+          >
+            {loading && report && !report.dryRun
+              ? `Cancelling… ${report.totals.cancelled}/${report.totals.slots}`
+              : loading && preview
+                ? "Cancelling…"
+                : `Cancel ${preview ? preview.totals.slots : ""} slots`}
+          </button>
+        </div>
+
+        {report && (
+          <>
+            <div style={{ fontSize: 12, color: "#666", marginBottom: 8 }}>
+              {report.dryRun
+                ? `${report.totals.bookings} bookings · ${report.totals.slots} slots would be cancelled`
+                : `${report.totals.cancelled}/${report.totals.slots} slots cancelled · ${report.totals.failed} failed · ` +
+                  `refunded ${report.totals.refunded} · ${report.totals.creditsRestored} credits restored` +
+                  (report.blockId ? " · window blocked" : "")}
+            </div>
+
+            <div className="table-wrap">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Name</th>
+                    <th>Phone</th>
+                    <th>Who</th>
+                    <th>Slots</th>
+                    <th>Status</th>
+                    <th>Refunded</th>
+                    <th>Credits</th>
+                    <th>Errors</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.bookings.map((o) => (
+                    <tr key={o.bookingId}>
+                      <td>
+                        <a href={`/bookings/${o.bookingId}`}>{o.userName}</a>
+                      </td>
+                      <td>{o.phone || "—"}</td>
+                      <td>{o.who}</td>
+                      <td style={{ whiteSpace: "nowrap" }}>
+                        {o.slots.map((s) => `C${s.courtId} ${s.start}–${s.end}`).join(", ")}
+                      </td>
+                      <td>
+                        <span
+                          className="badge"
+                          style={{ background: STATUS_STYLE[o.status].bg, color: STATUS_STYLE[o.status].color }}
+                        >
+                          {o.status === "pending" ? "To cancel" : o.status}
+                        </span>
+                      </td>
+                      <td>{report.dryRun ? "—" : `${o.currency} ${o.refunded}`}</td>
+                      <td>{report.dryRun ? "—" : o.creditsRestored}</td>
+                      <td style={{ color: "#b00020", fontSize: 12 }}>{o.errors.join("; ")}</td>
+                    </tr>
+                  ))}
+                  {report.bookings.length === 0 && (
+                    <tr>
+                      <td colSpan={8} style={{ textAlign: "center", padding: 18 }}>No bookings in this window.</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
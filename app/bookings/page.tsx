@@ -1,53 +1,24 @@
 // app/bookings/page.tsx
 import React from "react";
-import { BookingModel } from "@/models/Booking";
-import { GuestBookingModel } from "@/models/GuestBooking";
-import { UserModel } from "@/models/User";
+import { listBookings } from "@/lib/bookingService";
+import { paymentSummaries } from "@/lib/bookingPayments";
 import CancelButton from "./CancelButton";
+import SeriesCancelButton from "./SeriesCancelButton";
+import MoveSlotButton from "./MoveSlotButton";
 import MarkPaidButton from "./MarkPaidButton";
 import AddBookingButton from "./AddBookingButton";
 import ClearAllBookingsButton from "./ClearAllBookingsButton";
 import SpecialBookingButton from "./SpecialBookingButton"; // ⟵ NEW
+import WaitlistPanel from "./WaitlistPanel";
 
 type SearchParams = {
   q?: string;
   date?: string;
+  from?: string;
+  to?: string;
   courtId?: string;
-};
-
-type BookingLean = {
-  _id: string | { toString?: () => string };
-  userId?: string;
-  userName?: string;
-  userEmail?: string;
-  userPhone?: string;
-  date?: string;
-  slots?: Array<{ courtId?: number; start?: string; end?: string }>;
-  amount?: number;
-  currency?: string;
-  paymentRef?: string;
-  adminPaid?: boolean;
-  createdAt?: Date | string;
-  // NEW meta fields
-  bookingType?: "Normal" | "Special" | "Individual";
-  who?: "member" | "user" | "guest";
-};
-
-type GuestBookingLean = {
-  _id: string | { toString?: () => string };
-  userName?: string;
-  phone_number?: string;
-  guestPhone?: string;
-  date?: string;
-  slots?: Array<{ courtId?: number; start?: string; end?: string }>;
-  amount?: number;
-  currency?: string;
-  paymentRef?: string;
-  adminPaid?: boolean;
-  createdAt?: Date | string;
-  // Not present in schema yet, but keep optional for future
-  bookingType?: "Normal" | "Special" | "Individual";
-  who?: "member" | "user" | "guest";
+  who?: string;
+  payment?: string;
 };
 
 // Helper: show dates as dd/mm/yyyy for UI
@@ -78,126 +49,28 @@ function formatDisplayDate(raw?: string): string {
 }
 
 export default async function BookingsPage({ searchParams }: { searchParams: SearchParams }) {
-  const Booking = await BookingModel();
-  const GuestBooking = await GuestBookingModel();
-  const User = await UserModel();
-
   const q = (searchParams.q || "").trim();
   const dateFilter = (searchParams.date || "").trim();
+  const fromFilter = (searchParams.from || "").trim();
+  const toFilter = (searchParams.to || "").trim();
+  const whoFilter = (searchParams.who || "").trim();
+  const paymentFilter = (searchParams.payment || "").trim();
   const courtIdFilterRaw = (searchParams.courtId || "").trim();
   const courtIdFilter =
     courtIdFilterRaw && !Number.isNaN(Number(courtIdFilterRaw))
       ? Number(courtIdFilterRaw)
       : null;
 
-  // Helper: check ObjectId
-  const isValidObjectIdString = (s: unknown) =>
-    typeof s === "string" && /^[0-9a-fA-F]{24}$/.test(s);
-
-  /** ---------------------------------------
-   * Build main bookings query
-   * ------------------------------------- */
-  const query: any = {};
-  const orParts: any[] = [];
-
-  if (q) {
-    orParts.push({ userName: { $regex: q, $options: "i" } });
-    orParts.push({ userPhone: { $regex: q, $options: "i" } }); // legacy support: if ever stored
-
-    // Phone search → map to users by phone and match userId variants
-    const looksLikePhone = /\d{4,}/.test(q.replace(/\s+/g, ""));
-    if (looksLikePhone) {
-      const matchedUsers = await User.find({ phone: { $regex: q, $options: "i" } })
-        .select({ _id: 1, userId: 1 })
-        .lean<{ _id: unknown; userId?: string }[]>();
-
-      if (matchedUsers.length) {
-        const idStrings = matchedUsers.map((u) => String(u._id));
-        const usernames = matchedUsers.map((u) => String(u.userId || "")).filter(Boolean);
-        if (idStrings.length) orParts.push({ userId: { $in: idStrings } });
-        if (usernames.length) orParts.push({ userId: { $in: usernames } });
-      }
-    }
-  }
-
-  if (orParts.length) query.$or = orParts;
-  if (dateFilter) query.date = dateFilter;
-
-  const bookings = (await Booking.find(query)
-    .select({
-      userId: 1,
-      userName: 1,
-      userEmail: 1,
-      userPhone: 1,
-      date: 1,
-      slots: 1,
-      amount: 1,
-      currency: 1,
-      paymentRef: 1,
-      adminPaid: 1,
-      createdAt: 1,
-      // NEW selects
-      bookingType: 1,
-      who: 1,
+  // bookings + guest_bookings (name / phone / email search, phones resolved from users)
+  const bookings = (
+    await listBookings({
+      q,
+      date: dateFilter || undefined,
+      from: fromFilter || undefined,
+      to: toFilter || undefined,
     })
-    .sort({ createdAt: -1 })
-    .lean()) as BookingLean[];
-
-  /** ---------------------------------------
-   * Resolve user phone numbers
-   * ------------------------------------- */
-  const userIds = Array.from(new Set(bookings.map((b) => String(b.userId || "")).filter(Boolean)));
-  const idLike = userIds.filter(isValidObjectIdString);
-  const usernameLike = userIds.filter((v) => !isValidObjectIdString(v));
-
-  const usersForPhones = await User.find({
-    $or: [
-      ...(idLike.length ? [{ _id: { $in: idLike } }] : []),
-      ...(usernameLike.length ? [{ userId: { $in: usernameLike } }] : []),
-    ],
-  })
-    .select({ _id: 1, userId: 1, phone: 1 })
-    .lean();
-
-  const phoneByKey = new Map<string, string>();
-  for (const u of usersForPhones) {
-    const _idStr = String(u._id);
-    const uname = String(u.userId || "");
-    const phone = u.phone || "";
-    phoneByKey.set(_idStr, phone);
-    if (uname) phoneByKey.set(uname, phone);
-  }
-
-  /** ---------------------------------------
-   * Guest bookings
-   * ------------------------------------- */
-  const guestQuery: any = {};
-  if (q) {
-    guestQuery.$or = [
-      { userName: { $regex: q, $options: "i" } },
-      { phone_number: { $regex: q, $options: "i" } },
-      { guestPhone: { $regex: q, $options: "i" } },
-    ];
-  }
-  if (dateFilter) guestQuery.date = dateFilter;
-
-  const guestBookings = (await GuestBooking.find(guestQuery)
-    .select({
-      userName: 1,
-      phone_number: 1,
-      guestPhone: 1,
-      date: 1,
-      slots: 1,
-      amount: 1,
-      currency: 1,
-      paymentRef: 1,
-      adminPaid: 1,
-      createdAt: 1,
-      // keep room for future
-      bookingType: 1,
-      who: 1,
-    })
-    .lean()) as GuestBookingLean[];
+  ).filter((b) => (!whoFilter || b.who === whoFilter) && (!paymentFilter || b.paymentState === paymentFilter));
+  const payments = await paymentSummaries(bookings); // paid / due from the payment ledger
 
   /** ---------------------------------------
    * Merge and transform to rows
@@ -211,6 +84,9 @@ export default async function BookingsPage({ searchParams }: { searchParams: Sea
     currency?: string;
     paymentRef?: string;
     adminPaid?: boolean;
+    paid: number; // booking-level, from the payment ledger
+    due: number;
+    split: boolean; // cost split between players – shares are paid from the detail page
     courtId: number | null;
     start: string;
     end: string;
@@ -219,13 +95,11 @@ export default async function BookingsPage({ searchParams }: { searchParams: Sea
     // NEW for display/filter later
     bookingType: "Normal" | "Special" | "Individual";
     who: "member" | "user" | "guest";
+    seriesId?: string;
   };
 
   const rows: Row[] = [];
 
-  const toIdString = (v: string | { toString?: () => string }) =>
-    typeof v === "string" ? v : v?.toString?.() || "";
-
   // helper: compute per-slot amount (rounded to nearest rupee)
   function perSlotAmount(total?: number, count?: number): number | null {
     if (typeof total !== "number") return null;
@@ -234,25 +108,24 @@ export default async function BookingsPage({ searchParams }: { searchParams: Sea
   }
 
   for (const b of bookings) {
-    const phone =
-      (b.userId && phoneByKey.get(String(b.userId))) ||
-      b.userPhone ||
-      "—";
-
     const base = {
-      bookingId: toIdString(b._id),
-      userName: b.userName || "—",
-      userPhone: phone,
+      bookingId: b.id,
+      userName: b.userName,
+      userPhone: b.phone || "—",
       date: b.date || "—",
       currency: b.currency,
       paymentRef: b.paymentRef,
-      adminPaid: b.adminPaid === true,
+      adminPaid: b.paymentState !== "unpaid",
+      paid: payments.get(b.id)?.paid ?? 0,
+      due: payments.get(b.id)?.due ?? 0,
+      split: b.participants.length > 0,
       createdAt: new Date(b.createdAt ?? Date.now()).getTime(),
-      bookingType: (b.bookingType as Row["bookingType"]) || "Normal",
-      who: (b.who as Row["who"]) || "user", // older rows default to "user" if not set
+      bookingType: b.bookingType,
+      who: b.who,
+      seriesId: b.seriesId,
     };
 
-    const slots = b.slots || [];
+    const slots = b.slots;
     const perSlot = perSlotAmount(b.amount, slots.length);
 
     if (slots.length) {
@@ -278,49 +151,6 @@ export default async function BookingsPage({ searchParams }: { searchParams: Sea
     }
   }
 
-  for (const g of guestBookings) {
-    const phone = g.phone_number || g.guestPhone || "—";
-    const isPaid = String(g.paymentRef || "").toUpperCase().startsWith("PAID.");
-
-    const base = {
-      bookingId: toIdString(g._id),
-      userName: g.userName || "—",
-      userPhone: phone,
-      date: g.date || "—",
-      currency: g.currency,
-      paymentRef: g.paymentRef,
-      adminPaid: isPaid,
-      createdAt: new Date(g.createdAt ?? Date.now()).getTime(),
-      bookingType: (g.bookingType as Row["bookingType"]) || "Normal",
-      who: (g.who as Row["who"]) || "guest",
-    };
-
-    const slots = g.slots || [];
-    const perSlot = perSlotAmount(g.amount, slots.length);
-
-    if (slots.length) {
-      slots.forEach((s, idx) =>
-        rows.push({
-          ...base,
-          amount: perSlot,
-          courtId: s.courtId ?? null,
-          start: s.start || "—",
-          end: s.end || "—",
-          slotIndex: idx,
-        })
-      );
-    } else {
-      rows.push({
-        ...base,
-        amount: g.amount ?? null,
-        courtId: null,
-        start: "—",
-        end: "—",
-        slotIndex: -1,
-      });
-    }
-  }
-
   /** ---------------------------------------
    * Sorting: date asc → start asc → newest created
    * ------------------------------------- */
@@ -402,8 +232,16 @@ export default async function BookingsPage({ searchParams }: { searchParams: Sea
   const params = new URLSearchParams();
   if (q) params.set("q", q);
   if (dateFilter) params.set("date", dateFilter);
+  if (fromFilter) params.set("from", fromFilter);
+  if (toFilter) params.set("to", toFilter);
   if (courtIdFilter != null) params.set("courtId", String(courtIdFilter));
-  const exportHref = `/api/bookings/export${params.toString() ? `?${params.toString()}` : ""}`;
+  if (whoFilter) params.set("who", whoFilter);
+  if (paymentFilter) params.set("payment", paymentFilter);
+  const exportHref = (format: "xlsx" | "csv" | "pdf") => {
+    const p = new URLSearchParams(params);
+    p.set("format", format);
+    return `/api/bookings/export?${p.toString()}`;
+  };
 
   return (
     <div className="card" style={{ maxWidth: "100%" }}>
@@ -426,6 +264,27 @@ export default async function BookingsPage({ searchParams }: { searchParams: Sea
         <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
           <AddBookingButton />
           <SpecialBookingButton /> {/* ⟵ NEW */}
+          <a
+            href="/bookings/calendar"
+            className="btn"
+            style={{ background: "#fff", border: "1px solid rgba(17,17,17,0.12)" }}
+          >
+            Week Calendar
+          </a>
+          <a
+            href="/bookings/arrivals"
+            className="btn"
+            style={{ background: "#fff", border: "1px solid rgba(17,17,17,0.12)" }}
+          >
+            Today&apos;s Arrivals
+          </a>
+          <a
+            href="/bookings/closure"
+            className="btn"
+            style={{ background: "#fff", border: "1px solid rgba(17,17,17,0.12)" }}
+          >
+            Venue Closure
+          </a>
           <a
             href="/dashboard"
             className="btn"
@@ -433,9 +292,25 @@ export default async function BookingsPage({ searchParams }: { searchParams: Sea
           >
             ← Back to Dashboard
           </a>
-          <a className="btn btn--primary" href={exportHref}>
+          <a className="btn btn--primary" href={exportHref("xlsx")}>
             Export to Excel
           </a>
+          <a
+            className="btn"
+            href={exportHref("csv")}
+            style={{ background: "#fff", border: "1px solid rgba(17,17,17,0.12)" }}
+          >
+            CSV
+          </a>
+          <a
+            className="btn"
+            href={exportHref("pdf")}
+            target="_blank"
+            rel="noreferrer"
+            style={{ background: "#fff", border: "1px solid rgba(17,17,17,0.12)" }}
+          >
+            Day Sheet (PDF)
+          </a>
           <ClearAllBookingsButton q={q} date={dateFilter} />
         </div>
       </div>
@@ -455,6 +330,23 @@ export default async function BookingsPage({ searchParams }: { searchParams: Sea
             defaultValue={dateFilter}
             className="input"
             style={{ flex: 1, minWidth: 140 }}
+            title="Single date"
+          />
+          <input
+            type="date"
+            name="from"
+            defaultValue={fromFilter}
+            className="input"
+            style={{ flex: 1, minWidth: 140 }}
+            title="From date (range)"
+          />
+          <input
+            type="date"
+            name="to"
+            defaultValue={toFilter}
+            className="input"
+            style={{ flex: 1, minWidth: 140 }}
+            title="To date (range)"
           />
           <select
             name="courtId"
@@ -469,6 +361,18 @@ export default async function BookingsPage({ searchParams }: { searchParams: Sea
               </option>
             ))}
           </select>
+          <select name="who" defaultValue={whoFilter} className="input" style={{ flex: 1, minWidth: 120 }}>
+            <option value="">Everyone</option>
+            <option value="member">Members</option>
+            <option value="user">Users</option>
+            <option value="guest">Guests</option>
+          </select>
+          <select name="payment" defaultValue={paymentFilter} className="input" style={{ flex: 1, minWidth: 120 }}>
+            <option value="">Any payment</option>
+            <option value="paid">Paid</option>
+            <option value="unpaid">Unpaid</option>
+            <option value="membership">Membership</option>
+          </select>
           <button className="btn btn--primary" type="submit">
             Apply
           </button>
@@ -481,6 +385,8 @@ export default async function BookingsPage({ searchParams }: { searchParams: Sea
           </a>
         </form>
 
+        <WaitlistPanel initialDate={dateFilter || undefined} />
+
         <div className="table-wrap" style={{ marginTop: 12 }}>
           <table className="table">
             <thead>
@@ -506,10 +412,19 @@ export default async function BookingsPage({ searchParams }: { searchParams: Sea
 
                 return (
                   <tr key={`${r.bookingId}-${idx}`}>
-                    <td>{r.userName}</td>
+                    <td>
+                      <a href={`/bookings/${r.bookingId}`}>{r.userName}</a>
+                    </td>
                     <td>{r.userPhone}</td>
                     <td>{formatDisplayDate(r.date)}</td>
-                    <td>{paymentBadge(r.adminPaid, r.paymentRef)}</td>
+                    <td>
+                      {paymentBadge(r.adminPaid, r.paymentRef)}
+                      {r.due > 0 && (
+                        <div style={{ fontSize: 12, color: "#b00020", marginTop: 4 }}>
+                          {r.paid > 0 ? `Paid ${r.paid} · ` : ""}Due {r.due}
+                        </div>
+                      )}
+                    </td>
                     <td>{amountDisplay(r.amount, r.currency)}</td>
                     <td>{r.courtId ?? "—"}</td>
                     <td>{r.start}</td>
@@ -527,7 +442,31 @@ export default async function BookingsPage({ searchParams }: { searchParams: Sea
                             end={r.end}
                           />
                         )}
-                        {!isPaidLike && <MarkPaidButton bookingId={r.bookingId} />}
+                        {r.slotIndex >= 0 && /^\d{4}-\d{2}-\d{2}$/.test(r.date) && (
+                          <MoveSlotButton
+                            bookingId={r.bookingId}
+                            slotIndex={r.slotIndex}
+                            date={r.date}
+                            courtId={r.courtId ?? undefined}
+                            start={r.start}
+                            end={r.end}
+                          />
+                        )}
+                        {r.seriesId && r.slotIndex <= 0 && (
+                          <SeriesCancelButton seriesId={r.seriesId} bookingId={r.bookingId} />
+                        )}
+                        {!isPaidLike && !r.split && (
+                          <MarkPaidButton bookingId={r.bookingId} due={r.due} currency={r.currency} />
+                        )}
+                        {!isPaidLike && r.split && (
+                          <a
+                            href={`/bookings/${r.bookingId}`}
+                            className="btn"
+                            style={{ background: "#fff", border: "1px solid rgba(17,17,17,0.12)" }}
+                          >
+                            Shares
+                          </a>
+                        )}
                       </div>
                     </td>
                   </tr>
@@ -540,6 +479,8 @@ export default async function BookingsPage({ searchParams }: { searchParams: Sea
                     No bookings found
                     {q ? ` for “${q}”` : ""}
                     {dateFilter ? ` on ${formatDisplayDate(dateFilter)}` : ""}
+                    {!dateFilter && fromFilter ? ` from ${formatDisplayDate(fromFilter)}` : ""}
+                    {!dateFilter && toFilter ? ` until ${formatDisplayDate(toFilter)}` : ""}
                     {courtIdFilter != null ? ` for Court ${courtIdFilter}` : ""}.
                   </td>
                 </tr>
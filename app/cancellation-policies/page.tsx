@@ -0,0 +1,293 @@
+// app/cancellation-policies/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+
+type Audience = "member" | "user" | "guest";
+
+type Tier = { minHoursBefore: number; refundPercent: number; restoreCredit: boolean };
+
+type Policy = {
+  _id?: string;
+  name: string;
+  appliesTo: Audience[];
+  tiers: Tier[];
+  active: boolean;
+};
+
+const AUDIENCE_LABEL: Record<Audience, string> = {
+  member: "Members",
+  user: "Users",
+  guest: "Guests",
+};
+
+function emptyForm(): Policy {
+  return {
+    name: "",
+    appliesTo: [],
+    tiers: [
+      { minHoursBefore: 24, refundPercent: 100, restoreCredit: true },
+      { minHoursBefore: 6, refundPercent: 50, restoreCredit: false },
+      { minHoursBefore: 0, refundPercent: 0, restoreCredit: false },
+    ],
+    active: true,
+  };
+}
+
+function tierLabel(t: Tier) {
+  return `≥ ${t.minHoursBefore}h: ${t.refundPercent}%${t.restoreCredit ? " + credit" : ""}`;
+}
+
+export default function CancellationPoliciesPage() {
+  const [items, setItems] = useState<Policy[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<Policy>(emptyForm());
+
+  async function load() {
+    setLoading(true);
+    const r = await fetch("/api/cancellation-policies", { cache: "no-store" });
+    const j = await r.json().catch(() => ({}));
+    if (!j?.ok) setError(j?.error || "Failed to load cancellation policies");
+    else setItems(j.items || []);
+    setLoading(false);
+  }
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  function setField<K extends keyof Policy>(k: K, v: Policy[K]) {
+    setForm((f) => ({ ...f, [k]: v }));
+  }
+
+  function toggleAudience(a: Audience) {
+    setForm((f) => ({
+      ...f,
+      appliesTo: f.appliesTo.includes(a) ? f.appliesTo.filter((x) => x !== a) : [...f.appliesTo, a],
+    }));
+  }
+
+  function setTier(i: number, patch: Partial<Tier>) {
+    setForm((f) => ({ ...f, tiers: f.tiers.map((t, j) => (j === i ? { ...t, ...patch } : t)) }));
+  }
+
+  function addTier() {
+    setForm((f) => ({ ...f, tiers: [...f.tiers, { minHoursBefore: 0, refundPercent: 0, restoreCredit: false }] }));
+  }
+
+  function removeTier(i: number) {
+    setForm((f) => ({ ...f, tiers: f.tiers.filter((_, j) => j !== i) }));
+  }
+
+  function resetForm() {
+    setEditingId(null);
+    setForm(emptyForm());
+  }
+
+  async function save() {
+    setSaving(true);
+    setError(null);
+
+    const payload = {
+      name: form.name.trim(),
+      appliesTo: form.appliesTo,
+      tiers: form.tiers,
+      active: form.active,
+    };
+
+    const url = editingId ? `/api/cancellation-policies/${editingId}` : "/api/cancellation-policies";
+    const method = editingId ? "PUT" : "POST";
+
+    const r = await fetch(url, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    const j = await r.json().catch(() => ({}));
+    if (!j?.ok) setError(j?.error || "Failed to save cancellation policy");
+    else {
+      await load();
+      resetForm();
+    }
+    setSaving(false);
+  }
+
+  function edit(it: Policy) {
+    setEditingId(it._id!);
+    setForm({ ...emptyForm(), ...it });
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  }
+
+  async function remove(id: string) {
+    if (!confirm("Delete this cancellation policy?")) return;
+    const r = await fetch(`/api/cancellation-policies/${id}`, { method: "DELETE" });
+    const j = await r.json().catch(() => ({}));
+    if (!j?.ok) setError(j?.error || "Failed to delete");
+    else setItems((arr) => arr.filter((x) => x._id !== id));
+  }
+
+  return (
+    <div className="offers-wrap">
+      <header className="offers-hero">
+        <div className="offers-hero__badge">Admin · Cancellation Policies</div>
+        <h1>Cancellation Policies</h1>
+        <p>
+          How much of a slot is refunded depends on how long before it starts the cancel happens. Each band
+          applies from its number of hours onwards; anything later than the last band refunds nothing. Members
+          get their credit back only in bands with &quot;Restore credit&quot; ticked. With no active policy every
+          cancel is a full refund.
+        </p>
+      </header>
+
+      {error && <div className="alert alert--danger">{error}</div>}
+
+      {/* Form */}
+      <section className="panel">
+        <div className="panel__header">
+          <div className="panel__title">{editingId ? "Edit Policy" : "New Policy"}</div>
+          <div className="panel__actions">
+            {editingId && (
+              <button className="btn btn--ghost" onClick={resetForm}>
+                Cancel Edit
+              </button>
+            )}
+            <button className="btn btn--primary" onClick={save} disabled={saving}>
+              {editingId ? "Update Policy" : "Create Policy"}
+            </button>
+          </div>
+        </div>
+
+        <div className="form-grid">
+          <label className="field">
+            <span className="field__label">Name</span>
+            <input
+              className="input"
+              value={form.name}
+              onChange={(e) => setField("name", e.target.value)}
+              placeholder="e.g., Standard 24h policy"
+            />
+          </label>
+
+          <div className="field">
+            <span className="field__label">Applies to (none checked = everyone)</span>
+            <div style={{ display: "flex", gap: 12, flexWrap: "wrap", paddingTop: 6 }}>
+              {(Object.keys(AUDIENCE_LABEL) as Audience[]).map((a) => (
+                <label key={a} style={{ display: "flex", gap: 4, alignItems: "center" }}>
+                  <input type="checkbox" checked={form.appliesTo.includes(a)} onChange={() => toggleAudience(a)} />
+                  {AUDIENCE_LABEL[a]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="field field--full">
+            <span className="field__label">Bands</span>
+            <div style={{ display: "grid", gap: 8, paddingTop: 6 }}>
+              {form.tiers.map((t, i) => (
+                <div key={i} style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+                  <span>From</span>
+                  <input
+                    className="input"
+                    type="number"
+                    min={0}
+                    value={t.minHoursBefore}
+                    onChange={(e) => setTier(i, { minHoursBefore: Number(e.target.value) })}
+                    style={{ width: 90 }}
+                  />
+                  <span>hours before start, refund</span>
+                  <input
+                    className="input"
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={t.refundPercent}
+                    onChange={(e) => setTier(i, { refundPercent: Number(e.target.value) })}
+                    style={{ width: 80 }}
+                  />
+                  <span>%</span>
+                  <label style={{ display: "flex", gap: 4, alignItems: "center" }}>
+                    <input
+                      type="checkbox"
+                      checked={t.restoreCredit}
+                      onChange={(e) => setTier(i, { restoreCredit: e.target.checked })}
+                    />
+                    Restore credit
+                  </label>
+                  <button className="btn btn--ghost danger" onClick={() => removeTier(i)}>
+                    Remove
+                  </button>
+                </div>
+              ))}
+              <div>
+                <button className="btn btn--secondary" onClick={addTier}>
+                  Add band
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <label className="switch">
+            <input
+              type="checkbox"
+              checked={form.active}
+              onChange={(e) => setField("active", e.target.checked)}
+            />
+            <span className="switch__label">Active</span>
+          </label>
+        </div>
+      </section>
+
+      {/* List */}
+      <section className="panel">
+        <div className="panel__header">
+          <div className="panel__title">Policies</div>
+        </div>
+
+        {loading ? (
+          <div className="empty">Loading…</div>
+        ) : items.length === 0 ? (
+          <div className="empty">No cancellation policies – every cancel is a full refund.</div>
+        ) : (
+          <div className="table-wrap">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Applies to</th>
+                  <th>Bands</th>
+                  <th>Status</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((it) => (
+                  <tr key={it._id}>
+                    <td>{it.name}</td>
+                    <td>{it.appliesTo.length ? it.appliesTo.map((a) => AUDIENCE_LABEL[a]).join(", ") : "Everyone"}</td>
+                    <td>{it.tiers.map((t) => tierLabel(t)).join(" · ")}</td>
+                    <td>
+                      <span className={`status ${it.active ? "status--on" : "status--off"}`}>
+                        {it.active ? "Active" : "Inactive"}
+                      </span>
+                    </td>
+                    <td style={{ textAlign: "right", whiteSpace: "nowrap" }}>
+                      <button className="btn btn--secondary" onClick={() => edit(it)}>
+                        Edit
+                      </button>{" "}
+                      <button className="btn btn--ghost danger" onClick={() => remove(it._id!)}>
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,358 @@
+// app/coupons/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+
+type Kind = "percent" | "flat";
+type Product = "booking" | "membership" | "event";
+
+type Coupon = {
+  _id?: string;
+  code: string;
+  description?: string;
+  kind: Kind;
+  value: number;
+  maxDiscount?: number | null;
+  minAmount?: number | null;
+  products: Product[];
+  validFrom?: string;
+  validTo?: string;
+  maxUses?: number | null;        // blank = unlimited
+  maxUsesPerCustomer?: number | null;
+  active: boolean;
+  usage?: { uses: number; discount: number };
+};
+
+type LimitKey = "maxDiscount" | "minAmount" | "maxUses" | "maxUsesPerCustomer";
+
+const PRODUCT_LABEL: Record<Product, string> = {
+  booking: "Court bookings",
+  membership: "Memberships",
+  event: "Event registrations",
+};
+
+const LIMIT_FIELDS: { key: LimitKey; label: string; placeholder: string }[] = [
+  { key: "minAmount", label: "Minimum bill (₹)", placeholder: "Any" },
+  { key: "maxUses", label: "Total uses", placeholder: "Unlimited" },
+  { key: "maxUsesPerCustomer", label: "Uses per customer", placeholder: "Unlimited" },
+];
+
+function emptyForm(): Coupon {
+  return {
+    code: "",
+    description: "",
+    kind: "percent",
+    value: 10,
+    maxDiscount: null,
+    minAmount: null,
+    products: ["booking"],
+    validFrom: "",
+    validTo: "",
+    maxUses: null,
+    maxUsesPerCustomer: null,
+    active: true,
+  };
+}
+
+function discountLabel(c: Coupon) {
+  if (c.kind === "flat") return `₹${c.value} off`;
+  return `${c.value}% off${c.maxDiscount ? ` (max ₹${c.maxDiscount})` : ""}`;
+}
+
+export default function CouponsPage() {
+  const [items, setItems] = useState<Coupon[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<Coupon>(emptyForm());
+
+  async function load() {
+    setLoading(true);
+    const r = await fetch("/api/coupons", { cache: "no-store" });
+    const j = await r.json().catch(() => ({}));
+    if (!j?.ok) setError(j?.error || "Failed to load coupons");
+    else setItems(j.items || []);
+    setLoading(false);
+  }
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  function setField<K extends keyof Coupon>(k: K, v: Coupon[K]) {
+    setForm((f) => ({ ...f, [k]: v }));
+  }
+
+  function toggleProduct(p: Product) {
+    setForm((f) => ({
+      ...f,
+      products: f.products.includes(p) ? f.products.filter((x) => x !== p) : [...f.products, p],
+    }));
+  }
+
+  function resetForm() {
+    setEditingId(null);
+    setForm(emptyForm());
+  }
+
+  async function save() {
+    setSaving(true);
+    setError(null);
+
+    const payload = {
+      code: form.code.trim().toUpperCase(),
+      description: (form.description || "").trim(),
+      kind: form.kind,
+      value: Number(form.value),
+      maxDiscount: form.kind === "percent" ? form.maxDiscount ?? null : null,
+      minAmount: form.minAmount ?? null,
+      products: form.products,
+      validFrom: form.validFrom || "",
+      validTo: form.validTo || "",
+      maxUses: form.maxUses ?? null,
+      maxUsesPerCustomer: form.maxUsesPerCustomer ?? null,
+      active: form.active,
+    };
+
+    const url = editingId ? `/api/coupons/${editingId}` : "/api/coupons";
+    const method = editingId ? "PUT" : "POST";
+
+    const r = await fetch(url, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    const j = await r.json().catch(() => ({}));
+    if (!j?.ok) setError(j?.error || "Failed to save coupon");
+    else {
+      await load();
+      resetForm();
+    }
+    setSaving(false);
+  }
+
+  function edit(it: Coupon) {
+    setEditingId(it._id!);
+    setForm({ ...emptyForm(), ...it, validFrom: it.validFrom || "", validTo: it.validTo || "" });
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  }
+
+  async function remove(id: string) {
+    if (!confirm("Delete this coupon?")) return;
+    const r = await fetch(`/api/coupons/${id}`, { method: "DELETE" });
+    const j = await r.json().catch(() => ({}));
+    if (!j?.ok) setError(j?.error || "Failed to delete");
+    else setItems((arr) => arr.filter((x) => x._id !== id));
+  }
+
+  return (
+    <div className="offers-wrap">
+      <header className="offers-hero">
+        <div className="offers-hero__badge">Admin · Coupons</div>
+        <h1>Coupons</h1>
+        <p>
+          Promo codes a customer can quote at the desk. The discount comes off the booking, membership or event fee
+          and is shown on the record and in Sheets. Uses are counted per member/user email or guest phone.
+        </p>
+      </header>
+
+      {error && <div className="alert alert--danger">{error}</div>}
+
+      {/* Form */}
+      <section className="panel">
+        <div className="panel__header">
+          <div className="panel__title">{editingId ? "Edit Coupon" : "New Coupon"}</div>
+          <div className="panel__actions">
+            {editingId && (
+              <button className="btn btn--ghost" onClick={resetForm}>
+                Cancel Edit
+              </button>
+            )}
+            <button className="btn btn--primary" onClick={save} disabled={saving}>
+              {editingId ? "Update Coupon" : "Create Coupon"}
+            </button>
+          </div>
+        </div>
+
+        <div className="form-grid">
+          <label className="field">
+            <span className="field__label">Code</span>
+            <input
+              className="input"
+              value={form.code}
+              onChange={(e) => setField("code", e.target.value.toUpperCase())}
+              placeholder="e.g., MONSOON20"
+            />
+          </label>
+
+          <label className="field">
+            <span className="field__label">Discount</span>
+            <div style={{ display: "flex", gap: 8 }}>
+              <select className="input" value={form.kind} onChange={(e) => setField("kind", e.target.value as Kind)}>
+                <option value="percent">Percent</option>
+                <option value="flat">Flat ₹</option>
+              </select>
+              <input
+                className="input"
+                type="number"
+                min={0}
+                value={form.value}
+                onChange={(e) => setField("value", Number(e.target.value))}
+              />
+            </div>
+          </label>
+
+          {form.kind === "percent" && (
+            <label className="field">
+              <span className="field__label">Max discount (₹)</span>
+              <input
+                className="input"
+                type="number"
+                min={0}
+                placeholder="No cap"
+                value={form.maxDiscount ?? ""}
+                onChange={(e) => setField("maxDiscount", e.target.value === "" ? null : Number(e.target.value))}
+              />
+            </label>
+          )}
+
+          <div className="field">
+            <span className="field__label">Valid for</span>
+            <div style={{ display: "flex", gap: 12, flexWrap: "wrap", paddingTop: 6 }}>
+              {(Object.keys(PRODUCT_LABEL) as Product[]).map((p) => (
+                <label key={p} style={{ display: "flex", gap: 4, alignItems: "center" }}>
+                  <input type="checkbox" checked={form.products.includes(p)} onChange={() => toggleProduct(p)} />
+                  {PRODUCT_LABEL[p]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <label className="field">
+            <span className="field__label">Valid from (blank = now)</span>
+            <input
+              className="input"
+              type="date"
+              value={form.validFrom || ""}
+              onChange={(e) => setField("validFrom", e.target.value)}
+            />
+          </label>
+
+          <label className="field">
+            <span className="field__label">Valid to (blank = no end)</span>
+            <input
+              className="input"
+              type="date"
+              value={form.validTo || ""}
+              onChange={(e) => setField("validTo", e.target.value)}
+            />
+          </label>
+
+          {LIMIT_FIELDS.map((l) => (
+            <label key={l.key} className="field">
+              <span className="field__label">{l.label}</span>
+              <input
+                className="input"
+                type="number"
+                min={0}
+                step={1}
+                placeholder={l.placeholder}
+                value={form[l.key] ?? ""}
+                onChange={(e) => setField(l.key, e.target.value === "" ? null : Number(e.target.value))}
+              />
+            </label>
+          ))}
+
+          <label className="field field--full">
+            <span className="field__label">Description (optional)</span>
+            <input
+              className="input"
+              value={form.description || ""}
+              onChange={(e) => setField("description", e.target.value)}
+              placeholder="Short internal note for admins"
+            />
+          </label>
+
+          <label className="switch">
+            <input
+              type="checkbox"
+              checked={form.active}
+              onChange={(e) => setField("active", e.target.checked)}
+            />
+            <span className="switch__label">Active</span>
+          </label>
+        </div>
+      </section>
+
+      {/* List */}
+      <section className="panel">
+        <div className="panel__header">
+          <div className="panel__title">Coupons</div>
+        </div>
+
+        {loading ? (
+          <div className="empty">Loading…</div>
+        ) : items.length === 0 ? (
+          <div className="empty">No coupons yet.</div>
+        ) : (
+          <div className="table-wrap">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Code</th>
+                  <th>Discount</th>
+                  <th>Valid for</th>
+                  <th>Dates</th>
+                  <th>Used</th>
+                  <th>Given</th>
+                  <th>Status</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((it) => (
+                  <tr key={it._id}>
+                    <td>
+                      <strong>{it.code}</strong>
+                      {it.description ? <div style={{ fontSize: 12, color: "#666" }}>{it.description}</div> : null}
+                    </td>
+                    <td>
+                      {discountLabel(it)}
+                      {it.minAmount ? <div style={{ fontSize: 12, color: "#666" }}>min bill ₹{it.minAmount}</div> : null}
+                    </td>
+                    <td>{it.products.map((p) => PRODUCT_LABEL[p]).join(", ")}</td>
+                    <td>
+                      {it.validFrom || "…"} → {it.validTo || "…"}
+                    </td>
+                    <td>
+                      {it.usage?.uses ?? 0}
+                      {it.maxUses ? ` / ${it.maxUses}` : ""}
+                      {it.maxUsesPerCustomer ? (
+                        <div style={{ fontSize: 12, color: "#666" }}>{it.maxUsesPerCustomer} per customer</div>
+                      ) : null}
+                    </td>
+                    <td>₹{it.usage?.discount ?? 0}</td>
+                    <td>
+                      <span className={`status ${it.active ? "status--on" : "status--off"}`}>
+                        {it.active ? "Active" : "Inactive"}
+                      </span>
+                    </td>
+                    <td style={{ textAlign: "right", whiteSpace: "nowrap" }}>
+                      <button className="btn btn--secondary" onClick={() => edit(it)}>
+                        Edit
+                      </button>{" "}
+                      <button className="btn btn--ghost danger" onClick={() => remove(it._id!)}>
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,340 @@
+// app/court-blocks/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+
+type BlockKind = "maintenance" | "coaching" | "tournament" | "other";
+
+type Block = {
+  _id?: string;
+  reason: string;
+  kind: BlockKind;
+  courtIds: number[];
+  dateFrom: string;
+  dateTo: string;
+  timeFrom?: string;
+  timeTo?: string;
+  weekdays: number[];
+  active: boolean;
+};
+
+type CourtLite = { courtId: number; name: string };
+
+const KIND_LABEL: Record<BlockKind, string> = {
+  maintenance: "Maintenance",
+  coaching: "Coaching",
+  tournament: "Tournament",
+  other: "Other",
+};
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function todayYMD() {
+  const dt = new Date();
+  const m = `${dt.getMonth() + 1}`.padStart(2, "0");
+  const d = `${dt.getDate()}`.padStart(2, "0");
+  return `${dt.getFullYear()}-${m}-${d}`;
+}
+
+function emptyForm(): Block {
+  const today = todayYMD();
+  return {
+    reason: "",
+    kind: "maintenance",
+    courtIds: [],
+    dateFrom: today,
+    dateTo: today,
+    timeFrom: "",
+    timeTo: "",
+    weekdays: [],
+    active: true,
+  };
+}
+
+export default function CourtBlocksPage() {
+  const [items, setItems] = useState<Block[]>([]);
+  const [courts, setCourts] = useState<CourtLite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showPast, setShowPast] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<Block>(emptyForm());
+
+  async function load(past = showPast) {
+    setLoading(true);
+    const qs = past ? "" : `?from=${todayYMD()}`;
+    const [r, rc] = await Promise.all([fetch(`/api/court-blocks${qs}`, { cache: "no-store" }), fetch("/api/courts")]);
+    const j = await r.json().catch(() => ({}));
+    const jc = await rc.json().catch(() => ({}));
+    if (!j?.ok) setError(j?.error || "Failed to load court blocks");
+    else setItems(j.items || []);
+    if (jc?.ok) setCourts(jc.items || []);
+    setLoading(false);
+  }
+
+  useEffect(() => {
+    load(showPast);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [showPast]);
+
+  function setField<K extends keyof Block>(k: K, v: Block[K]) {
+    setForm((f) => ({ ...f, [k]: v }));
+  }
+
+  function toggleIn(k: "weekdays" | "courtIds", v: number) {
+    setForm((f) => ({
+      ...f,
+      [k]: f[k].includes(v) ? f[k].filter((x) => x !== v) : [...f[k], v].sort((a, b) => a - b),
+    }));
+  }
+
+  function resetForm() {
+    setEditingId(null);
+    setForm(emptyForm());
+  }
+
+  async function save() {
+    setSaving(true);
+    setError(null);
+
+    const payload = {
+      reason: form.reason.trim(),
+      kind: form.kind,
+      courtIds: form.courtIds,
+      dateFrom: form.dateFrom,
+      dateTo: form.dateTo,
+      timeFrom: form.timeFrom || "",
+      timeTo: form.timeTo || "",
+      weekdays: form.weekdays,
+      active: form.active,
+    };
+
+    const url = editingId ? `/api/court-blocks/${editingId}` : "/api/court-blocks";
+    const method = editingId ? "PUT" : "POST";
+
+    const r = await fetch(url, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    const j = await r.json().catch(() => ({}));
+    if (!j?.ok) setError(j?.error || "Failed to save court block");
+    else {
+      await load();
+      resetForm();
+    }
+    setSaving(false);
+  }
+
+  function edit(it: Block) {
+    setEditingId(it._id!);
+    setForm({ ...emptyForm(), ...it, timeFrom: it.timeFrom || "", timeTo: it.timeTo || "" });
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  }
+
+  async function remove(id: string) {
+    if (!confirm("Delete this court block?")) return;
+    const r = await fetch(`/api/court-blocks/${id}`, { method: "DELETE" });
+    const j = await r.json().catch(() => ({}));
+    if (!j?.ok) setError(j?.error || "Failed to delete");
+    else setItems((arr) => arr.filter((x) => x._id !== id));
+  }
+
+  function courtsLabel(ids: number[]) {
+    if (!ids.length) return "All courts";
+    return ids.map((id) => courts.find((c) => c.courtId === id)?.name || `Court ${id}`).join(", ");
+  }
+
+  return (
+    <div className="offers-wrap">
+      <header className="offers-hero">
+        <div className="offers-hero__badge">Admin · Court Blocks</div>
+        <h1>Court Blocks</h1>
+        <p>
+          Take courts out of sale for resurfacing, coaching batches or tournaments. Blocked slots show
+          greyed out in the booking grid and cannot be booked.
+        </p>
+      </header>
+
+      {error && <div className="alert alert--danger">{error}</div>}
+
+      {/* Form */}
+      <section className="panel">
+        <div className="panel__header">
+          <div className="panel__title">{editingId ? "Edit Block" : "New Block"}</div>
+          <div className="panel__actions">
+            {editingId && (
+              <button className="btn btn--ghost" onClick={resetForm}>
+                Cancel Edit
+              </button>
+            )}
+            <button className="btn btn--primary" onClick={save} disabled={saving}>
+              {editingId ? "Update Block" : "Create Block"}
+            </button>
+          </div>
+        </div>
+
+        <div className="form-grid">
+          <label className="field">
+            <span className="field__label">Reason</span>
+            <input
+              className="input"
+              value={form.reason}
+              onChange={(e) => setField("reason", e.target.value)}
+              placeholder="e.g., Court 2 resurfacing"
+            />
+          </label>
+
+          <label className="field">
+            <span className="field__label">Type</span>
+            <select
+              className="input"
+              value={form.kind}
+              onChange={(e) => setField("kind", e.target.value as BlockKind)}
+            >
+              {(Object.keys(KIND_LABEL) as BlockKind[]).map((k) => (
+                <option key={k} value={k}>{KIND_LABEL[k]}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="field">
+            <span className="field__label">From date</span>
+            <input
+              className="input"
+              type="date"
+              value={form.dateFrom}
+              onChange={(e) => setField("dateFrom", e.target.value)}
+            />
+          </label>
+
+          <label className="field">
+            <span className="field__label">To date</span>
+            <input
+              className="input"
+              type="date"
+              value={form.dateTo}
+              onChange={(e) => setField("dateTo", e.target.value)}
+            />
+          </label>
+
+          <label className="field">
+            <span className="field__label">From time (blank = whole day)</span>
+            <input
+              className="input"
+              type="time"
+              value={form.timeFrom || ""}
+              onChange={(e) => setField("timeFrom", e.target.value)}
+            />
+          </label>
+
+          <label className="field">
+            <span className="field__label">To time (blank = whole day)</span>
+            <input
+              className="input"
+              type="time"
+              value={form.timeTo || ""}
+              onChange={(e) => setField("timeTo", e.target.value)}
+            />
+          </label>
+
+          <div className="field">
+            <span className="field__label">Repeat on (none checked = every day)</span>
+            <div style={{ display: "flex", gap: 10, flexWrap: "wrap", paddingTop: 6 }}>
+              {WEEKDAYS.map((d, i) => (
+                <label key={d} style={{ display: "flex", gap: 4, alignItems: "center" }}>
+                  <input type="checkbox" checked={form.weekdays.includes(i)} onChange={() => toggleIn("weekdays", i)} />
+                  {d}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="field field--full">
+            <span className="field__label">Courts (none checked = all courts)</span>
+            <div style={{ display: "flex", gap: 12, flexWrap: "wrap", paddingTop: 6 }}>
+              {courts.map((c) => (
+                <label key={c.courtId} style={{ display: "flex", gap: 4, alignItems: "center" }}>
+                  <input
+                    type="checkbox"
+                    checked={form.courtIds.includes(c.courtId)}
+                    onChange={() => toggleIn("courtIds", c.courtId)}
+                  />
+                  {c.name}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <label className="switch">
+            <input
+              type="checkbox"
+              checked={form.active}
+              onChange={(e) => setField("active", e.target.checked)}
+            />
+            <span className="switch__label">Active</span>
+          </label>
+        </div>
+      </section>
+
+      {/* List */}
+      <section className="panel">
+        <div className="panel__header">
+          <div className="panel__title">{showPast ? "All Blocks" : "Current & Upcoming"}</div>
+          <label className="switch">
+            <input type="checkbox" checked={showPast} onChange={(e) => setShowPast(e.target.checked)} />
+            <span className="switch__label">Show ended blocks</span>
+          </label>
+        </div>
+
+        {loading ? (
+          <div className="empty">Loading…</div>
+        ) : items.length === 0 ? (
+          <div className="empty">No court blocks.</div>
+        ) : (
+          <div className="table-wrap">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Reason</th>
+                  <th>Type</th>
+                  <th>Courts</th>
+                  <th>Dates</th>
+                  <th>Time</th>
+                  <th>Repeats</th>
+                  <th>Status</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((it) => (
+                  <tr key={it._id}>
+                    <td>{it.reason}</td>
+                    <td>{KIND_LABEL[it.kind]}</td>
+                    <td>{courtsLabel(it.courtIds)}</td>
+                    <td>{it.dateFrom === it.dateTo ? it.dateFrom : `${it.dateFrom} → ${it.dateTo}`}</td>
+                    <td>{it.timeFrom || it.timeTo ? `${it.timeFrom || "open"}–${it.timeTo || "close"}` : "All day"}</td>
+                    <td>{it.weekdays.length ? it.weekdays.map((d) => WEEKDAYS[d]).join(", ") : "Every day"}</td>
+                    <td>
+                      <span className={`status ${it.active ? "status--on" : "status--off"}`}>
+                        {it.active ? "Active" : "Inactive"}
+                      </span>
+                    </td>
+                    <td style={{ textAlign: "right", whiteSpace: "nowrap" }}>
+                      <button className="btn btn--secondary" onClick={() => edit(it)}>
+                        Edit
+                      </button>{" "}
+                      <button className="btn btn--ghost danger" onClick={() => remove(it._id!)}>
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
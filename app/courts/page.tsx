@@ -0,0 +1,301 @@
+// app/courts/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+
+type Hours = { weekday: number; open: string; close: string; closed: boolean };
+type ApiHours = Omit<Hours, "open" | "close"> & { open?: string; close?: string };
+
+type Court = {
+  courtId: number;
+  name: string;
+  active: boolean;
+  hours: Hours[];
+  slotMinutes: number;
+  sortOrder: number;
+};
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+function defaultHours(): Hours[] {
+  return WEEKDAYS.map((_, weekday) => ({ weekday, open: "06:00", close: "23:00", closed: false }));
+}
+
+/** Always 7 rows in weekday order; a weekday missing from the API counts as closed. */
+function fullWeek(hours: ApiHours[] | undefined): Hours[] {
+  return WEEKDAYS.map((_, weekday) => {
+    const h = (hours || []).find((x) => x.weekday === weekday);
+    // closed days may be saved without times; prefill them in case the day is reopened
+    return h
+      ? { ...h, open: h.open || "06:00", close: h.close || "23:00", closed: !!h.closed }
+      : { weekday, open: "06:00", close: "23:00", closed: true };
+  });
+}
+
+function hoursSummary(hours: Hours[]) {
+  return fullWeek(hours).map((h) => `${WEEKDAYS[h.weekday].slice(0, 3)} ${h.closed ? "closed" : `${h.open}–${h.close}`}`);
+}
+
+function nextCourtId(list: Court[]) {
+  return list.reduce((m, c) => Math.max(m, c.courtId), 0) + 1;
+}
+
+function emptyForm(nextId = 1): Court {
+  return {
+    courtId: nextId,
+    name: `Court ${nextId}`,
+    active: true,
+    hours: defaultHours(),
+    slotMinutes: 60,
+    sortOrder: nextId,
+  };
+}
+
+export default function CourtsPage() {
+  const [items, setItems] = useState<Court[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<Court>(emptyForm());
+
+  async function load(): Promise<Court[]> {
+    setLoading(true);
+    const r = await fetch("/api/courts", { cache: "no-store" });
+    const j = await r.json().catch(() => ({}));
+    const list: Court[] = j?.ok ? j.items || [] : [];
+    if (!j?.ok) setError(j?.error || "Failed to load courts");
+    else setItems(list);
+    setLoading(false);
+    return list;
+  }
+
+  useEffect(() => {
+    load().then((list) => setForm(emptyForm(nextCourtId(list))));
+  }, []);
+
+  function setField<K extends keyof Court>(k: K, v: Court[K]) {
+    setForm((f) => ({ ...f, [k]: v }));
+  }
+
+  function setHours(weekday: number, patch: Partial<Hours>) {
+    setForm((f) => ({
+      ...f,
+      hours: f.hours.map((h) => (h.weekday === weekday ? { ...h, ...patch } : h)),
+    }));
+  }
+
+  function resetForm(list = items) {
+    setEditingId(null);
+    setForm(emptyForm(nextCourtId(list)));
+  }
+
+  async function save() {
+    setSaving(true);
+    setError(null);
+
+    const payload = {
+      courtId: Number(form.courtId),
+      name: form.name.trim(),
+      active: form.active,
+      hours: form.hours,
+      slotMinutes: Number(form.slotMinutes),
+      sortOrder: Number(form.sortOrder),
+    };
+
+    const url = editingId !== null ? `/api/courts/${editingId}` : "/api/courts";
+    const method = editingId !== null ? "PUT" : "POST";
+
+    const r = await fetch(url, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    const j = await r.json().catch(() => ({}));
+    if (!j?.ok) setError(j?.error || "Failed to save court");
+    else resetForm(await load());
+    setSaving(false);
+  }
+
+  function edit(it: Court) {
+    setEditingId(it.courtId);
+    setForm({ ...it, hours: fullWeek(it.hours) });
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  }
+
+  async function remove(courtId: number) {
+    if (!confirm(`Delete court ${courtId}? Existing bookings keep their court number.`)) return;
+    const r = await fetch(`/api/courts/${courtId}`, { method: "DELETE" });
+    const j = await r.json().catch(() => ({}));
+    if (!j?.ok) setError(j?.error || "Failed to delete");
+    else resetForm(await load());
+  }
+
+  return (
+    <div className="offers-wrap">
+      <header className="offers-hero">
+        <div className="offers-hero__badge">Admin · Courts</div>
+        <h1>Courts & Opening Hours</h1>
+        <p>Courts, weekly hours and slot length used by the booking grids.</p>
+      </header>
+
+      {error && <div className="alert alert--danger">{error}</div>}
+
+      {/* Form */}
+      <section className="panel">
+        <div className="panel__header">
+          <div className="panel__title">{editingId !== null ? `Edit Court ${editingId}` : "New Court"}</div>
+          <div className="panel__actions">
+            {editingId !== null && (
+              <button className="btn btn--ghost" onClick={() => resetForm()}>
+                Cancel Edit
+              </button>
+            )}
+            <button className="btn btn--primary" onClick={save} disabled={saving}>
+              {editingId !== null ? "Update Court" : "Create Court"}
+            </button>
+          </div>
+        </div>
+
+        <div className="form-grid">
+          <label className="field">
+            <span className="field__label">Court number</span>
+            <input
+              className="input"
+              type="number"
+              min={1}
+              value={form.courtId}
+              disabled={editingId !== null}
+              onChange={(e) => setField("courtId", Number(e.target.value))}
+            />
+          </label>
+
+          <label className="field">
+            <span className="field__label">Name</span>
+            <input
+              className="input"
+              value={form.name}
+              onChange={(e) => setField("name", e.target.value)}
+              placeholder="e.g., Court 4 (Outdoor)"
+            />
+          </label>
+
+          <label className="field">
+            <span className="field__label">Slot length (minutes)</span>
+            <input
+              className="input"
+              type="number"
+              min={15}
+              step={15}
+              value={form.slotMinutes}
+              onChange={(e) => setField("slotMinutes", Number(e.target.value))}
+            />
+          </label>
+
+          <label className="field">
+            <span className="field__label">Sort order</span>
+            <input
+              className="input"
+              type="number"
+              value={form.sortOrder}
+              onChange={(e) => setField("sortOrder", Number(e.target.value))}
+            />
+          </label>
+
+          <div className="field field--full">
+            <div className="field__label">Weekly hours</div>
+            {form.hours.map((h) => (
+              <div
+                key={h.weekday}
+                style={{ display: "grid", gap: 8, gridTemplateColumns: "120px 140px 140px 1fr", alignItems: "center", marginBottom: 8 }}
+              >
+                <strong>{WEEKDAYS[h.weekday]}</strong>
+                <input
+                  className="input"
+                  type="time"
+                  step={300}
+                  value={h.open}
+                  disabled={h.closed}
+                  onChange={(e) => setHours(h.weekday, { open: e.target.value })}
+                />
+                <input
+                  className="input"
+                  type="time"
+                  step={300}
+                  value={h.close}
+                  disabled={h.closed}
+                  onChange={(e) => setHours(h.weekday, { close: e.target.value })}
+                />
+                <label className="switch">
+                  <input
+                    type="checkbox"
+                    checked={h.closed}
+                    onChange={(e) => setHours(h.weekday, { closed: e.target.checked })}
+                  />
+                  <span className="switch__label">Closed</span>
+                </label>
+              </div>
+            ))}
+          </div>
+
+          <label className="switch">
+            <input
+              type="checkbox"
+              checked={form.active}
+              onChange={(e) => setField("active", e.target.checked)}
+            />
+            <span className="switch__label">Active (bookable)</span>
+          </label>
+        </div>
+      </section>
+
+      {/* List */}
+      <section className="panel">
+        <div className="panel__header">
+          <div className="panel__title">Courts</div>
+        </div>
+
+        {loading ? (
+          <div className="empty">Loading…</div>
+        ) : items.length === 0 ? (
+          <div className="empty">No courts yet.</div>
+        ) : (
+          <div className="cards">
+            {items.map((it) => (
+              <article key={it.courtId} className="offer-card">
+                <div className="offer-card__head">
+                  <h3>{it.name}</h3>
+                  <span className={`status ${it.active ? "status--on" : "status--off"}`}>
+                    {it.active ? "Active" : "Inactive"}
+                  </span>
+                </div>
+
+                <div className="offer-card__meta">
+                  <span className="pill">#{it.courtId}</span>
+                  <span className="pill">{it.slotMinutes} min slots</span>
+                </div>
+
+                <div className="offer-card__body">
+                  <ul className="rules">
+                    {hoursSummary(it.hours).map((line) => (
+                      <li key={line}>{line}</li>
+                    ))}
+                  </ul>
+                </div>
+
+                <div className="offer-card__actions">
+                  <button className="btn btn--secondary" onClick={() => edit(it)}>
+                    Edit
+                  </button>
+                  <button className="btn btn--ghost danger" onClick={() => remove(it.courtId)}>
+                    Delete
+                  </button>
+                </div>
+              </article>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -118,6 +118,41 @@ export default function Dashboard() {
           <p className="dash-card-sub">Court & event refunds</p>
         </a>
 
+        <a className="dash-card" href="/courts">
+          <div className="dash-card-title">Courts</div>
+          <p className="dash-card-sub">Courts, opening hours, slot length</p>
+        </a>
+
+        <a className="dash-card" href="/pricing">
+          <div className="dash-card-title">Pricing</div>
+          <p className="dash-card-sub">Slot prices by mode, day, time, court</p>
+        </a>
+
+        <a className="dash-card" href="/holidays">
+          <div className="dash-card-title">Holidays</div>
+          <p className="dash-card-sub">Premium days, closures, special hours</p>
+        </a>
+
+        <a className="dash-card" href="/court-blocks">
+          <div className="dash-card-title">Court Blocks</div>
+          <p className="dash-card-sub">Maintenance, coaching, tournaments</p>
+        </a>
+
+        <a className="dash-card" href="/cancellation-policies">
+          <div className="dash-card-title">Cancellation Policies</div>
+          <p className="dash-card-sub">Refund bands by notice given</p>
+        </a>
+
+        <a className="dash-card" href="/coupons">
+          <div className="dash-card-title">Coupons</div>
+          <p className="dash-card-sub">Promo codes for bookings, plans, events</p>
+        </a>
+
+        <a className="dash-card" href="/membership-plans">
+          <div className="dash-card-title">Membership Plans</div>
+          <p className="dash-card-sub">Plan length, games, price, hours</p>
+        </a>
+
         {/* ✅ New Offers card */}
         <a className="dash-card" href="/offers">
           <div className="dash-card-title">Offers</div>
@@ -2,6 +2,7 @@
 "use client";
 
 import { useEffect, useState } from "react";
+import { useIdempotencyKey } from "@/lib/useIdempotencyKey";
 
 type PersonLite = {
   _id: string;
@@ -24,6 +25,7 @@ type AdminRegistrationPayload = {
   userId?: string;
   guestName?: string;
   guestPhone?: string;
+  couponCode?: string;
 };
 
 export default function AddRegistrationButton({
@@ -54,7 +56,11 @@ export default function AddRegistrationButton({
   const [guestName, setGuestName] = useState("");
   const [guestPhone, setGuestPhone] = useState("");
 
+  // Promo code, taken off the entry fee
+  const [couponCode, setCouponCode] = useState("");
+
   const [saving, setSaving] = useState(false);
+  const idempotency = useIdempotencyKey(); // one key per distinct submit
   const [err, setErr] = useState<string | null>(null);
 
   /* ------------ Fetch members (active) by search ------------ */
@@ -188,12 +194,16 @@ export default function AddRegistrationButton({
         payload.guestPhone = guestPhone.trim();
       }
 
+      if (!isFree && couponCode.trim()) payload.couponCode = couponCode.trim().toUpperCase();
+
+      const reqBody = JSON.stringify(payload);
       const res = await fetch("/api/registrations/admin", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
+        headers: { "Content-Type": "application/json", "Idempotency-Key": idempotency.keyFor(reqBody) },
+        body: reqBody,
       });
       const j: unknown = await res.json().catch(() => ({}));
+      idempotency.reset();
       if (!res.ok) {
         const msg = (j as { error?: string })?.error || "Failed to add registration";
         throw new Error(msg);
@@ -424,6 +434,18 @@ export default function AddRegistrationButton({
                     </div>
                   </div>
                 )}
+
+                {entryFee > 0 && (
+                  <div style={{ marginTop: 10 }}>
+                    <label className="label">Coupon code</label>
+                    <input
+                      className="input"
+                      value={couponCode}
+                      onChange={(e) => setCouponCode(e.target.value.toUpperCase())}
+                      placeholder="Optional"
+                    />
+                  </div>
+                )}
               </div>
 
               <div
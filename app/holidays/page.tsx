@@ -0,0 +1,257 @@
+// app/holidays/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+
+type HolidayKind = "premium" | "closed" | "special_hours";
+
+type Holiday = {
+  _id?: string;
+  date: string; // YYYY-MM-DD
+  name: string;
+  kind: HolidayKind;
+  open?: string;
+  close?: string;
+};
+
+const KIND_LABEL: Record<HolidayKind, string> = {
+  premium: "Premium pricing",
+  closed: "Closed",
+  special_hours: "Special hours",
+};
+
+function todayYMD() {
+  const dt = new Date();
+  const m = `${dt.getMonth() + 1}`.padStart(2, "0");
+  const d = `${dt.getDate()}`.padStart(2, "0");
+  return `${dt.getFullYear()}-${m}-${d}`;
+}
+
+function formatDate(ymd: string) {
+  const [y, m, d] = ymd.split("-");
+  const dow = new Date(Date.UTC(Number(y), Number(m) - 1, Number(d))).getUTCDay();
+  return `${["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"][dow] || ""} ${d}-${m}-${y}`;
+}
+
+function emptyForm(): Holiday {
+  return { date: todayYMD(), name: "", kind: "premium", open: "08:00", close: "14:00" };
+}
+
+export default function HolidaysPage() {
+  const [items, setItems] = useState<Holiday[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showPast, setShowPast] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<Holiday>(emptyForm());
+
+  async function load(past = showPast) {
+    setLoading(true);
+    const qs = past ? "" : `?from=${todayYMD()}`;
+    const r = await fetch(`/api/holidays${qs}`, { cache: "no-store" });
+    const j = await r.json().catch(() => ({}));
+    if (!j?.ok) setError(j?.error || "Failed to load holidays");
+    else setItems(j.items || []);
+    setLoading(false);
+  }
+
+  useEffect(() => {
+    load(showPast);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [showPast]);
+
+  function setField<K extends keyof Holiday>(k: K, v: Holiday[K]) {
+    setForm((f) => ({ ...f, [k]: v }));
+  }
+
+  function resetForm() {
+    setEditingId(null);
+    setForm(emptyForm());
+  }
+
+  async function save() {
+    setSaving(true);
+    setError(null);
+
+    const payload = {
+      date: form.date,
+      name: form.name.trim(),
+      kind: form.kind,
+      ...(form.kind === "special_hours" ? { open: form.open, close: form.close } : {}),
+    };
+
+    const url = editingId ? `/api/holidays/${editingId}` : "/api/holidays";
+    const method = editingId ? "PUT" : "POST";
+
+    const r = await fetch(url, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    const j = await r.json().catch(() => ({}));
+    if (!j?.ok) setError(j?.error || "Failed to save holiday");
+    else {
+      await load();
+      resetForm();
+    }
+    setSaving(false);
+  }
+
+  function edit(it: Holiday) {
+    setEditingId(it._id!);
+    setForm({ ...emptyForm(), ...it, open: it.open || "08:00", close: it.close || "14:00" });
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  }
+
+  async function remove(id: string) {
+    if (!confirm("Remove this date from the holiday calendar?")) return;
+    const r = await fetch(`/api/holidays/${id}`, { method: "DELETE" });
+    const j = await r.json().catch(() => ({}));
+    if (!j?.ok) setError(j?.error || "Failed to delete");
+    else setItems((arr) => arr.filter((x) => x._id !== id));
+  }
+
+  return (
+    <div className="offers-wrap">
+      <header className="offers-hero">
+        <div className="offers-hero__badge">Admin · Holidays</div>
+        <h1>Holiday Calendar</h1>
+        <p>
+          Premium days are priced like weekends. Closed days and special hours change which slots the
+          booking grid offers.
+        </p>
+      </header>
+
+      {error && <div className="alert alert--danger">{error}</div>}
+
+      {/* Form */}
+      <section className="panel">
+        <div className="panel__header">
+          <div className="panel__title">{editingId ? "Edit Date" : "Add Date"}</div>
+          <div className="panel__actions">
+            {editingId && (
+              <button className="btn btn--ghost" onClick={resetForm}>
+                Cancel Edit
+              </button>
+            )}
+            <button className="btn btn--primary" onClick={save} disabled={saving}>
+              {editingId ? "Update" : "Add to Calendar"}
+            </button>
+          </div>
+        </div>
+
+        <div className="form-grid">
+          <label className="field">
+            <span className="field__label">Date</span>
+            <input
+              className="input"
+              type="date"
+              value={form.date}
+              onChange={(e) => setField("date", e.target.value)}
+            />
+          </label>
+
+          <label className="field">
+            <span className="field__label">Name</span>
+            <input
+              className="input"
+              value={form.name}
+              onChange={(e) => setField("name", e.target.value)}
+              placeholder="e.g., Diwali"
+            />
+          </label>
+
+          <label className="field">
+            <span className="field__label">Type</span>
+            <select
+              className="input"
+              value={form.kind}
+              onChange={(e) => setField("kind", e.target.value as HolidayKind)}
+            >
+              <option value="premium">{KIND_LABEL.premium}</option>
+              <option value="closed">{KIND_LABEL.closed}</option>
+              <option value="special_hours">{KIND_LABEL.special_hours}</option>
+            </select>
+          </label>
+
+          {form.kind === "special_hours" && (
+            <>
+              <label className="field">
+                <span className="field__label">Open (all courts)</span>
+                <input
+                  className="input"
+                  type="time"
+                  value={form.open || ""}
+                  onChange={(e) => setField("open", e.target.value)}
+                />
+              </label>
+              <label className="field">
+                <span className="field__label">Close (all courts)</span>
+                <input
+                  className="input"
+                  type="time"
+                  value={form.close || ""}
+                  onChange={(e) => setField("close", e.target.value)}
+                />
+              </label>
+            </>
+          )}
+        </div>
+      </section>
+
+      {/* List */}
+      <section className="panel">
+        <div className="panel__header">
+          <div className="panel__title">{showPast ? "All Dates" : "Upcoming"}</div>
+          <label className="switch">
+            <input type="checkbox" checked={showPast} onChange={(e) => setShowPast(e.target.checked)} />
+            <span className="switch__label">Show past dates</span>
+          </label>
+        </div>
+
+        {loading ? (
+          <div className="empty">Loading…</div>
+        ) : items.length === 0 ? (
+          <div className="empty">No holidays in the calendar.</div>
+        ) : (
+          <div className="table-wrap">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Date</th>
+                  <th>Name</th>
+                  <th>Type</th>
+                  <th>Hours</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((it) => (
+                  <tr key={it._id}>
+                    <td>{formatDate(it.date)}</td>
+                    <td>{it.name}</td>
+                    <td>
+                      <span className={`status ${it.kind === "closed" ? "status--off" : "status--on"}`}>
+                        {KIND_LABEL[it.kind]}
+                      </span>
+                    </td>
+                    <td>{it.kind === "special_hours" ? `${it.open}–${it.close}` : "—"}</td>
+                    <td style={{ textAlign: "right", whiteSpace: "nowrap" }}>
+                      <button className="btn btn--secondary" onClick={() => edit(it)}>
+                        Edit
+                      </button>{" "}
+                      <button className="btn btn--ghost danger" onClick={() => remove(it._id!)}>
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,383 @@
+// app/membership-plans/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+
+type Window = { from: string; to: string };
+
+type Plan = {
+  planId: string;
+  name: string;
+  durationMonths: number;
+  games: number;
+  price: number;
+  childPrice?: number | null;   // blank = not sold to children
+  courtIds: number[];           // none = all courts
+  windows: Window[];            // none = any hour
+  active: boolean;
+  sortOrder: number;
+  maxFreezeDays: number;        // 0 = can't be paused
+};
+
+type CourtLite = { courtId: number; name: string };
+
+function emptyForm(): Plan {
+  return {
+    planId: "",
+    name: "",
+    durationMonths: 1,
+    games: 25,
+    price: 0,
+    childPrice: null,
+    courtIds: [],
+    windows: [],
+    active: true,
+    sortOrder: 0,
+    maxFreezeDays: 0,
+  };
+}
+
+function toggled(list: number[], v: number) {
+  return list.includes(v) ? list.filter((x) => x !== v) : [...list, v].sort((a, b) => a - b);
+}
+
+export default function MembershipPlansPage() {
+  const [items, setItems] = useState<Plan[]>([]);
+  const [courts, setCourts] = useState<CourtLite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<Plan>(emptyForm());
+
+  async function load() {
+    setLoading(true);
+    const r = await fetch("/api/membership-plans?all=1", { cache: "no-store" });
+    const j = await r.json().catch(() => ({}));
+    if (!j?.ok) setError(j?.error || "Failed to load plans");
+    else setItems(j.items || []);
+    setLoading(false);
+  }
+
+  useEffect(() => {
+    load();
+    fetch("/api/courts")
+      .then((r) => r.json())
+      .then((j) => j?.ok && setCourts(j.items || []))
+      .catch(() => {});
+  }, []);
+
+  function setField<K extends keyof Plan>(k: K, v: Plan[K]) {
+    setForm((f) => ({ ...f, [k]: v }));
+  }
+
+  function resetForm() {
+    setEditingId(null);
+    setForm(emptyForm());
+  }
+
+  async function save() {
+    setSaving(true);
+    setError(null);
+
+    const payload = {
+      ...(editingId ? {} : { planId: form.planId.trim().toUpperCase() }),
+      name: form.name.trim(),
+      durationMonths: Number(form.durationMonths),
+      games: Number(form.games),
+      price: Number(form.price),
+      childPrice: form.childPrice ?? null,
+      courtIds: form.courtIds,
+      windows: form.windows,
+      active: form.active,
+      sortOrder: Number(form.sortOrder) || 0,
+      maxFreezeDays: Number(form.maxFreezeDays) || 0,
+    };
+
+    const url = editingId ? `/api/membership-plans/${encodeURIComponent(editingId)}` : "/api/membership-plans";
+    const method = editingId ? "PUT" : "POST";
+
+    const r = await fetch(url, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    const j = await r.json().catch(() => ({}));
+    if (!j?.ok) setError(j?.error || "Failed to save plan");
+    else {
+      await load();
+      resetForm();
+    }
+    setSaving(false);
+  }
+
+  function edit(it: Plan) {
+    setEditingId(it.planId);
+    setForm({ ...emptyForm(), ...it, childPrice: it.childPrice ?? null });
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  }
+
+  async function remove(planId: string) {
+    if (!confirm(`Delete plan ${planId}? Memberships already sold keep their terms.`)) return;
+    const r = await fetch(`/api/membership-plans/${encodeURIComponent(planId)}`, { method: "DELETE" });
+    const j = await r.json().catch(() => ({}));
+    if (!j?.ok) setError(j?.error || "Failed to delete");
+    else await load();
+  }
+
+  const courtName = (id: number) => courts.find((c) => c.courtId === id)?.name || `Court ${id}`;
+
+  return (
+    <div className="offers-wrap">
+      <header className="offers-hero">
+        <div className="offers-hero__badge">Admin · Membership Plans</div>
+        <h1>Membership Plans</h1>
+        <p>
+          Plans the desk can sell. Changing a plan only affects memberships sold afterwards — existing members keep
+          the games, price, courts, hours and freeze allowance they bought. Deactivate a plan to stop selling it.
+        </p>
+      </header>
+
+      {error && <div className="alert alert--danger">{error}</div>}
+
+      {/* Form */}
+      <section className="panel">
+        <div className="panel__header">
+          <div className="panel__title">{editingId ? `Edit Plan ${editingId}` : "New Plan"}</div>
+          <div className="panel__actions">
+            {editingId && (
+              <button className="btn btn--ghost" onClick={resetForm}>
+                Cancel Edit
+              </button>
+            )}
+            <button className="btn btn--primary" onClick={save} disabled={saving}>
+              {editingId ? "Update Plan" : "Create Plan"}
+            </button>
+          </div>
+        </div>
+
+        <div className="form-grid">
+          <label className="field">
+            <span className="field__label">Plan code</span>
+            <input
+              className="input"
+              value={form.planId}
+              disabled={!!editingId}
+              onChange={(e) => setField("planId", e.target.value.toUpperCase())}
+              placeholder="e.g., 12M"
+            />
+          </label>
+
+          <label className="field">
+            <span className="field__label">Name</span>
+            <input
+              className="input"
+              value={form.name}
+              onChange={(e) => setField("name", e.target.value)}
+              placeholder="e.g., 12 months"
+            />
+          </label>
+
+          <label className="field">
+            <span className="field__label">Duration (months)</span>
+            <input
+              className="input"
+              type="number"
+              min={1}
+              value={form.durationMonths}
+              onChange={(e) => setField("durationMonths", Number(e.target.value))}
+            />
+          </label>
+
+          <label className="field">
+            <span className="field__label">Games</span>
+            <input
+              className="input"
+              type="number"
+              min={1}
+              value={form.games}
+              onChange={(e) => setField("games", Number(e.target.value))}
+            />
+          </label>
+
+          <label className="field">
+            <span className="field__label">List price (₹)</span>
+            <input
+              className="input"
+              type="number"
+              min={0}
+              value={form.price}
+              onChange={(e) => setField("price", Number(e.target.value))}
+            />
+          </label>
+
+          <label className="field">
+            <span className="field__label">Child price (₹, blank = adults only)</span>
+            <input
+              className="input"
+              type="number"
+              min={0}
+              placeholder="Adults only"
+              value={form.childPrice ?? ""}
+              onChange={(e) => setField("childPrice", e.target.value === "" ? null : Number(e.target.value))}
+            />
+          </label>
+
+          <label className="field">
+            <span className="field__label">Max freeze days (0 = no pausing)</span>
+            <input
+              className="input"
+              type="number"
+              min={0}
+              value={form.maxFreezeDays}
+              onChange={(e) => setField("maxFreezeDays", Number(e.target.value))}
+            />
+          </label>
+
+          <label className="field">
+            <span className="field__label">Sort order</span>
+            <input
+              className="input"
+              type="number"
+              value={form.sortOrder}
+              onChange={(e) => setField("sortOrder", Number(e.target.value))}
+            />
+          </label>
+
+          <div className="field">
+            <div className="field__label">Courts (none = all)</div>
+            <div className="offer-card__meta">
+              {courts.map((c) => (
+                <label key={c.courtId} className="switch">
+                  <input
+                    type="checkbox"
+                    checked={form.courtIds.includes(c.courtId)}
+                    onChange={() => setField("courtIds", toggled(form.courtIds, c.courtId))}
+                  />
+                  <span className="switch__label">{c.name}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="field field--full">
+            <div className="field__label">Allowed hours (none = any time)</div>
+            {form.windows.map((w, idx) => (
+              <div key={idx} className="rule-row">
+                <input
+                  className="input"
+                  type="time"
+                  value={w.from}
+                  onChange={(e) => {
+                    const next = [...form.windows];
+                    next[idx] = { ...next[idx], from: e.target.value };
+                    setField("windows", next);
+                  }}
+                />
+                <input
+                  className="input"
+                  type="time"
+                  value={w.to}
+                  onChange={(e) => {
+                    const next = [...form.windows];
+                    next[idx] = { ...next[idx], to: e.target.value };
+                    setField("windows", next);
+                  }}
+                />
+                <button
+                  className="btn btn--ghost danger"
+                  onClick={() => setField("windows", form.windows.filter((_, i) => i !== idx))}
+                  aria-label="Remove window"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button
+              className="btn btn--secondary"
+              onClick={() => setField("windows", [...form.windows, { from: "06:00", to: "16:00" }])}
+            >
+              + Add hours
+            </button>
+          </div>
+
+          <label className="switch">
+            <input
+              type="checkbox"
+              checked={form.active}
+              onChange={(e) => setField("active", e.target.checked)}
+            />
+            <span className="switch__label">On sale</span>
+          </label>
+        </div>
+      </section>
+
+      {/* List */}
+      <section className="panel">
+        <div className="panel__header">
+          <div className="panel__title">Plans</div>
+        </div>
+
+        {loading ? (
+          <div className="empty">Loading…</div>
+        ) : items.length === 0 ? (
+          <div className="empty">No plans yet.</div>
+        ) : (
+          <div className="table-wrap">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Plan</th>
+                  <th>Length</th>
+                  <th>Games</th>
+                  <th>Freeze</th>
+                  <th>Price</th>
+                  <th>Courts</th>
+                  <th>Hours</th>
+                  <th>Status</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((it) => (
+                  <tr key={it.planId}>
+                    <td>
+                      <strong>{it.planId}</strong>
+                      <div style={{ fontSize: 12, color: "#666" }}>{it.name}</div>
+                    </td>
+                    <td>
+                      {it.durationMonths} month{it.durationMonths === 1 ? "" : "s"}
+                    </td>
+                    <td>{it.games}</td>
+                    <td>{it.maxFreezeDays ? `${it.maxFreezeDays} days` : "—"}</td>
+                    <td>
+                      ₹{it.price}
+                      {it.childPrice != null ? (
+                        <div style={{ fontSize: 12, color: "#666" }}>child ₹{it.childPrice}</div>
+                      ) : null}
+                    </td>
+                    <td>{it.courtIds.length ? it.courtIds.map(courtName).join(", ") : "All"}</td>
+                    <td>{it.windows.length ? it.windows.map((w) => `${w.from}–${w.to}`).join(", ") : "Any"}</td>
+                    <td>
+                      <span className={`status ${it.active ? "status--on" : "status--off"}`}>
+                        {it.active ? "On sale" : "Inactive"}
+                      </span>
+                    </td>
+                    <td style={{ textAlign: "right", whiteSpace: "nowrap" }}>
+                      <button className="btn btn--secondary" onClick={() => edit(it)}>
+                        Edit
+                      </button>{" "}
+                      <button className="btn btn--ghost danger" onClick={() => remove(it.planId)}>
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
+import { useIdempotencyKey } from "@/lib/useIdempotencyKey";
 
 type UserLite = {
   _id: string;
@@ -12,7 +13,14 @@ type UserLite = {
   memberId?: string; // may be present from some endpoints
   dob?: string;      // ✅ NEW: used to compute age-based pricing
 };
-type Plan = "1M" | "3M" | "6M";
+// Plan on sale, from /api/membership-plans
+type Plan = {
+  planId: string;
+  name: string;
+  games: number;
+  price: number;
+  childPrice?: number; // unset = adults only
+};
 
 // Payload sent by the Memberships page "Restore" button
 type PrefillEventDetail = {
@@ -65,57 +73,76 @@ export default function AddMembershipGlobalButton() {
   const isChild = age !== null && age <= 12;
 
   // step 2: plan + amount + aadhar/newMember + memberId (restore)
-  const [planId, setPlanId] = useState<Plan>("1M");
-  const [amount, setAmount] = useState<number>(3000);
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [planId, setPlanId] = useState<string>("");
+  const [amount, setAmount] = useState<number>(0);
   const [aadhar, setAadhar] = useState<string>("");
   const [newMember, setNewMember] = useState<boolean>(false);
   const [memberId, setMemberId] = useState<string>(""); // ← prefilled for restore
+  const [couponCode, setCouponCode] = useState<string>(""); // optional promo code, taken off the amount
 
   // mode (affects UI and validation; server always creates a fresh row)
   const [mode, setMode] = useState<"new" | "restore">("new");
 
   // status
   const [saving, setSaving] = useState(false);
+  const idempotency = useIdempotencyKey(); // one key per distinct submit
   const [err, setErr] = useState<string | null>(null);
 
+  // Children can only buy plans that carry a child price
+  const planOptions = useMemo(
+    () => (isChild ? plans.filter((p) => p.childPrice != null) : plans),
+    [plans, isChild]
+  );
+
   // Helper to get the base default per plan
-  function baseAmountForPlan(p: Plan, child: boolean) {
-    if (child) {
-      // ✅ Child pricing: only 1M is valid; fixed ₹2500
-      return 2500;
-    }
-    if (p === "1M") return 3000;
-    if (p === "3M") return 8000;
-    if (p === "6M") return 16000;
-    return 3000;
+  function baseAmountForPlan(p: string, child: boolean) {
+    const plan = plans.find((x) => x.planId === p);
+    if (!plan) return 0;
+    return child ? plan.childPrice ?? plan.price : plan.price;
   }
 
+  // Load the plans on sale when the modal opens
+  useEffect(() => {
+    if (!open) return;
+    fetch("/api/membership-plans", { cache: "no-store" })
+      .then((r) => r.json())
+      .then((j) => {
+        if (!j?.ok) return;
+        const items: Plan[] = j.items || [];
+        setPlans(items);
+        setPlanId((cur) => (items.some((p) => p.planId === cur) ? cur : items[0]?.planId || ""));
+      })
+      .catch(() => {});
+  }, [open]);
+
   // When plan OR child flag changes, reset amount appropriately.
   useEffect(() => {
     const base = baseAmountForPlan(planId, isChild);
     // If child, ignore the new-membr fee; otherwise apply it
     setAmount(isChild ? base : base + (newMember ? 500 : 0));
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [planId, isChild]);
+  }, [planId, isChild, plans]);
 
   // If "newMember" toggles, recompute amount (but ignore when child)
   useEffect(() => {
-    if (isChild) return; // locked to ₹2500
+    if (isChild) return; // locked to the child price
     const base = baseAmountForPlan(planId, false);
     setAmount(base + (newMember ? 500 : 0));
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [newMember]);
 
-  // If user becomes "child" after selection, force plan to 1M and lock amount to 2500
+  // If user becomes "child" after selection, move to a plan sold to children and lock its child price
   useEffect(() => {
     if (isChild) {
-      if (planId !== "1M") setPlanId("1M");
+      const p = planOptions.find((x) => x.planId === planId) || planOptions[0];
+      if (p && p.planId !== planId) setPlanId(p.planId);
       setNewMember(false); // child pricing excludes +₹500
-      setAmount(2500);
+      setAmount(p ? baseAmountForPlan(p.planId, true) : 0);
     }
     // no else — adult case already handled in plan/newMember effects
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isChild]);
+  }, [isChild, planOptions]);
 
   // fetch users when typing
   useEffect(() => {
@@ -271,8 +298,8 @@ export default function AddMembershipGlobalButton() {
     setQuery("");
     setResults([]);
     setSelected(null);
-    setPlanId("1M");
-    setAmount(3000);
+    setPlanId(plans[0]?.planId || "");
+    setAmount(plans[0]?.price ?? 0);
     setAadhar("");
     setNewMember(false);
     setMode("new");
@@ -317,12 +344,17 @@ export default function AddMembershipGlobalButton() {
       }
     }
 
+    if (!planOptions.some((p) => p.planId === planId)) {
+      setErr(isChild ? "No plan is sold to children (age ≤ 12)." : "Please pick a plan.");
+      return;
+    }
+
     setSaving(true);
     setErr(null);
     try {
       // ✅ Enforce child constraints at payload level too
-      const enforcedPlan: Plan = isChild ? "1M" : planId;
-      const enforcedAmount = isChild ? 2500 : amount;
+      const enforcedPlan = planId;
+      const enforcedAmount = isChild ? baseAmountForPlan(planId, true) : amount;
 
       const body: any = {
         userId: selected.userId || "",
@@ -332,6 +364,7 @@ export default function AddMembershipGlobalButton() {
         amount: enforcedAmount, // includes +₹500 only if adult + toggled
         paidNow: true,
       };
+      if (couponCode.trim()) body.couponCode = couponCode.trim().toUpperCase();
 
       if (mode === "new") {
         body.aadhar = aadhar;
@@ -339,12 +372,14 @@ export default function AddMembershipGlobalButton() {
         body.memberId = memberId; // server uses this to keep the same member id
       }
 
+      const reqBody = JSON.stringify(body);
       const res = await fetch("/api/memberships", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(body),
+        headers: { "Content-Type": "application/json", "Idempotency-Key": idempotency.keyFor(reqBody) },
+        body: reqBody,
       });
       const j: any = await res.json().catch(() => ({}));
+      idempotency.reset();
       if (!res.ok) {
         const msg = j?.error || "Failed to create membership";
         setErr(msg);
@@ -572,24 +607,21 @@ export default function AddMembershipGlobalButton() {
                   <select
                     className="input"
                     value={planId}
-                    onChange={(e) => setPlanId(e.target.value as Plan)}
-                    disabled={isChild} // ✅ lock when child
-                    title={isChild ? "Child pricing: 1M only" : "Select plan"}
+                    onChange={(e) => setPlanId(e.target.value)}
+                    title={isChild ? "Child pricing: plans with a child price only" : "Select plan"}
                   >
-                    {/* ✅ If child, only show 1M */}
-                    {isChild ? (
-                      <option value="1M">1M (25 games)</option>
-                    ) : (
-                      <>
-                        <option value="1M">1M (25 games)</option>
-                        <option value="3M">3M (75 games)</option>
-                        <option value="6M">6M (150 games)</option>
-                      </>
-                    )}
+                    {/* ✅ If child, only plans with a child price */}
+                    {planOptions.map((p) => (
+                      <option key={p.planId} value={p.planId}>
+                        {p.planId} ({p.games} games)
+                      </option>
+                    ))}
                   </select>
                   {isChild && (
                     <div style={{ fontSize: 12, color: "#0a7a0a", marginTop: 4 }}>
-                      Age ≤ 12: only 1M plan is available.
+                      {planOptions.length
+                        ? `Age ≤ 12: only ${planOptions.map((p) => p.planId).join(", ")} available.`
+                        : "Age ≤ 12: no plan is sold to children."}
                     </div>
                   )}
                 </div>
@@ -604,7 +636,7 @@ export default function AddMembershipGlobalButton() {
                     value={amount}
                     onChange={(e) => setAmount(Number(e.target.value))}
                     readOnly={isChild} // ✅ lock amount for child
-                    title={isChild ? "Child pricing locks amount to ₹2,500" : "Edit amount"}
+                    title={isChild ? "Child pricing locks amount to the plan's child price" : "Edit amount"}
                   />
                   <div style={{ fontSize: 12, color: "#666", marginTop: 4 }}>
                     {isChild
@@ -615,6 +647,16 @@ export default function AddMembershipGlobalButton() {
                   </div>
                 </div>
 
+                <div>
+                  <label className="label">Coupon code</label>
+                  <input
+                    className="input"
+                    value={couponCode}
+                    onChange={(e) => setCouponCode(e.target.value.toUpperCase())}
+                    placeholder="Optional"
+                  />
+                </div>
+
                 {/* New member (+₹500) checkbox */}
                 <div
                   style={{
@@ -0,0 +1,111 @@
+// app/memberships/FreezeMembershipButton.tsx
+"use client";
+
+import { useState } from "react";
+
+type Props = {
+  membershipId: string;
+  enabled: boolean;   // only PAID, unexpired memberships can be frozen
+  validTo?: string;   // current end date (YYYY-MM-DD), shown as a hint
+};
+
+// Today in IST as YYYY-MM-DD (matches the server's club dates)
+function todayIST() {
+  return new Date().toLocaleDateString("en-CA", { timeZone: "Asia/Kolkata" });
+}
+
+export default function FreezeMembershipButton({ membershipId, enabled, validTo }: Props) {
+  const [open, setOpen] = useState(false);
+  const [from, setFrom] = useState(todayIST());
+  const [to, setTo] = useState(todayIST());
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  async function submit() {
+    setSaving(true);
+    setErr(null);
+    try {
+      const r = await fetch(`/api/memberships/${membershipId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "freeze", from, to, reason: reason.trim() || undefined }),
+      });
+      const j = await r.json().catch(() => ({}));
+      if (!r.ok || !j?.ok) {
+        setErr(j?.error || "Failed to freeze membership");
+        return;
+      }
+      alert(`Frozen ${from} to ${to}. New end date ${j.validTo} (${j.freezeDaysLeft} freeze days left).`);
+      window.location.reload();
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <span style={{ position: "relative" }}>
+      <button
+        type="button"
+        className="btn"
+        onClick={() => setOpen((v) => !v)}
+        disabled={!enabled}
+        style={{
+          background: "#fff",
+          border: "1px solid rgba(17,17,17,0.12)",
+          padding: "4px 10px",
+          minHeight: 0,
+          opacity: enabled ? 1 : 0.7,
+          cursor: enabled ? "pointer" : "not-allowed",
+        }}
+        title={enabled ? "Pause this membership" : "Only active memberships can be frozen"}
+        aria-label="Freeze membership"
+      >
+        Freeze
+      </button>
+
+      {open && (
+        <div
+          style={{
+            position: "absolute",
+            right: 0,
+            top: "calc(100% + 6px)",
+            zIndex: 20,
+            background: "#fff",
+            border: "1px solid rgba(17,17,17,0.12)",
+            borderRadius: 8,
+            padding: 12,
+            width: 260,
+            boxShadow: "0 8px 24px rgba(0,0,0,0.12)",
+            display: "grid",
+            gap: 8,
+          }}
+        >
+          <label className="label">From</label>
+          <input className="input" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          <label className="label">To</label>
+          <input className="input" type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+          <label className="label">Reason</label>
+          <input
+            className="input"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Travel, injury… (optional)"
+          />
+          {validTo && (
+            <div style={{ fontSize: 12, color: "#666" }}>Ends {validTo}; frozen days are added to the end date.</div>
+          )}
+          {err && <div style={{ fontSize: 12, color: "#b00020" }}>{err}</div>}
+          <div style={{ display: "flex", gap: 8, justifyContent: "flex-end" }}>
+            <button type="button" className="btn" onClick={() => setOpen(false)} disabled={saving}>
+              Cancel
+            </button>
+            <button type="button" className="btn btn--primary" onClick={submit} disabled={saving}>
+              {saving ? "Saving…" : "Freeze"}
+            </button>
+          </div>
+        </div>
+      )}
+    </span>
+  );
+}
@@ -15,6 +15,7 @@ type Props = {
   // Fields needed to decide when restore is allowed:
   createdAt: string | Date;   // start date of the membership
   durationMonths: number;     // 1 | 3 | 6
+  validTo?: string;           // stored last valid day (YYYY-MM-DD, IST); wins over createdAt + duration
   // Optional: override "now" for testing
   now?: string | Date;
 };
@@ -36,10 +37,14 @@ export default function RestoreMembershipButton({
   user,
   createdAt,
   durationMonths,
+  validTo,
   now,
 }: Props) {
   const start = new Date(createdAt);
-  const end = addMonths(start, Number(durationMonths || 0));
+  // the day after validTo (IST midnight), else the legacy createdAt + duration
+  const end = validTo
+    ? new Date(new Date(`${validTo}T00:00:00+05:30`).getTime() + 86_400_000)
+    : addMonths(start, Number(durationMonths || 0));
   const nowDate = now ? new Date(now) : new Date();
 
   const isActive = nowDate >= end;
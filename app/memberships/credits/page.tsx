@@ -0,0 +1,158 @@
+// app/memberships/credits/page.tsx
+import { memberCreditHistory } from "@/lib/membershipCredits";
+
+export const dynamic = "force-dynamic";
+
+type SearchParams = { userId?: string; email?: string };
+
+const REASON_LABEL: Record<string, string> = {
+  booking: "Booked",
+  cancel: "Cancelled",
+  rollback: "Rolled back",
+  adjust: "Adjusted",
+};
+
+function fmtDateTime(v?: Date | string) {
+  if (!v) return "—";
+  const d = new Date(v);
+  if (Number.isNaN(d.getTime())) return "—";
+  return d.toLocaleString("en-GB", {
+    timeZone: "Asia/Kolkata",
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export default async function MemberCreditsPage({ searchParams }: { searchParams: SearchParams }) {
+  const userId = (searchParams.userId || "").trim();
+  const email = (searchParams.email || "").trim();
+  const validId = !userId || /^[a-f0-9]{24}$/i.test(userId);
+  const history = (userId || email) && validId ? await memberCreditHistory({ userId, email }) : null;
+
+  return (
+    <div className="card" style={{ maxWidth: "100%" }}>
+      <div
+        className="card__header"
+        style={{ display: "flex", alignItems: "center", gap: 12, justifyContent: "space-between", flexWrap: "wrap" }}
+      >
+        <div>
+          <h1 className="card__title" style={{ marginBottom: 6 }}>
+            Credit History
+          </h1>
+          <p className="card__subtitle">
+            {history
+              ? `${history.member.name || "—"} · ${history.member.email || "—"}${
+                  history.member.memberId ? ` · #${history.member.memberId}` : ""
+                }`
+              : "Every game booked, cancelled or adjusted against a member's plan."}
+          </p>
+        </div>
+        <a
+          href="/memberships"
+          className="btn"
+          style={{ background: "#fff", border: "1px solid rgba(17,17,17,0.12)" }}
+        >
+          ← Back to Memberships
+        </a>
+      </div>
+
+      <div className="card__body">
+        {!history ? (
+          <div style={{ padding: 18, textAlign: "center" }}>Member not found.</div>
+        ) : (
+          <>
+            {/* Per-membership totals */}
+            <div className="table-wrap">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Plan</th>
+                    <th>Valid</th>
+                    <th>Status</th>
+                    <th>Games used</th>
+                    <th>In ledger</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {history.memberships.map((m) => (
+                    <tr key={m.membershipId}>
+                      <td>{m.planName || m.planId}</td>
+                      <td>
+                        {m.validFrom || "—"} → {m.validTo || "—"}
+                      </td>
+                      <td>{m.status}</td>
+                      <td>
+                        {m.gamesUsed}/{m.games}
+                      </td>
+                      <td title="Credits used per the ledger; bookings from before the ledger aren't listed">
+                        {m.logged}
+                      </td>
+                    </tr>
+                  ))}
+                  {history.memberships.length === 0 && (
+                    <tr>
+                      <td colSpan={5} style={{ textAlign: "center", padding: 18 }}>
+                        No memberships.
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Ledger */}
+            <div className="table-wrap" style={{ marginTop: 16 }}>
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th style={{ minWidth: 150 }}>When</th>
+                    <th>What</th>
+                    <th>Credits</th>
+                    <th>Left</th>
+                    <th style={{ minWidth: 110 }}>Play date</th>
+                    <th style={{ minWidth: 160 }}>Slots</th>
+                    <th>Booking</th>
+                    <th>Plan</th>
+                    <th>By</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {history.items.map((e, i) => (
+                    <tr key={`${e.membershipId}_${i}`}>
+                      <td>{fmtDateTime(e.at)}</td>
+                      <td>
+                        {REASON_LABEL[e.reason] || e.reason}
+                        {e.note ? <div style={{ fontSize: 12, color: "#666" }}>{e.note}</div> : null}
+                      </td>
+                      <td style={{ color: e.delta < 0 ? "#b00020" : "#0a7a0a" }}>
+                        {e.delta > 0 ? `+${e.delta}` : e.delta}
+                      </td>
+                      <td>{e.balance}</td>
+                      <td>{e.date || "—"}</td>
+                      <td>
+                        {(e.slots || []).map((s) => `C${s.courtId} ${s.start}–${s.end}`).join(", ") || "—"}
+                      </td>
+                      <td style={{ fontSize: 12 }}>{e.bookingId || e.orderId || "—"}</td>
+                      <td>{e.planName || e.planId}</td>
+                      <td>{e.admin || "—"}</td>
+                    </tr>
+                  ))}
+                  {history.items.length === 0 && (
+                    <tr>
+                      <td colSpan={9} style={{ textAlign: "center", padding: 18 }}>
+                        No credit movements recorded yet.
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
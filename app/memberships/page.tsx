@@ -1,8 +1,9 @@
 // app/memberships/page.tsx
 import AddMembershipGlobalButton from "./AddMembershipGlobalButton";
 import RestoreMembershipButton from "./RestoreMembershipButton";
+import FreezeMembershipButton from "./FreezeMembershipButton";
 import { UserModel } from "@/models/User";
-import { MembershipModel } from "@/models/Membership";
+import { MembershipModel, expireMemberships, clubToday, daysLeft } from "@/models/Membership";
 
 export const dynamic = "force-dynamic";
 
@@ -32,6 +33,7 @@ type UserLean = {
 };
 
 type MembershipLean = {
+  _id: string | { toString?: () => string };
   userId?: string;
   userEmail?: string;
   userName?: string;
@@ -45,6 +47,9 @@ type MembershipLean = {
   games?: number;
   gamesUsed?: number;
   memberId?: string; // NEW
+  validFrom?: string; // YYYY-MM-DD (IST), inclusive
+  validTo?: string;
+  freezes?: { from: string; to: string; days: number }[];
 };
 
 const toIdString = (v: string | { toString?: () => string }) =>
@@ -56,6 +61,13 @@ export default async function MembershipsPage({ searchParams }: { searchParams:
   const User = await UserModel();
   const Membership = await MembershipModel();
 
+  // Flip lapsed memberships to EXPIRED before listing
+  try {
+    await expireMemberships();
+  } catch (e) {
+    console.error("Membership expiry sweep failed:", e);
+  }
+
   // 1) Find users (search by name/email/phone/userId)
   const userQuery: Record<string, unknown> = {};
   if (q) {
@@ -91,6 +103,7 @@ export default async function MembershipsPage({ searchParams }: { searchParams:
       planId: 1, planName: 1, amount: 1, currency: 1,
       status: 1, createdAt: 1, durationMonths: 1, games: 1, gamesUsed: 1,
       memberId: 1, // NEW
+      validFrom: 1, validTo: 1, freezes: 1,
     })
     .sort({ createdAt: -1 })
     .lean()) as MembershipLean[];
@@ -107,9 +120,10 @@ export default async function MembershipsPage({ searchParams }: { searchParams:
   }
 
   const now = new Date();
+  const today = clubToday(now);
   function latestFor(
     u: UserLean
-  ): (MembershipLean & { start: Date; end: Date; isActive: boolean }) | null {
+  ): (MembershipLean & { start: Date; end: Date; isActive: boolean; daysLeft: number | null }) | null {
     const m =
       byId.get(toIdString(u._id)) ||
       byEmail.get((u.email || "").toLowerCase()) ||
@@ -117,16 +131,23 @@ export default async function MembershipsPage({ searchParams }: { searchParams:
       null;
 
     if (!m) return null;
+    if (m.validFrom && m.validTo) {
+      // stored validity window (club dates, end inclusive; noon IST so the date prints the same anywhere)
+      const start = new Date(`${m.validFrom}T12:00:00+05:30`);
+      const end = new Date(`${m.validTo}T12:00:00+05:30`);
+      const isActive = m.status === "PAID" && today <= m.validTo;
+      return { ...m, start, end, isActive, daysLeft: isActive ? daysLeft(m.validTo, today) : 0 };
+    }
     const start = new Date(m.createdAt);
     const end = addMonths(start, Number(m.durationMonths || 0));
     const isActive = m.status === "PAID" && now < end;
-    return { ...m, start, end, isActive };
+    return { ...m, start, end, isActive, daysLeft: null };
   }
 
-  // Only show users who have PURCHASED a membership (latest status === "PAID")
+  // Only show users who have PURCHASED a membership (latest status PAID, or EXPIRED after it ran out)
   const usersWithPaidMembership = users.filter((u) => {
     const m = latestFor(u);
-    return !!m && m.status === "PAID";
+    return !!m && (m.status === "PAID" || m.status === "EXPIRED");
   });
 
   const params = new URLSearchParams();
@@ -198,6 +219,7 @@ export default async function MembershipsPage({ searchParams }: { searchParams:
                 <th style={{ minWidth: 120 }}>Amount</th>
                 <th style={{ minWidth: 130 }}>Start</th>
                 <th style={{ minWidth: 130 }}>End</th>
+                <th style={{ minWidth: 90 }}>Days left</th>
                 <th style={{ minWidth: 180 }}>Status</th>
               </tr>
             </thead>
@@ -213,8 +235,9 @@ export default async function MembershipsPage({ searchParams }: { searchParams:
                     : "—";
                 const start = m ? fmtDate(m.start) : "—";
                 const end = m ? fmtDate(m.end) : "—";
-                const isExpired = m.status === "PAID" && new Date() >= m.end;
-                const statusText = m ? (m.isActive ? "ACTIVE" : "EXPIRED") : "—";
+                const isExpired = !m.isActive;
+                const frozen = (m.freezes || []).find((f) => f.from <= today && today <= f.to);
+                const statusText = m ? (m.isActive ? (frozen ? `FROZEN till ${frozen.to}` : "ACTIVE") : "EXPIRED") : "—";
 
                 const memberId = m.memberId || u.memberId || "—"; // NEW
 
@@ -229,10 +252,16 @@ export default async function MembershipsPage({ searchParams }: { searchParams:
                       {typeof m.games === "number" && typeof m.gamesUsed === "number"
                         ? `${m.gamesUsed}/${m.games}`
                         : "—"}
+                      <div>
+                        <a href={`/memberships/credits?userId=${toIdString(u._id)}`} style={{ fontSize: 12 }}>
+                          History
+                        </a>
+                      </div>
                     </td>
                     <td>{amount}</td>
                     <td>{start}</td>
                     <td>{end}</td>
+                    <td>{m.daysLeft == null ? "—" : m.daysLeft}</td>
                     <td>
                       <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
                         <span
@@ -246,10 +275,17 @@ export default async function MembershipsPage({ searchParams }: { searchParams:
                           {statusText}
                         </span>
 
+                        <FreezeMembershipButton
+                          membershipId={toIdString(m._id)}
+                          enabled={m.isActive && !!m.validTo}
+                          validTo={m.validTo}
+                        />
+
                         <RestoreMembershipButton
                           enabled={isExpired}
-                          createdAt={m.createdAt}                         
-                          durationMonths={Number(m.durationMonths || 0)}   
+                          createdAt={m.createdAt}
+                          durationMonths={Number(m.durationMonths || 0)}
+                          validTo={m.validTo}
                           user={{
                             _id: toIdString(u._id),
                             userId: u.userId,
@@ -266,7 +302,7 @@ export default async function MembershipsPage({ searchParams }: { searchParams:
 
               {usersWithPaidMembership.length === 0 && (
                 <tr>
-                  <td colSpan={10} style={{ textAlign: "center", padding: "18px" }}>
+                  <td colSpan={11} style={{ textAlign: "center", padding: "18px" }}>
                     No members with purchased memberships{q ? ` for “${q}”` : ""}.
                   </td>
                 </tr>
@@ -5,6 +5,9 @@ import { useEffect, useState } from "react";
 
 type OfferType = "flat" | "conditional";
 type Rule = { label: string; price: number; criteria?: string };
+type Window = { from: string; to: string };
+type CustomerType = "member" | "user" | "guest";
+type CourtLite = { courtId: number; name: string };
 
 type Offer = {
   _id?: string;
@@ -15,13 +18,59 @@ type Offer = {
   dateTo: string;   // yyyy-mm-dd (for form) or ISO string from API
   timeFrom: string; // HH:mm
   timeTo: string;   // HH:mm
+  windows?: Window[];   // extra daily windows in the form; all windows from the API
+  weekdays?: number[];  // 0=Sun..6=Sat, empty = every day
+  courtIds?: number[];  // empty = all courts
+  customerTypes?: CustomerType[]; // empty = everyone
+  minSlots?: number | null;
   flatPrice?: number;
   rules?: Rule[];
   active: boolean;
+  maxRedemptions?: number | null; // null / blank = unlimited
+  maxPerUser?: number | null;
+  maxPerDay?: number | null;
+  usage?: Usage | null;
   createdAt?: string;
   updatedAt?: string;
 };
 
+type Usage = { redemptions: number; cancelled: number; slots: number; revenue: number; discount: number };
+
+type Redemption = {
+  id: string;
+  bookingId: string;
+  date: string;
+  who: string;
+  userName?: string;
+  userEmail?: string;
+  phone?: string;
+  slots: number;
+  ruleLabel?: string;
+  amount: number;
+  listPrice: number;
+  discount: number;
+  currency: string;
+  cancelledAt?: string;
+  createdAt?: string;
+};
+
+type CapKey = "maxRedemptions" | "maxPerUser" | "maxPerDay";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const CUSTOMER_TYPES: CustomerType[] = ["member", "user", "guest"];
+
+/** Add or drop `v` from a list, keeping it sorted. */
+function toggled<T extends string | number>(list: T[] | undefined, v: T): T[] {
+  const cur = list || [];
+  return cur.includes(v) ? cur.filter((x) => x !== v) : [...cur, v].sort();
+}
+
+const CAP_FIELDS: { key: CapKey; label: string }[] = [
+  { key: "maxRedemptions", label: "Total bookings cap" },
+  { key: "maxPerUser", label: "Per player cap" },
+  { key: "maxPerDay", label: "Per day cap" },
+];
+
 function isoDateOnly(d?: string | Date) {
   if (!d) return "";
   const dt = new Date(d);
@@ -59,7 +108,17 @@ export default function OffersPage() {
     flatPrice: 300,
     rules: [{ label: "", price: 0, criteria: "" }], // one blank row to start
     active: true,
+    windows: [],
+    weekdays: [],
+    courtIds: [],
+    customerTypes: [],
+    minSlots: null,
+    maxRedemptions: null,
+    maxPerUser: null,
+    maxPerDay: null,
   });
+  const [courts, setCourts] = useState<CourtLite[]>([]);
+  const [detail, setDetail] = useState<{ offer: Offer; items: Redemption[]; summary: Usage } | null>(null);
 
   async function load() {
     setLoading(true);
@@ -72,6 +131,10 @@ export default function OffersPage() {
 
   useEffect(() => {
     load();
+    fetch("/api/courts")
+      .then((r) => r.json())
+      .then((j) => j?.ok && setCourts(j.items || []))
+      .catch(() => {});
   }, []);
 
   function setField<K extends keyof Offer>(k: K, v: Offer[K]) {
@@ -91,6 +154,14 @@ export default function OffersPage() {
       flatPrice: 300,
       rules: [{ label: "", price: 0, criteria: "" }],
       active: true,
+      windows: [],
+      weekdays: [],
+      courtIds: [],
+      customerTypes: [],
+      minSlots: null,
+      maxRedemptions: null,
+      maxPerUser: null,
+      maxPerDay: null,
     });
   }
 
@@ -98,8 +169,9 @@ export default function OffersPage() {
     setSaving(true);
     setError(null);
 
+    const { usage: _usage, ...fields } = form;
     const payload: any = {
-      ...form,
+      ...fields,
       flatPrice: form.type === "flat" ? Number(form.flatPrice ?? 0) : undefined,
       rules:
         form.type === "conditional"
@@ -112,6 +184,10 @@ export default function OffersPage() {
               // drop entirely empty rows
               .filter((r) => r.label !== "" || !!r.criteria)
           : undefined,
+      // The main time window comes first; a single window is just timeFrom..timeTo
+      windows: (form.windows || []).length
+        ? [{ from: form.timeFrom, to: form.timeTo }, ...(form.windows || [])]
+        : [],
       // Dates as full-day ISO range
       dateFrom: new Date(form.dateFrom + "T00:00:00"),
       dateTo: new Date(form.dateTo + "T23:59:59"),
@@ -142,11 +218,19 @@ export default function OffersPage() {
       type: it.type,
       dateFrom: isoDateOnly(it.dateFrom), // keep yyyy-mm-dd for input
       dateTo: isoDateOnly(it.dateTo),     // keep yyyy-mm-dd for input
-      timeFrom: it.timeFrom,
-      timeTo: it.timeTo,
+      timeFrom: it.windows?.[0]?.from || it.timeFrom,
+      timeTo: it.windows?.[0]?.to || it.timeTo,
+      windows: (it.windows || []).slice(1),
+      weekdays: it.weekdays || [],
+      courtIds: it.courtIds || [],
+      customerTypes: it.customerTypes || [],
+      minSlots: it.minSlots ?? null,
       flatPrice: it.flatPrice,
       rules: (it.rules || []).length ? it.rules : [{ label: "", price: 0, criteria: "" }],
       active: it.active,
+      maxRedemptions: it.maxRedemptions ?? null,
+      maxPerUser: it.maxPerUser ?? null,
+      maxPerDay: it.maxPerDay ?? null,
     });
     window.scrollTo({ top: 0, behavior: "smooth" });
   }
@@ -156,7 +240,18 @@ export default function OffersPage() {
     const r = await fetch(`/api/offers/${id}`, { method: "DELETE" });
     const j = await r.json().catch(() => ({}));
     if (!j?.ok) setError(j?.error || "Failed to delete");
-    else setItems((arr) => arr.filter((x) => x._id !== id));
+    else {
+      setItems((arr) => arr.filter((x) => x._id !== id));
+      if (detail?.offer._id === id) setDetail(null);
+    }
+  }
+
+  async function showRedemptions(it: Offer) {
+    setError(null);
+    const r = await fetch(`/api/offers/${it._id}/redemptions`);
+    const j = await r.json().catch(() => ({}));
+    if (!j?.ok) setError(j?.error || "Failed to load redemptions");
+    else setDetail({ offer: it, items: j.items || [], summary: j.summary });
   }
 
   return (
@@ -248,6 +343,108 @@ export default function OffersPage() {
             />
           </label>
 
+          <div className="field field--full">
+            <div className="field__label">More daily windows (optional)</div>
+            {(form.windows || []).map((w, idx) => (
+              <div key={idx} className="rule-row">
+                <input
+                  className="input"
+                  type="time"
+                  value={w.from}
+                  onChange={(e) => {
+                    const next = [...(form.windows || [])];
+                    next[idx] = { ...next[idx], from: e.target.value };
+                    setField("windows", next);
+                  }}
+                />
+                <input
+                  className="input"
+                  type="time"
+                  value={w.to}
+                  onChange={(e) => {
+                    const next = [...(form.windows || [])];
+                    next[idx] = { ...next[idx], to: e.target.value };
+                    setField("windows", next);
+                  }}
+                />
+                <button
+                  className="btn btn--ghost danger"
+                  onClick={() => setField("windows", (form.windows || []).filter((_, i) => i !== idx))}
+                  aria-label="Remove window"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button
+              className="btn btn--secondary"
+              onClick={() => setField("windows", [...(form.windows || []), { from: "17:00", to: "19:00" }])}
+            >
+              + Add window
+            </button>
+          </div>
+
+          <div className="field">
+            <div className="field__label">Weekdays (none = every day)</div>
+            <div className="offer-card__meta">
+              {WEEKDAYS.map((d, i) => (
+                <label key={d} className="switch">
+                  <input
+                    type="checkbox"
+                    checked={(form.weekdays || []).includes(i)}
+                    onChange={() => setField("weekdays", toggled(form.weekdays, i))}
+                  />
+                  <span className="switch__label">{d}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="field">
+            <div className="field__label">Courts (none = all)</div>
+            <div className="offer-card__meta">
+              {courts.map((c) => (
+                <label key={c.courtId} className="switch">
+                  <input
+                    type="checkbox"
+                    checked={(form.courtIds || []).includes(c.courtId)}
+                    onChange={() => setField("courtIds", toggled(form.courtIds, c.courtId))}
+                  />
+                  <span className="switch__label">{c.name}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="field">
+            <div className="field__label">Who can use it (none = everyone)</div>
+            <div className="offer-card__meta">
+              {CUSTOMER_TYPES.map((t) => (
+                <label key={t} className="switch">
+                  <input
+                    type="checkbox"
+                    checked={(form.customerTypes || []).includes(t)}
+                    onChange={() => setField("customerTypes", toggled(form.customerTypes, t))}
+                  />
+                  <span className="switch__label">{t}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <label className="field">
+            <span className="field__label">Minimum slots per booking</span>
+            <input
+              className="input"
+              type="number"
+              min={1}
+              step={1}
+              placeholder="Any"
+              value={form.minSlots ?? ""}
+              onChange={(e) => setField("minSlots", e.target.value === "" ? null : Number(e.target.value))}
+            />
+          </label>
+
           <label className="field field--full">
             <span className="field__label">Description (optional)</span>
             <textarea
@@ -335,6 +532,21 @@ export default function OffersPage() {
             </div>
           )}
 
+          {CAP_FIELDS.map((c) => (
+            <label key={c.key} className="field">
+              <span className="field__label">{c.label}</span>
+              <input
+                className="input"
+                type="number"
+                min={0}
+                step={1}
+                placeholder="Unlimited"
+                value={form[c.key] ?? ""}
+                onChange={(e) => setField(c.key, e.target.value === "" ? null : Number(e.target.value))}
+              />
+            </label>
+          ))}
+
           <label className="switch">
             <input
               type="checkbox"
@@ -372,9 +584,22 @@ export default function OffersPage() {
                   <span className="pill">
                     {formatDate(it.dateFrom)} → {formatDate(it.dateTo)}
                   </span>
-                  <span className="pill">
-                    {it.timeFrom}–{it.timeTo}
-                  </span>
+                  {(it.windows?.length ? it.windows : [{ from: it.timeFrom, to: it.timeTo }]).map((w, i) => (
+                    <span key={i} className="pill">
+                      {w.from}–{w.to}
+                    </span>
+                  ))}
+                  {!!it.weekdays?.length && (
+                    <span className="pill">{it.weekdays.map((d) => WEEKDAYS[d]).join(", ")}</span>
+                  )}
+                  {!!it.courtIds?.length && <span className="pill">Courts {it.courtIds.join(", ")}</span>}
+                  {!!it.customerTypes?.length && <span className="pill">{it.customerTypes.join(" / ")}</span>}
+                  {!!it.minSlots && <span className="pill">Min {it.minSlots} slots</span>}
+                  {CAP_FIELDS.filter((c) => it[c.key]).map((c) => (
+                    <span key={c.key} className="pill">
+                      {c.label}: {it[c.key]}
+                    </span>
+                  ))}
                 </div>
 
                 <div className="offer-card__body">
@@ -391,9 +616,17 @@ export default function OffersPage() {
                       ))}
                     </ul>
                   )}
+                  <p className="muted">
+                    {it.usage?.redemptions ?? 0}
+                    {it.maxRedemptions ? ` / ${it.maxRedemptions}` : ""} bookings · revenue ₹
+                    {it.usage?.revenue ?? 0} · discount ₹{it.usage?.discount ?? 0}
+                  </p>
                 </div>
 
                 <div className="offer-card__actions">
+                  <button className="btn btn--secondary" onClick={() => showRedemptions(it)}>
+                    Redemptions
+                  </button>
                   <button className="btn btn--secondary" onClick={() => edit(it)}>
                     Edit
                   </button>
@@ -406,6 +639,71 @@ export default function OffersPage() {
           </div>
         )}
       </section>
+
+      {/* Redemptions of one offer */}
+      {detail && (
+        <section className="panel">
+          <div className="panel__header">
+            <div className="panel__title">Redemptions · {detail.offer.title}</div>
+            <div className="panel__actions">
+              <button className="btn btn--ghost" onClick={() => setDetail(null)}>
+                Close
+              </button>
+            </div>
+          </div>
+
+          <p className="muted">
+            {detail.summary.redemptions} bookings · {detail.summary.slots} slots · revenue ₹{detail.summary.revenue} ·
+            discount given ₹{detail.summary.discount}
+            {detail.summary.cancelled ? ` · ${detail.summary.cancelled} cancelled (not counted)` : ""}
+          </p>
+
+          {detail.items.length === 0 ? (
+            <div className="empty">No bookings under this offer yet.</div>
+          ) : (
+            <div className="table-wrap">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Date</th>
+                    <th>Name</th>
+                    <th>Contact</th>
+                    <th>Who</th>
+                    <th>Rule</th>
+                    <th>Slots</th>
+                    <th>Paid</th>
+                    <th>List price</th>
+                    <th>Discount</th>
+                    <th>Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {detail.items.map((r) => (
+                    <tr key={r.id}>
+                      <td>{r.date}</td>
+                      <td>
+                        <a href={`/bookings/${r.bookingId}`}>{r.userName || "—"}</a>
+                      </td>
+                      <td>{r.userEmail || r.phone || "—"}</td>
+                      <td>{r.who}</td>
+                      <td>{r.ruleLabel || "—"}</td>
+                      <td>{r.slots}</td>
+                      <td>₹{r.amount}</td>
+                      <td>₹{r.listPrice}</td>
+                      <td>₹{r.discount}</td>
+                      <td>
+                        <span className={`status ${r.cancelledAt ? "status--off" : "status--on"}`}>
+                          {r.cancelledAt ? "Cancelled" : "Booked"}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+      )}
     </div>
   );
 }
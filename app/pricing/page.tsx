@@ -0,0 +1,387 @@
+// app/pricing/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+
+type PricingMode = "court" | "individual" | "individual2";
+type DayType = "any" | "weekday" | "weekend";
+
+type Rule = {
+  _id?: string;
+  name: string;
+  pricingMode: PricingMode;
+  dayType: DayType;
+  weekdays: number[];
+  timeFrom?: string;
+  timeTo?: string;
+  courtIds: number[];
+  dateFrom?: string;
+  dateTo?: string;
+  price: number;
+  priority: number;
+  active: boolean;
+  updatedAt?: string;
+};
+
+type CourtLite = { courtId: number; name: string };
+type Fallback = Record<PricingMode, { weekday: number; weekend: number }>;
+
+const MODE_LABEL: Record<PricingMode, string> = {
+  court: "Court",
+  individual: "Individual",
+  individual2: "Individuals (2)",
+};
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function emptyForm(): Rule {
+  return {
+    name: "",
+    pricingMode: "court",
+    dayType: "any",
+    weekdays: [],
+    timeFrom: "",
+    timeTo: "",
+    courtIds: [],
+    dateFrom: "",
+    dateTo: "",
+    price: 500,
+    priority: 0,
+    active: true,
+  };
+}
+
+function scopeLabels(r: Rule, courts: CourtLite[]): string[] {
+  const out: string[] = [];
+  if (r.dayType !== "any") out.push(r.dayType === "weekend" ? "Weekends" : "Weekdays");
+  if (r.weekdays.length) out.push(r.weekdays.map((d) => WEEKDAYS[d]).join(", "));
+  if (r.timeFrom || r.timeTo) out.push(`${r.timeFrom || "open"}–${r.timeTo || "close"}`);
+  if (r.courtIds.length) {
+    out.push(r.courtIds.map((id) => courts.find((c) => c.courtId === id)?.name || `Court ${id}`).join(", "));
+  }
+  if (r.dateFrom || r.dateTo) out.push(`${r.dateFrom || "…"} → ${r.dateTo || "…"}`);
+  return out.length ? out : ["All slots"];
+}
+
+export default function PricingPage() {
+  const [items, setItems] = useState<Rule[]>([]);
+  const [courts, setCourts] = useState<CourtLite[]>([]);
+  const [fallback, setFallback] = useState<Fallback | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<Rule>(emptyForm());
+
+  async function load() {
+    setLoading(true);
+    const [r, rc] = await Promise.all([fetch("/api/pricing"), fetch("/api/courts")]);
+    const j = await r.json().catch(() => ({}));
+    const jc = await rc.json().catch(() => ({}));
+    if (!j?.ok) setError(j?.error || "Failed to load pricing rules");
+    else {
+      setItems(j.items || []);
+      setFallback(j.fallback || null);
+    }
+    if (jc?.ok) setCourts(jc.items || []);
+    setLoading(false);
+  }
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  function setField<K extends keyof Rule>(k: K, v: Rule[K]) {
+    setForm((f) => ({ ...f, [k]: v }));
+  }
+
+  function toggleIn(k: "weekdays" | "courtIds", v: number) {
+    setForm((f) => ({
+      ...f,
+      [k]: f[k].includes(v) ? f[k].filter((x) => x !== v) : [...f[k], v].sort((a, b) => a - b),
+    }));
+  }
+
+  function resetForm() {
+    setEditingId(null);
+    setForm(emptyForm());
+  }
+
+  async function save() {
+    setSaving(true);
+    setError(null);
+
+    const payload = {
+      ...form,
+      name: form.name.trim(),
+      price: Number(form.price),
+      priority: Number(form.priority || 0),
+      timeFrom: form.timeFrom || "",
+      timeTo: form.timeTo || "",
+      dateFrom: form.dateFrom || "",
+      dateTo: form.dateTo || "",
+    };
+    delete payload._id;
+    delete payload.updatedAt;
+
+    const url = editingId ? `/api/pricing/${editingId}` : "/api/pricing";
+    const method = editingId ? "PUT" : "POST";
+
+    const r = await fetch(url, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    const j = await r.json().catch(() => ({}));
+    if (!j?.ok) setError(j?.error || "Failed to save pricing rule");
+    else {
+      await load();
+      resetForm();
+    }
+    setSaving(false);
+  }
+
+  function edit(it: Rule) {
+    setEditingId(it._id!);
+    setForm({
+      ...emptyForm(),
+      ...it,
+      timeFrom: it.timeFrom || "",
+      timeTo: it.timeTo || "",
+      dateFrom: it.dateFrom || "",
+      dateTo: it.dateTo || "",
+    });
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  }
+
+  async function remove(id: string) {
+    if (!confirm("Delete this pricing rule?")) return;
+    const r = await fetch(`/api/pricing/${id}`, { method: "DELETE" });
+    const j = await r.json().catch(() => ({}));
+    if (!j?.ok) setError(j?.error || "Failed to delete");
+    else setItems((arr) => arr.filter((x) => x._id !== id));
+  }
+
+  return (
+    <div className="offers-wrap">
+      <header className="offers-hero">
+        <div className="offers-hero__badge">Admin · Pricing</div>
+        <h1>Slot Pricing Rules</h1>
+        <p>
+          Per-slot prices by pricing mode, day, time band, court and date range. When several rules match a
+          slot the highest priority wins, then the more specific rule, then the most recently updated.
+        </p>
+      </header>
+
+      {error && <div className="alert alert--danger">{error}</div>}
+
+      {/* Form */}
+      <section className="panel">
+        <div className="panel__header">
+          <div className="panel__title">{editingId ? "Edit Rule" : "New Rule"}</div>
+          <div className="panel__actions">
+            {editingId && (
+              <button className="btn btn--ghost" onClick={resetForm}>
+                Cancel Edit
+              </button>
+            )}
+            <button className="btn btn--primary" onClick={save} disabled={saving}>
+              {editingId ? "Update Rule" : "Create Rule"}
+            </button>
+          </div>
+        </div>
+
+        <div className="form-grid">
+          <label className="field">
+            <span className="field__label">Name</span>
+            <input
+              className="input"
+              value={form.name}
+              onChange={(e) => setField("name", e.target.value)}
+              placeholder="e.g., Weekday evening peak"
+            />
+          </label>
+
+          <label className="field">
+            <span className="field__label">Pricing mode</span>
+            <select
+              className="input"
+              value={form.pricingMode}
+              onChange={(e) => setField("pricingMode", e.target.value as PricingMode)}
+            >
+              {(Object.keys(MODE_LABEL) as PricingMode[]).map((m) => (
+                <option key={m} value={m}>{MODE_LABEL[m]}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="field">
+            <span className="field__label">Price per slot (₹)</span>
+            <input
+              className="input"
+              type="number"
+              min={0}
+              value={form.price}
+              onChange={(e) => setField("price", Number(e.target.value))}
+            />
+          </label>
+
+          <label className="field">
+            <span className="field__label">Priority (higher wins)</span>
+            <input
+              className="input"
+              type="number"
+              value={form.priority}
+              onChange={(e) => setField("priority", Number(e.target.value))}
+            />
+          </label>
+
+          <label className="field">
+            <span className="field__label">Days</span>
+            <select
+              className="input"
+              value={form.dayType}
+              onChange={(e) => setField("dayType", e.target.value as DayType)}
+            >
+              <option value="any">Any day</option>
+              <option value="weekday">Weekdays (Mon–Fri)</option>
+              <option value="weekend">Weekends (Sat–Sun)</option>
+            </select>
+          </label>
+
+          <div className="field">
+            <span className="field__label">Only on (optional)</span>
+            <div style={{ display: "flex", gap: 10, flexWrap: "wrap", paddingTop: 6 }}>
+              {WEEKDAYS.map((d, i) => (
+                <label key={d} style={{ display: "flex", gap: 4, alignItems: "center" }}>
+                  <input type="checkbox" checked={form.weekdays.includes(i)} onChange={() => toggleIn("weekdays", i)} />
+                  {d}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <label className="field">
+            <span className="field__label">Slot starts from (optional)</span>
+            <input
+              className="input"
+              type="time"
+              value={form.timeFrom || ""}
+              onChange={(e) => setField("timeFrom", e.target.value)}
+            />
+          </label>
+
+          <label className="field">
+            <span className="field__label">Slot starts before (optional)</span>
+            <input
+              className="input"
+              type="time"
+              value={form.timeTo || ""}
+              onChange={(e) => setField("timeTo", e.target.value)}
+            />
+          </label>
+
+          <label className="field">
+            <span className="field__label">From date (optional)</span>
+            <input
+              className="input"
+              type="date"
+              value={form.dateFrom || ""}
+              onChange={(e) => setField("dateFrom", e.target.value)}
+            />
+          </label>
+
+          <label className="field">
+            <span className="field__label">To date (optional)</span>
+            <input
+              className="input"
+              type="date"
+              value={form.dateTo || ""}
+              onChange={(e) => setField("dateTo", e.target.value)}
+            />
+          </label>
+
+          <div className="field field--full">
+            <span className="field__label">Courts (none checked = all courts)</span>
+            <div style={{ display: "flex", gap: 12, flexWrap: "wrap", paddingTop: 6 }}>
+              {courts.map((c) => (
+                <label key={c.courtId} style={{ display: "flex", gap: 4, alignItems: "center" }}>
+                  <input
+                    type="checkbox"
+                    checked={form.courtIds.includes(c.courtId)}
+                    onChange={() => toggleIn("courtIds", c.courtId)}
+                  />
+                  {c.name}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <label className="switch">
+            <input
+              type="checkbox"
+              checked={form.active}
+              onChange={(e) => setField("active", e.target.checked)}
+            />
+            <span className="switch__label">Active</span>
+          </label>
+        </div>
+      </section>
+
+      {/* List */}
+      <section className="panel">
+        <div className="panel__header">
+          <div className="panel__title">Rules</div>
+          {fallback && (
+            <div className="panel__actions">
+              {(Object.keys(MODE_LABEL) as PricingMode[]).map((m) => (
+                <span key={m} className="pill pill--hint" title="Used when no rule matches">
+                  {MODE_LABEL[m]} default: ₹{fallback[m].weekday} / ₹{fallback[m].weekend} weekend
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="empty">Loading…</div>
+        ) : items.length === 0 ? (
+          <div className="empty">No rules yet — the default prices apply.</div>
+        ) : (
+          <div className="cards">
+            {items.map((it) => (
+              <article key={it._id} className="offer-card">
+                <div className="offer-card__head">
+                  <h3>{it.name}</h3>
+                  <span className={`status ${it.active ? "status--on" : "status--off"}`}>
+                    {it.active ? "Active" : "Inactive"}
+                  </span>
+                </div>
+
+                <div className="offer-card__meta">
+                  <span className="pill">{MODE_LABEL[it.pricingMode]}</span>
+                  <span className="pill">Priority {it.priority}</span>
+                  {scopeLabels(it, courts).map((l) => (
+                    <span key={l} className="pill">{l}</span>
+                  ))}
+                </div>
+
+                <div className="offer-card__body">
+                  <div className="price">₹{it.price}</div>
+                </div>
+
+                <div className="offer-card__actions">
+                  <button className="btn btn--secondary" onClick={() => edit(it)}>
+                    Edit
+                  </button>
+                  <button className="btn btn--ghost danger" onClick={() => remove(it._id!)}>
+                    Delete
+                  </button>
+                </div>
+              </article>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
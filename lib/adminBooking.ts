@@ -0,0 +1,506 @@
+// lib/adminBooking.ts
+import { BookingModel } from "@/models/Booking";
+import { GuestBookingModel } from "@/models/GuestBooking";
+import {
+  MembershipModel,
+  backfillValidity,
+  usableMembershipFilter,
+  creditGuardError,
+  creditPipeline,
+  linkCreditsToBooking,
+  type MembershipDoc,
+} from "@/models/Membership";
+import { UserModel } from "@/models/User";
+import { bookingToRows, appendRows } from "@/lib/googleSheets"; // ⬅️ Sheets helper
+import { reserveSlots, releaseSlots, describeSlots, normalizeSlots } from "@/lib/slotReservations";
+import { findUnbookableSlots } from "@/lib/courts";
+import { quoteSlots, isPricingMode } from "@/lib/pricing";
+import { pendingBookingBlockedReason } from "@/lib/noShows";
+import { quoteOfferBooking, type OfferQuote } from "@/lib/offers";
+import { reserveOfferRedemption, confirmOfferRedemption, releaseOfferRedemption } from "@/lib/offerRedemptions";
+import { applyCoupon, confirmCouponUse, releaseCouponUse, spreadDiscount } from "@/lib/coupons";
+import type { DiscountLine } from "@/models/Coupon";
+import { slotsOutsideTerms } from "@/lib/membershipPlans";
+
+// 🔁 Unique admin order ids
+function genAdminOrderId() {
+  return `admin_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+type Slot = { courtId: number; start: string; end: string };
+
+export type AdminCreateBody = {
+  type?: "member" | "user" | "guest";
+  date?: string;              // YYYY-MM-DD
+  slots?: Slot[];             // [{ courtId, start, end }]
+  markPaid?: boolean;         // admin pressed Paid button
+  userId?: string;            // (often a username in your payload)
+  userName?: string;
+  userEmail?: string;
+  guestName?: string;
+  guestPhone?: string;        // phone collected in UI for guest
+
+  // Existing pricing selector
+  pricingMode?: "court" | "individual" | "individual2"; // ⬅️ NEW
+
+  // 🔵 Offer booking (optional)
+  offerId?: string;                 // selected offer _id
+  offerName?: string;               // label (for UI/export context)
+  offerConditionKeys?: string[];    // ids/keys of checked conditions
+  selectedRuleLabel?: string;       // conditional offers (falls back to offerConditionKeys[0])
+  offerUnitPrice?: number;          // per-slot price the desk showed – checked, never trusted
+  offerTotal?: number;              // total the desk showed – checked, never trusted
+
+  // Promo code quoted by the customer (optional)
+  couponCode?: string;
+
+  // Recurring series (set by /api/bookings/series)
+  seriesId?: string;
+
+  // Signed-in admin (set by the routes from the auth cookie, never from the body)
+  admin?: string;
+};
+
+/** HTTP-shaped result so routes can pass it straight to NextResponse.json(body, { status }). */
+export type AdminBookingOutcome = { status: number; body: Record<string, unknown> };
+
+/**
+ * Create one admin booking (member / user / guest, optional offer): validates the
+ * slots against the court catalog, prices them (less any coupon), reserves them, consumes
+ * membership credits, writes the booking and appends it to Sheets.
+ */
+export async function createAdminBooking(input: AdminCreateBody): Promise<AdminBookingOutcome> {
+  const {
+    type,
+    date,
+    slots,
+    markPaid,
+    userId,
+    userName,
+    userEmail,
+    guestName,
+    guestPhone,
+    pricingMode = "court",
+
+    // Offer inputs (optional)
+    offerId,
+    offerName,
+    offerConditionKeys,
+    selectedRuleLabel,
+    offerUnitPrice,
+    offerTotal,
+    couponCode,
+    seriesId,
+  } = input || {};
+
+  // ---- validation ----
+  if (!Array.isArray(slots) || slots.length === 0) {
+    return { status: 400, body: { error: "No slots selected" } };
+  }
+  if (!date) return { status: 400, body: { error: "Missing date" } };
+
+  // ✅ Narrow once, then only use dateStr below
+  const dateStr: string = date;
+
+  const isMember = type === "member";
+  const isUser   = type === "user";
+  const isGuest  = type === "guest";
+  const isOffer  = Boolean(offerId);
+
+  if ((isMember || isUser) && !userEmail) {
+    return { status: 400, body: { error: "User email is required" } };
+  }
+  if (isGuest && (!guestName || !guestPhone)) {
+    return { status: 400, body: { error: "Guest name and phone are required" } };
+  }
+  if (!isPricingMode(pricingMode)) {
+    return { status: 400, body: { error: "Invalid pricing mode" } };
+  }
+
+  // Repeat no-shows only get bookings paid up-front
+  if (!isMember && !markPaid) {
+    const blocked = await pendingBookingBlockedReason(isGuest ? { phone: guestPhone } : { userEmail });
+    if (blocked) return { status: 403, body: { error: blocked } };
+  }
+
+  // Slots must exist in the court catalog (active court, open that day, on the grid)
+  const unbookable = await findUnbookableSlots(dateStr, normalizeSlots(slots));
+  if (unbookable.length) {
+    return { status: 400, body: { error: `Not bookable: ${describeSlots(unbookable)}` } };
+  }
+
+  // Offer bookings are validated and priced from the Offer itself
+  let offerQuote: OfferQuote | null = null;
+  if (isOffer) {
+    const res = await quoteOfferBooking({
+      offerId: String(offerId),
+      date: dateStr,
+      slots: normalizeSlots(slots),
+      ruleLabel: selectedRuleLabel || offerConditionKeys?.[0],
+      who: isMember ? "member" : isUser ? "user" : "guest",
+      userEmail: isGuest ? undefined : userEmail,
+      phone: isGuest ? guestPhone : undefined,
+      clientUnitPrice: offerUnitPrice,
+      clientTotal: offerTotal,
+    });
+    if (!res.ok) return { status: res.status, body: { error: res.error } };
+    offerQuote = res.quote;
+  }
+
+  // ---- models ----
+  const Booking = await BookingModel();
+  const GuestBooking = await GuestBookingModel();
+
+  // ---- billing ----
+  const slotsCount = Math.max(1, slots.length);
+
+  // Per-slot prices from the pricing rules (same function the desk grid quotes from)
+  const quote = await quoteSlots(dateStr, normalizeSlots(slots), pricingMode);
+
+  // Offer price from the offer, otherwise the pricing rules for the selected mode
+  const listTotal = isMember ? 0 : offerQuote ? offerQuote.total : quote.total;
+
+  // Coupon comes off the list total
+  let discount: DiscountLine | undefined;
+  let couponUseId = ""; // reserved use, confirmed once the booking is saved
+  if (couponCode && String(couponCode).trim()) {
+    const res = await applyCoupon({
+      code: couponCode,
+      product: "booking",
+      amount: listTotal,
+      userEmail: isGuest ? undefined : userEmail,
+      phone: isGuest ? guestPhone : undefined,
+    });
+    if (!res.ok) return { status: res.status, body: { error: res.error } };
+    discount = res.line;
+    couponUseId = res.useId;
+  }
+  const totalAmount = discount ? listTotal - discount.amount : listTotal;
+
+  // Price stored on each slot so a single-slot cancel refunds what that slot cost.
+  const listSlotPrice = (i: number): number | undefined => {
+    if (isMember) return 0;
+    if (offerQuote) return offerQuote.unitPrice;
+    return quote.slots[i]?.price;
+  };
+  const discountedPrices = discount
+    ? spreadDiscount(slots.map((_, i) => listSlotPrice(i) ?? 0), discount.amount)
+    : null;
+  const slotPrice = (i: number) => (discountedPrices ? discountedPrices[i] : listSlotPrice(i));
+
+  const currency = "INR";
+
+  // adminPaid: members + “Create & Mark Paid” => true; “Create (Pending)” => false
+  const adminPaid = isMember ? true : !!markPaid;
+
+  // paymentRef:
+  // - Member: MEMBERSHIP
+  // - Offer (non-member):  PAID.OFFER / UNPAID.OFFER
+  // - Otherwise (non-member): PAID.CASH / UNPAID.CASH
+  const paymentRef = isMember
+    ? "MEMBERSHIP"
+    : isOffer
+      ? (markPaid ? "PAID.OFFER" : "UNPAID.OFFER")
+      : (markPaid ? "PAID.CASH" : "UNPAID.CASH");
+
+  // Always set a unique orderId for admin-created bookings
+  // If an offer is used, append a suffix to help traceability without schema changes.
+  let orderId = genAdminOrderId();
+  if (isOffer && offerId) {
+    orderId = `${orderId}__offer_${offerId}`;
+  }
+
+  // -----------------------------------------------------------------------
+  // SLOT RESERVATION — authoritative clash check before anything is written
+  // -----------------------------------------------------------------------
+  const reserved = await reserveSlots(dateStr, slots, orderId);
+  if (!reserved.ok) {
+    if (couponUseId) await releaseCouponUse(couponUseId);
+    return {
+      status: 409,
+      body: { error: `Already booked: ${describeSlots(reserved.conflicts)}`, conflicts: reserved.conflicts },
+    };
+  }
+
+  let redemptionId = ""; // offer use held below
+
+  // Undo the holds when the booking can't go ahead
+  async function releaseHolds() {
+    await releaseSlots(orderId);
+    if (couponUseId) await releaseCouponUse(couponUseId);
+    if (redemptionId) await releaseOfferRedemption(redemptionId);
+  }
+
+  // Whatever happens from here on (early return or a throw), the holds go unless the booking was saved
+  let saved = false;
+  try {
+    const bookedSlots = reserved.slots.map((s, i) => ({ ...s, price: slotPrice(i) }));
+
+    const whoField: "member" | "user" | "guest" =
+      isMember ? "member" : (isUser ? "user" : "guest");
+
+    // Offer use held now so a parallel booking can't push it past its caps; confirmed after the insert
+    if (offerQuote) {
+      const held = await reserveOfferRedemption(
+        {
+          offerId: offerQuote.offerId,
+          orderId,
+          date: dateStr,
+          who: whoField,
+          userName: isGuest ? guestName : userName,
+          userEmail: isGuest ? undefined : userEmail,
+          phone: isGuest ? guestPhone : undefined,
+          slots: normalizeSlots(slots),
+          ruleLabel: offerQuote.ruleLabel,
+          amount: totalAmount,
+          currency,
+        },
+        offerQuote.caps
+      );
+      if (!held.ok) {
+        return { status: 409, body: { error: held.error } };
+      }
+      redemptionId = held.id;
+    }
+
+    // -----------------------------------------------------------------------
+    // MEMBERSHIP CREDIT GUARD (1 per slot) — Block if not enough credits
+    // -----------------------------------------------------------------------
+    let reservedCredits = false;
+    let memberUserObjectId = "";
+    let creditMembershipId = ""; // the membership the credits came from (for rollback)
+
+    let phoneForSheet: string = ""; // we’ll try to fill this for member/user
+
+    if (isMember) {
+      const User = await UserModel();
+      const userDoc = await User.findOne({
+        $or: [
+          { email: String(userEmail || "").toLowerCase() },
+          { userId: userId || "" },
+        ],
+      }).lean();
+
+      if (!userDoc?._id) {
+        return { status: 404, body: { error: "Member not found" } };
+      }
+      memberUserObjectId = String(userDoc._id);
+      phoneForSheet = String(userDoc.phone || "");
+
+      const Membership = await MembershipModel();
+
+      // Credits only count inside the membership's validity window (play date). The membership
+      // is picked once: its plan's court / hour limits are checked and its credits taken.
+      await backfillValidity({ userId: memberUserObjectId });
+      const usable = usableMembershipFilter(memberUserObjectId, dateStr, slotsCount);
+      const current = await Membership.findOne(usable)
+        .sort({ createdAt: -1 })
+        .select({ planTerms: 1 })
+        .lean<(Pick<MembershipDoc, "planTerms"> & { _id: unknown }) | null>();
+      if (!current) {
+        return { status: 400, body: { error: await creditGuardError(memberUserObjectId, dateStr) } };
+      }
+
+      const outside = slotsOutsideTerms(current.planTerms, slots);
+      if (outside) {
+        return { status: 400, body: { error: `${outside}. Book as a user.` } };
+      }
+
+      // Same filter again so credits used meanwhile (or an expiry / freeze) still block the booking
+      const updated = await Membership.findOneAndUpdate(
+        { ...usable, _id: current._id },
+        creditPipeline(slotsCount, {
+          reason: "booking",
+          orderId,
+          date: dateStr,
+          slots: normalizeSlots(slots),
+          admin: input.admin,
+        }),
+        { new: true }
+      );
+
+      if (!updated) {
+        return { status: 400, body: { error: await creditGuardError(memberUserObjectId, dateStr) } };
+      }
+
+      reservedCredits = true;
+      creditMembershipId = String(updated._id);
+    } else if (isUser) {
+      // Try to resolve phone via User collection for regular users
+      try {
+        const User = await UserModel();
+        const u = await User.findOne({
+          $or: [
+            { email: String(userEmail || "").toLowerCase() },
+            ...(userId ? [{ userId }] : []),
+          ],
+        }).select({ phone: 1 }).lean();
+        phoneForSheet = String(u?.phone || "");
+      } catch { /* ignore */ }
+    }
+
+    // ⬇️ NEW: derive bookingType + who for persistence
+    const bookingType: "Normal" | "Individual" | "Special" =
+      isOffer
+        ? "Special"
+        : (pricingMode === "individual" || pricingMode === "individual2" ? "Individual" : "Normal");
+
+    // kept so a later slot move is re-priced with the same rules (members and offers aren't priced by them)
+    const storedPricingMode = isMember || isOffer ? undefined : pricingMode;
+
+    // Confirm the offer use; the booking stands even if this write fails
+    async function logRedemption(bookingId: string, source: "bookings" | "guest_bookings") {
+      if (!redemptionId) return;
+      try {
+        await confirmOfferRedemption(redemptionId, {
+          bookingId,
+          source,
+          phone: isGuest ? guestPhone : phoneForSheet || undefined,
+        });
+      } catch (e) {
+        console.error("Offer redemption record failed:", e);
+      }
+    }
+
+    // Confirm the coupon use; same as above, never fails the booking
+    async function logCouponUse(refId: string) {
+      if (!couponUseId) return;
+      try {
+        await confirmCouponUse(couponUseId, refId);
+      } catch (e) {
+        console.error("Coupon use record failed:", e);
+      }
+    }
+
+    // ---- create booking in the correct collection ----
+    try {
+      if (isGuest) {
+        const created = await GuestBooking.create({
+          orderId,
+          userName: guestName || "Guest",
+          phone_number: guestPhone,
+          date: dateStr,
+          slots: bookedSlots,
+          amount: totalAmount,
+          currency,
+          status: "PAID",
+          paymentRef,
+          adminPaid,
+
+          // ⬇️ NEW metadata
+          bookingType,
+          pricingMode: storedPricingMode,
+          who: whoField,
+          seriesId,
+          discount,
+        });
+        saved = true;
+        await logRedemption(String(created._id), "guest_bookings");
+        await logCouponUse(String(created._id));
+
+        // ---- Google Sheets append (guest) ----
+        try {
+          const rows = bookingToRows({
+            userName: created.userName || "Guest",
+            phone: String(created.phone_number || ""),
+            date: dateStr,
+            paymentRef,
+            adminPaid,
+            totalAmount,
+            slots: bookedSlots,
+            bookingType,
+            who: whoField,
+            bookingId: orderId, // ⬅️ store orderId in "Booking ID" column
+            discount,
+          });
+          await appendRows(rows);
+        } catch (sheetErr) {
+          console.error("Sheets append (guest admin) failed:", sheetErr);
+        }
+
+        return { status: 200, body: { ok: true, id: String(created._id), orderId } };
+      }
+
+      const created = await Booking.create({
+        orderId,
+        userId:   isMember ? (userId || undefined) : (isUser ? userId || undefined : undefined),
+        userName: userName || (isMember ? "—" : "—"),
+        userEmail: (userEmail ? String(userEmail).toLowerCase() : undefined),
+        date: dateStr,
+        slots: bookedSlots,
+        amount:   totalAmount,
+        currency,
+        status:   "PAID",
+        paymentRef,
+        adminPaid,
+
+        // ⬇️ NEW metadata
+        bookingType,
+        pricingMode: storedPricingMode,
+        who: whoField,
+        seriesId,
+        discount,
+      });
+      saved = true;
+      await logRedemption(String(created._id), "bookings");
+      await logCouponUse(String(created._id));
+      if (reservedCredits) {
+        try {
+          await linkCreditsToBooking(orderId, String(created._id));
+        } catch (e) {
+          console.error("Credit ledger link failed:", e);
+        }
+      }
+
+      // ---- Google Sheets append (member/user) ----
+      try {
+        const rows = bookingToRows({
+          userName: created.userName || "—",
+          phone: phoneForSheet, // may be blank if not found
+          date: dateStr,
+          paymentRef,
+          adminPaid,
+          totalAmount,
+          slots: bookedSlots,
+          bookingType,
+          who: whoField,
+          bookingId: orderId, // ⬅️ store orderId here
+          discount,
+        });
+        await appendRows(rows);
+      } catch (sheetErr) {
+        console.error("Sheets append (admin user/member) failed:", sheetErr);
+      }
+
+      return { status: 200, body: { ok: true, id: String(created._id), orderId } };
+    } catch (createErr) {
+      if (!saved && reservedCredits && creditMembershipId) {
+        try {
+          const Membership = await MembershipModel();
+          await Membership.findOneAndUpdate(
+            { _id: creditMembershipId },
+            creditPipeline(-slotsCount, {
+              reason: "rollback",
+              orderId,
+              date: dateStr,
+              admin: input.admin,
+              note: "Booking could not be saved",
+            }),
+            { new: true }
+          );
+        } catch (rollbackErr) {
+          console.error("Rollback membership credits failed:", rollbackErr);
+        }
+      }
+      throw createErr;
+    }
+  } finally {
+    if (!saved) {
+      try {
+        await releaseHolds();
+      } catch (releaseErr) {
+        console.error("Release slot reservations failed:", releaseErr);
+      }
+    }
+  }
+}
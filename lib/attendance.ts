@@ -0,0 +1,100 @@
+// lib/attendance.ts
+import { listBookings, findBooking, bookingModelFor, type Attendance, type ServiceOutcome } from "@/lib/bookingService";
+
+export const ATTENDANCE_STATES: Attendance[] = ["checked_in", "no_show"];
+
+/** Front-desk view of one booked slot */
+export type Arrival = {
+  bookingId: string;
+  code: string;
+  slotIndex: number;
+  courtId: number;
+  start: string;
+  end: string;
+  userName: string;
+  phone?: string;
+  userEmail?: string;
+  who: "member" | "user" | "guest";
+  paymentState: "membership" | "paid" | "unpaid";
+  attendance?: Attendance;
+  attendedAt?: Date;
+};
+
+/**
+ * Short code printed / shown for a booking (last 8 hex chars of its id, upper-case).
+ * A keyboard-wedge scanner or the desk types it into the arrivals view to check in.
+ */
+export function bookingCode(bookingId: string): string {
+  return bookingId.slice(-8).toUpperCase();
+}
+
+/** Every booked slot on a date, by start time then court. */
+export async function listArrivals(date: string): Promise<Arrival[]> {
+  const bookings = await listBookings({ date });
+  return bookings
+    .flatMap((b) =>
+      b.slots.map((s, slotIndex) => ({
+        bookingId: b.id,
+        code: bookingCode(b.id),
+        slotIndex,
+        courtId: s.courtId,
+        start: s.start,
+        end: s.end,
+        userName: b.userName,
+        phone: b.phone,
+        userEmail: b.userEmail,
+        who: b.who,
+        paymentState: b.paymentState,
+        attendance: s.attendance,
+        attendedAt: s.attendedAt,
+      }))
+    )
+    .sort((a, b) => a.start.localeCompare(b.start) || a.courtId - b.courtId);
+}
+
+/** Set (or clear with null) check-in / no-show on one slot of a booking. */
+export async function setSlotAttendance(
+  id: string,
+  slotIndex: number,
+  status: Attendance | null
+): Promise<ServiceOutcome> {
+  const booking = await findBooking(id);
+  if (!booking) return { status: 404, body: { error: "Booking not found" } };
+  if (!Number.isInteger(slotIndex) || slotIndex < 0 || slotIndex >= booking.slots.length) {
+    return { status: 400, body: { error: "Invalid slotIndex" } };
+  }
+
+  const Model = await bookingModelFor(booking.source);
+  const path = `slots.${slotIndex}`;
+  await Model.updateOne(
+    { _id: booking.id },
+    status
+      ? { $set: { [`${path}.attendance`]: status, [`${path}.attendedAt`]: new Date() } }
+      : { $unset: { [`${path}.attendance`]: 1, [`${path}.attendedAt`]: 1 } }
+  );
+
+  return { status: 200, body: { ok: true, source: booking.source, slotIndex, attendance: status } };
+}
+
+/** Scan / type a booking code: checks in every not-yet-marked slot of that booking on the date. */
+export async function checkInByCode(code: string, date: string): Promise<ServiceOutcome> {
+  const wanted = code.trim().toUpperCase();
+  const arrivals = (await listArrivals(date)).filter((a) => a.code === wanted);
+  if (!arrivals.length) return { status: 404, body: { error: `No booking ${wanted} on ${date}` } };
+
+  const pending = arrivals.filter((a) => !a.attendance);
+  for (const a of pending) await setSlotAttendance(a.bookingId, a.slotIndex, "checked_in");
+
+  const first = arrivals[0];
+  return {
+    status: 200,
+    body: {
+      ok: true,
+      bookingId: first.bookingId,
+      userName: first.userName,
+      checkedIn: pending.length,
+      already: pending.length === 0,
+      paymentState: first.paymentState,
+    },
+  };
+}
@@ -0,0 +1,534 @@
+// lib/bookingCancel.ts
+import { BookingModel, type BookingDoc } from "@/models/Booking";
+import { GuestBookingModel, type GuestBookingDoc } from "@/models/GuestBooking";
+import { RefundModel } from "@/models/Refund";
+import { restoreOneMembershipCredit, type CreditRef } from "@/models/Membership";
+import { UserModel } from "@/models/User";
+import { appendCancellations, type CancelRowIn } from "@/lib/googleSheets";
+import { releaseSlots } from "@/lib/slotReservations";
+import { createCashfreeRefund, fetchCashfreeRefundStatus, sleep } from "@/lib/cashfree";
+import { offerFreedSlot } from "@/lib/waitlist";
+import { evaluateCancellation, waivedCancellation, capRefund } from "@/lib/cancellationPolicy";
+import { voidOfferRedemptions } from "@/lib/offerRedemptions";
+
+/* ---------------- Helpers ---------------- */
+type Slot = { courtId: number; start: string; end: string; price?: number };
+type BookingLean = Pick<
+  BookingDoc,
+  "_id" | "orderId" | "userId" | "userEmail" | "userName" | "amount" | "currency" | "paymentRef" | "date" | "slots"
+> & { _id: string; slots: Slot[] | unknown[] };
+type GuestLean = Pick<
+  GuestBookingDoc,
+  "_id" | "orderId" | "userName" | "amount" | "currency" | "paymentRef" | "date" | "slots"
+> & { _id: string; slots: Slot[] | unknown[] };
+
+export function isNonGatewayBooking(b: { amount?: number; paymentRef?: string; orderId?: string } | null | undefined): boolean {
+  const amount  = Number(b?.amount ?? 0);
+  const ref     = String(b?.paymentRef ?? "").toUpperCase();
+  const orderId = String(b?.orderId ?? "");
+  return amount <= 0 || ref === "MEMBERSHIP" || ref === "CASH" || !orderId || orderId.startsWith("admin_");
+}
+
+/** Derive "who" for Sheets logging without relying on schema extras */
+function deriveWho(isGuest: boolean, paymentRef?: string): "member" | "user" | "guest" {
+  if (isGuest) return "guest";
+  const refUp = String(paymentRef || "").toUpperCase();
+  if (refUp === "MEMBERSHIP") return "member";
+  return "user";
+}
+
+// ⬇️ resolve users._id from email or username, then restore exactly 1 credit atomically
+// (credit + ledger entry in one update, on the membership that paid for `ref.orderId` when it is in the ledger)
+async function restoreOneCreditAtomicByEmailOrUsername(userEmail: string | undefined, usernameHint: string | undefined, ref: CreditRef) {
+  const User = await UserModel();
+  const userDoc = await User.findOne({
+    $or: [
+      ...(userEmail ? [{ email: String(userEmail).toLowerCase() }] : []),
+      ...(usernameHint ? [{ userId: usernameHint }] : []),
+    ],
+  }).lean();
+
+  if (!userDoc?._id) return false;
+  return restoreOneMembershipCredit(String(userDoc._id), ref);
+}
+
+// bookingPayments imports bookingService, which imports this module; load it when needed
+function bookingPayments() {
+  return import("@/lib/bookingPayments");
+}
+
+export type SlotSelector = {
+  slotIndex?: number;
+  courtId?: number;
+  start?: string;
+  end?: string;
+};
+
+/** Index of the selected slot (by slotIndex, else by courtId/start/end), or -1. */
+export function locateSlot(slots: Slot[], sel: SlotSelector): number {
+  const slotIndex = Number.isInteger(sel.slotIndex) ? Number(sel.slotIndex) : -1;
+  if (slotIndex >= 0) return slotIndex < slots.length ? slotIndex : -1;
+  return slots.findIndex(
+    (s) =>
+      (sel.courtId == null || s.courtId === sel.courtId) &&
+      (sel.start == null || s.start === sel.start) &&
+      (sel.end == null || s.end === sel.end)
+  );
+}
+
+/** HTTP-shaped result so routes can pass it straight to NextResponse.json(body, { status }). */
+export type CancelOutcome = { status: number; body: Record<string, unknown> };
+
+export type CancelOptions = {
+  /** Venue closure reason: full refund / credit back whatever the policy, no waitlist offer */
+  closure?: string;
+  /** Signed-in admin doing the cancel (recorded on the credit ledger) */
+  admin?: string;
+};
+
+/**
+ * Cancel one slot of a booking (bookings or guest_bookings) with the refund rules:
+ *  - membership / free            → restore 1 credit, no refund
+ *  - guest or admin cash/offline  → offline refund record, amount decremented
+ *  - online (Cashfree) booking    → gateway refund for the slot price
+ * scaled by the cancellation policy band for the lead time (refund %, credit forfeiture),
+ * which is recorded on the Refund as `cancellationPolicy`. Refunds never exceed what the
+ * payment ledger shows as paid; split shares are rescaled to the reduced amount.
+ * The booking is deleted when its last slot goes. Gateway errors are thrown.
+ * A freed slot is offered to the next waitlisted player (`body.waitlist`) unless the
+ * cancel is for a venue closure.
+ */
+export async function cancelBookingSlot(
+  id: string,
+  sel: SlotSelector,
+  opts: CancelOptions = {}
+): Promise<CancelOutcome> {
+  const { freed, ...outcome } = await cancelSlot(id, sel, opts);
+  if (!freed || opts.closure) return outcome;
+
+  try {
+    const waitlist = await offerFreedSlot(freed.date, freed.slot);
+    if (waitlist) outcome.body.waitlist = waitlist;
+  } catch (e) {
+    // the cancel itself went through; the desk can still promote by hand
+    console.error("waitlist offer failed:", e);
+  }
+  return outcome;
+}
+
+/** Everything a slot cancel (or its preview) needs about the booking and the chosen slot */
+async function resolveSlot(id: string, sel: SlotSelector, opts: CancelOptions = {}) {
+  const slotIndex = Number.isInteger(sel.slotIndex) ? Number(sel.slotIndex) : -1;
+  const courtId = typeof sel.courtId === "number" ? sel.courtId : undefined;
+  const start = typeof sel.start === "string" ? sel.start : undefined;
+  const end = typeof sel.end === "string" ? sel.end : undefined;
+
+  if (slotIndex < 0 && (!courtId || !start || !end)) {
+    return { error: { status: 400, body: { error: "Provide slotIndex or (courtId, start, end)" } } as CancelOutcome };
+  }
+
+  const Booking = await BookingModel();
+  const GuestBooking = await GuestBookingModel();
+
+  const booking = await Booking.findById(id).lean<BookingLean | null>();
+  const guest = booking ? null : await GuestBooking.findById(id).lean<GuestLean | null>();
+  if (!booking && !guest) return { error: { status: 404, body: { error: "Booking not found" } } as CancelOutcome };
+
+  const doc = (booking ?? guest)!;
+  const isGuest = !!guest;
+
+  const slots: Slot[] = Array.isArray(doc.slots) ? (doc.slots as Slot[]) : [];
+  const totalSlots = slots.length;
+
+  const targetIdx = locateSlot(slots, { slotIndex, courtId, start, end });
+  if (targetIdx < 0) {
+    return { error: { status: 404, body: { error: "Slot not found in booking" } } as CancelOutcome };
+  }
+
+  const rawAmount = Number((doc as any).amount);
+  const amount = Number.isFinite(rawAmount) ? Math.max(0, rawAmount) : 0;
+  const currency = (doc as any).currency || "INR";
+  const orderId = String((doc as any).orderId || "");
+  const paymentRef = String(booking ? (booking as any).paymentRef : (guest as any)?.paymentRef || "");
+  const dateStr = (doc as { date?: string }).date || "—";
+  const who = deriveWho(isGuest, paymentRef);
+
+  const targetSlot = slots[targetIdx];
+  // Slots priced by the pricing rules carry their own price; older bookings split the amount evenly
+  const slotPrice = typeof targetSlot.price === "number" ? targetSlot.price : NaN;
+  const perSlotRefund =
+    amount > 0 && totalSlots > 0
+      ? slotPrice >= 0
+        ? Math.min(amount, slotPrice)
+        : Number((amount / totalSlots).toFixed(2))
+      : 0;
+
+  const isCredit = !isGuest && (amount <= 0 || paymentRef.toUpperCase() === "MEMBERSHIP" || !orderId);
+
+  // Cancellation policy band for this lead time (refund % / credit back)
+  const listTerms = opts.closure
+    ? waivedCancellation(`Venue closure: ${opts.closure}`, dateStr, targetSlot.start, perSlotRefund)
+    : await evaluateCancellation(who, dateStr, targetSlot.start, perSlotRefund);
+
+  // The bill drops by the policy refund; money goes back only out of what was actually paid
+  const billCut = listTerms.refundAmount;
+  const terms = isCredit
+    ? listTerms
+    : capRefund(listTerms, amount, await (await bookingPayments()).refundableAmount(id));
+
+  return {
+    ctx: {
+      doc, booking, guest, isGuest, totalSlots, amount, currency, orderId, paymentRef,
+      dateStr, who, targetSlot, perSlotRefund, isCredit, terms, billCut,
+    },
+  };
+}
+
+/**
+ * What cancelling this slot now would do under the cancellation policy, for the admin
+ * to see before confirming: refund amount / % or whether a membership credit comes back.
+ */
+export async function quoteSlotCancel(id: string, sel: SlotSelector): Promise<CancelOutcome> {
+  const r = await resolveSlot(id, sel);
+  if (r.error) return r.error;
+  const { terms, isCredit, currency } = r.ctx;
+  return {
+    status: 200,
+    body: { ok: true, kind: isCredit ? "membership_credit" : "refund", currency, ...terms },
+  };
+}
+
+async function cancelSlot(
+  id: string,
+  sel: SlotSelector,
+  opts: CancelOptions
+): Promise<CancelOutcome & { freed?: { date: string; slot: Slot } }> {
+  const r = await resolveSlot(id, sel, opts);
+  if (r.error) return r.error;
+  const {
+    doc, booking, guest, isGuest, totalSlots, amount, currency, orderId, paymentRef,
+    dateStr, who, targetSlot, perSlotRefund, isCredit, terms: policy, billCut,
+  } = r.ctx;
+
+  const Booking = await BookingModel();
+  const GuestBooking = await GuestBookingModel();
+  const Refund = await RefundModel();
+
+  // Membership / free (no gateway) → restore 1 credit (unless the policy forfeits it)
+  if (isCredit) {
+    const sig = `${targetSlot.courtId}_${targetSlot.start}_${targetSlot.end}`;
+    const exists = await Refund.findOne({
+      kind: "booking_slot",
+      bookingId: String((doc as { _id: string })._id),
+      "meta.slotSignature": sig,
+    }).lean();
+    if (!exists) {
+      const created = await Refund.create({
+        kind: "booking_slot",
+        bookingId: String((doc as { _id: string })._id),
+        userId: booking ? (booking as { userId?: string }).userId : undefined,
+        userEmail: booking ? (booking as { userEmail?: string }).userEmail : undefined,
+        userName: booking ? (booking as { userName?: string }).userName : undefined,
+        amount: 0,
+        currency,
+        reason: policy.restoreCredit
+          ? "Membership slot cancel"
+          : `Membership slot cancel (credit forfeited: ${policy.policyName}, ${policy.tier} band)`,
+        refundStatus: "NO_REFUND_REQUIRED",
+        status: "NO_REFUND_REQUIRED",
+        statusDescription: "Membership/free booking slot cancellation",
+        orderId: orderId || undefined,
+        gateway: "NONE",
+        membershipCreditRestored: false,
+        cancellationPolicy: policy,
+        meta: {
+          date: (doc as { date?: string }).date,
+          slot: targetSlot,
+          slotSignature: sig,
+          paymentRef,
+          totalSlotsBefore: totalSlots,
+        },
+      });
+
+      // Restore 1 credit
+      const ok =
+        policy.restoreCredit &&
+        (await restoreOneCreditAtomicByEmailOrUsername(
+          booking ? (booking as { userEmail?: string }).userEmail : undefined,
+          booking ? (booking as { userId?: string }).userId : undefined,
+          {
+            reason: "cancel",
+            orderId: orderId || undefined,
+            bookingId: String((doc as { _id: string })._id),
+            date: dateStr,
+            slots: [{ courtId: targetSlot.courtId, start: targetSlot.start, end: targetSlot.end }],
+            admin: opts.admin,
+            note: opts.closure ? `Venue closure: ${opts.closure}` : undefined,
+          }
+        ));
+      if (ok) {
+        await Refund.updateOne({ _id: created._id }, { $set: { membershipCreditRestored: true } });
+      }
+    }
+
+    // Pull the slot (and delete booking if none left)
+    await Booking.updateOne(
+      { _id: (doc as { _id: string })._id },
+      { $pull: { slots: { courtId: targetSlot.courtId, start: targetSlot.start, end: targetSlot.end } } }
+    );
+    const after = await Booking.findById(id).select({ slots: 1 }).lean<{ slots?: Slot[] } | null>();
+    const noSlotsLeft = !after || !Array.isArray(after.slots) || after.slots.length === 0;
+    if (noSlotsLeft) {
+      await Booking.findByIdAndDelete(id);
+      await voidOfferRedemptions([id]);
+    }
+    await releaseSlots(orderId, [targetSlot], dateStr);
+
+    // Sheets append (single slot cancel)
+    try {
+      const row: CancelRowIn = {
+        date: dateStr,
+        courtId: targetSlot.courtId ?? null,
+        start: targetSlot.start || "—",
+        end: targetSlot.end || "—",
+        userName: (booking as any)?.userName || "—",
+        who,
+        bookingType: "Normal",
+        paymentRef: paymentRef || "—",
+        amount: null, // free/membership
+        currency,
+        refundStatus: "NO_REFUND_REQUIRED",
+        note: policy.restoreCredit
+          ? "Single slot cancel (membership/free)"
+          : `Single slot cancel (membership/free, credit forfeited – ${policy.policyName}, ${policy.tier} band, ${policy.hoursBefore}h before)`,
+      };
+      await appendCancellations([row]);
+    } catch (e) {
+      console.error("Sheets append (single slot / membership) failed:", e);
+    }
+
+    return {
+      status: 200,
+      body: {
+        ok: true,
+        action: "slot_cancelled",
+        refundStatus: "NO_REFUND_REQUIRED",
+        creditRestored: policy.restoreCredit,
+        policy,
+      },
+      freed: { date: dateStr, slot: targetSlot },
+    };
+  }
+
+  // Guest or Admin CASH (non-gateway)
+  if (isNonGatewayBooking(doc)) {
+    await Refund.create({
+      kind: "booking_slot",
+      bookingId: String((doc as { _id: string })._id),
+      userName: booking ? (booking as { userName?: string }).userName : (guest as { userName: string }).userName,
+      userId: booking ? (booking as { userId?: string }).userId : undefined,
+      userEmail: booking ? (booking as { userEmail?: string }).userEmail : undefined,
+      amount: policy.refundAmount,
+      currency,
+      reason: isGuest ? "Guest booking slot cancel (offline refund)" : "Admin CASH slot cancel",
+      refundStatus: "NO_REFUND_REQUIRED",
+      status: "NO_REFUND_REQUIRED",
+      statusDescription: "No payment gateway refund required",
+      orderId,
+      gateway: "NONE",
+      membershipCreditRestored: false,
+      cancellationPolicy: policy,
+      meta: {
+        isGuest,
+        date: (doc as { date?: string }).date,
+        slot: targetSlot,
+        totalSlotsBefore: totalSlots,
+      },
+    });
+
+    // Pull / decrement / delete if empty
+    if (isGuest) {
+      await GuestBooking.updateOne(
+        { _id: (doc as { _id: string })._id },
+        {
+          $pull: { slots: { courtId: targetSlot.courtId, start: targetSlot.start, end: targetSlot.end } },
+          // a retained cancellation fee stays on the booking
+          ...(amount > 0 && totalSlots > 0 && billCut > 0 ? { $inc: { amount: -billCut } } : {}),
+        }
+      );
+      const after = await GuestBooking.findById(id).select({ slots: 1 }).lean<{ slots?: Slot[] } | null>();
+      const noSlotsLeft = !after || !Array.isArray(after.slots) || after.slots.length === 0;
+      if (noSlotsLeft) {
+        await GuestBooking.findByIdAndDelete(id);
+        await voidOfferRedemptions([id]);
+      } else {
+        await (await bookingPayments()).rescaleParticipantShares(id);
+      }
+    } else {
+      await Booking.updateOne(
+        { _id: (doc as { _id: string })._id },
+        {
+          $pull: { slots: { courtId: targetSlot.courtId, start: targetSlot.start, end: targetSlot.end } },
+          // a retained cancellation fee stays on the booking
+          ...(amount > 0 && totalSlots > 0 && billCut > 0 ? { $inc: { amount: -billCut } } : {}),
+        }
+      );
+      const after = await Booking.findById(id).select({ slots: 1 }).lean<{ slots?: Slot[] } | null>();
+      const noSlotsLeft = !after || !Array.isArray(after.slots) || after.slots.length === 0;
+      if (noSlotsLeft) {
+        await Booking.findByIdAndDelete(id);
+        await voidOfferRedemptions([id]);
+      } else {
+        await (await bookingPayments()).rescaleParticipantShares(id);
+      }
+    }
+    await releaseSlots(orderId, [targetSlot], dateStr);
+
+    // Sheets append (single slot cancel)
+    try {
+      const row: CancelRowIn = {
+        date: dateStr,
+        courtId: targetSlot.courtId ?? null,
+        start: targetSlot.start || "—",
+        end: targetSlot.end || "—",
+        userName: isGuest ? (guest as any)?.userName || "Guest" : (booking as any)?.userName || "—",
+        // include phone for guest if available
+        ...(isGuest && (guest as any)?.phone_number ? { phone: String((guest as any).phone_number) } : {}),
+        who,
+        bookingType: "Normal",
+        paymentRef: paymentRef || "—",
+        amount: policy.refundAmount || null,
+        currency,
+        refundStatus: "NO_REFUND_REQUIRED",
+        note: `Single slot cancel (offline/admin cash, ${policy.refundPercent}% refund)`,
+      };
+      await appendCancellations([row]);
+    } catch (e) {
+      console.error("Sheets append (single slot / offline) failed:", e);
+    }
+
+    return {
+      status: 200,
+      body: {
+        ok: true,
+        action: "slot_cancelled",
+        refunded: policy.refundAmount,
+        currency,
+        refundStatus: "NO_REFUND_REQUIRED",
+        policy,
+      },
+      freed: { date: dateStr, slot: targetSlot },
+    };
+  }
+
+  // Customer online booking → Cashfree (per-slot refund, scaled by the policy band)
+  if (perSlotRefund <= 0) {
+    return { status: 400, body: { error: "Calculated refund amount is zero or invalid" } };
+  }
+
+  // Inside a 0% band nothing goes to the gateway; the slot is still released
+  const refundAmount = policy.refundAmount;
+  let cf: Awaited<ReturnType<typeof createCashfreeRefund>> | null = null;
+  if (refundAmount > 0) {
+    cf = await createCashfreeRefund({
+      orderId,
+      amount: refundAmount,
+      note: `Admin cancel booking slot for booking ${id}`,
+    });
+
+    // If not success, do quick poll
+    let finalStatus = (cf.refundStatus || "").toUpperCase();
+    if (finalStatus !== "SUCCESS") {
+      const delays = [500, 900, 1300];
+      for (const d of delays) {
+        await sleep(d);
+        const s = await fetchCashfreeRefundStatus(orderId, cf.refundId);
+        finalStatus = (s || "PENDING").toUpperCase();
+        if (finalStatus === "SUCCESS") break;
+      }
+    }
+
+    if (finalStatus !== "SUCCESS") {
+      return { status: 409, body: { error: "Refund not successful yet", status: finalStatus } };
+    }
+  }
+  const refundStatus = cf ? "SUCCESS" : "NO_REFUND_REQUIRED";
+
+  await Refund.create({
+    kind: "booking_slot",
+    bookingId: String((doc as { _id: string })._id),
+    userId: booking ? (booking as { userId?: string }).userId : undefined,
+    userEmail: booking ? (booking as { userEmail?: string }).userEmail : undefined,
+    userName: booking ? (booking as { userName?: string }).userName : undefined,
+    amount: refundAmount,
+    currency,
+    reason: cf ? "Admin cancel slot" : "Admin cancel slot (no refund under cancellation policy)",
+    refundId: cf?.refundId,
+    cfRefundId: cf?.cfRefundId || undefined,
+    cfPaymentId: cf?.cfPaymentId || undefined,
+    orderId,
+    refundStatus,
+    status: refundStatus,
+    statusDescription: cf ? cf.statusDescription : `${policy.refundPercent}% refund at ${policy.hoursBefore}h before play`,
+    gateway: cf ? "CASHFREE" : "NONE",
+    membershipCreditRestored: false,
+    cancellationPolicy: policy,
+    meta: {
+      date: (doc as { date?: string }).date,
+      slot: targetSlot,
+      totalSlotsBefore: totalSlots,
+    },
+  });
+
+  // Pull the slot and decrement amount; delete if empty
+  await Booking.updateOne(
+    { _id: (doc as { _id: string })._id },
+    {
+      $pull: { slots: { courtId: targetSlot.courtId, start: targetSlot.start, end: targetSlot.end } },
+      $inc: { amount: -billCut },
+    }
+  );
+  const after = await Booking.findById(id).select({ slots: 1 }).lean<{ slots?: Slot[] } | null>();
+  const noSlotsLeft = !after || !Array.isArray(after.slots) || after.slots.length === 0;
+  if (noSlotsLeft) {
+    await Booking.findByIdAndDelete(id);
+    await voidOfferRedemptions([id]);
+  } else {
+    await (await bookingPayments()).rescaleParticipantShares(id);
+  }
+  await releaseSlots(orderId, [targetSlot], dateStr);
+
+  // Sheets append (single slot cancel, gateway refund success)
+  try {
+    const row: CancelRowIn = {
+      date: dateStr,
+      courtId: targetSlot.courtId ?? null,
+      start: targetSlot.start || "—",
+      end: targetSlot.end || "—",
+      userName: (booking as any)?.userName || "—",
+      who,
+      bookingType: "Normal",
+      paymentRef: paymentRef || "—",
+      amount: refundAmount || null,
+      currency,
+      refundStatus,
+      note: `Single slot cancel (gateway refund, ${policy.refundPercent}%)`,
+    };
+    await appendCancellations([row]);
+  } catch (e) {
+    console.error("Sheets append (single slot / cashfree) failed:", e);
+  }
+
+  return {
+    status: 200,
+    body: {
+      ok: true,
+      action: "slot_cancelled",
+      refunded: refundAmount,
+      currency,
+      refundStatus,
+      policy,
+    },
+    freed: { date: dateStr, slot: targetSlot },
+  };
+}
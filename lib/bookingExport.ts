@@ -0,0 +1,214 @@
+// lib/bookingExport.ts
+import ExcelJS from "exceljs";
+import { listBookings, type UnifiedBooking, type PaymentState } from "@/lib/bookingService";
+import { paymentSummaries } from "@/lib/bookingPayments";
+import { bookingCode } from "@/lib/attendance";
+import { renderTablePdf, type PdfColumn } from "@/lib/pdfSheet";
+
+export type ExportFormat = "xlsx" | "csv" | "pdf";
+export const EXPORT_FORMATS: ExportFormat[] = ["xlsx", "csv", "pdf"];
+
+/** Same filters as the bookings page, plus a date range and who / payment narrowing. */
+export type ExportFilters = {
+  q?: string;
+  date?: string;     // exact YYYY-MM-DD (wins over from/to)
+  from?: string;
+  to?: string;
+  courtId?: number;
+  who?: UnifiedBooking["who"];
+  payment?: PaymentState;
+};
+
+/** One booked slot per row */
+export type ExportRow = {
+  code: string;
+  date: string;
+  start: string;
+  end: string;
+  courtId: number | "";
+  userName: string;
+  userEmail: string;
+  phone: string;
+  who: string;
+  bookingType: string;
+  amount: number;
+  currency: string;
+  paymentState: PaymentState;
+  paymentMethod: string;
+  paid: number;
+  due: number;
+  paymentRef: string;
+  source: string;
+};
+
+const COLUMNS: { header: string; key: keyof ExportRow; width: number }[] = [
+  { header: "Code", key: "code", width: 11 },
+  { header: "Date", key: "date", width: 12 },
+  { header: "Start", key: "start", width: 8 },
+  { header: "End", key: "end", width: 8 },
+  { header: "Court ID", key: "courtId", width: 9 },
+  { header: "User Name", key: "userName", width: 26 },
+  { header: "User Email", key: "userEmail", width: 30 },
+  { header: "Phone", key: "phone", width: 16 },
+  { header: "Who", key: "who", width: 10 },
+  { header: "Type", key: "bookingType", width: 11 },
+  { header: "Amount", key: "amount", width: 10 },
+  { header: "Currency", key: "currency", width: 9 },
+  { header: "Paid?", key: "paymentState", width: 12 },
+  { header: "Method", key: "paymentMethod", width: 12 },
+  { header: "Paid", key: "paid", width: 10 },
+  { header: "Due", key: "due", width: 10 },
+  { header: "Payment Ref", key: "paymentRef", width: 22 },
+  { header: "Source", key: "source", width: 15 },
+];
+
+const isYmd = (s?: string) => !!s && /^\d{4}-\d{2}-\d{2}$/.test(s);
+
+/** Read export filters from a query string; returns an error message for bad input. */
+export function parseExportFilters(sp: URLSearchParams): { filters: ExportFilters; error?: string } {
+  const get = (k: string) => (sp.get(k) || "").trim();
+  const filters: ExportFilters = {};
+
+  if (get("q")) filters.q = get("q");
+  for (const k of ["date", "from", "to"] as const) {
+    const v = get(k);
+    if (!v) continue;
+    if (!isYmd(v)) return { filters, error: `${k} must be YYYY-MM-DD` };
+    filters[k] = v;
+  }
+  if (filters.from && filters.to && filters.from > filters.to) {
+    return { filters, error: "from must be on or before to" };
+  }
+
+  const court = get("courtId");
+  if (court) {
+    if (Number.isNaN(Number(court))) return { filters, error: "courtId must be a number" };
+    filters.courtId = Number(court);
+  }
+
+  const who = get("who");
+  if (who) {
+    if (!["member", "user", "guest"].includes(who)) return { filters, error: "who must be member, user or guest" };
+    filters.who = who as ExportFilters["who"];
+  }
+
+  const payment = get("payment");
+  if (payment) {
+    if (!["membership", "paid", "unpaid"].includes(payment)) {
+      return { filters, error: "payment must be membership, paid or unpaid" };
+    }
+    filters.payment = payment as PaymentState;
+  }
+
+  return { filters };
+}
+
+/** "PAID.CASH" → CASH, MEMBERSHIP stays, other gateway refs are online payments. */
+function paymentMethodOf(ref?: string): string {
+  const r = String(ref || "").toUpperCase().trim();
+  if (!r) return "";
+  if (r.startsWith("PAID.")) return r.slice(5);
+  if (r.startsWith("UNPAID.")) return r.slice(7);
+  if (r === "MEMBERSHIP") return "MEMBERSHIP";
+  return "ONLINE";
+}
+
+/** Booked slots for the filters, by date then start time then court. */
+export async function exportRows(f: ExportFilters): Promise<ExportRow[]> {
+  const bookings = (await listBookings({ q: f.q, date: f.date, from: f.from, to: f.to })).filter(
+    (b) => (!f.who || b.who === f.who) && (!f.payment || b.paymentState === f.payment)
+  );
+  const payments = await paymentSummaries(bookings);
+
+  const rows: ExportRow[] = [];
+  for (const b of bookings) {
+    const pay = payments.get(b.id);
+    const base = {
+      code: bookingCode(b.id),
+      date: b.date,
+      userName: b.userName,
+      userEmail: b.userEmail || "",
+      phone: b.phone || "",
+      who: b.who,
+      bookingType: b.bookingType,
+      amount: b.amount,
+      currency: b.currency,
+      paymentState: b.paymentState,
+      paymentMethod: paymentMethodOf(b.paymentRef),
+      paid: pay?.paid ?? 0,
+      due: pay?.due ?? 0,
+      paymentRef: b.paymentRef || "",
+      source: b.source,
+    };
+
+    const slots = b.slots.length ? b.slots : [null];
+    for (const s of slots) {
+      if (f.courtId != null && s?.courtId !== f.courtId) continue;
+      rows.push({ ...base, courtId: s?.courtId ?? "", start: s?.start || "", end: s?.end || "" });
+    }
+  }
+
+  return rows.sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) ||
+      a.start.localeCompare(b.start) ||
+      Number(a.courtId || 0) - Number(b.courtId || 0)
+  );
+}
+
+export async function toXlsx(rows: ExportRow[]): Promise<ArrayBuffer> {
+  const wb = new ExcelJS.Workbook();
+  const sheet = wb.addWorksheet("Bookings");
+  sheet.columns = COLUMNS.map((c) => ({ header: c.header, key: c.key, width: c.width }));
+  for (const r of rows) sheet.addRow(r);
+  sheet.getRow(1).font = { bold: true };
+  return (await wb.xlsx.writeBuffer()) as ArrayBuffer;
+}
+
+function csvCell(v: unknown): string {
+  const s = v == null ? "" : String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCsv(rows: ExportRow[]): string {
+  const lines = [COLUMNS.map((c) => csvCell(c.header)).join(",")];
+  for (const r of rows) lines.push(COLUMNS.map((c) => csvCell(r[c.key])).join(","));
+  // BOM so Excel opens UTF-8 names correctly
+  return `\uFEFF${lines.join("\r\n")}\r\n`;
+}
+
+const SHEET_COLUMNS: (PdfColumn & { cell: (r: ExportRow) => string })[] = [
+  { header: "Time", width: 70, cell: (r) => (r.start ? `${r.start}-${r.end}` : "") },
+  { header: "Court", width: 40, cell: (r) => String(r.courtId) },
+  { header: "Name", width: 150, cell: (r) => r.userName },
+  { header: "Phone", width: 90, cell: (r) => r.phone },
+  { header: "Who", width: 50, cell: (r) => r.who },
+  { header: "Type", width: 60, cell: (r) => r.bookingType },
+  { header: "Code", width: 60, cell: (r) => r.code },
+  { header: "Payment", width: 90, cell: (r) => [r.paymentState, r.paymentMethod].filter(Boolean).join(" ") },
+  { header: "Due", width: 60, cell: (r) => (r.due > 0 ? `${r.currency} ${r.due}` : "") },
+  { header: "Arrived", width: 58, cell: () => "[   ]" },
+];
+
+/** Printable front-desk sheet: one section per date with a tick column for arrivals. */
+export function toDaySheetPdf(rows: ExportRow[], f: ExportFilters): Buffer {
+  const range = f.date || (f.from || f.to ? `${f.from || "start"} to ${f.to || "end"}` : "all dates");
+  const table: string[][] = [];
+  let lastDate = "";
+  for (const r of rows) {
+    if (r.date !== lastDate) {
+      if (lastDate) table.push([]);
+      table.push([r.date]);
+      lastDate = r.date;
+    }
+    table.push(SHEET_COLUMNS.map((c) => c.cell(r)));
+  }
+  if (!table.length) table.push(["No bookings."]);
+  return renderTablePdf(`Court bookings - ${range} (${rows.length} slots)`, SHEET_COLUMNS, table);
+}
+
+/** File name for a download, e.g. bookings_2025-01-01_2025-01-31.csv */
+export function exportFileName(f: ExportFilters, format: ExportFormat): string {
+  const span = f.date || [f.from, f.to].filter(Boolean).join("_");
+  return `bookings${span ? `_${span}` : ""}.${format}`;
+}
@@ -0,0 +1,258 @@
+// lib/bookingMove.ts
+import { BookingModel } from "@/models/Booking";
+import { GuestBookingModel } from "@/models/GuestBooking";
+import { RefundModel } from "@/models/Refund";
+import { updateBookingSlotById } from "@/lib/googleSheets";
+import { findSlotConflicts, reserveSlots, releaseSlots, describeSlots } from "@/lib/slotReservations";
+import { findUnbookableSlots } from "@/lib/courts";
+import { quoteSlots, type PricingMode } from "@/lib/pricing";
+import { createCashfreeRefund, fetchCashfreeRefundStatus, sleep } from "@/lib/cashfree";
+import { offerFreedSlot } from "@/lib/waitlist";
+import { isNonGatewayBooking, locateSlot, type CancelOutcome, type SlotSelector } from "@/lib/bookingCancel";
+import { refundableAmount, rescaleParticipantShares } from "@/lib/bookingPayments";
+import { moveOfferRedemption } from "@/lib/offerRedemptions";
+
+type Slot = { courtId: number; start: string; end: string; price?: number };
+type MoveLean = {
+  _id: string;
+  orderId?: string;
+  userId?: string;
+  userEmail?: string;
+  userName?: string;
+  date: string;
+  slots?: Slot[];
+  amount?: number;
+  currency?: string;
+  paymentRef?: string;
+  bookingType?: "Normal" | "Individual" | "Special";
+  pricingMode?: PricingMode;
+};
+
+function isHHmm(v: unknown) {
+  return typeof v === "string" && /^\d{2}:\d{2}$/.test(v);
+}
+
+/**
+ * Move one slot of a booking to another court/time on the same date, keeping the orderId.
+ * The new slot is re-priced with the current rules for the booking's pricing mode and the
+ * difference settled:
+ *  - membership / free / offer bookings, or no known mode → stored price kept, no money moves
+ *  - cheaper target  → amount goes down; only money already paid beyond the new amount is
+ *                      refunded (Cashfree for online orders, offline record otherwise)
+ *  - dearer target   → amount goes up and `due` is returned for the desk to collect
+ * The booking is rewritten before any refund, and put back if the gateway refund fails.
+ * An offer redemption follows the slot; the freed slot is offered to the waitlist like a
+ * cancel would.
+ */
+export async function moveBookingSlot(
+  id: string,
+  sel: SlotSelector,
+  target: { courtId?: number; start?: string; end?: string },
+  opts: { pricingMode?: PricingMode } = {}
+): Promise<CancelOutcome> {
+  const to = { courtId: Number(target.courtId), start: String(target.start || ""), end: String(target.end || "") };
+  if (!Number.isFinite(to.courtId) || !isHHmm(to.start) || !isHHmm(to.end)) {
+    return { status: 400, body: { error: "Provide target { courtId, start, end }" } };
+  }
+
+  const Booking = await BookingModel();
+  const GuestBooking = await GuestBookingModel();
+
+  const booking = await Booking.findById(id).lean<MoveLean | null>();
+  const guest = booking ? null : await GuestBooking.findById(id).lean<MoveLean | null>();
+  if (!booking && !guest) return { status: 404, body: { error: "Booking not found" } };
+
+  const doc = (booking ?? guest)!;
+  const Model = (booking ? Booking : GuestBooking) as typeof Booking;
+  const slots: Slot[] = Array.isArray(doc.slots) ? doc.slots : [];
+  const idx = locateSlot(slots, sel);
+  if (idx < 0) return { status: 404, body: { error: "Slot not found in booking" } };
+
+  const from = slots[idx];
+  if (from.courtId === to.courtId && from.start === to.start) {
+    return { status: 400, body: { error: "Target slot is the same as the current slot" } };
+  }
+
+  const date = doc.date;
+  const unbookable = await findUnbookableSlots(date, [to]);
+  if (unbookable.length) return { status: 400, body: { error: `Not bookable: ${describeSlots(unbookable)}` } };
+
+  const orderId = String(doc.orderId || "");
+  if (orderId) {
+    const reserved = await reserveSlots(date, [to], orderId);
+    if (!reserved.ok) {
+      return {
+        status: 409,
+        body: { error: `Already booked: ${describeSlots(reserved.conflicts)}`, conflicts: reserved.conflicts },
+      };
+    }
+  } else {
+    // legacy rows without an orderId can't hold a reservation; fall back to a plain clash check
+    const conflicts = await findSlotConflicts(date, [to]);
+    if (conflicts.length) {
+      return { status: 409, body: { error: `Already booked: ${describeSlots(conflicts)}`, conflicts } };
+    }
+  }
+
+  // ── price difference ──
+  const amount = Math.max(0, Number(doc.amount) || 0);
+  const paymentRef = String(doc.paymentRef || "").toUpperCase();
+  // Bookings from before the mode was stored: Normal ones were court-priced, Individual ones
+  // could be either player rate, so those keep what they were sold at
+  const pricingMode = opts.pricingMode ?? doc.pricingMode ?? (doc.bookingType === "Individual" ? undefined : "court");
+  const fixedPrice =
+    amount <= 0 || paymentRef === "MEMBERSHIP" || doc.bookingType === "Special" || !pricingMode;
+  const oldPrice =
+    typeof from.price === "number" ? from.price : slots.length ? Math.round(amount / slots.length) : 0;
+
+  let newPrice = oldPrice;
+  if (!fixedPrice) {
+    const quote = await quoteSlots(date, [to], pricingMode);
+    newPrice = quote.slots[0]?.price ?? oldPrice;
+  }
+  const delta = newPrice - oldPrice;
+  const currency = doc.currency || "INR";
+
+  // ── rewrite the slot in place ──
+  // only court/time (and price) change; attendance and other per-slot fields stay.
+  // Done before any money moves, so a booking changed meanwhile refunds nothing.
+  const amountDelta = fixedPrice ? 0 : delta < 0 ? -Math.min(amount, -delta) : delta;
+  const paid = amountDelta < 0 ? await refundableAmount(id) : 0; // read while the bill is still the old one
+  const withPrice = typeof from.price === "number" || !fixedPrice;
+  const moved: Slot = { ...to, ...(withPrice ? { price: newPrice } : {}) };
+  const updated = await Model.updateOne(
+    { _id: doc._id, slots: { $elemMatch: { courtId: from.courtId, start: from.start, end: from.end } } },
+    {
+      $set: {
+        "slots.$.courtId": to.courtId,
+        "slots.$.start": to.start,
+        "slots.$.end": to.end,
+        ...(withPrice ? { "slots.$.price": newPrice } : {}),
+      },
+      ...(amountDelta ? { $inc: { amount: amountDelta } } : {}),
+    }
+  ).catch(async (e) => {
+    await releaseSlots(orderId, [to], date);
+    throw e;
+  });
+  if (!updated.matchedCount) {
+    await releaseSlots(orderId, [to], date);
+    return { status: 409, body: { error: "Booking changed meanwhile; try again" } };
+  }
+
+  // put the slot (and amount) back when the refund can't be made
+  async function undoMove() {
+    await Model.updateOne(
+      { _id: doc._id, slots: { $elemMatch: { courtId: to.courtId, start: to.start, end: to.end } } },
+      {
+        $set: {
+          "slots.$.courtId": from.courtId,
+          "slots.$.start": from.start,
+          "slots.$.end": from.end,
+          ...(withPrice ? { "slots.$.price": oldPrice } : {}),
+        },
+        ...(amountDelta ? { $inc: { amount: -amountDelta } } : {}),
+      }
+    );
+    await releaseSlots(orderId, [to], date);
+  }
+
+  // ── settle a cheaper move ──
+  // the bill dropped by the difference, but only money held beyond the new amount goes back
+  const refundAmount = amountDelta < 0 ? Math.min(-amountDelta, Math.max(0, paid - (amount + amountDelta))) : 0;
+  let refundStatus: string | undefined;
+  if (refundAmount > 0) {
+    const Refund = await RefundModel();
+    const base = {
+      kind: "booking_slot" as const,
+      bookingId: String(doc._id),
+      userId: doc.userId,
+      userEmail: doc.userEmail,
+      userName: doc.userName,
+      amount: refundAmount,
+      currency,
+      orderId: orderId || undefined,
+      membershipCreditRestored: false,
+      meta: { date, move: { from, to }, oldPrice, newPrice },
+    };
+
+    if (isNonGatewayBooking(doc) || !!guest) {
+      await Refund.create({
+        ...base,
+        reason: "Slot move price difference (offline refund)",
+        refundStatus: "NO_REFUND_REQUIRED",
+        status: "NO_REFUND_REQUIRED",
+        statusDescription: "No payment gateway refund required",
+        gateway: "NONE",
+      });
+      refundStatus = "NO_REFUND_REQUIRED";
+    } else {
+      let cf;
+      try {
+        cf = await createCashfreeRefund({ orderId, amount: refundAmount, note: `Slot move for booking ${id}` });
+      } catch (e) {
+        await undoMove();
+        throw e;
+      }
+      let finalStatus = (cf.refundStatus || "").toUpperCase();
+      if (finalStatus !== "SUCCESS") {
+        for (const d of [500, 900, 1300]) {
+          await sleep(d);
+          finalStatus = ((await fetchCashfreeRefundStatus(orderId, cf.refundId)) || "PENDING").toUpperCase();
+          if (finalStatus === "SUCCESS") break;
+        }
+      }
+      await Refund.create({
+        ...base,
+        reason: "Slot move price difference",
+        refundId: cf.refundId,
+        cfRefundId: cf.cfRefundId || undefined,
+        cfPaymentId: cf.cfPaymentId || undefined,
+        refundStatus: finalStatus === "SUCCESS" ? "SUCCESS" : "PENDING",
+        status: finalStatus === "SUCCESS" ? "SUCCESS" : "PENDING",
+        statusDescription: cf.statusDescription,
+        gateway: "CASHFREE",
+      });
+      refundStatus = finalStatus;
+    }
+  }
+
+  await releaseSlots(orderId, [from], date);
+  if (amountDelta) await rescaleParticipantShares(id);
+  try {
+    await moveOfferRedemption(String(doc._id), date, from, to, amountDelta);
+  } catch (e) {
+    console.error("Offer redemption move failed:", e);
+  }
+
+  // Sheets: same row, new court/time/amount
+  try {
+    await updateBookingSlotById(
+      orderId,
+      { courtId: from.courtId, start: from.start },
+      { ...to, amount: newPrice }
+    );
+  } catch (e) {
+    console.error("Sheets update (slot move) failed:", e);
+  }
+
+  const body: Record<string, unknown> = {
+    ok: true,
+    action: "slot_moved",
+    from,
+    to: moved,
+    priceDelta: fixedPrice ? 0 : delta,
+    currency,
+    ...(delta > 0 && !fixedPrice ? { due: delta } : {}),
+    ...(refundAmount > 0 ? { refunded: refundAmount, refundStatus } : {}),
+  };
+
+  try {
+    const waitlist = await offerFreedSlot(date, from);
+    if (waitlist) body.waitlist = waitlist;
+  } catch (e) {
+    console.error("waitlist offer failed:", e);
+  }
+
+  return { status: 200, body };
+}
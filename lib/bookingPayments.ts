@@ -0,0 +1,314 @@
+// lib/bookingPayments.ts
+import { BookingPaymentModel, type BookingPaymentDoc, type PaymentMethod } from "@/models/BookingPayment";
+import { RefundModel } from "@/models/Refund";
+import {
+  findBooking,
+  bookingModelFor,
+  toPaidRef,
+  type BookingParticipant,
+  type UnifiedBooking,
+  type ServiceOutcome,
+} from "@/lib/bookingService";
+import { updateBookingPaymentById } from "@/lib/googleSheets";
+
+export const PAYMENT_METHODS: PaymentMethod[] = ["CASH", "UPI", "CARD", "BANK", "ONLINE", "OTHER"];
+export const MAX_PARTICIPANTS = 12;
+
+export type PaymentSummary = { paid: number; due: number; entries: number };
+
+export type PaymentInput = {
+  participantId?: string; // required for split bookings: whose share this pays
+  amount?: number;        // defaults to the full balance (or share) due
+  method?: PaymentMethod; // defaults to CASH
+  reference?: string;
+  note?: string;
+};
+
+export type BookingPaymentInfo = {
+  id: string;
+  participantId?: string;
+  amount: number;
+  currency: string;
+  method: PaymentMethod;
+  reference?: string;
+  note?: string;
+  paidAt: Date;
+  recordedBy?: string;
+};
+
+type PaymentLean = Pick<BookingPaymentDoc, "bookingId" | "participantId" | "amount" | "currency" | "method" | "reference" | "note" | "paidAt" | "recordedBy"> & {
+  _id: unknown;
+};
+
+/**
+ * Paid / due for one booking. Bookings with ledger entries use their sum; bookings from
+ * before the ledger (or paid online / by membership) count as fully paid unless still pending.
+ */
+export function summarizePayments(b: UnifiedBooking, ledgerTotal: number, entries: number): PaymentSummary {
+  if (b.paymentState === "membership") return { paid: 0, due: 0, entries };
+  const paid = entries > 0 ? ledgerTotal : b.paymentState === "paid" ? b.amount : 0;
+  return { paid, due: Math.max(0, b.amount - paid), entries };
+}
+
+/** One player's share of a split booking with what they have paid so far */
+export type ParticipantShare = BookingParticipant & { paid: number; due: number; settled: boolean };
+
+export type ParticipantInput = { id?: string; name?: string; phone?: string; share?: number };
+
+/** Paid / due per booking id, one query for the whole list. */
+export async function paymentSummaries(bookings: UnifiedBooking[]): Promise<Map<string, PaymentSummary>> {
+  const out = new Map<string, PaymentSummary>();
+  if (!bookings.length) return out;
+
+  const BookingPayment = await BookingPaymentModel();
+  const totals = await BookingPayment.aggregate<{ _id: string; total: number; entries: number }>([
+    { $match: { bookingId: { $in: bookings.map((b) => b.id) } } },
+    { $group: { _id: "$bookingId", total: { $sum: "$amount" }, entries: { $sum: 1 } } },
+  ]);
+  const byId = new Map(totals.map((t) => [t._id, t]));
+
+  for (const b of bookings) {
+    const t = byId.get(b.id);
+    out.set(b.id, summarizePayments(b, t?.total ?? 0, t?.entries ?? 0));
+  }
+  return out;
+}
+
+/** A booking's ledger (oldest first) with its paid / due totals and, when split, each share. */
+export async function listBookingPayments(id: string) {
+  const booking = await findBooking(id);
+  if (!booking) return null;
+
+  const BookingPayment = await BookingPaymentModel();
+  const docs = await BookingPayment.find({ bookingId: id }).sort({ paidAt: 1 }).lean<PaymentLean[]>();
+  const items: BookingPaymentInfo[] = docs.map((d) => ({
+    id: String(d._id),
+    participantId: d.participantId,
+    amount: d.amount,
+    currency: d.currency,
+    method: d.method,
+    reference: d.reference,
+    note: d.note,
+    paidAt: d.paidAt,
+    recordedBy: d.recordedBy,
+  }));
+  const total = items.reduce((sum, p) => sum + p.amount, 0);
+
+  const shares: ParticipantShare[] = booking.participants.map((p) => {
+    const paid = items.filter((i) => i.participantId === p.id).reduce((sum, i) => sum + i.amount, 0);
+    const due = Math.max(0, p.share - paid);
+    return { ...p, paid, due, settled: due <= 0 };
+  });
+
+  return { booking, items, shares, ...summarizePayments(booking, total, items.length) };
+}
+
+/**
+ * Money the club still holds for a booking and could hand back: what was collected (see
+ * summarizePayments) less refunds already recorded against ledger payments. Without ledger
+ * entries the amount is already net of earlier refunds (they decrement it).
+ */
+export async function refundableAmount(id: string): Promise<number> {
+  const ledger = await listBookingPayments(id);
+  if (!ledger) return 0;
+  if (!ledger.entries) return ledger.paid;
+
+  const Refund = await RefundModel();
+  const [refunded] = await Refund.aggregate<{ total: number }>([
+    { $match: { bookingId: id, status: { $ne: "FAILED" } } },
+    { $group: { _id: null, total: { $sum: "$amount" } } },
+  ]);
+  return Math.max(0, ledger.paid - (refunded?.total ?? 0));
+}
+
+/**
+ * After a split booking's amount changed (slot cancelled or moved), scale the shares so
+ * they add up to it again; the rounding difference goes to the largest share.
+ */
+export async function rescaleParticipantShares(id: string): Promise<void> {
+  const booking = await findBooking(id);
+  if (!booking || !booking.participants.length) return;
+
+  const total = booking.participants.reduce((sum, p) => sum + p.share, 0);
+  if (total === booking.amount) return;
+
+  const next = booking.participants.map((p) => ({
+    ...p,
+    share: total > 0
+      ? Math.round((p.share * booking.amount) / total)
+      : Math.floor(booking.amount / booking.participants.length),
+  }));
+  const largest = next.reduce((a, b) => (b.share > a.share ? b : a));
+  largest.share += booking.amount - next.reduce((sum, p) => sum + p.share, 0);
+
+  const Model = await bookingModelFor(booking.source);
+  await Model.updateOne(
+    { _id: booking.id },
+    { $set: { participants: next.map((p) => ({ _id: p.id, name: p.name, phone: p.phone, share: Math.max(0, p.share) })) } }
+  );
+}
+
+export function validatePaymentBody(body: PaymentInput): string | null {
+  if (body.amount != null) {
+    const n = Number(body.amount);
+    if (!Number.isFinite(n) || n <= 0) return "amount must be a positive number";
+  }
+  if (body.method != null && !PAYMENT_METHODS.includes(body.method)) {
+    return `method must be one of ${PAYMENT_METHODS.join(", ")}`;
+  }
+  return null;
+}
+
+export function validateParticipantsBody(list: unknown): string | null {
+  if (!Array.isArray(list)) return "participants must be an array";
+  if (list.length > MAX_PARTICIPANTS) return `At most ${MAX_PARTICIPANTS} participants`;
+  for (const p of list as ParticipantInput[]) {
+    if (!p || !String(p.name || "").trim()) return "Every participant needs a name";
+    const share = Number(p.share);
+    if (!Number.isFinite(share) || share < 0) return `Share for ${p.name} must be a non-negative number`;
+  }
+  return null;
+}
+
+/**
+ * Split a pending booking between players (an empty list removes the split).
+ * Shares must add up to the booking amount; a player who has already paid cannot be
+ * removed or have their share cut below what they paid.
+ */
+export async function setBookingParticipants(id: string, list: ParticipantInput[]): Promise<ServiceOutcome> {
+  const ledger = await listBookingPayments(id);
+  if (!ledger) return { status: 404, body: { error: "Booking not found" } };
+  const { booking, items, shares } = ledger;
+
+  if (booking.paymentState === "membership") {
+    return { status: 409, body: { error: "Membership bookings have nothing to split" } };
+  }
+  if (booking.paymentState === "paid") {
+    return { status: 409, body: { error: "Booking is already fully paid" } };
+  }
+  if (items.some((i) => !i.participantId)) {
+    return { status: 409, body: { error: "Booking already has payments not tied to a player" } };
+  }
+
+  const next = list.map((p) => ({
+    id: p.id && shares.some((s) => s.id === p.id) ? p.id : undefined,
+    name: String(p.name).trim(),
+    phone: p.phone?.trim() || undefined,
+    share: Number(p.share),
+  }));
+
+  for (const s of shares) {
+    if (s.paid <= 0) continue;
+    const kept = next.find((p) => p.id === s.id);
+    if (!kept) return { status: 409, body: { error: `${s.name} has already paid and cannot be removed` } };
+    if (kept.share < s.paid) {
+      return { status: 400, body: { error: `${s.name} has already paid ${s.paid}; share cannot be lower` } };
+    }
+  }
+
+  const total = next.reduce((sum, p) => sum + p.share, 0);
+  if (next.length && total !== booking.amount) {
+    return {
+      status: 400,
+      body: { error: `Shares add up to ${total}; they must equal the booking amount (${booking.currency} ${booking.amount})` },
+    };
+  }
+
+  const Model = await bookingModelFor(booking.source);
+  if (next.length) {
+    await Model.updateOne(
+      { _id: booking.id },
+      { $set: { participants: next.map((p) => ({ ...(p.id ? { _id: p.id } : {}), name: p.name, phone: p.phone, share: p.share })) } }
+    );
+  } else {
+    await Model.updateOne({ _id: booking.id }, { $unset: { participants: 1 } });
+  }
+
+  return { status: 200, body: { ok: true, source: booking.source, participants: next.length } };
+}
+
+/**
+ * Record money collected against a booking. Without an amount the whole balance (or the
+ * player's remaining share) is taken.
+ * Once nothing is due the booking flips to paid (adminPaid + PAID.* ref) as before; every
+ * payment refreshes the Sheets "Payment" cell with the running paid / due amounts.
+ */
+export async function recordBookingPayment(
+  id: string,
+  input: PaymentInput,
+  recordedBy?: string
+): Promise<ServiceOutcome> {
+  const ledger = await listBookingPayments(id);
+  if (!ledger) return { status: 404, body: { error: "Booking not found" } };
+  const { booking } = ledger;
+
+  if (ledger.due <= 0) {
+    // Idempotent success (membership / already settled); a zero-amount pending booking just flips
+    if (booking.paymentState === "unpaid") await settle(booking, ledger.paid);
+    return {
+      status: 200,
+      body: { ok: true, already: booking.paymentState !== "unpaid", source: booking.source, paid: ledger.paid, due: 0 },
+    };
+  }
+
+  // split booking: each payment settles (part of) one player's share
+  let limit = ledger.due;
+  let participantId: string | undefined;
+  if (ledger.shares.length) {
+    const share = ledger.shares.find((p) => p.id === input.participantId);
+    if (!share) return { status: 400, body: { error: "Choose which player's share this payment is for" } };
+    if (share.settled) return { status: 200, body: { ok: true, already: true, source: booking.source, paid: ledger.paid, due: ledger.due } };
+    limit = Math.min(limit, share.due);
+    participantId = share.id;
+  }
+
+  const amount = input.amount != null ? Number(input.amount) : limit;
+  if (amount > limit) {
+    return { status: 400, body: { error: `Amount exceeds balance due (${booking.currency} ${limit})` } };
+  }
+
+  const BookingPayment = await BookingPaymentModel();
+  const doc = await BookingPayment.create({
+    bookingId: booking.id,
+    source: booking.source,
+    orderId: booking.orderId,
+    participantId,
+    amount,
+    currency: booking.currency,
+    method: input.method || "CASH",
+    reference: input.reference?.trim() || undefined,
+    note: input.note?.trim() || undefined,
+    recordedBy,
+  });
+
+  const paid = ledger.paid + amount;
+  const due = Math.max(0, booking.amount - paid);
+  if (due <= 0) {
+    await settle(booking, paid);
+  } else {
+    try {
+      if (booking.orderId) await updateBookingPaymentById(booking.orderId, booking.paymentRef, false, { paid, due });
+    } catch (sheetErr) {
+      console.error(`Sheets update (part payment ${booking.source}) failed:`, sheetErr);
+    }
+  }
+
+  return {
+    status: 200,
+    body: { ok: true, source: booking.source, paymentId: String(doc._id), paid, due, settled: due <= 0 },
+  };
+}
+
+/** Balance cleared → mark the booking paid and mirror it to the Sheets row. */
+async function settle(booking: UnifiedBooking, paid: number) {
+  const nextRef = toPaidRef(booking.paymentRef) || "PAID.CASH";
+  const Model = await bookingModelFor(booking.source);
+  await Model.updateOne({ _id: booking.id }, { $set: { adminPaid: true, paymentRef: nextRef } });
+
+  // 🔹 Update payment in Google Sheets using orderId as key
+  try {
+    if (booking.orderId) await updateBookingPaymentById(booking.orderId, nextRef, true, { paid, due: 0 });
+  } catch (sheetErr) {
+    console.error(`Sheets update (mark-paid ${booking.source}) failed:`, sheetErr);
+  }
+}
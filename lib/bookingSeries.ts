@@ -0,0 +1,110 @@
+// lib/bookingSeries.ts
+import { BookingModel } from "@/models/Booking";
+import { GuestBookingModel } from "@/models/GuestBooking";
+import { createAdminBooking, type AdminCreateBody } from "@/lib/adminBooking";
+import { cancelBookingSlot } from "@/lib/bookingCancel";
+import { addDaysYMD } from "@/lib/courts";
+
+export type SeriesFrequency = "daily" | "weekly";
+
+export const MAX_SERIES_OCCURRENCES = 52;
+
+type Slot = { courtId: number; start: string; end: string };
+type OccurrenceLean = { _id: unknown; date: string; slots?: Slot[] };
+
+export type SeriesCreated = { date: string; id: string; orderId?: string };
+export type SeriesSkipped = { date: string; error: string; conflicts?: Slot[] };
+
+function genSeriesId() {
+  return `series_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function seriesDates(startDate: string, frequency: SeriesFrequency, count: number): string[] {
+  const step = frequency === "daily" ? 1 : 7;
+  return Array.from({ length: count }, (_, i) => addDaysYMD(startDate, i * step));
+}
+
+/**
+ * Book the same slots on every occurrence date. Each occurrence is an independent
+ * admin booking sharing `seriesId`; dates that clash (or run out of membership
+ * credits, or fall on a closed day) are skipped and reported, the rest are kept.
+ */
+export async function createBookingSeries(
+  base: AdminCreateBody,
+  frequency: SeriesFrequency,
+  count: number
+): Promise<{ seriesId: string; created: SeriesCreated[]; skipped: SeriesSkipped[] }> {
+  const seriesId = genSeriesId();
+  const created: SeriesCreated[] = [];
+  const skipped: SeriesSkipped[] = [];
+
+  for (const date of seriesDates(String(base.date), frequency, count)) {
+    try {
+      const { status, body } = await createAdminBooking({ ...base, date, seriesId });
+      if (status === 200 && body.ok) {
+        created.push({ date, id: String(body.id), orderId: body.orderId ? String(body.orderId) : undefined });
+      } else {
+        skipped.push({
+          date,
+          error: String(body.error || "Could not book"),
+          ...(Array.isArray(body.conflicts) ? { conflicts: body.conflicts as Slot[] } : {}),
+        });
+      }
+    } catch (e: unknown) {
+      console.error(`series occurrence ${date} failed:`, e);
+      skipped.push({ date, error: e instanceof Error ? e.message : "Server error" });
+    }
+  }
+
+  return { seriesId, created, skipped };
+}
+
+export type SeriesCancelResult = {
+  cancelled: { id: string; date: string; slots: number }[];
+  failed: { id: string; date: string; error: string }[];
+};
+
+/**
+ * Cancel one occurrence, or that occurrence and every later one, slot by slot through
+ * the regular single-slot cancel so refunds / credit restores / Sheets rows match.
+ */
+export async function cancelBookingSeries(
+  seriesId: string,
+  bookingId: string,
+  scope: "one" | "following",
+  admin?: string
+): Promise<{ status: number; error?: string; result?: SeriesCancelResult }> {
+  const Booking = await BookingModel();
+  const GuestBooking = await GuestBookingModel();
+
+  const anchor =
+    (await Booking.findOne({ _id: bookingId, seriesId }).select({ date: 1 }).lean<OccurrenceLean | null>()) ||
+    (await GuestBooking.findOne({ _id: bookingId, seriesId }).select({ date: 1 }).lean<OccurrenceLean | null>());
+  if (!anchor) return { status: 404, error: "Booking not found in this series" };
+
+  const filter = scope === "one" ? { _id: bookingId, seriesId } : { seriesId, date: { $gte: anchor.date } };
+  const [docsA, docsG] = await Promise.all([
+    Booking.find(filter).select({ date: 1, slots: 1 }).sort({ date: 1 }).lean<OccurrenceLean[]>(),
+    GuestBooking.find(filter).select({ date: 1, slots: 1 }).sort({ date: 1 }).lean<OccurrenceLean[]>(),
+  ]);
+
+  const result: SeriesCancelResult = { cancelled: [], failed: [] };
+  for (const occ of [...docsA, ...docsG].sort((a, b) => a.date.localeCompare(b.date))) {
+    const id = String(occ._id);
+    const slots = Array.isArray(occ.slots) ? occ.slots : [];
+    let done = 0;
+    try {
+      for (const s of slots) {
+        const { status, body } = await cancelBookingSlot(id, { courtId: s.courtId, start: s.start, end: s.end }, { admin });
+        if (status !== 200) throw new Error(String(body.error || `Cancel failed (HTTP ${status})`));
+        done++;
+      }
+      result.cancelled.push({ id, date: occ.date, slots: done });
+    } catch (e: unknown) {
+      console.error(`series cancel ${id} (${occ.date}) failed:`, e);
+      result.failed.push({ id, date: occ.date, error: e instanceof Error ? e.message : "Server error" });
+    }
+  }
+
+  return { status: 200, result };
+}
@@ -0,0 +1,465 @@
+// lib/bookingService.ts
+/**
+ * One place to read and write court bookings, whichever collection they live in:
+ * member/user bookings (`bookings`) and desk guest bookings (`guest_bookings`).
+ * Routes and pages go through here instead of querying both models themselves.
+ */
+import type mongoose from "mongoose";
+import { BookingModel, type BookingDoc } from "@/models/Booking";
+import { GuestBookingModel } from "@/models/GuestBooking";
+import { UserModel } from "@/models/User";
+import { RefundModel } from "@/models/Refund";
+import { SlotReservationModel } from "@/models/SlotReservation";
+import { appendCancellations, type CancelRowIn } from "@/lib/googleSheets";
+import { releaseSlots } from "@/lib/slotReservations";
+import { createCashfreeRefund } from "@/lib/cashfree";
+import { isNonGatewayBooking, type CancelOutcome } from "@/lib/bookingCancel";
+import { evaluateCancellation, capRefund } from "@/lib/cancellationPolicy";
+import { voidOfferRedemptions } from "@/lib/offerRedemptions";
+
+export { cancelBookingSlot, quoteSlotCancel } from "@/lib/bookingCancel";
+
+export type BookingSource = "bookings" | "guest_bookings";
+export type Attendance = "checked_in" | "no_show";
+export type BookingSlot = {
+  courtId: number;
+  start: string;
+  end: string;
+  price?: number;
+  attendance?: Attendance;
+  attendedAt?: Date;
+};
+export type PaymentState = "membership" | "paid" | "unpaid";
+export type BookingParticipant = { id: string; name: string; phone?: string; share: number };
+
+/** Normalized view of a booking from either collection. */
+export type UnifiedBooking = {
+  id: string;
+  source: BookingSource;
+  orderId?: string;
+  userId?: string;      // users._id or username (bookings only)
+  userName: string;
+  userEmail?: string;
+  phone?: string;       // guest phone, or the member/user's phone when resolved
+  date: string;
+  slots: BookingSlot[];
+  amount: number;
+  currency: string;
+  paymentRef?: string;
+  adminPaid?: boolean;
+  paymentState: PaymentState;
+  who: "member" | "user" | "guest";
+  bookingType: "Normal" | "Special" | "Individual";
+  seriesId?: string;
+  participants: BookingParticipant[]; // empty unless the cost is split between players
+  createdAt?: Date;
+};
+
+/** HTTP-shaped result so routes can pass it straight to NextResponse.json(body, { status }). */
+export type ServiceOutcome = CancelOutcome;
+
+type RawBooking = {
+  _id: unknown;
+  orderId?: string;
+  userId?: string;
+  userName?: string;
+  userEmail?: string;
+  userPhone?: string;
+  phone_number?: string;
+  guestPhone?: string;
+  date?: string;
+  slots?: BookingSlot[];
+  amount?: number;
+  currency?: string;
+  paymentRef?: string;
+  adminPaid?: boolean;
+  who?: "member" | "user" | "guest";
+  bookingType?: "Normal" | "Special" | "Individual";
+  seriesId?: string;
+  participants?: { _id?: unknown; name: string; phone?: string; share: number }[];
+  createdAt?: Date;
+};
+
+export function paymentStateOf(paymentRef?: string, adminPaid?: boolean): PaymentState {
+  const ref = String(paymentRef || "").toUpperCase().trim();
+  if (ref === "MEMBERSHIP") return "membership";
+  if (ref.startsWith("PAID.")) return "paid";
+  if (ref.startsWith("UNPAID.")) return "unpaid";
+  return adminPaid === true ? "paid" : "unpaid";
+}
+
+function normalize(source: BookingSource, b: RawBooking): UnifiedBooking {
+  const isGuest = source === "guest_bookings";
+  const ref = String(b.paymentRef || "").toUpperCase();
+  return {
+    id: String(b._id),
+    source,
+    orderId: b.orderId || undefined,
+    userId: isGuest ? undefined : b.userId,
+    userName: b.userName || (isGuest ? "Guest" : "—"),
+    userEmail: isGuest ? undefined : b.userEmail,
+    phone: isGuest ? b.phone_number || b.guestPhone : b.userPhone,
+    date: b.date || "",
+    slots: Array.isArray(b.slots) ? b.slots : [],
+    amount: Number.isFinite(Number(b.amount)) ? Number(b.amount) : 0,
+    currency: b.currency || "INR",
+    paymentRef: b.paymentRef,
+    adminPaid: b.adminPaid,
+    paymentState: paymentStateOf(b.paymentRef, b.adminPaid),
+    // older rows have no `who`; derive it the same way the Sheets logging does
+    who: isGuest ? "guest" : b.who || (ref === "MEMBERSHIP" ? "member" : "user"),
+    bookingType: b.bookingType || "Normal",
+    seriesId: b.seriesId,
+    participants: (b.participants || []).map((p) => ({
+      id: String(p._id),
+      name: p.name,
+      phone: p.phone,
+      share: Number(p.share) || 0,
+    })),
+    createdAt: b.createdAt,
+  };
+}
+
+/** The mongoose model behind a source (both share the slot/amount/payment shape). */
+export async function bookingModelFor(source: BookingSource): Promise<mongoose.Model<BookingDoc>> {
+  return source === "bookings"
+    ? BookingModel()
+    : ((await GuestBookingModel()) as unknown as mongoose.Model<BookingDoc>);
+}
+
+export async function findBooking(id: string): Promise<UnifiedBooking | null> {
+  const Booking = await BookingModel();
+  const b = await Booking.findById(id).lean<RawBooking | null>().catch(() => null);
+  if (b) return normalize("bookings", b);
+
+  const GuestBooking = await GuestBookingModel();
+  const g = await GuestBooking.findById(id).lean<RawBooking | null>().catch(() => null);
+  return g ? normalize("guest_bookings", g) : null;
+}
+
+export type BookingListFilter = {
+  q?: string;        // name / email / phone
+  date?: string;     // exact YYYY-MM-DD
+  from?: string;     // YYYY-MM-DD inclusive
+  to?: string;       // YYYY-MM-DD inclusive
+  seriesId?: string;
+};
+
+const isObjectIdString = (s: string) => /^[0-9a-fA-F]{24}$/.test(s);
+
+/** Mongo filters for both collections from one list filter (search by name/email/phone). */
+async function buildQueries(f: BookingListFilter) {
+  const std: Record<string, unknown> = {};
+  const guest: Record<string, unknown> = {};
+  const q = (f.q || "").trim();
+
+  if (q) {
+    const rx = { $regex: q, $options: "i" };
+    const stdOr: Record<string, unknown>[] = [{ userName: rx }, { userEmail: rx }, { userPhone: rx }];
+
+    // Phone search → map to users by phone and match userId variants
+    if (/\d{4,}/.test(q.replace(/\s+/g, ""))) {
+      const User = await UserModel();
+      const matched = await User.find({ phone: rx }).select({ _id: 1, userId: 1 }).lean<{ _id: unknown; userId?: string }[]>();
+      const keys = matched.flatMap((u) => [String(u._id), String(u.userId || "")]).filter(Boolean);
+      if (keys.length) stdOr.push({ userId: { $in: keys } });
+    }
+
+    std.$or = stdOr;
+    guest.$or = [{ userName: rx }, { phone_number: rx }, { guestPhone: rx }];
+  }
+
+  const dateCond = f.date
+    ? f.date
+    : f.from || f.to
+      ? { ...(f.from ? { $gte: f.from } : {}), ...(f.to ? { $lte: f.to } : {}) }
+      : undefined;
+  if (dateCond) std.date = guest.date = dateCond;
+  if (f.seriesId) std.seriesId = guest.seriesId = f.seriesId;
+
+  return { std, guest };
+}
+
+/** Member/user bookings show the phone on their user record (falling back to a stored userPhone). */
+async function resolvePhones(items: UnifiedBooking[]) {
+  const keys = Array.from(new Set(items.filter((b) => b.userId).map((b) => String(b.userId))));
+  if (!keys.length) return;
+
+  const idLike = keys.filter(isObjectIdString);
+  const usernameLike = keys.filter((k) => !isObjectIdString(k));
+  const User = await UserModel();
+  const users = await User.find({
+    $or: [
+      ...(idLike.length ? [{ _id: { $in: idLike } }] : []),
+      ...(usernameLike.length ? [{ userId: { $in: usernameLike } }] : []),
+    ],
+  })
+    .select({ _id: 1, userId: 1, phone: 1 })
+    .lean<{ _id: unknown; userId?: string; phone?: string }[]>();
+
+  const phoneByKey = new Map<string, string>();
+  for (const u of users) {
+    if (!u.phone) continue;
+    phoneByKey.set(String(u._id), u.phone);
+    if (u.userId) phoneByKey.set(u.userId, u.phone);
+  }
+  for (const b of items) if (b.userId) b.phone = phoneByKey.get(String(b.userId)) || b.phone;
+}
+
+/** Bookings from both collections matching the filter, newest first. */
+export async function listBookings(
+  filter: BookingListFilter = {},
+  opts: { resolvePhones?: boolean } = {}
+): Promise<UnifiedBooking[]> {
+  const Booking = await BookingModel();
+  const GuestBooking = await GuestBookingModel();
+  const { std, guest } = await buildQueries(filter);
+
+  const [docsA, docsG] = await Promise.all([
+    Booking.find(std).lean<RawBooking[]>(),
+    GuestBooking.find(guest).lean<RawBooking[]>(),
+  ]);
+
+  const items = [
+    ...docsA.map((b) => normalize("bookings", b)),
+    ...docsG.map((g) => normalize("guest_bookings", g)),
+  ].sort((a, b) => new Date(b.createdAt ?? 0).getTime() - new Date(a.createdAt ?? 0).getTime());
+
+  if (opts.resolvePhones !== false) await resolvePhones(items);
+  return items;
+}
+
+/** Apply a raw mongo update to the booking in whichever collection holds it. */
+export async function updateBooking(
+  id: string,
+  update: mongoose.UpdateQuery<BookingDoc>
+): Promise<BookingSource | null> {
+  const found = await findBooking(id);
+  if (!found) return null;
+  const Model = await bookingModelFor(found.source);
+  await Model.updateOne({ _id: id }, update);
+  return found.source;
+}
+
+/** Delete every booking matching the filter (no refunds / credit restore) and free its slots. */
+export async function deleteBookings(filter: BookingListFilter) {
+  const Booking = await BookingModel();
+  const GuestBooking = await GuestBookingModel();
+  const { std, guest } = await buildQueries(filter);
+
+  // Collect ids / orderIds first so their offer redemptions and slot reservations can be freed too
+  const [stdOrders, guestOrders] = await Promise.all([
+    Booking.find(std).select({ orderId: 1 }).lean<{ _id: unknown; orderId?: string }[]>(),
+    GuestBooking.find(guest).select({ orderId: 1 }).lean<{ _id: unknown; orderId?: string }[]>(),
+  ]);
+  const orderIds = [...stdOrders, ...guestOrders]
+    .map((b) => b.orderId)
+    .filter((v): v is string => typeof v === "string" && v.length > 0);
+  const bookingIds = [...stdOrders, ...guestOrders].map((b) => String(b._id));
+
+  const [delStd, delGuest] = await Promise.all([Booking.deleteMany(std), GuestBooking.deleteMany(guest)]);
+
+  if (orderIds.length) {
+    const SlotReservation = await SlotReservationModel();
+    await SlotReservation.deleteMany({ orderId: { $in: orderIds } });
+  }
+  await voidOfferRedemptions(bookingIds);
+
+  return { deletedBookings: delStd?.deletedCount ?? 0, deletedGuestBookings: delGuest?.deletedCount ?? 0 };
+}
+
+export function toPaidRef(current?: string): string | undefined {
+  const ref = String(current || "").toUpperCase().trim();
+  if (!ref) return undefined;
+
+  // If already PAID.*, keep as-is.
+  if (ref.startsWith("PAID.")) return ref;
+
+  // If UNPAID.X -> PAID.X
+  if (ref.startsWith("UNPAID.")) return `PAID.${ref.slice("UNPAID.".length)}`;
+
+  // Normalize common values
+  if (ref === "CASH") return "PAID.CASH";
+  if (ref === "ONLINE") return "PAID.ONLINE";
+
+  // Membership is always paid, do not prefix
+  if (ref === "MEMBERSHIP") return "MEMBERSHIP";
+
+  // Otherwise prefix with PAID.
+  return `PAID.${ref}`;
+}
+
+/* ---------------- Full booking cancel ---------------- */
+function toLegacyRefundStatus(cf: string): "REFUND_SUCCESS" | "REFUND_FAILED" | "PENDING" {
+  const up = cf.toUpperCase();
+  if (up.includes("SUCCESS")) return "REFUND_SUCCESS";
+  if (up.includes("FAIL")) return "REFUND_FAILED";
+  return "PENDING";
+}
+function toUnifiedStatus(cf: string): "SUCCESS" | "FAILED" | "PENDING" {
+  const up = cf.toUpperCase();
+  if (up.includes("SUCCESS")) return "SUCCESS";
+  if (up.includes("FAIL")) return "FAILED";
+  return "PENDING";
+}
+
+/** Compute per-slot amount for logging rows */
+function computePerSlotAmount(total?: number, slotsCount?: number): number | null {
+  const t = Number(total);
+  if (!Number.isFinite(t)) return null;
+  const c = Number(slotsCount);
+  if (!Number.isFinite(c) || c <= 0) return t;
+  return Math.round(t / c);
+}
+
+/**
+ * Cancel a whole booking: offline/membership bookings get a NO_REFUND_REQUIRED record,
+ * online ones a Cashfree refund of the cancellation-policy share of the amount (none in
+ * a 0% band). Gateway errors are thrown.
+ */
+export async function cancelBooking(id: string): Promise<ServiceOutcome> {
+  const doc = await findBooking(id);
+  if (!doc) return { status: 404, body: { error: "Booking not found" } };
+
+  const Refund = await RefundModel();
+  const Model = await bookingModelFor(doc.source);
+  const isGuest = doc.source === "guest_bookings";
+
+  const amount = Math.max(0, doc.amount);
+  const currency = doc.currency;
+  const orderId = doc.orderId || "";
+  const dateStr = doc.date || "—";
+  const slots = doc.slots;
+  const perSlot = computePerSlotAmount(doc.amount, slots.length);
+  const paymentRef = doc.paymentRef || "—";
+
+  // Cancellation policy band from the first slot's start time
+  const firstStart = slots.map((s) => s.start).sort()[0] || "00:00";
+  // nothing goes back beyond what the payment ledger shows as paid
+  // (bookingPayments imports this module, so it's loaded here rather than at the top)
+  const { refundableAmount } = await import("@/lib/bookingPayments");
+  const policy = capRefund(
+    await evaluateCancellation(doc.who, dateStr, firstStart, amount),
+    amount,
+    await refundableAmount(id)
+  );
+  const refundAmount = policy.refundAmount;
+
+  const cancelRows = (refundStatus: string, note: string): CancelRowIn[] =>
+    (slots.length ? slots : [{ courtId: null as number | null, start: "—", end: "—" }]).map((s) => ({
+      date: dateStr,
+      courtId: typeof s.courtId === "number" ? s.courtId : null,
+      start: s.start || "—",
+      end: s.end || "—",
+      userName: doc.userName,
+      ...(isGuest && doc.phone ? { phone: doc.phone } : {}),
+      who: doc.who,
+      bookingType: "Normal",
+      paymentRef,
+      amount: perSlot,
+      currency,
+      refundStatus,
+      note,
+    }));
+
+  // Direct cancel path (admin/member/guest, or nothing refundable under the policy)
+  if (isNonGatewayBooking(doc) || refundAmount <= 0) {
+    await Refund.create({
+      kind: "booking_slot",
+      bookingId: doc.id,
+      userId: isGuest ? undefined : String(doc.userId || ""),
+      userEmail: isGuest ? undefined : String(doc.userEmail || ""),
+      userName: doc.userName,
+      amount: refundAmount,
+      currency,
+      reason: isGuest ? "Guest booking cancel (offline refund)" : "Admin/membership booking cancel",
+      orderId,
+      refundStatus: "NO_REFUND_REQUIRED",
+      status: "NO_REFUND_REQUIRED",
+      statusDescription: "No payment gateway refund required",
+      gateway: "NONE",
+      cancellationPolicy: policy,
+      meta: { isGuest, date: dateStr, slots, mode: "full_booking_cancel" },
+    });
+
+    // Append one cancellation row per slot to Sheet 2 (NO_REFUND_REQUIRED)
+    try {
+      await appendCancellations(cancelRows("NO_REFUND_REQUIRED", "Full booking cancel (offline/membership)"));
+    } catch (sheetErr) {
+      console.error("Sheets append (full cancel / no-gateway) failed:", sheetErr);
+    }
+
+    await Model.findByIdAndDelete(id);
+    await releaseSlots(orderId);
+    await voidOfferRedemptions([id]);
+
+    return {
+      status: 200,
+      body: {
+        ok: true,
+        deletedId: id,
+        refunded: refundAmount,
+        currency,
+        refundStatus: "NO_REFUND_REQUIRED",
+        status: "NO_REFUND_REQUIRED",
+        policy,
+      },
+    };
+  }
+
+  // Customer online booking → Cashfree refund
+  const cf = await createCashfreeRefund({ orderId, amount: refundAmount, note: `Admin cancel booking ${id}` });
+  const legacy = toLegacyRefundStatus(cf.refundStatus);
+  const unified = toUnifiedStatus(cf.refundStatus);
+
+  await Refund.create({
+    kind: "booking_slot",
+    bookingId: doc.id,
+    userId: isGuest ? undefined : String(doc.userId || ""),
+    userEmail: isGuest ? undefined : String(doc.userEmail || ""),
+    userName: isGuest ? undefined : doc.userName,
+    amount: refundAmount,
+    currency,
+    reason: "Admin cancel (full booking)",
+    refundId: cf.refundId,
+    cfRefundId: cf.cfRefundId,
+    cfPaymentId: cf.cfPaymentId,
+    orderId,
+    refundStatus: legacy,
+    status: unified,
+    statusDescription: cf.statusDescription,
+    gateway: "CASHFREE",
+    cancellationPolicy: policy,
+    meta: { raw: cf.raw, date: dateStr, slots, mode: "full_booking_cancel" },
+  });
+
+  // Append one cancellation row per slot to Sheet 2 with gateway status
+  try {
+    await appendCancellations(cancelRows(legacy, "Full booking cancel (gateway refund)"));
+  } catch (sheetErr) {
+    console.error("Sheets append (full cancel / cashfree) failed:", sheetErr);
+  }
+
+  if (legacy === "REFUND_FAILED") {
+    return { status: 502, body: { error: "Cashfree refund failed", details: cf.raw } };
+  }
+
+  await Model.findByIdAndDelete(id);
+  await releaseSlots(orderId);
+  await voidOfferRedemptions([id]);
+
+  return {
+    status: 200,
+    body: {
+      ok: true,
+      deletedId: id,
+      refunded: refundAmount,
+      currency,
+      refundStatus: legacy,
+      status: unified,
+      cfRefundId: cf.cfRefundId,
+      cfPaymentId: cf.cfPaymentId,
+      policy,
+    },
+  };
+}
@@ -0,0 +1,150 @@
+// lib/cancellationPolicy.ts
+import {
+  CancellationPolicyModel,
+  type CancellationPolicyDoc,
+  type CancellationTier,
+  type PolicyAudience,
+} from "@/models/CancellationPolicy";
+
+/** Slot times are club-local (IST) */
+const CLUB_UTC_OFFSET = "+05:30";
+
+export const POLICY_AUDIENCES: PolicyAudience[] = ["member", "user", "guest"];
+
+/** What a cancel made right now is worth; stored on the Refund as `cancellationPolicy`. */
+export type CancellationTerms = {
+  policyId?: string;
+  policyName: string;
+  hoursBefore: number;    // until the slot starts (negative once it has started)
+  refundPercent: number;
+  restoreCredit: boolean;
+  tier: string;           // band that applied, e.g. "≥ 24h" ("< 6h" below every band)
+  slotPrice: number;      // full price of the slot(s) being cancelled
+  refundAmount: number;   // slotPrice × refundPercent, rounded to the rupee, capped by `paid`
+  paid?: number;          // money held for the booking (payment ledger) when the cancel was made
+};
+
+type PolicyLean = Pick<CancellationPolicyDoc, "name" | "appliesTo" | "tiers" | "active"> & { _id: unknown };
+
+/** Without any active policy every cancel is a full refund / credit back (the old behaviour). */
+const FULL_REFUND: CancellationTier = { minHoursBefore: 0, refundPercent: 100, restoreCredit: true };
+
+export function hoursUntilSlot(date: string, start: string, now = new Date()): number {
+  const at = new Date(`${date}T${start}:00${CLUB_UTC_OFFSET}`);
+  if (Number.isNaN(at.getTime())) return 0;
+  return (at.getTime() - now.getTime()) / 3_600_000;
+}
+
+/**
+ * Cap a refund at what is actually held for the booking. Cancelling still takes the policy
+ * refund off the bill (any fee stays on it), so only money paid beyond the reduced bill goes
+ * back: nothing for an unpaid booking, the full policy refund for a fully paid one.
+ */
+export function capRefund(terms: CancellationTerms, amount: number, paid: number): CancellationTerms {
+  const owedAfter = Math.max(0, amount - terms.refundAmount);
+  return { ...terms, paid, refundAmount: Math.min(terms.refundAmount, Math.max(0, paid - owedAfter)) };
+}
+
+/** Band for a lead time: the one with the largest minHoursBefore still ≤ hoursBefore; none → 0%. */
+export function tierFor(tiers: CancellationTier[], hoursBefore: number): CancellationTier {
+  const match = [...tiers]
+    .sort((a, b) => b.minHoursBefore - a.minHoursBefore)
+    .find((t) => hoursBefore >= t.minHoursBefore);
+  return match || { minHoursBefore: 0, refundPercent: 0, restoreCredit: false };
+}
+
+async function policyFor(who: PolicyAudience): Promise<PolicyLean | null> {
+  const Policy = await CancellationPolicyModel();
+  const active = await Policy.find({ active: true }).sort({ updatedAt: -1 }).lean<PolicyLean[]>();
+  return (
+    active.find((p) => (p.appliesTo || []).includes(who)) ||
+    active.find((p) => !p.appliesTo?.length) ||
+    null
+  );
+}
+
+/** Full refund / credit back regardless of policy (e.g. the venue had to close). */
+export function waivedCancellation(
+  reason: string,
+  date: string,
+  start: string,
+  slotPrice: number,
+  now = new Date()
+): CancellationTerms {
+  const price = Math.max(0, Number(slotPrice) || 0);
+  return {
+    policyName: reason,
+    hoursBefore: Math.round(hoursUntilSlot(date, start, now) * 10) / 10,
+    refundPercent: 100,
+    restoreCredit: true,
+    tier: "waived",
+    slotPrice: price,
+    refundAmount: Math.round(price),
+  };
+}
+
+/**
+ * Terms for cancelling a slot (or a whole booking – pass its earliest start) of `slotPrice`
+ * for this kind of player, evaluated at `now`.
+ */
+export async function evaluateCancellation(
+  who: PolicyAudience,
+  date: string,
+  start: string,
+  slotPrice: number,
+  now = new Date()
+): Promise<CancellationTerms> {
+  const policy = await policyFor(who);
+  const hoursBefore = hoursUntilSlot(date, start, now);
+  const tiers = policy?.tiers || [];
+  const tier = policy ? tierFor(tiers, hoursBefore) : FULL_REFUND;
+  const price = Math.max(0, Number(slotPrice) || 0);
+  const shortest = Math.min(...tiers.map((t) => t.minHoursBefore));
+
+  return {
+    policyId: policy ? String(policy._id) : undefined,
+    policyName: policy?.name || "Default (full refund)",
+    hoursBefore: Math.round(hoursBefore * 10) / 10,
+    refundPercent: tier.refundPercent,
+    restoreCredit: tier.restoreCredit,
+    tier: !policy ? "default" : tiers.includes(tier) ? `≥ ${tier.minHoursBefore}h` : `< ${shortest}h`,
+    slotPrice: price,
+    refundAmount: Math.round((price * tier.refundPercent) / 100),
+  };
+}
+
+export function validateCancellationPolicyBody(b: any, partial = false): string | null {
+  if (!b || typeof b !== "object") return "Invalid body";
+  if (!partial || "name" in b) {
+    if (!String(b.name || "").trim()) return "Missing field: name";
+  }
+  if ("appliesTo" in b) {
+    if (!Array.isArray(b.appliesTo) || b.appliesTo.some((w: unknown) => !POLICY_AUDIENCES.includes(w as PolicyAudience))) {
+      return "appliesTo must list member / user / guest";
+    }
+  }
+  if (!partial || "tiers" in b) {
+    if (!Array.isArray(b.tiers) || b.tiers.length === 0) return "At least one tier is required";
+    const seen = new Set<number>();
+    for (const t of b.tiers) {
+      const hours = Number(t?.minHoursBefore);
+      const pct = Number(t?.refundPercent);
+      if (!Number.isFinite(hours) || hours < 0) return "minHoursBefore must be a number ≥ 0";
+      if (!Number.isFinite(pct) || pct < 0 || pct > 100) return "refundPercent must be 0-100";
+      if (seen.has(hours)) return `Two tiers start at ${hours}h`;
+      seen.add(hours);
+    }
+  }
+  return null;
+}
+
+/** Tiers as stored: numbers coerced, longest notice first. */
+export function normalizeTiers(tiers: any[]): CancellationTier[] {
+  return tiers
+    .map((t) => ({
+      minHoursBefore: Number(t.minHoursBefore),
+      refundPercent: Number(t.refundPercent),
+      restoreCredit: t.restoreCredit === true,
+    }))
+    .sort((a, b) => b.minHoursBefore - a.minHoursBefore);
+}
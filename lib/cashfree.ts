@@ -0,0 +1,105 @@
+// lib/cashfree.ts
+/* Cashfree PG refund helpers shared by the booking cancel flows. */
+
+export function cashfreeBase() {
+  const env = (process.env.CASHFREE_ENV || "sandbox").toLowerCase();
+  return env === "production" ? "https://api.cashfree.com/pg" : "https://sandbox.cashfree.com/pg";
+}
+
+export type CashfreeCreatedRefund = {
+  refundId: string;
+  refundStatus: string;
+  cfRefundId: string;
+  cfPaymentId: string;
+  statusDescription: string;
+  raw: unknown;
+};
+
+function cashfreeHeaders() {
+  return {
+    "x-client-id": process.env.CASHFREE_APP_ID || "",
+    "x-client-secret": process.env.CASHFREE_SECRET_KEY || "",
+    "x-api-version": process.env.CASHFREE_API_VERSION || "2023-08-01",
+  };
+}
+
+function firstNode(data: unknown): Record<string, unknown> {
+  return Array.isArray(data) && data.length > 0 && typeof data[0] === "object" && data[0] !== null
+    ? (data[0] as Record<string, unknown>)
+    : (data as Record<string, unknown>);
+}
+
+export async function createCashfreeRefund(params: { orderId: string; amount: number; note?: string }): Promise<CashfreeCreatedRefund> {
+  if (!process.env.CASHFREE_APP_ID || !process.env.CASHFREE_SECRET_KEY) {
+    throw new Error("Cashfree credentials missing.");
+  }
+
+  const refundId = `refund_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  const url = `${cashfreeBase()}/orders/${encodeURIComponent(params.orderId)}/refunds`;
+
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...cashfreeHeaders() },
+    body: JSON.stringify({
+      refund_amount: params.amount, // must be > 0
+      refund_id: refundId,
+      refund_note: params.note || "Admin cancel",
+      refund_speed: "STANDARD",
+    }),
+    cache: "no-store",
+  });
+
+  const data: unknown = await res.json().catch(() => ({}));
+
+  if (!res.ok) {
+    const message =
+      (typeof data === "object" && data && "message" in data && String((data as Record<string, unknown>).message)) ||
+      (typeof data === "object" && data && "error" in data && String((data as Record<string, unknown>).error)) ||
+      `Cashfree refund failed (HTTP ${res.status})`;
+    const err = new Error(message) as Error & { status?: number; data?: unknown };
+    err.status = res.status;
+    err.data = data;
+    throw err;
+  }
+
+  const node = firstNode(data);
+  return {
+    refundId,
+    refundStatus: String(node?.refund_status ?? "PENDING"),
+    cfRefundId: String(node?.cf_refund_id ?? ""),
+    cfPaymentId: String(node?.cf_payment_id ?? ""),
+    statusDescription: String(node?.status_description ?? ""),
+    raw: data,
+  };
+}
+
+export async function fetchCashfreeRefundStatus(orderId: string, refundId: string): Promise<string> {
+  const headers = cashfreeHeaders();
+  const base = cashfreeBase();
+
+  // Preferred
+  let res = await fetch(`${base}/orders/${encodeURIComponent(orderId)}/refunds/${encodeURIComponent(refundId)}`, {
+    method: "GET",
+    headers,
+    cache: "no-store",
+  });
+  if (res.ok) {
+    const d: unknown = await res.json().catch(() => ({}));
+    return String(firstNode(d)?.refund_status ?? "PENDING");
+  }
+
+  // Fallback
+  res = await fetch(`${base}/refunds/${encodeURIComponent(refundId)}`, {
+    method: "GET",
+    headers,
+    cache: "no-store",
+  });
+  if (res.ok) {
+    const d: unknown = await res.json().catch(() => ({}));
+    return String(firstNode(d)?.refund_status ?? "PENDING");
+  }
+
+  return "PENDING";
+}
+
+export const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
@@ -0,0 +1,202 @@
+// lib/coupons.ts
+import {
+  CouponModel,
+  type CouponDoc,
+  type CouponProduct,
+  type DiscountLine,
+} from "@/models/Coupon";
+import { CouponUseModel } from "@/models/CouponUse";
+
+export const COUPON_PRODUCTS: CouponProduct[] = ["booking", "membership", "event"];
+
+const PRODUCT_LABEL: Record<CouponProduct, string> = {
+  booking: "court bookings",
+  membership: "memberships",
+  event: "event registrations",
+};
+
+type CouponLean = Pick<
+  CouponDoc,
+  | "code" | "kind" | "value" | "maxDiscount" | "minAmount" | "products" | "validFrom" | "validTo"
+  | "maxUses" | "maxUsesPerCustomer" | "active"
+> & { _id: unknown };
+
+/** Who is redeeming: members / users by email, guests by phone. */
+export type CouponCustomer = { userEmail?: string; phone?: string };
+
+export type CouponApplyInput = CouponCustomer & {
+  code: string;
+  product: CouponProduct;
+  amount: number;        // price before the coupon
+};
+
+export type CouponApplyResult =
+  | { ok: true; line: DiscountLine; total: number; useId: string }
+  | { ok: false; status: number; error: string };
+
+/** How long an applied code holds its use before the purchase must be confirmed */
+const RESERVATION_MS = 15 * 60_000;
+
+const isYmd = (s: unknown) => typeof s === "string" && /^\d{4}-\d{2}-\d{2}$/.test(s);
+const isCount = (v: unknown) => Number.isInteger(v) && (v as number) >= 0;
+
+export function normalizeCode(code: unknown): string {
+  return String(code || "").trim().toUpperCase();
+}
+
+/** Today at the club (IST) as YYYY-MM-DD */
+function clubToday(now = new Date()): string {
+  return now.toLocaleDateString("en-CA", { timeZone: "Asia/Kolkata" });
+}
+
+function customerFilter(c: CouponCustomer): Record<string, unknown> | null {
+  const email = String(c.userEmail || "").trim().toLowerCase();
+  if (email) return { userEmail: email };
+  const phone = String(c.phone || "").trim();
+  return phone ? { phone } : null;
+}
+
+export function validateCouponBody(b: any, partial = false): string | null {
+  if (!b || typeof b !== "object") return "Invalid body";
+  if (!partial || "code" in b) {
+    if (!/^[A-Z0-9_-]{3,32}$/.test(normalizeCode(b.code))) return "code must be 3-32 letters, digits, - or _";
+  }
+  if (!partial || "kind" in b) {
+    if (!["percent", "flat"].includes(b.kind)) return "kind must be percent or flat";
+  }
+  if (!partial || "value" in b) {
+    const v = Number(b.value);
+    if (typeof b.value !== "number" || !Number.isFinite(v) || v <= 0) return "value must be a number > 0";
+    if (b.kind === "percent" && v > 100) return "A percent coupon can take at most 100% off";
+  }
+  if (!partial || "products" in b) {
+    if (!Array.isArray(b.products) || b.products.length === 0) return "Pick at least one product";
+    if (b.products.some((p: unknown) => !COUPON_PRODUCTS.includes(p as CouponProduct))) {
+      return "products must be booking, membership or event";
+    }
+  }
+  for (const k of ["validFrom", "validTo"] as const) {
+    if (b[k] != null && b[k] !== "" && !isYmd(b[k])) return `${k} must be YYYY-MM-DD`;
+  }
+  if (b.validFrom && b.validTo && b.validFrom > b.validTo) return "validFrom must be on or before validTo";
+  for (const k of ["maxDiscount", "minAmount", "maxUses", "maxUsesPerCustomer"] as const) {
+    if (b[k] != null && !isCount(b[k])) return `${k} must be a whole number >= 0`;
+  }
+  return null;
+}
+
+/** Rupees off `amount` under the coupon (never more than the amount itself). */
+export function discountFor(c: Pick<CouponDoc, "kind" | "value" | "maxDiscount">, amount: number): number {
+  const raw = c.kind === "percent" ? Math.round((amount * c.value) / 100) : Math.round(c.value);
+  const capped = c.kind === "percent" && c.maxDiscount ? Math.min(raw, c.maxDiscount) : raw;
+  return Math.max(0, Math.min(amount, capped));
+}
+
+/**
+ * Check a code for a purchase and work out the discount: the coupon must be active,
+ * cover the product, be inside its validity window (club time) and under its usage
+ * limits, and the bill must reach `minAmount`. The use is reserved here (so two desks
+ * can't both take the last one) — call `confirmCouponUse` once the discounted document
+ * exists, or `releaseCouponUse` if the purchase falls through.
+ */
+export async function applyCoupon(input: CouponApplyInput): Promise<CouponApplyResult> {
+  const code = normalizeCode(input.code);
+  if (!code) return { ok: false, status: 400, error: "Coupon code is empty" };
+
+  const Coupon = await CouponModel();
+  const c = await Coupon.findOne({ code }).lean<CouponLean | null>();
+  if (!c || !c.active) return { ok: false, status: 404, error: `Coupon ${code} not found or inactive` };
+
+  if (!(c.products || []).includes(input.product)) {
+    return { ok: false, status: 400, error: `Coupon ${code} is not valid for ${PRODUCT_LABEL[input.product]}` };
+  }
+
+  const today = clubToday();
+  if (c.validFrom && today < c.validFrom) return { ok: false, status: 400, error: `Coupon ${code} is valid from ${c.validFrom}` };
+  if (c.validTo && today > c.validTo) return { ok: false, status: 400, error: `Coupon ${code} expired on ${c.validTo}` };
+
+  const amount = Math.max(0, Math.round(Number(input.amount) || 0));
+  if (amount <= 0) return { ok: false, status: 400, error: "Nothing to discount on a free purchase" };
+  if (c.minAmount && amount < c.minAmount) {
+    return { ok: false, status: 400, error: `Coupon ${code} needs a bill of at least ₹${c.minAmount}` };
+  }
+
+  const couponId = String(c._id);
+  const off = discountFor(c, amount);
+  const who = customerFilter(input);
+
+  // Reserve first, then count: of two purchases racing for the last use the later
+  // count sees both, so a limit is never overshot (at worst both are turned away)
+  const Use = await CouponUseModel();
+  const use = await Use.create({
+    couponId,
+    code,
+    product: input.product,
+    ...(who || {}),
+    listAmount: amount,
+    discount: off,
+    expiresAt: new Date(Date.now() + RESERVATION_MS),
+  });
+  const useId = String(use._id);
+
+  let error: string | null = null;
+  if (c.maxUses && c.maxUses > 0 && (await Use.countDocuments({ couponId })) > c.maxUses) {
+    error = `Coupon ${code} has been fully used`;
+  } else if (
+    c.maxUsesPerCustomer && c.maxUsesPerCustomer > 0 && who &&
+    (await Use.countDocuments({ couponId, ...who })) > c.maxUsesPerCustomer
+  ) {
+    error = `This customer has already used coupon ${code}`;
+  }
+  if (error) {
+    await releaseCouponUse(useId);
+    return { ok: false, status: 409, error };
+  }
+
+  return {
+    ok: true,
+    total: amount - off,
+    useId,
+    line: { couponId, code, kind: c.kind, value: c.value, listAmount: amount, amount: off },
+  };
+}
+
+/** Take `discount` off per-slot prices in proportion, so the slots still add up to the total. */
+export function spreadDiscount(prices: number[], discount: number): number[] {
+  const sum = prices.reduce((n, p) => n + p, 0);
+  if (!sum || discount <= 0) return prices;
+  let left = discount;
+  return prices.map((p, i) => {
+    const off = i === prices.length - 1 ? left : Math.min(left, Math.round((p * discount) / sum));
+    left -= off;
+    return Math.max(0, p - off);
+  });
+}
+
+/** Tie a reserved use to the document it discounted; it no longer expires. */
+export async function confirmCouponUse(useId: string, refId: string): Promise<void> {
+  const Use = await CouponUseModel();
+  const res = await Use.updateOne({ _id: useId }, { $set: { refId }, $unset: { expiresAt: 1 } });
+  if (!res.matchedCount) console.error(`Coupon use ${useId} expired before ${refId} was saved`);
+}
+
+/** Give a reserved use back (the purchase it was applied to wasn't saved). */
+export async function releaseCouponUse(useId: string): Promise<void> {
+  const Use = await CouponUseModel();
+  await Use.deleteOne({ _id: useId, refId: { $exists: false } });
+}
+
+/** "SUMMER10 -₹150" for Sheets rows */
+export function describeDiscount(line?: DiscountLine | null): string {
+  return line ? `${line.code} -₹${line.amount}` : "";
+}
+
+/** How often each coupon has been used, for the coupons list. */
+export async function couponUsage(): Promise<Map<string, { uses: number; discount: number }>> {
+  const Use = await CouponUseModel();
+  const rows = await Use.aggregate<{ _id: string; uses: number; discount: number }>([
+    { $match: { refId: { $exists: true } } },
+    { $group: { _id: "$couponId", uses: { $sum: 1 }, discount: { $sum: "$discount" } } },
+  ]);
+  return new Map(rows.map((r) => [r._id, { uses: r.uses, discount: r.discount }]));
+}
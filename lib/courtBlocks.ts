@@ -0,0 +1,97 @@
+// lib/courtBlocks.ts
+import { CourtBlockModel, type CourtBlockKind } from "@/models/CourtBlock";
+
+type Slot = { courtId: number; start: string; end: string };
+
+export type CourtBlockInfo = {
+  _id?: string;
+  reason: string;
+  kind: CourtBlockKind;
+  courtIds: number[];
+  dateFrom: string;
+  dateTo: string;
+  timeFrom?: string;
+  timeTo?: string;
+  weekdays: number[];
+};
+
+/** What the booking grid shows in a blocked cell. */
+export type BlockedCell = { start: string; end: string; reason: string; kind: CourtBlockKind };
+
+export const BLOCK_KINDS: CourtBlockKind[] = ["maintenance", "coaching", "tournament", "other"];
+
+function toMin(hhmm?: string) {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(String(hhmm || "").trim());
+  return m ? Number(m[1]) * 60 + Number(m[2]) : NaN;
+}
+
+/** Active blocks overlapping from..to (inclusive); narrow per day with `blocksOnDate`. */
+export async function blocksForRange(from: string, to: string): Promise<CourtBlockInfo[]> {
+  const CourtBlock = await CourtBlockModel();
+  return CourtBlock.find({ active: true, dateFrom: { $lte: to }, dateTo: { $gte: from } })
+    .select({ reason: 1, kind: 1, courtIds: 1, dateFrom: 1, dateTo: 1, timeFrom: 1, timeTo: 1, weekdays: 1 })
+    .lean<CourtBlockInfo[]>();
+}
+
+/** Of `blocks`, those whose date range and weekday pattern cover `date`. */
+export function blocksOnDate(blocks: CourtBlockInfo[], date: string): CourtBlockInfo[] {
+  const [y, m, d] = date.split("-").map((v) => Number(v));
+  const weekday = new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+  return blocks.filter(
+    (b) => b.dateFrom <= date && b.dateTo >= date && (!b.weekdays?.length || b.weekdays.includes(weekday))
+  );
+}
+
+/** Active blocks whose date range and weekday pattern cover `date`. */
+export async function blocksForDate(date: string): Promise<CourtBlockInfo[]> {
+  if (!date) return [];
+  return blocksOnDate(await blocksForRange(date, date), date);
+}
+
+/** First block (of those already narrowed to the date) that covers the slot. */
+export function blockCovering(blocks: CourtBlockInfo[], slot: Slot): CourtBlockInfo | null {
+  const s = toMin(slot.start), e = toMin(slot.end);
+  for (const b of blocks) {
+    if (b.courtIds?.length && !b.courtIds.includes(Number(slot.courtId))) continue;
+    if (!b.timeFrom && !b.timeTo) return b;
+    const bs = b.timeFrom ? toMin(b.timeFrom) : 0;
+    const be = b.timeTo ? toMin(b.timeTo) : 24 * 60;
+    if (s < be && bs < e) return b;
+  }
+  return null;
+}
+
+function isHHmm(v: unknown) {
+  return typeof v === "string" && /^\d{2}:\d{2}$/.test(v);
+}
+function isYMD(v: unknown) {
+  return typeof v === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v);
+}
+
+/** Validate a create (or, with `partial`, update) payload; returns an error message or null. */
+export function validateCourtBlockBody(b: any, partial = false): string | null {
+  if (!b || typeof b !== "object") return "Invalid body";
+  if (!partial || "reason" in b) {
+    if (!String(b.reason || "").trim()) return "Missing field: reason";
+  }
+  if ("kind" in b && !BLOCK_KINDS.includes(b.kind)) return "Invalid kind";
+  if (!partial || "dateFrom" in b) {
+    if (!isYMD(b.dateFrom)) return "dateFrom must be YYYY-MM-DD";
+  }
+  if (!partial || "dateTo" in b) {
+    if (!isYMD(b.dateTo)) return "dateTo must be YYYY-MM-DD";
+  }
+  if (isYMD(b.dateFrom) && isYMD(b.dateTo) && b.dateFrom > b.dateTo) return "dateFrom must be on or before dateTo";
+  if (b.timeFrom && !isHHmm(b.timeFrom)) return "timeFrom must be HH:mm";
+  if (b.timeTo && !isHHmm(b.timeTo)) return "timeTo must be HH:mm";
+  if (b.timeFrom && b.timeTo && b.timeFrom >= b.timeTo) return "timeFrom must be before timeTo";
+  if ("courtIds" in b) {
+    if (!Array.isArray(b.courtIds) || b.courtIds.some((c: unknown) => !Number.isInteger(c))) return "courtIds must be numbers";
+  }
+  if ("weekdays" in b) {
+    if (!Array.isArray(b.weekdays) || b.weekdays.some((d: unknown) => !Number.isInteger(d) || (d as number) < 0 || (d as number) > 6)) {
+      return "weekdays must be numbers 0-6";
+    }
+  }
+  return null;
+}
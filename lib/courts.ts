@@ -0,0 +1,191 @@
+// lib/courts.ts
+import { CourtModel, type CourtHours } from "@/models/Court";
+import { RESERVATION_CELL_MINUTES, type Slot } from "@/lib/slotReservations";
+import { getHoliday, type HolidayInfo } from "@/lib/holidays";
+import { blocksForDate, blockCovering } from "@/lib/courtBlocks";
+
+export type CourtInfo = {
+  courtId: number;
+  name: string;
+  active: boolean;
+  hours: CourtHours[];
+  slotMinutes: number;
+  sortOrder: number;
+};
+
+export type CourtGrid = { courtId: number; name: string; slots: Slot[] };
+
+export const DEFAULT_OPEN = "06:00";
+export const DEFAULT_CLOSE = "23:00";
+export const DEFAULT_SLOT_MINUTES = 60;
+
+export function defaultHours(): CourtHours[] {
+  return [0, 1, 2, 3, 4, 5, 6].map((weekday) => ({
+    weekday,
+    open: DEFAULT_OPEN,
+    close: DEFAULT_CLOSE,
+    closed: false,
+  }));
+}
+
+/** What the club ran on before courts were configurable: courts 1–3, 6 AM – 11 PM, hourly. */
+const FALLBACK_COURTS: CourtInfo[] = [1, 2, 3].map((courtId) => ({
+  courtId,
+  name: `Court ${courtId}`,
+  active: true,
+  hours: defaultHours(),
+  slotMinutes: DEFAULT_SLOT_MINUTES,
+  sortOrder: courtId,
+}));
+
+function toMin(hhmm: string) {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(String(hhmm || "").trim());
+  if (!m) return NaN;
+  return Number(m[1]) * 60 + Number(m[2]);
+}
+
+function fromMin(min: number) {
+  return `${String(Math.floor(min / 60)).padStart(2, "0")}:${String(min % 60).padStart(2, "0")}`;
+}
+
+/** Parse "YYYY-MM-DD" as UTC midnight, return UTC day (0=Sun..6=Sat) */
+export function getUTCDayFromYMD(ymd: string): number {
+  const [y, m, d] = String(ymd || "").split("-").map((v) => Number(v));
+  if (!y || !m || !d) return NaN;
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+}
+
+/** "YYYY-MM-DD" + n days, in UTC so DST never shifts the date. */
+export function addDaysYMD(ymd: string, n: number): string {
+  const [y, m, d] = ymd.split("-").map((v) => Number(v));
+  const dt = new Date(Date.UTC(y, m - 1, d + n));
+  return dt.toISOString().slice(0, 10);
+}
+
+/**
+ * All courts sorted for display. Until the first court is saved the collection is
+ * empty and the hardcoded fallback is served, so the desk keeps working.
+ */
+export async function getCourtCatalog(opts: { includeInactive?: boolean } = {}): Promise<CourtInfo[]> {
+  const Court = await CourtModel();
+  const docs = await Court.find({}).sort({ sortOrder: 1, courtId: 1 }).lean<CourtInfo[]>();
+  const courts = docs.length ? docs : FALLBACK_COURTS;
+  return courts
+    .filter((c) => opts.includeInactive || c.active)
+    .map((c) => ({
+      courtId: Number(c.courtId),
+      name: c.name || `Court ${c.courtId}`,
+      active: c.active !== false,
+      hours: Array.isArray(c.hours) ? c.hours : [],
+      slotMinutes: Number(c.slotMinutes) || DEFAULT_SLOT_MINUTES,
+      sortOrder: Number(c.sortOrder) || 0,
+    }));
+}
+
+/**
+ * Write the fallback courts once, so the first admin edit (adding court 4, changing
+ * Sunday hours) doesn't make the implicit courts 1–3 disappear.
+ */
+export async function ensureCourtsSeeded() {
+  const Court = await CourtModel();
+  if (await Court.estimatedDocumentCount()) return;
+  await Court.insertMany(FALLBACK_COURTS);
+}
+
+function isHHmm(v: unknown) {
+  return typeof v === "string" && /^\d{2}:\d{2}$/.test(v);
+}
+
+function onReservationGrid(hhmm: string) {
+  return Number(hhmm.slice(3, 5)) % RESERVATION_CELL_MINUTES === 0;
+}
+
+/** Validate a create (or, with `partial`, update) payload; returns an error message or null. */
+export function validateCourtBody(b: any, partial = false): string | null {
+  if (!b || typeof b !== "object") return "Invalid body";
+  if (!partial || "courtId" in b) {
+    if (!Number.isInteger(b.courtId) || b.courtId < 1) return "courtId must be a positive whole number";
+  }
+  if (!partial || "name" in b) {
+    if (!String(b.name || "").trim()) return "Missing field: name";
+  }
+  if ("slotMinutes" in b) {
+    if (typeof b.slotMinutes !== "number" || b.slotMinutes < 15) return "slotMinutes must be >= 15";
+    if (b.slotMinutes % RESERVATION_CELL_MINUTES) return `slotMinutes must be a multiple of ${RESERVATION_CELL_MINUTES}`;
+  }
+  if ("hours" in b) {
+    if (!Array.isArray(b.hours)) return "hours[] must be an array";
+    for (const h of b.hours) {
+      if (!Number.isInteger(h?.weekday) || h.weekday < 0 || h.weekday > 6) return "Each hours row needs weekday 0-6";
+      if (h.closed) continue;
+      if (!isHHmm(h.open) || !isHHmm(h.close)) return "open/close must be HH:mm";
+      if (h.open >= h.close) return "open must be before close";
+      if (!onReservationGrid(h.open) || !onReservationGrid(h.close)) {
+        return `open/close must be on a ${RESERVATION_CELL_MINUTES}-minute mark`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Opening window of a court on a date, or null when it is closed that day.
+ * A holiday overrides the weekly hours: "closed" shuts every court, "special_hours"
+ * gives every active court the holiday's window.
+ */
+export function hoursForDate(
+  court: CourtInfo,
+  date: string,
+  holiday?: HolidayInfo | null
+): { open: string; close: string } | null {
+  if (holiday?.kind === "closed") return null;
+  if (holiday?.kind === "special_hours" && holiday.open && holiday.close) {
+    return { open: holiday.open, close: holiday.close };
+  }
+  const dow = getUTCDayFromYMD(date);
+  if (Number.isNaN(dow)) return null;
+  const h = court.hours.find((x) => Number(x.weekday) === dow);
+  if (!h || h.closed || !h.open || !h.close) return null;
+  return { open: h.open, close: h.close };
+}
+
+/** Back-to-back slots of `slotMinutes` from open to close; a trailing partial slot is dropped. */
+export function generateSlots(courtId: number, open: string, close: string, slotMinutes: number): Slot[] {
+  const from = toMin(open);
+  const to = toMin(close);
+  const step = Math.max(1, Math.round(slotMinutes));
+  if (Number.isNaN(from) || Number.isNaN(to)) return [];
+
+  const slots: Slot[] = [];
+  for (let t = from; t + step <= to; t += step) {
+    slots.push({ courtId, start: fromMin(t), end: fromMin(t + step) });
+  }
+  return slots;
+}
+
+export function courtSlotsForDate(court: CourtInfo, date: string, holiday?: HolidayInfo | null): Slot[] {
+  const hours = hoursForDate(court, date, holiday);
+  if (!hours) return [];
+  return generateSlots(court.courtId, hours.open, hours.close, court.slotMinutes);
+}
+
+/** Bookable grid for a date: active courts with at least one slot. */
+export async function getCourtGrid(date: string): Promise<CourtGrid[]> {
+  const [courts, holiday] = await Promise.all([getCourtCatalog(), getHoliday(date)]);
+  return courts
+    .map((c) => ({ courtId: c.courtId, name: c.name, slots: courtSlotsForDate(c, date, holiday) }))
+    .filter((c) => c.slots.length > 0);
+}
+
+/**
+ * Requested slots that are not in the grid (unknown/inactive court, closed day or holiday,
+ * off-grid times) or that fall inside a court block.
+ */
+export async function findUnbookableSlots(date: string, slots: Slot[]): Promise<Slot[]> {
+  const [grid, blocks] = await Promise.all([getCourtGrid(date), blocksForDate(date)]);
+  const valid = new Set<string>();
+  for (const c of grid) for (const s of c.slots) valid.add(`${s.courtId}_${s.start}_${s.end}`);
+  return slots.filter(
+    (s) => !valid.has(`${Number(s.courtId)}_${s.start}_${s.end}`) || !!blockCovering(blocks, s)
+  );
+}
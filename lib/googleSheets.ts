@@ -1,5 +1,7 @@
 // lib/googleSheets.ts
 import { google } from "googleapis";
+import type { DiscountLine } from "@/models/Coupon";
+import { describeDiscount } from "@/lib/coupons";
 
 /** ──────────────────────────────────────────────────────────────────────
  * Env helpers
@@ -44,7 +46,7 @@ async function getSheets() {
  * Headers & general helpers
  * ──────────────────────────────────────────────────────────────────── */
 
-// Main header for bookings tab (A..L = 12 cols)
+// Main header for bookings tab (A..M = 13 cols)
 const HEADER = [
   "User Name",
   "Phone",
@@ -58,6 +60,7 @@ const HEADER = [
   "Who",
   "Actions",
   "Booking ID", // ⬅️ We will store orderId here
+  "Discount",   // coupon code and rupees off the whole booking
 ];
 
 // Cancellation header for Sheet 2 (audit-friendly) (A..P = 16 cols)
@@ -217,22 +220,28 @@ async function getOrCreateSecondTabSheetId(): Promise<number> {
  * ──────────────────────────────────────────────────────────────────── */
 
 /** Display like your table badge (re-usable across routes) */
-function formatPayment(paymentRef?: string, adminPaid?: boolean): string {
+/** Collected / outstanding amounts from the booking payment ledger */
+export type PaymentAmounts = { paid: number; due: number };
+
+function formatPayment(paymentRef?: string, adminPaid?: boolean, amounts?: PaymentAmounts): string {
   const refUpper = String(paymentRef || "").toUpperCase().trim();
+  // part-paid bookings carry the running totals, e.g. "UNPAID.CASH (paid 200, due 500)"
+  const suffix = amounts && amounts.due > 0 ? ` (paid ${amounts.paid}, due ${amounts.due})` : "";
 
-  if (!refUpper) return adminPaid ? "PAID" : "UNPAID";
-  if (refUpper.startsWith("PAID.") || refUpper.startsWith("UNPAID.")) return refUpper;
+  if (!refUpper) return `${adminPaid ? "PAID" : "UNPAID"}${suffix}`;
+  if (refUpper.startsWith("PAID.") || refUpper.startsWith("UNPAID.")) return `${refUpper}${suffix}`;
   if (refUpper === "MEMBERSHIP") return "PAID.MEMBERSHIP";
 
   // fallback – keep adminPaid in mind
-  return `${adminPaid ? "PAID" : "UNPAID"}.${refUpper}`;
+  return `${adminPaid ? "PAID" : "UNPAID"}.${refUpper}${suffix}`;
 }
 
 /**
  * Build one row per slot in the shape:
- * User Name | Phone | Date | Payment | Amount | Court ID | Start | End | Type | Who | Actions | Booking ID
+ * User Name | Phone | Date | Payment | Amount | Court ID | Start | End | Type | Who | Actions | Booking ID | Discount
  * - amount is per-slot (like your UI table)
  * - Booking ID column will store orderId (unique per booking)
+ * - Discount repeats the booking's coupon line on each of its rows
  */
 export function bookingToRows(input: {
   userName: string;
@@ -241,10 +250,11 @@ export function bookingToRows(input: {
   paymentRef?: string;
   adminPaid?: boolean;
   totalAmount?: number | null; // total for the whole booking
-  slots: { courtId: number; start: string; end: string }[];
+  slots: { courtId: number; start: string; end: string; price?: number }[];
   bookingType: "Normal" | "Special" | "Individual";
   who: "member" | "user" | "guest";
   bookingId?: string; // ⬅️ We pass orderId here
+  discount?: DiscountLine | null;
 }) {
   const perSlot =
     typeof input.totalAmount === "number" && input.slots.length > 0
@@ -252,13 +262,14 @@ export function bookingToRows(input: {
       : input.totalAmount ?? "";
 
   const pay = formatPayment(input.paymentRef, input.adminPaid);
+  const discount = describeDiscount(input.discount);
 
   const rows: (string | number)[][] = input.slots.map((s) => [
     input.userName || "—",                // User Name
     input.phone || "",                    // Phone
     input.date,                           // Date
     pay,                                  // Payment
-    perSlot === "" ? "" : perSlot,        // Amount (per-slot)
+    typeof s.price === "number" ? s.price : perSlot, // Amount (per-slot; slot price when known)
     s.courtId ?? "",                      // Court ID
     s.start || "",                        // Start
     s.end || "",                          // End
@@ -266,6 +277,7 @@ export function bookingToRows(input: {
     input.who,                            // Who
     "",                                   // Actions (blank)
     input.bookingId || "",                // Booking ID (orderId)
+    discount,                             // Discount
   ]);
 
   // If somehow no slots were passed, still push a single summary row
@@ -283,13 +295,14 @@ export function bookingToRows(input: {
       input.who,
       "",
       input.bookingId || "",
+      discount,
     ]);
   }
 
   return rows;
 }
 
-/** Append rows under header. Each row must have HEADER.length columns (A..L). */
+/** Append rows under header. Each row must have HEADER.length columns (A..M). */
 export async function appendRows(rows: (string | number | null | undefined)[][]) {
   if (!rows?.length) return;
 
@@ -323,11 +336,13 @@ export async function appendRows(rows: (string | number | null | undefined)[][])
 /**
  * Update the Payment cell for a given booking key (orderId) in the main bookings tab.
  * Looks up the row by "Booking ID" column and updates the "Payment" column.
+ * Pass `amounts` to show paid / due for a part-paid booking.
  */
 export async function updateBookingPaymentById(
   bookingKey: string,           // we pass orderId here
   paymentRef?: string,
-  adminPaid?: boolean
+  adminPaid?: boolean,
+  amounts?: PaymentAmounts
 ) {
   if (!bookingKey) return;
 
@@ -367,7 +382,7 @@ export async function updateBookingPaymentById(
   // If not found, nothing to update
   if (rowIndex === -1) return;
 
-  const pay = formatPayment(paymentRef, adminPaid);
+  const pay = formatPayment(paymentRef, adminPaid, amounts);
   const range = `${sheetName}!${paymentColLetter}${rowIndex}`;
 
   await sheets.spreadsheets.values.update({
@@ -378,6 +393,60 @@ export async function updateBookingPaymentById(
   });
 }
 
+/**
+ * Rewrite the Amount / Court ID / Start / End cells of one slot row (slot move).
+ * The row is found by "Booking ID" (orderId) + the slot's old Court ID and Start.
+ */
+export async function updateBookingSlotById(
+  bookingKey: string,           // orderId
+  from: { courtId: number; start: string },
+  to: { courtId: number; start: string; end: string; amount?: number | null }
+) {
+  if (!bookingKey) return;
+
+  await ensureMainHeader();
+
+  const sheets = await getSheets();
+  const spreadsheetId = SHEET_ID();
+  const sheetName = TAB_NAME();
+
+  const idCol = HEADER.indexOf("Booking ID");
+  const amountCol = HEADER.indexOf("Amount");
+  const courtCol = HEADER.indexOf("Court ID");
+  const startCol = HEADER.indexOf("Start");
+  const endCol = HEADER.indexOf("End");
+  if ([idCol, amountCol, courtCol, startCol, endCol].some((i) => i < 0)) return;
+
+  const read = await sheets.spreadsheets.values.get({
+    spreadsheetId,
+    range: `${sheetName}!A:${toA1Col(HEADER.length)}`,
+  });
+  const values = read.data.values || [];
+
+  let rowIndex = -1;
+  for (let i = 1; i < values.length; i++) {
+    const r = values[i] || [];
+    if (
+      String(r[idCol] ?? "").trim() === bookingKey &&
+      String(r[courtCol] ?? "").trim() === String(from.courtId) &&
+      String(r[startCol] ?? "").trim() === from.start
+    ) {
+      rowIndex = i + 1; // 1-based
+      break;
+    }
+  }
+  if (rowIndex === -1) return;
+
+  // Amount..End are adjacent (E:H) in HEADER
+  const range = `${sheetName}!${toA1Col(amountCol + 1)}${rowIndex}:${toA1Col(endCol + 1)}${rowIndex}`;
+  await sheets.spreadsheets.values.update({
+    spreadsheetId,
+    range,
+    valueInputOption: "USER_ENTERED",
+    requestBody: { values: [[to.amount ?? "", to.courtId, to.start, to.end]] },
+  });
+}
+
 /** ──────────────────────────────────────────────────────────────────────
  * Public API — Cancellations (Sheet 2)
  * ──────────────────────────────────────────────────────────────────── */
@@ -0,0 +1,53 @@
+// lib/holidays.ts
+import { HolidayModel, type HolidayKind } from "@/models/Holiday";
+
+export type HolidayInfo = {
+  date: string;
+  name: string;
+  kind: HolidayKind;
+  open?: string;
+  close?: string;
+};
+
+export const HOLIDAY_KINDS: HolidayKind[] = ["premium", "closed", "special_hours"];
+
+export async function getHoliday(date: string): Promise<HolidayInfo | null> {
+  if (!date) return null;
+  const Holiday = await HolidayModel();
+  const h = await Holiday.findOne({ date }).select({ date: 1, name: 1, kind: 1, open: 1, close: 1 }).lean<HolidayInfo | null>();
+  return h ? { date: h.date, name: h.name, kind: h.kind, open: h.open, close: h.close } : null;
+}
+
+/** Holidays with from <= date <= to (both optional), oldest first. */
+export async function listHolidays(from?: string, to?: string): Promise<HolidayInfo[]> {
+  const Holiday = await HolidayModel();
+  const range: Record<string, string> = {};
+  if (from) range.$gte = from;
+  if (to) range.$lte = to;
+  return Holiday.find(Object.keys(range).length ? { date: range } : {})
+    .sort({ date: 1 })
+    .lean<HolidayInfo[]>();
+}
+
+function isHHmm(v: unknown) {
+  return typeof v === "string" && /^\d{2}:\d{2}$/.test(v);
+}
+
+/** Validate a create (or, with `partial`, update) payload; returns an error message or null. */
+export function validateHolidayBody(b: any, partial = false): string | null {
+  if (!b || typeof b !== "object") return "Invalid body";
+  if (!partial || "date" in b) {
+    if (typeof b.date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(b.date)) return "date must be YYYY-MM-DD";
+  }
+  if (!partial || "name" in b) {
+    if (!String(b.name || "").trim()) return "Missing field: name";
+  }
+  if (!partial || "kind" in b) {
+    if (!HOLIDAY_KINDS.includes(b.kind)) return "Invalid kind";
+  }
+  if (b.kind === "special_hours") {
+    if (!isHHmm(b.open) || !isHHmm(b.close)) return "open/close (HH:mm) are required for special hours";
+    if (b.open >= b.close) return "open must be before close";
+  }
+  return null;
+}
@@ -0,0 +1,94 @@
+// lib/idempotency.ts
+import { createHash } from "crypto";
+import { NextResponse } from "next/server";
+import { IdempotencyKeyModel } from "@/models/IdempotencyKey";
+
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+const PENDING_LEASE_MS = 2 * 60 * 1000; // a "pending" key older than this was left by a crashed attempt
+const MAX_KEY_LENGTH = 200;
+
+/**
+ * Run a create handler at most once per `Idempotency-Key`. A successful (2xx) response is
+ * stored and replayed for retries with the same key and body; a retry while the first is
+ * still running gets 409. Errors (4xx, 5xx or a thrown handler) release the key, since they
+ * depend on state that may have changed by the next attempt. A "pending" key older than
+ * the lease is taken over. Requests without the header run as before.
+ */
+export async function withIdempotency(
+  req: Request,
+  scope: string,
+  handler: () => Promise<Response>
+): Promise<Response> {
+  const key = (req.headers.get(IDEMPOTENCY_HEADER) || "").trim();
+  if (!key) return handler();
+  if (key.length > MAX_KEY_LENGTH) {
+    return NextResponse.json({ error: `${IDEMPOTENCY_HEADER} is too long` }, { status: 400 });
+  }
+
+  const requestHash = createHash("sha256").update(await req.clone().text()).digest("hex");
+  const Idem = await IdempotencyKeyModel();
+
+  try {
+    await Idem.create({ scope, key, requestHash, state: "pending", expiresAt: new Date(Date.now() + KEY_TTL_MS) });
+  } catch (e: unknown) {
+    if ((e as { code?: number })?.code !== 11000) throw e;
+
+    const prior = await Idem.findOne({ scope, key }).lean<{
+      requestHash: string;
+      state: "pending" | "done";
+      responseStatus?: number;
+      responseBody?: unknown;
+      updatedAt: Date;
+    } | null>();
+    // expired between the insert and the read: treat as a clash and let the client retry
+    if (!prior) {
+      return NextResponse.json({ error: "This request is already being processed" }, { status: 409 });
+    }
+    if (prior.state === "pending") {
+      const staleBefore = new Date(Date.now() - PENDING_LEASE_MS);
+      const taken =
+        new Date(prior.updatedAt) <= staleBefore &&
+        (await Idem.updateOne(
+          { scope, key, state: "pending", updatedAt: { $lte: staleBefore } },
+          { $set: { requestHash, expiresAt: new Date(Date.now() + KEY_TTL_MS) } }
+        )).modifiedCount > 0;
+      if (!taken) {
+        return NextResponse.json({ error: "This request is already being processed" }, { status: 409 });
+      }
+      return runAndStore(scope, key, handler);
+    }
+    if (prior.requestHash !== requestHash) {
+      return NextResponse.json(
+        { error: `${IDEMPOTENCY_HEADER} was already used for a different request` },
+        { status: 422 }
+      );
+    }
+    return NextResponse.json(prior.responseBody ?? {}, {
+      status: prior.responseStatus ?? 200,
+      headers: { "Idempotent-Replayed": "true" },
+    });
+  }
+
+  return runAndStore(scope, key, handler);
+}
+
+/** Run the handler for a claimed key: store a success for replay, release the key otherwise. */
+async function runAndStore(scope: string, key: string, handler: () => Promise<Response>): Promise<Response> {
+  const Idem = await IdempotencyKeyModel();
+  let res: Response;
+  try {
+    res = await handler();
+  } catch (e) {
+    await Idem.deleteOne({ scope, key });
+    throw e;
+  }
+
+  if (res.status >= 400) {
+    await Idem.deleteOne({ scope, key });
+    return res;
+  }
+  const body = await res.clone().json().catch(() => ({}));
+  await Idem.updateOne({ scope, key }, { $set: { state: "done", responseStatus: res.status, responseBody: body } });
+  return res;
+}
@@ -0,0 +1,84 @@
+// lib/membershipCredits.ts
+import { MembershipModel, type CreditEntry, type MembershipDoc } from "@/models/Membership";
+import { UserModel } from "@/models/User";
+
+export type CreditHistoryItem = CreditEntry & {
+  membershipId: string;
+  planId: string;
+  planName: string;
+};
+
+export type MembershipCreditSummary = {
+  membershipId: string;
+  planId: string;
+  planName: string;
+  status: string;
+  validFrom?: string;
+  validTo?: string;
+  games: number;
+  gamesUsed: number;
+  logged: number; // credits used according to the ledger (older bookings predate it)
+};
+
+export type CreditHistory = {
+  member: { userId: string; name?: string; email?: string; memberId?: string };
+  memberships: MembershipCreditSummary[];
+  items: CreditHistoryItem[];
+};
+
+type MembershipLean = Pick<
+  MembershipDoc,
+  "planId" | "planName" | "status" | "validFrom" | "validTo" | "games" | "gamesUsed" | "creditLog"
+> & { _id: unknown };
+
+/**
+ * Every credit movement for one member across all their memberships (renewals
+ * included), newest first, plus a per-membership summary. Look up by users._id
+ * or email; null when the user doesn't exist.
+ */
+export async function memberCreditHistory(q: { userId?: string; email?: string }): Promise<CreditHistory | null> {
+  const User = await UserModel();
+  const email = String(q.email || "").trim().toLowerCase();
+  const user = q.userId
+    ? await User.findById(q.userId).select({ name: 1, email: 1, memberId: 1 }).lean()
+    : email
+      ? await User.findOne({ email }).select({ name: 1, email: 1, memberId: 1 }).lean()
+      : null;
+  if (!user) return null;
+  const userId = String(user._id);
+
+  const Membership = await MembershipModel();
+  const rows = await Membership.find({ userId })
+    .select({ planId: 1, planName: 1, status: 1, validFrom: 1, validTo: 1, games: 1, gamesUsed: 1, creditLog: 1 })
+    .sort({ createdAt: -1 })
+    .lean<MembershipLean[]>();
+
+  const memberships: MembershipCreditSummary[] = rows.map((m) => ({
+    membershipId: String(m._id),
+    planId: m.planId,
+    planName: m.planName,
+    status: m.status,
+    validFrom: m.validFrom,
+    validTo: m.validTo,
+    games: m.games,
+    gamesUsed: m.gamesUsed,
+    logged: -(m.creditLog || []).reduce((n, e) => n + e.delta, 0),
+  }));
+
+  const items: CreditHistoryItem[] = rows
+    .flatMap((m) =>
+      (m.creditLog || []).map((e) => ({
+        ...e,
+        membershipId: String(m._id),
+        planId: m.planId,
+        planName: m.planName,
+      }))
+    )
+    .sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime());
+
+  return {
+    member: { userId, name: user.name, email: user.email, memberId: user.memberId },
+    memberships,
+    items,
+  };
+}
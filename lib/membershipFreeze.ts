@@ -0,0 +1,117 @@
+// lib/membershipFreeze.ts
+import {
+  MembershipModel,
+  backfillValidity,
+  addDays,
+  type MembershipDoc,
+  type MembershipFreeze,
+} from "@/models/Membership";
+import { BookingModel } from "@/models/Booking";
+import { getPlanCatalog } from "@/lib/membershipPlans";
+
+export type FreezeInput = { from?: unknown; to?: unknown; reason?: unknown };
+
+export type FreezeResult =
+  | { ok: true; freeze: MembershipFreeze; validTo: string; freezeDaysLeft: number }
+  | { ok: false; status: number; error: string };
+
+const isYmd = (s: unknown): s is string => typeof s === "string" && /^\d{4}-\d{2}-\d{2}$/.test(s);
+
+/** Days in an inclusive YYYY-MM-DD range */
+function spanDays(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000) + 1;
+}
+
+/**
+ * Freeze allowance for a membership: the snapshot it was sold under, else
+ * (memberships sold before the catalog) whatever its plan allows today.
+ */
+async function allowanceFor(m: Pick<MembershipDoc, "planId" | "planTerms">): Promise<number> {
+  if (typeof m.planTerms?.maxFreezeDays === "number") return m.planTerms.maxFreezeDays;
+  const plan = (await getPlanCatalog({ includeInactive: true })).find((p) => p.planId === m.planId);
+  return plan?.maxFreezeDays ?? 0;
+}
+
+/**
+ * Pause a PAID membership from `from` to `to` (club dates, inclusive). Credits
+ * can't be used on those days, and validTo moves out by the same number of days.
+ * The freeze must sit inside the current validity window, not overlap an earlier
+ * one, not cover days the member already booked, and fit the plan's allowance.
+ */
+export async function freezeMembership(id: string, input: FreezeInput): Promise<FreezeResult> {
+  const { from, to } = input;
+  if (!isYmd(from) || !isYmd(to)) return { ok: false, status: 400, error: "from and to must be YYYY-MM-DD" };
+  if (from > to) return { ok: false, status: 400, error: "from must be on or before to" };
+  const reason = String(input.reason || "").trim();
+
+  const Membership = await MembershipModel();
+  await backfillValidity({ _id: id });
+  const m = await Membership.findById(id).lean<MembershipDoc | null>();
+  if (!m) return { ok: false, status: 404, error: "Membership not found" };
+  if (m.status !== "PAID" || !m.validFrom || !m.validTo) {
+    return { ok: false, status: 409, error: "Only paid, unexpired memberships can be frozen" };
+  }
+  if (from < m.validFrom || from > m.validTo) {
+    return { ok: false, status: 400, error: `Freeze must start between ${m.validFrom} and ${m.validTo}` };
+  }
+
+  const freezes = m.freezes || [];
+  const clash = freezes.find((f) => f.from <= to && from <= f.to);
+  if (clash) return { ok: false, status: 409, error: `Overlaps the freeze ${clash.from} to ${clash.to}` };
+
+  const days = spanDays(from, to);
+  const allowed = await allowanceFor(m);
+  const used = freezes.reduce((n, f) => n + f.days, 0);
+  if (used + days > allowed) {
+    return {
+      ok: false,
+      status: 400,
+      error: allowed
+        ? `Plan allows ${allowed} freeze days; ${used} used, ${allowed - used} left`
+        : "This plan can't be frozen",
+    };
+  }
+
+  // Days already booked on credits would otherwise be both played and refunded as time.
+  // Older bookings may carry only one of userId/userEmail; a cancelled booking is deleted,
+  // or left without slots, so only bookings that still hold a slot count.
+  const Booking = await BookingModel();
+  const booked = await Booking.find({
+    $or: [{ userId: m.userId }, { userEmail: m.userEmail }],
+    paymentRef: "MEMBERSHIP",
+    date: { $gte: from, $lte: to },
+    "slots.0": { $exists: true },
+  })
+    .select({ date: 1 })
+    .sort({ date: 1 })
+    .lean<{ date: string }[]>();
+  if (booked.length) {
+    const dates = Array.from(new Set(booked.map((b) => b.date)));
+    return { ok: false, status: 409, error: `Member has bookings on ${dates.join(", ")}; cancel them first` };
+  }
+
+  const freeze: MembershipFreeze = {
+    from,
+    to,
+    days,
+    ...(reason ? { reason } : {}),
+    validToBefore: m.validTo,
+    createdAt: new Date(),
+  };
+  const validTo = addDays(m.validTo, days);
+
+  // validTo in the filter guards against two freezes being saved at once
+  const updated = await Membership.findOneAndUpdate(
+    { _id: id, status: "PAID", validTo: m.validTo },
+    { $push: { freezes: freeze }, $set: { validTo } },
+    { new: true }
+  ).lean();
+  if (!updated) return { ok: false, status: 409, error: "Membership changed meanwhile; try again" };
+
+  return { ok: true, freeze, validTo, freezeDaysLeft: allowed - used - days };
+}
+
+/** Freeze covering `date`, if any */
+export function activeFreeze(freezes: MembershipFreeze[] | undefined, date: string): MembershipFreeze | null {
+  return (freezes || []).find((f) => f.from <= date && date <= f.to) || null;
+}
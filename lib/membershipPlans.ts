@@ -0,0 +1,154 @@
+// lib/membershipPlans.ts
+import { MembershipPlanModel, type PlanWindow } from "@/models/MembershipPlan";
+import type { PlanTerms } from "@/models/Membership";
+
+export type PlanInfo = {
+  planId: string;
+  name: string;
+  durationMonths: number;
+  games: number;
+  price: number;
+  childPrice?: number;
+  courtIds: number[];
+  windows: PlanWindow[];
+  active: boolean;
+  sortOrder: number;
+  maxFreezeDays?: number; // unset = not configured, so the plan can't be frozen
+};
+
+type Slot = { courtId: number; start: string; end: string };
+
+/** What the club sold before plans were configurable (prices from the old desk form). */
+const FALLBACK_PLANS: PlanInfo[] = [
+  { planId: "1M", name: "1 month", durationMonths: 1, games: 25, price: 3000, childPrice: 2500, courtIds: [], windows: [], active: true, sortOrder: 1 },
+  { planId: "3M", name: "3 months", durationMonths: 3, games: 75, price: 8000, courtIds: [], windows: [], active: true, sortOrder: 2 },
+  { planId: "6M", name: "6 months", durationMonths: 6, games: 150, price: 16000, courtIds: [], windows: [], active: true, sortOrder: 3 },
+];
+
+function toMin(hhmm: string) {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(String(hhmm || "").trim());
+  if (!m) return NaN;
+  return Number(m[1]) * 60 + Number(m[2]);
+}
+
+export function normalizePlanId(v: unknown): string {
+  return String(v || "").trim().toUpperCase();
+}
+
+/**
+ * All plans sorted for display. Until the first plan is saved the collection is
+ * empty and the old 1M / 3M / 6M plans are served, so the desk keeps selling.
+ */
+export async function getPlanCatalog(opts: { includeInactive?: boolean } = {}): Promise<PlanInfo[]> {
+  const Plan = await MembershipPlanModel();
+  const docs = await Plan.find({}).sort({ sortOrder: 1, durationMonths: 1 }).lean<PlanInfo[]>();
+  const plans = docs.length ? docs : FALLBACK_PLANS;
+  return plans
+    .filter((p) => opts.includeInactive || p.active)
+    .map((p) => ({
+      planId: p.planId,
+      name: p.name,
+      durationMonths: Number(p.durationMonths),
+      games: Number(p.games),
+      price: Number(p.price) || 0,
+      ...(typeof p.childPrice === "number" ? { childPrice: p.childPrice } : {}),
+      courtIds: Array.isArray(p.courtIds) ? p.courtIds : [],
+      windows: Array.isArray(p.windows) ? p.windows : [],
+      active: p.active !== false,
+      sortOrder: Number(p.sortOrder) || 0,
+      ...(typeof p.maxFreezeDays === "number" ? { maxFreezeDays: p.maxFreezeDays } : {}),
+    }));
+}
+
+/** An active plan by code, or null. */
+export async function findPlan(planId: string): Promise<PlanInfo | null> {
+  const id = normalizePlanId(planId);
+  return (await getPlanCatalog()).find((p) => p.planId === id) || null;
+}
+
+/**
+ * Store the fallback plans the first time an admin edits the catalog, so editing
+ * one plan doesn't make the other two disappear.
+ */
+export async function ensurePlansSeeded() {
+  const Plan = await MembershipPlanModel();
+  if (await Plan.estimatedDocumentCount()) return;
+  await Plan.insertMany(FALLBACK_PLANS);
+}
+
+/** The terms a membership is sold under; copied onto the membership. */
+export function planTerms(p: PlanInfo, price: number): PlanTerms {
+  return {
+    name: p.name,
+    durationMonths: p.durationMonths,
+    games: p.games,
+    price,
+    courtIds: [...p.courtIds],
+    windows: p.windows.map((w) => ({ from: w.from, to: w.to })),
+    maxFreezeDays: p.maxFreezeDays,
+  };
+}
+
+/** Why a membership's terms don't cover these slots, or null when they do. */
+export function slotsOutsideTerms(terms: Pick<PlanTerms, "courtIds" | "windows"> | undefined, slots: Slot[]): string | null {
+  if (!terms) return null; // sold before plans carried terms: no restriction
+  for (const s of slots) {
+    if (terms.courtIds?.length && !terms.courtIds.includes(Number(s.courtId))) {
+      return `Membership does not cover court ${s.courtId}`;
+    }
+    if (terms.windows?.length) {
+      const st = toMin(s.start), en = toMin(s.end);
+      const inside = terms.windows.some((w) => st >= toMin(w.from) && en <= toMin(w.to));
+      if (!inside) {
+        const hours = terms.windows.map((w) => `${w.from}–${w.to}`).join(", ");
+        return `Membership only covers ${hours} (slot ${s.start}–${s.end})`;
+      }
+    }
+  }
+  return null;
+}
+
+function isHHmm(v: unknown) {
+  return typeof v === "string" && /^\d{2}:\d{2}$/.test(v);
+}
+
+const isPositiveInt = (v: unknown) => Number.isInteger(v) && (v as number) >= 1;
+
+/** Validate a create (or, with `partial`, update) payload; returns an error message or null. */
+export function validatePlanBody(b: any, partial = false): string | null {
+  if (!b || typeof b !== "object") return "Invalid body";
+  if (!partial || "planId" in b) {
+    if (!/^[A-Z0-9_-]{1,16}$/.test(normalizePlanId(b.planId))) return "planId must be 1-16 letters, digits, - or _";
+  }
+  if (!partial || "name" in b) {
+    if (!String(b.name || "").trim()) return "Missing field: name";
+  }
+  if (!partial || "durationMonths" in b) {
+    if (!isPositiveInt(b.durationMonths)) return "durationMonths must be a whole number >= 1";
+  }
+  if (!partial || "games" in b) {
+    if (!isPositiveInt(b.games)) return "games must be a whole number >= 1";
+  }
+  if (!partial || "price" in b) {
+    if (typeof b.price !== "number" || !Number.isFinite(b.price) || b.price < 0) return "price must be a number >= 0";
+  }
+  if (b.childPrice != null && (typeof b.childPrice !== "number" || !Number.isFinite(b.childPrice) || b.childPrice < 0)) {
+    return "childPrice must be a number >= 0";
+  }
+  if (b.maxFreezeDays != null && (!Number.isInteger(b.maxFreezeDays) || b.maxFreezeDays < 0)) {
+    return "maxFreezeDays must be a whole number >= 0";
+  }
+  if ("courtIds" in b) {
+    if (!Array.isArray(b.courtIds) || b.courtIds.some((c: unknown) => !Number.isInteger(c))) {
+      return "courtIds must be a list of court numbers";
+    }
+  }
+  if ("windows" in b) {
+    if (!Array.isArray(b.windows)) return "windows must be a list";
+    for (const w of b.windows) {
+      if (!isHHmm(w?.from) || !isHHmm(w?.to)) return "Each window needs from/to as HH:MM";
+      if (w.from >= w.to) return "Window from must be before to";
+    }
+  }
+  return null;
+}
@@ -3,6 +3,7 @@ import { google } from "googleapis";
 import type { sheets_v4, drive_v3 } from "googleapis";
 import { UserModel } from "@/models/User";
 import { MembershipModel, type MembershipDoc } from "@/models/Membership";
+import { describeDiscount } from "@/lib/coupons";
 
 const SHEET_TITLE = "Membership Details"; // preferred tab name
 
@@ -20,6 +21,8 @@ const HEADER = [
   "Games Used",
   "Games Total",
   "Status",
+  "Discount",
+  "Freezes",
 ] as const;
 
 type HeaderKey = (typeof HEADER)[number];
@@ -83,8 +86,11 @@ function rowFrom(
   m: MembershipDoc,
   opts: { aadhar?: string; userPhone?: string }
 ): Record<HeaderKey, string> {
-  const start = m.createdAt;
-  const end = addMonths(new Date(m.createdAt), m.durationMonths);
+  // stored validity window when present, else the legacy createdAt + duration
+  const start = m.validFrom ? new Date(`${m.validFrom}T12:00:00+05:30`) : m.createdAt;
+  const end = m.validTo
+    ? new Date(`${m.validTo}T12:00:00+05:30`)
+    : addMonths(new Date(m.createdAt), m.durationMonths);
   return {
     "Aadhar Number": opts.aadhar || "",
     "Member ID": m.memberId || "",
@@ -98,6 +104,8 @@ function rowFrom(
     "Games Used": String(m.gamesUsed ?? 0),
     "Games Total": String(m.games ?? 0),
     Status: m.status,
+    Discount: describeDiscount(m.discount),
+    Freezes: (m.freezes || []).map((f) => `${f.from}→${f.to} (${f.days}d)`).join(", "),
   };
 }
 
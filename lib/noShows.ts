@@ -0,0 +1,87 @@
+// lib/noShows.ts
+import { BookingModel } from "@/models/Booking";
+import { GuestBookingModel } from "@/models/GuestBooking";
+import { clubToday } from "@/models/Membership";
+import { addDaysYMD } from "@/lib/courts";
+
+export type NoShowEntry = {
+  bookingId: string;
+  source: "bookings" | "guest_bookings";
+  date: string;
+  courtId: number;
+  start: string;
+  end: string;
+  userName?: string;
+};
+
+/** Who a history is for: members/users by email, guests by phone. */
+export type PlayerKey = { userEmail?: string; phone?: string };
+
+type SlotLean = { courtId: number; start: string; end: string; attendance?: string };
+type NoShowLean = { _id: unknown; date: string; userName?: string; slots?: SlotLean[] };
+
+/**
+ * Repeat no-show policy from env: after NO_SHOW_BLOCK_AFTER no-shows (0 = off) within the
+ * last NO_SHOW_WINDOW_DAYS days (default 90) a player can only be booked paid up-front.
+ */
+export function noShowPolicy() {
+  const after = Number(process.env.NO_SHOW_BLOCK_AFTER || 0);
+  const days = Number(process.env.NO_SHOW_WINDOW_DAYS || 90);
+  return {
+    blockAfter: Number.isFinite(after) && after > 0 ? Math.floor(after) : 0,
+    windowDays: Number.isFinite(days) && days > 0 ? Math.floor(days) : 90,
+  };
+}
+
+/** No-show slots for a player across bookings and guest bookings, newest first. */
+export async function noShowHistory(key: PlayerKey, opts: { since?: string } = {}): Promise<NoShowEntry[]> {
+  const email = key.userEmail?.trim().toLowerCase();
+  const phone = key.phone?.trim();
+  if (!email && !phone) return [];
+
+  const Booking = await BookingModel();
+  const GuestBooking = await GuestBookingModel();
+
+  const base: Record<string, unknown> = { "slots.attendance": "no_show" };
+  if (opts.since) base.date = { $gte: opts.since };
+
+  const [docsA, docsG] = await Promise.all([
+    Booking.find({ ...base, $or: [...(email ? [{ userEmail: email }] : []), ...(phone ? [{ userPhone: phone }] : [])] })
+      .select({ date: 1, userName: 1, slots: 1 })
+      .lean<NoShowLean[]>(),
+    phone
+      ? GuestBooking.find({ ...base, $or: [{ phone_number: phone }, { guestPhone: phone }] })
+          .select({ date: 1, userName: 1, slots: 1 })
+          .lean<NoShowLean[]>()
+      : Promise.resolve([] as NoShowLean[]),
+  ]);
+
+  const flatten = (source: NoShowEntry["source"], docs: NoShowLean[]) =>
+    docs.flatMap((b) =>
+      (b.slots || [])
+        .filter((s) => s.attendance === "no_show")
+        .map((s) => ({
+          bookingId: String(b._id),
+          source,
+          date: b.date,
+          courtId: s.courtId,
+          start: s.start,
+          end: s.end,
+          userName: b.userName,
+        }))
+    );
+
+  return [...flatten("bookings", docsA), ...flatten("guest_bookings", docsG)].sort((a, b) =>
+    a.date === b.date ? b.start.localeCompare(a.start) : b.date.localeCompare(a.date)
+  );
+}
+
+/** Error message when the no-show policy bars a pending (pay-later) booking, else null. */
+export async function pendingBookingBlockedReason(key: PlayerKey): Promise<string | null> {
+  const { blockAfter, windowDays } = noShowPolicy();
+  if (!blockAfter) return null;
+
+  const history = await noShowHistory(key, { since: addDaysYMD(clubToday(), -windowDays) });
+  if (history.length < blockAfter) return null;
+  return `${history.length} no-shows in the last ${windowDays} days – this player must pay up-front`;
+}
@@ -0,0 +1,265 @@
+// lib/offerRedemptions.ts
+import { OfferRedemptionModel, type OfferRedemptionDoc } from "@/models/OfferRedemption";
+import { quoteSlots } from "@/lib/pricing";
+
+type Slot = { courtId: number; start: string; end: string };
+
+export type OfferCaps = { maxRedemptions?: number; maxPerUser?: number; maxPerDay?: number };
+
+export type OfferCustomer = { userEmail?: string; phone?: string };
+
+export type RedemptionInput = {
+  offerId: string;
+  bookingId: string;
+  source: "bookings" | "guest_bookings";
+  orderId?: string;
+  date: string;
+  who: "member" | "user" | "guest";
+  userName?: string;
+  userEmail?: string;
+  phone?: string;
+  slots: Slot[];
+  ruleLabel?: string;
+  amount: number;
+  currency?: string;
+};
+
+/** A redemption held before its booking exists */
+export type RedemptionHold = Omit<RedemptionInput, "bookingId" | "source">;
+
+export type RedemptionHoldResult = { ok: true; id: string } | { ok: false; error: string };
+
+export type RedemptionSummary = {
+  redemptions: number; // live bookings
+  cancelled: number;
+  slots: number;
+  revenue: number;
+  discount: number;
+};
+
+type RedemptionLean = Pick<
+  OfferRedemptionDoc,
+  "bookingId" | "source" | "date" | "who" | "userName" | "userEmail" | "phone" | "slots" | "ruleLabel" | "amount" | "listPrice" | "discount" | "currency" | "cancelledAt" | "createdAt"
+> & { _id: unknown };
+
+const LIVE = { cancelledAt: { $exists: false } };
+const CONFIRMED = { bookingId: { $exists: true } };
+
+/** How long a held redemption waits for its booking to be saved */
+const HOLD_MS = 15 * 60_000;
+
+const CAP_KEYS = ["maxRedemptions", "maxPerUser", "maxPerDay"] as const;
+
+/** Caps are whole numbers; null / missing means unlimited. */
+export function validateOfferCaps(b: any): string | null {
+  for (const k of CAP_KEYS) {
+    const v = b?.[k];
+    if (v == null) continue;
+    if (!Number.isInteger(v) || v < 0) return `${k} must be a whole number >= 0`;
+  }
+  return null;
+}
+
+/** Members / users are counted by email, guests by phone. */
+function customerFilter(c: OfferCustomer): Record<string, unknown> | null {
+  const email = String(c.userEmail || "").trim().toLowerCase();
+  if (email) return { userEmail: email };
+  const phone = String(c.phone || "").trim();
+  return phone ? { phone } : null;
+}
+
+/**
+ * Which cap (if any) `extra` more bookings would break; null when the offer can still be
+ * used. Counts include held redemptions, so a hold checks itself with `extra` 0.
+ */
+export async function offerCapReached(
+  offerId: string,
+  caps: OfferCaps,
+  date: string,
+  customer: OfferCustomer,
+  extra = 1
+): Promise<string | null> {
+  const Redemption = await OfferRedemptionModel();
+
+  if (caps.maxRedemptions && caps.maxRedemptions > 0) {
+    const used = await Redemption.countDocuments({ offerId, ...LIVE });
+    if (used + extra > caps.maxRedemptions) return `Offer fully redeemed (${caps.maxRedemptions} bookings)`;
+  }
+  if (caps.maxPerDay && caps.maxPerDay > 0) {
+    const used = await Redemption.countDocuments({ offerId, date, ...LIVE });
+    if (used + extra > caps.maxPerDay) return `Offer limit for ${date} reached (${caps.maxPerDay} bookings)`;
+  }
+  const who = customerFilter(customer);
+  if (caps.maxPerUser && caps.maxPerUser > 0 && who) {
+    const used = await Redemption.countDocuments({ offerId, ...who, ...LIVE });
+    if (used + extra > caps.maxPerUser) {
+      const prior = used + extra - 1;
+      return `This player has already used the offer ${prior} time${prior === 1 ? "" : "s"}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Hold one use of an offer for a booking about to be saved. The hold is written first and
+ * the caps counted after, so of two bookings racing for the last use the later count sees
+ * both and the cap is never overshot (at worst both are turned away). Confirm it with
+ * `confirmOfferRedemption` once the booking exists, or `releaseOfferRedemption` if it isn't.
+ * The list price is what the slots cost on the regular court pricing that day, so the
+ * discount shows what the offer gave away.
+ */
+export async function reserveOfferRedemption(input: RedemptionHold, caps: OfferCaps): Promise<RedemptionHoldResult> {
+  const listPrice = input.who === "member" ? 0 : (await quoteSlots(input.date, input.slots, "court")).total;
+  const Redemption = await OfferRedemptionModel();
+  const held = await Redemption.create({
+    offerId: input.offerId,
+    orderId: input.orderId,
+    date: input.date,
+    who: input.who,
+    userName: input.userName,
+    userEmail: input.userEmail ? input.userEmail.toLowerCase() : undefined,
+    phone: input.phone,
+    slots: input.slots.length,
+    ruleLabel: input.ruleLabel,
+    amount: input.amount,
+    listPrice,
+    discount: Math.max(0, listPrice - input.amount),
+    currency: input.currency || "INR",
+    expiresAt: new Date(Date.now() + HOLD_MS),
+  });
+  const id = String(held._id);
+
+  const capped = await offerCapReached(input.offerId, caps, input.date, input, 0);
+  if (capped) {
+    await releaseOfferRedemption(id);
+    return { ok: false, error: capped };
+  }
+  return { ok: true, id };
+}
+
+/** Tie a held redemption to the booking it paid for; it no longer expires. */
+export async function confirmOfferRedemption(
+  id: string,
+  ref: Pick<RedemptionInput, "bookingId" | "source" | "phone">
+): Promise<void> {
+  const Redemption = await OfferRedemptionModel();
+  const res = await Redemption.updateOne(
+    { _id: id },
+    {
+      $set: { bookingId: ref.bookingId, source: ref.source, ...(ref.phone ? { phone: ref.phone } : {}) },
+      $unset: { expiresAt: 1 },
+    }
+  );
+  if (!res.matchedCount) console.error(`Offer redemption ${id} expired before booking ${ref.bookingId} was saved`);
+}
+
+/** Drop a held redemption (its booking wasn't saved). */
+export async function releaseOfferRedemption(id: string): Promise<void> {
+  const Redemption = await OfferRedemptionModel();
+  await Redemption.deleteOne({ _id: id, bookingId: { $exists: false } });
+}
+
+/** Bookings gone (fully cancelled / cleared) → their redemptions stop counting. */
+export async function voidOfferRedemptions(bookingIds: string[]): Promise<void> {
+  if (!bookingIds.length) return;
+  const Redemption = await OfferRedemptionModel();
+  await Redemption.updateMany({ bookingId: { $in: bookingIds }, ...LIVE }, { $set: { cancelledAt: new Date() } });
+}
+
+/**
+ * A slot of the booking moved to another court / time: the redemption follows it, its
+ * list price re-quoted for the new slot (the slot count stays) and `amountDelta` applied.
+ */
+export async function moveOfferRedemption(
+  bookingId: string,
+  date: string,
+  from: Slot,
+  to: Slot,
+  amountDelta = 0
+): Promise<void> {
+  const Redemption = await OfferRedemptionModel();
+  const r = await Redemption.findOne({ bookingId, ...LIVE }).lean<RedemptionLean | null>();
+  if (!r) return;
+
+  const amount = Math.max(0, r.amount + amountDelta);
+  let listPrice = r.listPrice;
+  if (r.who !== "member") {
+    const [was, now] = await Promise.all([quoteSlots(date, [from], "court"), quoteSlots(date, [to], "court")]);
+    listPrice = Math.max(0, r.listPrice - was.total + now.total);
+  }
+  await Redemption.updateOne(
+    { _id: r._id },
+    { $set: { date, amount, listPrice, discount: Math.max(0, listPrice - amount) } }
+  );
+}
+
+/** Usage totals per offer id, for the offers list. */
+export async function redemptionSummaries(): Promise<Map<string, RedemptionSummary>> {
+  const Redemption = await OfferRedemptionModel();
+  const rows = await Redemption.aggregate<{
+    _id: { offerId: string; cancelled: boolean };
+    count: number;
+    slots: number;
+    revenue: number;
+    discount: number;
+  }>([
+    { $match: CONFIRMED },
+    {
+      $group: {
+        _id: { offerId: "$offerId", cancelled: { $gt: ["$cancelledAt", null] } },
+        count: { $sum: 1 },
+        slots: { $sum: "$slots" },
+        revenue: { $sum: "$amount" },
+        discount: { $sum: "$discount" },
+      },
+    },
+  ]);
+
+  const out = new Map<string, RedemptionSummary>();
+  for (const r of rows) {
+    const cur = out.get(r._id.offerId) || { redemptions: 0, cancelled: 0, slots: 0, revenue: 0, discount: 0 };
+    if (r._id.cancelled) cur.cancelled += r.count;
+    else {
+      cur.redemptions += r.count;
+      cur.slots += r.slots;
+      cur.revenue += r.revenue;
+      cur.discount += r.discount;
+    }
+    out.set(r._id.offerId, cur);
+  }
+  return out;
+}
+
+/** Every redemption of one offer (newest first) with its totals. */
+export async function offerRedemptions(offerId: string) {
+  const Redemption = await OfferRedemptionModel();
+  const docs = await Redemption.find({ offerId, ...CONFIRMED }).sort({ createdAt: -1 }).lean<RedemptionLean[]>();
+  const items = docs.map((d) => ({
+    id: String(d._id),
+    bookingId: d.bookingId,
+    source: d.source,
+    date: d.date,
+    who: d.who,
+    userName: d.userName,
+    userEmail: d.userEmail,
+    phone: d.phone,
+    slots: d.slots,
+    ruleLabel: d.ruleLabel,
+    amount: d.amount,
+    listPrice: d.listPrice,
+    discount: d.discount,
+    currency: d.currency,
+    cancelledAt: d.cancelledAt,
+    createdAt: d.createdAt,
+  }));
+
+  const live = items.filter((i) => !i.cancelledAt);
+  const summary: RedemptionSummary = {
+    redemptions: live.length,
+    cancelled: items.length - live.length,
+    slots: live.reduce((n, i) => n + i.slots, 0),
+    revenue: live.reduce((n, i) => n + i.amount, 0),
+    discount: live.reduce((n, i) => n + i.discount, 0),
+  };
+  return { items, summary };
+}
@@ -0,0 +1,200 @@
+// lib/offers.ts
+import { getOfferModel, type OfferDoc, type OfferCustomerType, type OfferWindow } from "@/models/Offer";
+import { offerCapReached, type OfferCaps } from "@/lib/offerRedemptions";
+import { getUTCDayFromYMD } from "@/lib/courts";
+
+type Slot = { courtId: number; start: string; end: string };
+
+export type OfferLean = Pick<
+  OfferDoc,
+  | "title" | "type" | "dateFrom" | "dateTo" | "timeFrom" | "timeTo" | "flatPrice" | "rules" | "active"
+  | "maxRedemptions" | "maxPerUser" | "maxPerDay"
+  | "weekdays" | "windows" | "courtIds" | "customerTypes" | "minSlots"
+> & { _id: unknown };
+
+/** Where / when / for whom an offer is being looked at; every field is optional. */
+export type OfferContext = {
+  date?: string;           // YYYY-MM-DD
+  courtId?: number;
+  time?: string;           // "HH:mm", a slot start
+  who?: OfferCustomerType;
+  slots?: number;          // how many slots the booking has
+};
+
+/** Server-side price for an offer booking */
+export type OfferQuote = {
+  offerId: string;
+  offerTitle: string;
+  ruleLabel?: string;  // conditional offers
+  unitPrice: number;   // per slot (0 for members)
+  total: number;
+  caps: OfferCaps;     // checked again when the redemption is held
+};
+
+export type OfferQuoteResult =
+  | { ok: true; quote: OfferQuote; offer: OfferLean }
+  | { ok: false; status: number; error: string };
+
+export type OfferQuoteInput = {
+  offerId: string;
+  date: string;         // YYYY-MM-DD
+  slots: Slot[];
+  ruleLabel?: string;   // required for conditional offers
+  who: OfferCustomerType; // members play free but the offer's targeting still applies
+  userEmail?: string;   // who is booking, for the per-user cap (guests by phone)
+  phone?: string;
+  clientUnitPrice?: number; // what the desk showed, checked against the server price
+  clientTotal?: number;
+};
+
+function toMin(hhmm: string) {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(String(hhmm || "").trim());
+  if (!m) return NaN;
+  return Number(m[1]) * 60 + Number(m[2]);
+}
+
+function withinRange(hhmm: string, from: string, to: string) {
+  const v = toMin(hhmm), f = toMin(from), t = toMin(to);
+  return !Number.isNaN(v) && !Number.isNaN(f) && !Number.isNaN(t) && v >= f && v <= t;
+}
+
+const isNum = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+
+const HHMM = /^\d{2}:\d{2}$/;
+
+/** Daily time windows of an offer: `windows` when set, otherwise timeFrom..timeTo. */
+export function offerWindows(offer: Pick<OfferLean, "timeFrom" | "timeTo" | "windows">): OfferWindow[] {
+  return offer.windows?.length ? offer.windows : [{ from: offer.timeFrom, to: offer.timeTo }];
+}
+
+function inWindows(windows: OfferWindow[], start: string, end?: string) {
+  return windows.some((w) => withinRange(start, w.from, w.to) && (end == null || withinRange(end, w.from, w.to)));
+}
+
+/**
+ * Why the offer does not apply in this context, or null when it does. Only the
+ * targeting is checked here (dates, weekdays, windows, courts, customer type,
+ * minimum slots) — not `active` or the usage caps.
+ */
+export function offerMismatch(offer: OfferLean, ctx: OfferContext): string | null {
+  if (ctx.date) {
+    const day = new Date(`${ctx.date}T00:00:00.000Z`);
+    if (!(day >= new Date(offer.dateFrom) && day <= new Date(offer.dateTo))) return "Selected date is outside offer range";
+    if (offer.weekdays?.length && !offer.weekdays.includes(getUTCDayFromYMD(ctx.date))) {
+      return "Offer does not run on this weekday";
+    }
+  }
+  if (ctx.time && !inWindows(offerWindows(offer), ctx.time)) return "Offer does not run at this time";
+  if (ctx.courtId != null && offer.courtIds?.length && !offer.courtIds.includes(ctx.courtId)) {
+    return `Offer does not apply to court ${ctx.courtId}`;
+  }
+  if (ctx.who && offer.customerTypes?.length && !offer.customerTypes.includes(ctx.who)) {
+    return `Offer is not available to ${ctx.who}s`;
+  }
+  if (ctx.slots != null && offer.minSlots && ctx.slots < offer.minSlots) {
+    return `Offer needs at least ${offer.minSlots} slots`;
+  }
+  return null;
+}
+
+/** Validate the targeting fields of an offer create / update body. */
+export function validateOfferTargeting(b: any): string | null {
+  if (b?.weekdays != null) {
+    if (!Array.isArray(b.weekdays) || b.weekdays.some((d: unknown) => !Number.isInteger(d) || (d as number) < 0 || (d as number) > 6)) {
+      return "weekdays must be numbers 0-6";
+    }
+  }
+  if (b?.windows != null) {
+    if (!Array.isArray(b.windows)) return "windows must be a list";
+    for (const w of b.windows) {
+      if (!HHMM.test(w?.from || "") || !HHMM.test(w?.to || "")) return "Each window needs from/to as HH:mm";
+      if (w.from >= w.to) return "Window from must be before to";
+    }
+  }
+  if (b?.courtIds != null) {
+    if (!Array.isArray(b.courtIds) || b.courtIds.some((c: unknown) => !Number.isInteger(c))) {
+      return "courtIds must be a list of court numbers";
+    }
+  }
+  if (b?.customerTypes != null) {
+    if (!Array.isArray(b.customerTypes) || b.customerTypes.some((t: unknown) => !["member", "user", "guest"].includes(t as string))) {
+      return "customerTypes must be member, user or guest";
+    }
+  }
+  if (b?.minSlots != null && (!Number.isInteger(b.minSlots) || b.minSlots < 1)) {
+    return "minSlots must be a whole number >= 1";
+  }
+  return null;
+}
+
+/**
+ * Load the offer and price a booking under it: the offer must be active and its targeting
+ * (dates, weekdays, time windows, courts, customer type, minimum slots) must cover the
+ * booking; flat offers charge `flatPrice` per slot, conditional ones the price of the chosen rule. A client-sent unit price or
+ * total that disagrees with the server's is rejected rather than trusted. Offers past
+ * their total / per-day / per-user cap are refused with 409.
+ */
+export async function quoteOfferBooking(input: OfferQuoteInput): Promise<OfferQuoteResult> {
+  const { offerId, date, slots } = input;
+  if (!offerId) return { ok: false, status: 400, error: "offerId is required" };
+
+  const Offer = await getOfferModel();
+  const offer = await Offer.findById(offerId)
+    .lean<OfferLean | null>()
+    .catch(() => null); // malformed id → not found
+  if (!offer || !offer.active) return { ok: false, status: 404, error: "Offer not found or inactive" };
+
+  const mismatch = offerMismatch(offer, { date, who: input.who, slots: slots.length });
+  if (mismatch) return { ok: false, status: 400, error: mismatch };
+
+  // Every slot inside one of the offer's windows, on an eligible court
+  const windows = offerWindows(offer);
+  for (const s of slots) {
+    if (!inWindows(windows, s.start, s.end)) {
+      return { ok: false, status: 400, error: "One or more slot times are outside offer hours" };
+    }
+    if (offer.courtIds?.length && !offer.courtIds.includes(s.courtId)) {
+      return { ok: false, status: 400, error: `Offer does not apply to court ${s.courtId}` };
+    }
+  }
+
+  const isMember = input.who === "member";
+  let unitPrice = 0;
+  let ruleLabel: string | undefined;
+  if (offer.type === "flat") {
+    if (!isNum(offer.flatPrice)) return { ok: false, status: 400, error: "Offer missing flatPrice" };
+    unitPrice = Math.max(0, Math.round(offer.flatPrice));
+  } else {
+    const rule = (offer.rules || []).find((r) => r.label === input.ruleLabel);
+    if (!rule) return { ok: false, status: 400, error: "Please select a valid rule" };
+    ruleLabel = rule.label;
+    unitPrice = Math.max(0, Math.round(rule.price));
+  }
+  if (isMember) unitPrice = 0; // MEMBERSHIP = free
+  const total = unitPrice * slots.length;
+
+  if (!isMember) {
+    if (isNum(input.clientUnitPrice) && Math.round(input.clientUnitPrice) !== unitPrice) {
+      return { ok: false, status: 400, error: `Offer price mismatch: ${unitPrice} per slot, not ${input.clientUnitPrice}` };
+    }
+    if (isNum(input.clientTotal) && Math.round(input.clientTotal) !== total) {
+      return { ok: false, status: 400, error: `Offer total mismatch: ${total}, not ${input.clientTotal}` };
+    }
+  }
+
+  const capped = await offerCapReached(String(offer._id), offer, date, { userEmail: input.userEmail, phone: input.phone });
+  if (capped) return { ok: false, status: 409, error: capped };
+
+  return {
+    ok: true,
+    offer,
+    quote: {
+      offerId: String(offer._id),
+      offerTitle: offer.title,
+      ruleLabel,
+      unitPrice,
+      total,
+      caps: { maxRedemptions: offer.maxRedemptions, maxPerUser: offer.maxPerUser, maxPerDay: offer.maxPerDay },
+    },
+  };
+}
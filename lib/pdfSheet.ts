@@ -0,0 +1,94 @@
+// lib/pdfSheet.ts
+// Minimal single-font PDF writer for printable tables (no PDF dependency in the project).
+
+export type PdfColumn = { header: string; width: number }; // width in points
+
+const PAGE_W = 842; // A4 landscape
+const PAGE_H = 595;
+const MARGIN = 32;
+const FONT_SIZE = 9;
+const LINE_H = 14;
+
+/** Helvetica metrics are not embedded; ~0.5em per glyph is close enough to clip cells. */
+function fit(text: string, width: number): string {
+  const max = Math.max(1, Math.floor(width / (FONT_SIZE * 0.5)) - 1);
+  return text.length > max ? `${text.slice(0, Math.max(1, max - 2))}..` : text;
+}
+
+/** Standard fonts are WinAnsi: keep Latin-1, swap anything else for "?". */
+function pdfString(text: string): string {
+  const latin = Array.from(text)
+    .map((ch) => (ch.charCodeAt(0) <= 0xff ? ch : "?"))
+    .join("");
+  return `(${latin.replace(/[\\()]/g, (m) => `\\${m}`)})`;
+}
+
+function textAt(x: number, y: number, text: string, bold = false): string {
+  return `BT /${bold ? "F2" : "F1"} ${FONT_SIZE} Tf ${x} ${y} Td ${pdfString(text)} Tj ET`;
+}
+
+/**
+ * Render a titled table across as many A4 landscape pages as needed, repeating the
+ * header row on each page. Returns the PDF file bytes.
+ */
+export function renderTablePdf(title: string, columns: PdfColumn[], rows: string[][]): Buffer {
+  const perPage = Math.floor((PAGE_H - 2 * MARGIN - 3 * LINE_H) / LINE_H);
+  const pageCount = Math.max(1, Math.ceil(rows.length / perPage));
+  const streams: string[] = [];
+
+  for (let p = 0; p < pageCount; p++) {
+    const ops: string[] = [];
+    let y = PAGE_H - MARGIN;
+    ops.push(textAt(MARGIN, y, `${title}${pageCount > 1 ? `  (page ${p + 1}/${pageCount})` : ""}`, true));
+    y -= LINE_H * 2;
+
+    let x = MARGIN;
+    for (const c of columns) {
+      ops.push(textAt(x, y, fit(c.header, c.width), true));
+      x += c.width;
+    }
+    ops.push(`0.5 w ${MARGIN} ${y - 4} m ${PAGE_W - MARGIN} ${y - 4} l S`);
+    y -= LINE_H;
+
+    for (const row of rows.slice(p * perPage, (p + 1) * perPage)) {
+      x = MARGIN;
+      row.forEach((cell, i) => {
+        const col = columns[i];
+        if (!col) return;
+        if (cell) ops.push(textAt(x, y, fit(cell, col.width)));
+        x += col.width;
+      });
+      ops.push(`0.2 w ${MARGIN} ${y - 4} m ${PAGE_W - MARGIN} ${y - 4} l S`);
+      y -= LINE_H;
+    }
+    streams.push(ops.join("\n"));
+  }
+
+  // objects: 1 catalog, 2 page tree, 3-4 fonts, then (page, content) pairs
+  const objects: string[] = [];
+  const pageIds = streams.map((_, i) => 5 + i * 2);
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+  streams.forEach((s, i) => {
+    const pageId = pageIds[i];
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_W} ${PAGE_H}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${Buffer.byteLength(s, "latin1")} >>\nstream\n${s}\nendstream`;
+  });
+
+  let out = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(out, "latin1");
+    out += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xrefAt = Buffer.byteLength(out, "latin1");
+  out += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) out += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  out += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefAt}\n%%EOF\n`;
+
+  return Buffer.from(out, "latin1");
+}
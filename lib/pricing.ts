@@ -0,0 +1,173 @@
+// lib/pricing.ts
+import { PricingRuleModel, type PricingMode, type DayType } from "@/models/PricingRule";
+import { getCourtGrid, getUTCDayFromYMD } from "@/lib/courts";
+import { getHoliday } from "@/lib/holidays";
+import type { Slot } from "@/lib/slotReservations";
+
+export type { PricingMode };
+
+export type PricingRuleLean = {
+  _id?: unknown;
+  name?: string;
+  pricingMode: PricingMode;
+  dayType?: DayType;
+  weekdays?: number[];
+  timeFrom?: string;
+  timeTo?: string;
+  courtIds?: number[];
+  dateFrom?: string;
+  dateTo?: string;
+  price: number;
+  priority?: number;
+  active?: boolean;
+  updatedAt?: Date | string;
+};
+
+export type PricedSlot = Slot & { price: number; ruleId?: string };
+
+export type Quote = { slots: PricedSlot[]; total: number };
+
+/** Prices used before any rule existed; still the answer when no rule matches. */
+export const FALLBACK_PRICES: Record<PricingMode, { weekday: number; weekend: number }> = {
+  court:       { weekday: 500, weekend: 700 },
+  individual:  { weekday: 150, weekend: 200 },
+  individual2: { weekday: 300, weekend: 400 },
+};
+
+export const PRICING_MODES: PricingMode[] = ["court", "individual", "individual2"];
+
+export function isPricingMode(v: unknown): v is PricingMode {
+  return typeof v === "string" && (PRICING_MODES as string[]).includes(v);
+}
+
+function toMin(hhmm: string | undefined) {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(String(hhmm || "").trim());
+  if (!m) return NaN;
+  return Number(m[1]) * 60 + Number(m[2]);
+}
+
+export function isWeekend(date: string) {
+  const dow = getUTCDayFromYMD(date);
+  return dow === 0 || dow === 6;
+}
+
+type DayContext = { date: string; weekday: number; weekend: boolean };
+
+/** A "premium" holiday is billed as a weekend day (weekend fallback + dayType "weekend" rules). */
+export async function dayContext(date: string): Promise<DayContext> {
+  const holiday = await getHoliday(date);
+  return {
+    date,
+    weekday: getUTCDayFromYMD(date),
+    weekend: isWeekend(date) || holiday?.kind === "premium",
+  };
+}
+
+function ruleMatches(rule: PricingRuleLean, day: DayContext, slot: Slot) {
+  if (rule.active === false) return false;
+  if (rule.dayType === "weekday" && day.weekend) return false;
+  if (rule.dayType === "weekend" && !day.weekend) return false;
+  if (rule.weekdays?.length && !rule.weekdays.includes(day.weekday)) return false;
+  if (rule.courtIds?.length && !rule.courtIds.includes(Number(slot.courtId))) return false;
+  if (rule.dateFrom && day.date < rule.dateFrom) return false;
+  if (rule.dateTo && day.date > rule.dateTo) return false;
+
+  const start = toMin(slot.start);
+  const from = toMin(rule.timeFrom);
+  const to = toMin(rule.timeTo);
+  if (!Number.isNaN(from) && !(start >= from)) return false;
+  if (!Number.isNaN(to) && !(start < to)) return false;
+  return true;
+}
+
+/** Number of dimensions a rule narrows; used to break priority ties. */
+function specificity(rule: PricingRuleLean) {
+  let n = 0;
+  if (rule.dayType && rule.dayType !== "any") n++;
+  if (rule.weekdays?.length) n++;
+  if (rule.timeFrom || rule.timeTo) n++;
+  if (rule.courtIds?.length) n++;
+  if (rule.dateFrom || rule.dateTo) n++;
+  return n;
+}
+
+/**
+ * Precedence when several rules match a slot:
+ *   1. higher `priority`
+ *   2. more specific (more narrowed dimensions)
+ *   3. most recently updated
+ */
+export function compareRules(a: PricingRuleLean, b: PricingRuleLean) {
+  const p = (b.priority ?? 0) - (a.priority ?? 0);
+  if (p) return p;
+  const s = specificity(b) - specificity(a);
+  if (s) return s;
+  return new Date(b.updatedAt ?? 0).getTime() - new Date(a.updatedAt ?? 0).getTime();
+}
+
+function priceSlot(rules: PricingRuleLean[], mode: PricingMode, day: DayContext, slot: Slot): PricedSlot {
+  const rule = rules.find((r) => r.pricingMode === mode && ruleMatches(r, day, slot));
+  if (rule) return { ...slot, price: Math.max(0, Math.round(rule.price)), ruleId: String(rule._id ?? "") || undefined };
+  const fb = FALLBACK_PRICES[mode] ?? FALLBACK_PRICES.court;
+  return { ...slot, price: day.weekend ? fb.weekend : fb.weekday };
+}
+
+async function loadRules(mode: PricingMode): Promise<PricingRuleLean[]> {
+  const PricingRule = await PricingRuleModel();
+  const rules = await PricingRule.find({ pricingMode: mode, active: true }).lean<PricingRuleLean[]>();
+  return rules.sort(compareRules);
+}
+
+/**
+ * The single pricing function: every booking route stores what this returns and the
+ * desk grids display it (via /api/pricing/quote), so both always agree.
+ */
+export async function quoteSlots(date: string, slots: Slot[], mode: PricingMode = "court"): Promise<Quote> {
+  const [rules, day] = await Promise.all([loadRules(mode), dayContext(date)]);
+  const priced = slots.map((s) => priceSlot(rules, mode, day, s));
+  return { slots: priced, total: priced.reduce((sum, s) => sum + s.price, 0) };
+}
+
+/** Prices for every bookable slot on the date, for the booking grids. */
+export async function quoteGrid(date: string, mode: PricingMode = "court"): Promise<Quote> {
+  const grid = await getCourtGrid(date);
+  return quoteSlots(date, grid.flatMap((c) => c.slots), mode);
+}
+
+function isHHmm(v: unknown) {
+  return typeof v === "string" && /^\d{2}:\d{2}$/.test(v);
+}
+function isYMD(v: unknown) {
+  return typeof v === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v);
+}
+
+/** Validate a create (or, with `partial`, update) payload; returns an error message or null. */
+export function validatePricingRuleBody(b: any, partial = false): string | null {
+  if (!b || typeof b !== "object") return "Invalid body";
+  if (!partial || "name" in b) {
+    if (!String(b.name || "").trim()) return "Missing field: name";
+  }
+  if (!partial || "pricingMode" in b) {
+    if (!isPricingMode(b.pricingMode)) return "Invalid pricingMode";
+  }
+  if (!partial || "price" in b) {
+    if (typeof b.price !== "number" || b.price < 0) return "price must be a number >= 0";
+  }
+  if ("dayType" in b && !["any", "weekday", "weekend"].includes(b.dayType)) return "Invalid dayType";
+  if ("weekdays" in b) {
+    if (!Array.isArray(b.weekdays) || b.weekdays.some((d: unknown) => !Number.isInteger(d) || (d as number) < 0 || (d as number) > 6)) {
+      return "weekdays must be numbers 0-6";
+    }
+  }
+  if ("courtIds" in b) {
+    if (!Array.isArray(b.courtIds) || b.courtIds.some((c: unknown) => !Number.isInteger(c))) return "courtIds must be numbers";
+  }
+  if (b.timeFrom && !isHHmm(b.timeFrom)) return "timeFrom must be HH:mm";
+  if (b.timeTo && !isHHmm(b.timeTo)) return "timeTo must be HH:mm";
+  if (b.timeFrom && b.timeTo && b.timeFrom >= b.timeTo) return "timeFrom must be before timeTo";
+  if (b.dateFrom && !isYMD(b.dateFrom)) return "dateFrom must be YYYY-MM-DD";
+  if (b.dateTo && !isYMD(b.dateTo)) return "dateTo must be YYYY-MM-DD";
+  if (b.dateFrom && b.dateTo && b.dateFrom > b.dateTo) return "dateFrom must be <= dateTo";
+  if ("priority" in b && typeof b.priority !== "number") return "priority must be a number";
+  return null;
+}
@@ -0,0 +1,100 @@
+// lib/schedule.ts
+import { SlotReservationModel } from "@/models/SlotReservation";
+import { getCourtCatalog, courtSlotsForDate, addDaysYMD } from "@/lib/courts";
+import { listHolidays, type HolidayInfo } from "@/lib/holidays";
+import { blocksForRange, blocksOnDate, blockCovering } from "@/lib/courtBlocks";
+import { slotsOverlap } from "@/lib/slotReservations";
+import { listBookings } from "@/lib/bookingService";
+
+export const MAX_SCHEDULE_DAYS = 31;
+
+export type CellState = "free" | "booked" | "pending" | "blocked" | "held";
+
+export type ScheduleCell = {
+  start: string;
+  end: string;
+  state: CellState;
+  bookingId?: string;
+  name?: string;     // who holds the slot (booked / pending / held)
+  phone?: string;
+  who?: "member" | "user" | "guest";
+  paymentRef?: string;
+  reason?: string;   // blocked
+};
+
+export type ScheduleDay = {
+  date: string;
+  holiday: HolidayInfo | null;
+  courts: { courtId: number; name: string; cells: ScheduleCell[] }[];
+};
+
+type SlotLoose = { courtId?: number | string; start?: string; end?: string };
+
+/** Every date from..to inclusive. */
+export function datesInRange(from: string, to: string): string[] {
+  const out: string[] = [];
+  for (let d = from; d <= to && out.length < MAX_SCHEDULE_DAYS; d = addDaysYMD(d, 1)) out.push(d);
+  return out;
+}
+
+/**
+ * Cell-by-cell state of the grid over a date range (optionally one court):
+ * free / booked / pending (booked, payment not collected) / blocked / held (waitlist hold).
+ */
+export async function getScheduleRange(from: string, to: string, courtId?: number): Promise<ScheduleDay[]> {
+  const dates = datesInRange(from, to);
+  if (!dates.length) return [];
+  const last = dates[dates.length - 1];
+
+  const SlotReservation = await SlotReservationModel();
+
+  const range = { $gte: from, $lte: last };
+  const [catalog, holidays, blocks, holders, holds] = await Promise.all([
+    getCourtCatalog(),
+    listHolidays(from, last),
+    blocksForRange(from, last),
+    listBookings({ from, to: last }),
+    SlotReservation.find({ date: range, expiresAt: { $gt: new Date() } })
+      .select({ date: 1, courtId: 1, start: 1, end: 1 })
+      .lean<(SlotLoose & { date: string })[]>(),
+  ]);
+
+  const courts = courtId != null ? catalog.filter((c) => c.courtId === courtId) : catalog;
+
+  return dates.map((date) => {
+    const holiday = holidays.find((h) => h.date === date) || null;
+    const dayBlocks = blocksOnDate(blocks, date);
+    const dayHolders = holders.filter((h) => h.date === date);
+    const dayHolds = holds.filter((h) => h.date === date);
+
+    return {
+      date,
+      holiday,
+      courts: courts
+        .map((c) => ({
+          courtId: c.courtId,
+          name: c.name,
+          cells: courtSlotsForDate(c, date, holiday).map((s): ScheduleCell => {
+            const holder = dayHolders.find((h) => h.slots.some((b) => slotsOverlap(s, b)));
+            if (holder) {
+              return {
+                start: s.start,
+                end: s.end,
+                state: holder.paymentState === "unpaid" ? "pending" : "booked",
+                bookingId: holder.id,
+                name: holder.userName,
+                phone: holder.phone,
+                who: holder.who,
+                paymentRef: holder.paymentRef,
+              };
+            }
+            const block = blockCovering(dayBlocks, s);
+            if (block) return { start: s.start, end: s.end, state: "blocked", reason: block.reason };
+            if (dayHolds.some((h) => slotsOverlap(s, h))) return { start: s.start, end: s.end, state: "held" };
+            return { start: s.start, end: s.end, state: "free" };
+          }),
+        }))
+        .filter((c) => c.cells.length > 0),
+    };
+  });
+}
@@ -0,0 +1,186 @@
+// lib/slotReservations.ts
+import { BookingModel } from "@/models/Booking";
+import { GuestBookingModel } from "@/models/GuestBooking";
+import { SlotReservationModel } from "@/models/SlotReservation";
+
+export type Slot = { courtId: number; start: string; end: string };
+
+export type ReserveResult =
+  | { ok: true; slots: Slot[] }
+  | { ok: false; conflicts: Slot[] };
+
+type SlotLoose = { courtId?: number | string; start?: string; end?: string };
+type BookingSlotsOnly = { orderId?: string; slots?: SlotLoose[] };
+
+function toMin(hhmm: string) {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(String(hhmm || "").trim());
+  if (!m) return NaN;
+  return Number(m[1]) * 60 + Number(m[2]);
+}
+
+/** True when both slots are on the same court and their [start, end) intervals intersect. */
+export function slotsOverlap(a: SlotLoose, b: SlotLoose): boolean {
+  if (Number(a.courtId) !== Number(b.courtId)) return false;
+  const as = toMin(a.start || ""), ae = toMin(a.end || "");
+  const bs = toMin(b.start || ""), be = toMin(b.end || "");
+  if ([as, ae, bs, be].some(Number.isNaN)) return a.start === b.start;
+  return as < be && bs < ae;
+}
+
+/** Grid unit reservations are written in; court hours and slot lengths sit on it. */
+export const RESERVATION_CELL_MINUTES = 5;
+
+function fmtMin(min: number) {
+  return `${String(Math.floor(min / 60)).padStart(2, "0")}:${String(min % 60).padStart(2, "0")}`;
+}
+
+/** Grid cells ("HH:MM") a slot covers; an off-grid edge takes the whole cell it falls in. */
+export function slotCells(s: Slot): string[] {
+  const from = toMin(s.start), to = toMin(s.end);
+  if (Number.isNaN(from) || Number.isNaN(to) || to <= from) return [s.start];
+  const cells: string[] = [];
+  const first = Math.floor(from / RESERVATION_CELL_MINUTES) * RESERVATION_CELL_MINUTES;
+  for (let m = first; m < to; m += RESERVATION_CELL_MINUTES) cells.push(fmtMin(m));
+  return cells;
+}
+
+export function slotKey(s: Slot) {
+  return `${s.courtId}_${s.start}_${s.end}`;
+}
+
+/** Human readable list for error messages, e.g. "Court 1 18:00–19:00". */
+export function describeSlots(slots: Slot[]) {
+  return slots.map((s) => `Court ${s.courtId} ${s.start}–${s.end}`).join(", ");
+}
+
+/** Reservations that still hold their slot (permanent ones, or holds not yet expired). */
+export function liveReservationFilter(now = new Date()) {
+  return { $or: [{ expiresAt: { $exists: false } }, { expiresAt: null }, { expiresAt: { $gt: now } }] };
+}
+
+export function normalizeSlots(slots: SlotLoose[]): Slot[] {
+  return slots.map((s) => ({
+    courtId: Number(s.courtId),
+    start: String(s.start || "").trim(),
+    end: String(s.end || "").trim(),
+  }));
+}
+
+/**
+ * Find requested slots that clash with something already booked on `date`:
+ * existing booking documents (covers legacy rows and online bookings that never
+ * went through this layer) and live reservations.
+ */
+export async function findSlotConflicts(date: string, slots: Slot[], ignoreOrderId?: string): Promise<Slot[]> {
+  const courtIds = Array.from(new Set(slots.map((s) => s.courtId)));
+  const Booking = await BookingModel();
+  const GuestBooking = await GuestBookingModel();
+  const SlotReservation = await SlotReservationModel();
+
+  const [docsA, docsG, held] = await Promise.all([
+    Booking.find({ date, "slots.courtId": { $in: courtIds } })
+      .select({ orderId: 1, slots: 1 })
+      .lean<BookingSlotsOnly[]>(),
+    GuestBooking.find({ date, "slots.courtId": { $in: courtIds } })
+      .select({ orderId: 1, slots: 1 })
+      .lean<BookingSlotsOnly[]>(),
+    SlotReservation.find({ date, courtId: { $in: courtIds }, ...liveReservationFilter() })
+      .select({ orderId: 1, courtId: 1, start: 1, end: 1 })
+      .lean<(SlotLoose & { orderId?: string })[]>(),
+  ]);
+
+  const taken: SlotLoose[] = [];
+  for (const b of [...docsA, ...docsG]) {
+    if (ignoreOrderId && b.orderId === ignoreOrderId) continue;
+    taken.push(...(Array.isArray(b.slots) ? b.slots : []));
+  }
+  for (const r of held) {
+    if (ignoreOrderId && r.orderId === ignoreOrderId) continue;
+    taken.push(r);
+  }
+
+  const conflicts: Slot[] = [];
+  slots.forEach((s, i) => {
+    const clashesExisting = taken.some((t) => slotsOverlap(s, t));
+    const clashesRequest = slots.some((o, j) => j < i && slotsOverlap(s, o));
+    if (clashesExisting || clashesRequest) conflicts.push(s);
+  });
+  return conflicts;
+}
+
+/**
+ * Reserve every slot for `orderId`, all-or-nothing, one row per grid cell it covers.
+ * The unique { date, courtId, cell } index settles races between two desks, also for
+ * overlapping slots with different starts: whoever inserts second gets E11000 and
+ * everything it inserted is rolled back.
+ * With `expiresAt` the reservation is a temporary hold that lapses on its own.
+ */
+export async function reserveSlots(
+  date: string,
+  slotsIn: SlotLoose[],
+  orderId: string,
+  opts: { expiresAt?: Date } = {}
+): Promise<ReserveResult> {
+  const slots = normalizeSlots(slotsIn);
+
+  const conflicts = await findSlotConflicts(date, slots);
+  if (conflicts.length) return { ok: false, conflicts };
+
+  const SlotReservation = await SlotReservationModel();
+  // lapsed holds may not have been swept yet; they must not trip the unique index
+  await SlotReservation.deleteMany({ date, expiresAt: { $lte: new Date() } });
+
+  const inserted: Slot[] = [];
+  const raced: Slot[] = [];
+
+  for (const s of slots) {
+    // a slot whose cells went in only partly is released with the rest
+    inserted.push(s);
+    try {
+      await SlotReservation.insertMany(
+        slotCells(s).map((cell) => ({
+          date,
+          ...s,
+          cell,
+          orderId,
+          ...(opts.expiresAt ? { expiresAt: opts.expiresAt } : {}),
+        })),
+        { ordered: true }
+      );
+    } catch (e: unknown) {
+      if ((e as { code?: number })?.code === 11000) {
+        raced.push(s);
+        continue;
+      }
+      await releaseSlots(orderId, inserted, date);
+      throw e;
+    }
+  }
+
+  if (raced.length) {
+    await releaseSlots(orderId, inserted, date);
+    return { ok: false, conflicts: raced };
+  }
+  return { ok: true, slots };
+}
+
+/**
+ * Free reservations held by `orderId`. Without `slots` every reservation of the
+ * order is removed (full booking cancel / clear).
+ */
+export async function releaseSlots(orderId: string | undefined, slots?: SlotLoose[], date?: string) {
+  if (!orderId) return;
+  const SlotReservation = await SlotReservationModel();
+
+  if (!slots) {
+    await SlotReservation.deleteMany({ orderId });
+    return;
+  }
+  if (!slots.length) return;
+
+  await SlotReservation.deleteMany({
+    orderId,
+    ...(date ? { date } : {}),
+    $or: normalizeSlots(slots).map((s) => ({ courtId: s.courtId, start: s.start })),
+  });
+}
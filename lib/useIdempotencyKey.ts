@@ -0,0 +1,29 @@
+// lib/useIdempotencyKey.ts
+import { useCallback, useRef } from "react";
+
+function newKey() {
+  // randomUUID needs a secure context; the desk may open the admin over plain http
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") return crypto.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Idempotency-Key for a create form: the same request body keeps its key, so double
+ * clicks and retries after a dropped connection reach the server as one request.
+ * Changing the form gives a new key; call `reset` once the server has answered (success
+ * or error), so a resubmit after an error is tried afresh.
+ */
+export function useIdempotencyKey() {
+  const last = useRef<{ body: string; key: string } | null>(null);
+
+  const keyFor = useCallback((body: string) => {
+    if (last.current?.body !== body) last.current = { body, key: newKey() };
+    return last.current.key;
+  }, []);
+
+  const reset = useCallback(() => {
+    last.current = null;
+  }, []);
+
+  return { keyFor, reset };
+}
@@ -0,0 +1,169 @@
+// lib/venueClosure.ts
+import { CourtBlockModel } from "@/models/CourtBlock";
+import { listBookings } from "@/lib/bookingService";
+import { cancelBookingSlot } from "@/lib/bookingCancel";
+import { blockCovering, type CourtBlockInfo } from "@/lib/courtBlocks";
+
+export type ClosureInput = {
+  date: string;        // YYYY-MM-DD
+  timeFrom?: string;   // "HH:MM", blank = from opening
+  timeTo?: string;     // "HH:MM", blank = until close
+  courtIds?: number[]; // empty = all courts
+  reason: string;
+  blockCourts?: boolean; // also add a court block so the window can't be rebooked
+  dryRun?: boolean;      // only list what would be cancelled
+  exclude?: string[];    // booking ids an earlier chunk already tried (failed / partial)
+  admin?: string;        // signed-in admin, recorded on the credit ledger
+};
+
+type ClosureSlot = { courtId: number; start: string; end: string };
+
+/** What happened to one booking caught by the closure */
+export type ClosureOutcome = {
+  bookingId: string;
+  userName: string;
+  phone?: string;
+  who: "member" | "user" | "guest";
+  slots: ClosureSlot[];
+  status: "pending" | "cancelled" | "partial" | "failed";
+  cancelled: number;
+  refunded: number;
+  creditsRestored: number;
+  currency: string;
+  errors: string[];
+};
+
+export type ClosureReport = {
+  date: string;
+  reason: string;
+  dryRun: boolean;
+  blockId?: string;
+  bookings: ClosureOutcome[];
+  remaining: number; // bookings left for the next chunk (still "pending" in `bookings`)
+  totals: { bookings: number; slots: number; cancelled: number; failed: number; refunded: number; creditsRestored: number };
+};
+
+const HHMM = /^\d{2}:\d{2}$/;
+
+/**
+ * Slot cancels per request. Each online one is a Cashfree refund plus a few seconds of
+ * status polling, so a busy day is worked through in chunks instead of one long request.
+ */
+export const CLOSURE_CHUNK_SLOTS = 8;
+
+export function validateClosureBody(b: any): string | null {
+  if (!b || typeof b !== "object") return "Invalid body";
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(String(b.date || ""))) return "date must be YYYY-MM-DD";
+  if (!String(b.reason || "").trim()) return "Missing field: reason";
+  if (b.timeFrom && !HHMM.test(b.timeFrom)) return "timeFrom must be HH:MM";
+  if (b.timeTo && !HHMM.test(b.timeTo)) return "timeTo must be HH:MM";
+  if (b.timeFrom && b.timeTo && b.timeFrom >= b.timeTo) return "timeFrom must be before timeTo";
+  if (b.exclude != null) {
+    if (!Array.isArray(b.exclude) || b.exclude.some((id: unknown) => typeof id !== "string")) {
+      return "exclude must be a list of booking ids";
+    }
+  }
+  if (b.courtIds != null) {
+    if (!Array.isArray(b.courtIds) || b.courtIds.some((c: unknown) => !Number.isInteger(c))) {
+      return "courtIds must be a list of court numbers";
+    }
+  }
+  return null;
+}
+
+/**
+ * Cancel every booked slot on the date that overlaps the window on the chosen courts,
+ * slot by slot through the regular single-slot cancel (Cashfree refund, offline refund
+ * record or membership credit back, plus the Sheets cancellation row) with the
+ * cancellation policy waived. Failures are reported per booking; the rest still go.
+ * Works through at most CLOSURE_CHUNK_SLOTS slots per call: cancelled slots drop out of
+ * the day's bookings, so calling again (with the failed ones in `exclude`) picks up
+ * where the last chunk stopped until `remaining` is 0.
+ */
+export async function closeVenue(input: ClosureInput): Promise<ClosureReport> {
+  const reason = input.reason.trim();
+  const window: CourtBlockInfo = {
+    reason,
+    kind: "other",
+    courtIds: input.courtIds || [],
+    dateFrom: input.date,
+    dateTo: input.date,
+    timeFrom: input.timeFrom || undefined,
+    timeTo: input.timeTo || undefined,
+    weekdays: [],
+  };
+
+  const exclude = new Set(input.exclude || []);
+  const bookings = await listBookings({ date: input.date });
+  const affected: ClosureOutcome[] = [];
+  for (const b of bookings) {
+    if (exclude.has(b.id)) continue;
+    const slots = b.slots
+      .filter((s) => blockCovering([window], s))
+      .map((s) => ({ courtId: s.courtId, start: s.start, end: s.end }));
+    if (!slots.length) continue;
+    affected.push({
+      bookingId: b.id,
+      userName: b.userName,
+      phone: b.phone,
+      who: b.who,
+      slots,
+      status: "pending",
+      cancelled: 0,
+      refunded: 0,
+      creditsRestored: 0,
+      currency: b.currency,
+      errors: [],
+    });
+  }
+  affected.sort((a, b) => a.slots[0].start.localeCompare(b.slots[0].start) || a.userName.localeCompare(b.userName));
+
+  let blockId: string | undefined;
+  if (!input.dryRun) {
+    // block first so nobody books into the window while the cancels run
+    if (input.blockCourts) {
+      const CourtBlock = await CourtBlockModel();
+      const block = await CourtBlock.create({ ...window, reason: `Closure: ${reason}`, active: true });
+      blockId = String(block._id);
+    }
+
+    let budget = CLOSURE_CHUNK_SLOTS;
+    for (const o of affected) {
+      // a booking is never split across chunks; the first one always goes
+      if (budget < o.slots.length && budget < CLOSURE_CHUNK_SLOTS) break;
+      budget -= o.slots.length;
+      for (const s of o.slots) {
+        try {
+          const { status, body } = await cancelBookingSlot(o.bookingId, s, { closure: reason, admin: input.admin });
+          if (status !== 200) throw new Error(String(body.error || `Cancel failed (HTTP ${status})`));
+          o.cancelled++;
+          if (body.creditRestored) o.creditsRestored++;
+          o.refunded += Number(body.refunded) || 0;
+        } catch (e: unknown) {
+          console.error(`closure cancel ${o.bookingId} ${s.courtId} ${s.start} failed:`, e);
+          o.errors.push(`Court ${s.courtId} ${s.start}: ${e instanceof Error ? e.message : "Server error"}`);
+        }
+      }
+      o.status = o.cancelled === o.slots.length ? "cancelled" : o.cancelled > 0 ? "partial" : "failed";
+    }
+  }
+
+  const slotCount = affected.reduce((n, o) => n + o.slots.length, 0);
+  const cancelled = affected.reduce((n, o) => n + o.cancelled, 0);
+  return {
+    date: input.date,
+    reason,
+    dryRun: !!input.dryRun,
+    blockId,
+    bookings: affected,
+    remaining: input.dryRun ? 0 : affected.filter((o) => o.status === "pending").length,
+    totals: {
+      bookings: affected.length,
+      slots: slotCount,
+      cancelled,
+      failed: affected.reduce((n, o) => n + (o.status === "pending" ? 0 : o.slots.length - o.cancelled), 0),
+      refunded: affected.reduce((n, o) => n + o.refunded, 0),
+      creditsRestored: affected.reduce((n, o) => n + o.creditsRestored, 0),
+    },
+  };
+}
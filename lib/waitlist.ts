@@ -0,0 +1,148 @@
+// lib/waitlist.ts
+import { WaitlistModel, type WaitlistDoc } from "@/models/Waitlist";
+import { reserveSlots, releaseSlots } from "@/lib/slotReservations";
+import { createAdminBooking, type AdminBookingOutcome } from "@/lib/adminBooking";
+
+type Slot = { courtId: number; start: string; end: string };
+
+export type WaitlistOffer = {
+  id: string;
+  name: string;
+  phone?: string;
+  holdUntil?: string; // ISO, only when the slot is held
+};
+
+/** Minutes a freed slot is held for the next waitlisted player (0 = just notify the desk). */
+export function waitlistHoldMinutes(): number {
+  const n = Number(process.env.WAITLIST_HOLD_MINUTES || 0);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : 0;
+}
+
+/** orderId used for a waitlist hold in slot_reservations */
+export function holdOrderId(entryId: string) {
+  return `waitlist_${entryId}`;
+}
+
+/**
+ * A slot was just freed: hand it to the oldest waiting entry for that date/court/start.
+ * Returns null when nobody is waiting (or the slot got taken again in between).
+ */
+export async function offerFreedSlot(date: string, slot: Slot): Promise<WaitlistOffer | null> {
+  const Waitlist = await WaitlistModel();
+  const next = await Waitlist.findOne({ date, courtId: slot.courtId, start: slot.start, status: "waiting" })
+    .sort({ createdAt: 1 })
+    .lean<(WaitlistDoc & { _id: unknown }) | null>();
+  if (!next) return null;
+
+  const id = String(next._id);
+  const minutes = waitlistHoldMinutes();
+  let holdUntil: Date | undefined;
+
+  if (minutes > 0) {
+    const until = new Date(Date.now() + minutes * 60_000);
+    const held = await reserveSlots(date, [slot], holdOrderId(id), { expiresAt: until });
+    if (!held.ok) return null; // rebooked in the meantime – keep them waiting
+    holdUntil = until;
+  }
+
+  await Waitlist.updateOne(
+    { _id: next._id },
+    { $set: { status: "offered", offeredAt: new Date(), ...(holdUntil ? { holdUntil } : {}) } }
+  );
+
+  return { id, name: next.name, phone: next.phone, holdUntil: holdUntil?.toISOString() };
+}
+
+/**
+ * Offers whose hold ran out without a booking: mark them "expired", drop what is left of
+ * the hold and pass the slot on to the next waiting entry. Run before the queue is listed
+ * (optionally just for one date), so a lapsed hold doesn't block the slot for everyone else.
+ */
+export async function expireWaitlistOffers(date?: string): Promise<number> {
+  const Waitlist = await WaitlistModel();
+  const now = new Date();
+  const lapsed = await Waitlist.find({ status: "offered", holdUntil: { $lte: now }, ...(date ? { date } : {}) })
+    .sort({ holdUntil: 1 })
+    .lean<(WaitlistDoc & { _id: unknown })[]>();
+
+  let expired = 0;
+  for (const entry of lapsed) {
+    // claim it first so two concurrent lists don't both pass the slot on
+    const res = await Waitlist.updateOne(
+      { _id: entry._id, status: "offered", holdUntil: { $lte: now } },
+      { $set: { status: "expired" }, $unset: { holdUntil: "" } }
+    );
+    if (!res.modifiedCount) continue;
+    expired++;
+    await releaseWaitlistHold(entry);
+    await offerFreedSlot(entry.date, { courtId: entry.courtId, start: entry.start, end: entry.end });
+  }
+  return expired;
+}
+
+/** Drop the hold (if any) an entry has on its slot. */
+export async function releaseWaitlistHold(entry: Pick<WaitlistDoc, "date" | "courtId" | "start" | "end"> & { _id: unknown }) {
+  await releaseSlots(holdOrderId(String(entry._id)), [entry], entry.date);
+}
+
+/**
+ * Book the waitlisted slot for the entry's player through the regular admin flow.
+ * The entry's own hold is released first so it doesn't clash with itself; if the
+ * booking fails while the hold is still running, the hold is put back.
+ */
+export async function bookWaitlistEntry(
+  id: string,
+  opts: { markPaid?: boolean; pricingMode?: "court" | "individual" | "individual2" }
+): Promise<AdminBookingOutcome> {
+  const Waitlist = await WaitlistModel();
+  const entry = await Waitlist.findById(id).lean<(WaitlistDoc & { _id: unknown }) | null>();
+  if (!entry) return { status: 404, body: { ok: false, error: "Waitlist entry not found" } };
+  if (entry.status === "booked") return { status: 409, body: { ok: false, error: "Already booked" } };
+
+  const slot: Slot = { courtId: entry.courtId, start: entry.start, end: entry.end };
+  await releaseWaitlistHold(entry);
+
+  const isGuest = entry.who === "guest";
+  const outcome = await createAdminBooking({
+    type: entry.who,
+    date: entry.date,
+    slots: [slot],
+    markPaid: entry.who === "member" ? true : !!opts.markPaid,
+    pricingMode: opts.pricingMode,
+    ...(isGuest
+      ? { guestName: entry.name, guestPhone: entry.phone }
+      : { userName: entry.name, userEmail: entry.userEmail, userId: entry.userId }),
+  });
+
+  if (outcome.status === 200 && outcome.body.ok) {
+    await Waitlist.updateOne(
+      { _id: entry._id },
+      { $set: { status: "booked", bookingId: String(outcome.body.id) }, $unset: { holdUntil: "" } }
+    );
+  } else if (entry.holdUntil && new Date(entry.holdUntil).getTime() > Date.now()) {
+    await reserveSlots(entry.date, [slot], holdOrderId(id), { expiresAt: new Date(entry.holdUntil) });
+  }
+  return outcome;
+}
+
+function isHHmm(v: unknown) {
+  return typeof v === "string" && /^\d{2}:\d{2}$/.test(v);
+}
+
+/** Validate a create (or, with `partial`, update) payload; returns an error message or null. */
+export function validateWaitlistBody(b: any, partial = false): string | null {
+  if (!b || typeof b !== "object") return "Invalid body";
+  if (!partial) {
+    if (typeof b.date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(b.date)) return "date must be YYYY-MM-DD";
+    if (!Number.isFinite(Number(b.courtId))) return "Invalid courtId";
+    if (!isHHmm(b.start) || !isHHmm(b.end)) return "start/end must be HH:mm";
+  }
+  if ("who" in b && !["member", "user", "guest"].includes(b.who)) return "Invalid who";
+  if (!partial || "name" in b) {
+    if (!String(b.name || "").trim()) return "Missing field: name";
+  }
+  const who = b.who || "guest";
+  if (!partial && who === "guest" && !String(b.phone || "").trim()) return "Guest phone is required";
+  if (!partial && who !== "guest" && !String(b.userEmail || "").trim()) return "User email is required";
+  return null;
+}
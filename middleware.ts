@@ -44,10 +44,27 @@ export async function middleware(req: NextRequest) {
     "/memberships",
     "/bookings",
     "/events",
+    "/courts",
+    "/pricing",
+    "/holidays",
+    "/court-blocks",
+    "/cancellation-policies",
+    "/coupons",
+    "/offers",
+    "/membership-plans",
     "/api/users",
     "/api/memberships",
     "/api/bookings",
     "/api/events",
+    "/api/courts",
+    "/api/pricing",
+    "/api/holidays",
+    "/api/waitlist",
+    "/api/court-blocks",
+    "/api/cancellation-policies",
+    "/api/coupons",
+    "/api/offers",
+    "/api/membership-plans",
   ];
   const needsAuth = protectedRoots.some((p) => pathname.startsWith(p));
 
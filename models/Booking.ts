@@ -1,6 +1,8 @@
 // models/Booking.ts
 import mongoose, { Schema } from "mongoose";
 import { getDb } from "@/lib/db";
+import { DiscountSchema, type DiscountLine } from "@/models/Coupon";
+import type { PricingMode } from "@/models/PricingRule";
 
 export interface BookingDoc extends mongoose.Document {
   orderId?: string;
@@ -8,7 +10,14 @@ export interface BookingDoc extends mongoose.Document {
   userName?: string;
   userEmail?: string;
   date: string;
-  slots: { courtId: number; start: string; end: string }[];
+  slots: {
+    courtId: number;
+    start: string;
+    end: string;
+    price?: number;
+    attendance?: "checked_in" | "no_show"; // set at the front desk
+    attendedAt?: Date;
+  }[];
   amount: number;
   currency: string;
   status: "PAID";
@@ -17,17 +26,34 @@ export interface BookingDoc extends mongoose.Document {
 
   // NEW
   bookingType?: "Normal" | "Individual" | "Special";
+  pricingMode?: PricingMode; // rules the slot prices were quoted from (admin bookings)
   who?: "member" | "user" | "guest";
+  seriesId?: string; // shared by every occurrence of a recurring booking
+  participants?: { _id?: mongoose.Types.ObjectId; name: string; phone?: string; share: number }[]; // split cost
+  discount?: DiscountLine; // coupon taken off `amount`
 
   createdAt: Date;
   updatedAt: Date;
 }
 
+// one player's share of a split booking (payments against it live in booking_payments)
+const ParticipantSchema = new Schema(
+  {
+    name:  { type: String, required: true, trim: true },
+    phone: { type: String, trim: true },
+    share: { type: Number, required: true, min: 0 },
+  },
+  { _id: true }
+);
+
 const SlotSchema = new Schema(
   {
     courtId: { type: Number, required: true },
     start:   { type: String, required: true },
     end:     { type: String, required: true },
+    price:   { type: Number }, // per-slot price at booking time
+    attendance: { type: String, enum: ["checked_in", "no_show"] },
+    attendedAt: { type: Date },
   },
   { _id: false }
 );
@@ -49,7 +75,11 @@ const BookingSchema = new Schema<BookingDoc>(
 
     // ✅ NEW fields
     bookingType: { type: String, enum: ["Normal", "Individual", "Special"], default: "Normal", index: true },
+    pricingMode: { type: String, enum: ["court", "individual", "individual2"] },
     who:         { type: String, enum: ["member", "user", "guest"], index: true },
+    seriesId:    { type: String, index: true },
+    participants: { type: [ParticipantSchema], default: undefined },
+    discount:    { type: DiscountSchema },
   },
   { timestamps: true, collection: "bookings" }
 );
@@ -0,0 +1,54 @@
+// models/BookingPayment.ts
+import type mongoose from "mongoose";
+import { Schema } from "mongoose";
+import { getDb } from "@/lib/db";
+
+export type PaymentMethod = "CASH" | "UPI" | "CARD" | "BANK" | "ONLINE" | "OTHER";
+
+/**
+ * One amount collected against a booking (advance, balance, top-up after a move).
+ * The balance due is the booking amount minus the sum of its entries.
+ */
+export interface BookingPaymentDoc extends mongoose.Document {
+  bookingId: string;
+  source: "bookings" | "guest_bookings";
+  orderId?: string;
+  participantId?: string; // set when paying one player's share of a split booking
+
+  amount: number;
+  currency: string;
+  method: PaymentMethod;
+  reference?: string;   // UPI txn id, card slip no., …
+  note?: string;
+  paidAt: Date;
+  recordedBy?: string;  // admin name / email from the session
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BookingPaymentSchema = new Schema<BookingPaymentDoc>(
+  {
+    bookingId: { type: String, required: true, index: true },
+    source:    { type: String, enum: ["bookings", "guest_bookings"], required: true },
+    orderId:   { type: String },
+    participantId: { type: String },
+
+    amount:     { type: Number, required: true, min: 0 },
+    currency:   { type: String, default: "INR" },
+    method:     { type: String, enum: ["CASH", "UPI", "CARD", "BANK", "ONLINE", "OTHER"], required: true },
+    reference:  { type: String, trim: true },
+    note:       { type: String, trim: true },
+    paidAt:     { type: Date, default: () => new Date() },
+    recordedBy: { type: String, trim: true },
+  },
+  { collection: "booking_payments", timestamps: true, strict: true }
+);
+
+const MODEL_NAME = "BookingPayment";
+
+export async function BookingPaymentModel(): Promise<mongoose.Model<BookingPaymentDoc>> {
+  const db = await getDb("kreede_booking");
+  return (db.models[MODEL_NAME] as mongoose.Model<BookingPaymentDoc>) ||
+         db.model<BookingPaymentDoc>(MODEL_NAME, BookingPaymentSchema);
+}
@@ -0,0 +1,59 @@
+// models/CancellationPolicy.ts
+import type mongoose from "mongoose";
+import { Schema } from "mongoose";
+import { getDb } from "@/lib/db";
+
+export type PolicyAudience = "member" | "user" | "guest";
+
+/**
+ * One band of a cancellation policy: cancelling at least `minHoursBefore` hours before
+ * the slot starts refunds `refundPercent` of the slot price and (for members) restores
+ * the credit when `restoreCredit` is set. The band with the highest matching
+ * minHoursBefore wins.
+ */
+export type CancellationTier = {
+  minHoursBefore: number;
+  refundPercent: number;  // 0..100
+  restoreCredit: boolean;
+};
+
+/**
+ * Refund rules applied when a booking slot is cancelled. `appliesTo` lists who it is
+ * for (empty = everyone); a policy naming the player type beats a catch-all one.
+ */
+export interface CancellationPolicyDoc extends mongoose.Document {
+  name: string;
+  appliesTo: PolicyAudience[];
+  tiers: CancellationTier[];
+  active: boolean;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TierSchema = new Schema(
+  {
+    minHoursBefore: { type: Number, required: true, min: 0 },
+    refundPercent:  { type: Number, required: true, min: 0, max: 100 },
+    restoreCredit:  { type: Boolean, default: false },
+  },
+  { _id: false }
+);
+
+const CancellationPolicySchema = new Schema<CancellationPolicyDoc>(
+  {
+    name:      { type: String, required: true, trim: true },
+    appliesTo: { type: [String], enum: ["member", "user", "guest"], default: [] },
+    tiers:     { type: [TierSchema], default: [] },
+    active:    { type: Boolean, default: true },
+  },
+  { collection: "cancellation_policies", timestamps: true, strict: true }
+);
+
+const MODEL_NAME = "CancellationPolicy";
+
+export async function CancellationPolicyModel(): Promise<mongoose.Model<CancellationPolicyDoc>> {
+  const db = await getDb("kreede_booking");
+  return (db.models[MODEL_NAME] as mongoose.Model<CancellationPolicyDoc>) ||
+         db.model<CancellationPolicyDoc>(MODEL_NAME, CancellationPolicySchema);
+}
@@ -0,0 +1,82 @@
+// models/Coupon.ts
+import type mongoose from "mongoose";
+import { Schema } from "mongoose";
+import { getDb } from "@/lib/db";
+
+export type CouponKind = "percent" | "flat";
+export type CouponProduct = "booking" | "membership" | "event";
+
+/**
+ * A promo code a customer can quote at the desk. `percent` takes `value`% off (capped
+ * at `maxDiscount` when set), `flat` takes `value` rupees off, never below zero.
+ * Valid for `products` between validFrom..validTo (either empty = open-ended), up to
+ * `maxUses` times in total and `maxUsesPerCustomer` per member/user email or guest phone.
+ */
+export interface CouponDoc extends mongoose.Document {
+  code: string;              // upper-case, unique
+  description?: string;
+  kind: CouponKind;
+  value: number;
+  maxDiscount?: number;      // percent coupons only
+  minAmount?: number;        // smallest bill the code works on
+  products: CouponProduct[];
+  validFrom?: string;        // YYYY-MM-DD
+  validTo?: string;          // YYYY-MM-DD (inclusive)
+  maxUses?: number;          // unset / 0 = unlimited
+  maxUsesPerCustomer?: number;
+  active: boolean;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** The discount as stored on the booking / membership / registration it was applied to. */
+export interface DiscountLine {
+  couponId: string;
+  code: string;
+  kind: CouponKind;
+  value: number;
+  listAmount: number;        // price before the coupon
+  amount: number;            // rupees taken off
+}
+
+/** Embedded as `discount` on bookings, guest bookings, memberships and registrations. */
+export const DiscountSchema = new Schema<DiscountLine>(
+  {
+    couponId:   { type: String, required: true },
+    code:       { type: String, required: true },
+    kind:       { type: String, enum: ["percent", "flat"], required: true },
+    value:      { type: Number, required: true },
+    listAmount: { type: Number, required: true },
+    amount:     { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+const CouponSchema = new Schema<CouponDoc>(
+  {
+    code:        { type: String, required: true, trim: true, uppercase: true },
+    description: { type: String, trim: true },
+    kind:        { type: String, enum: ["percent", "flat"], required: true },
+    value:       { type: Number, required: true, min: 0 },
+    maxDiscount: { type: Number, min: 0 },
+    minAmount:   { type: Number, min: 0 },
+    products:    { type: [String], enum: ["booking", "membership", "event"], default: [] },
+    validFrom:   { type: String },
+    validTo:     { type: String },
+    maxUses:     { type: Number, min: 0 },
+    maxUsesPerCustomer: { type: Number, min: 0 },
+    active:      { type: Boolean, default: true },
+  },
+  { collection: "coupons", timestamps: true, strict: true }
+);
+
+CouponSchema.index({ code: 1 }, { unique: true });
+
+const MODEL_NAME = "Coupon";
+
+export async function CouponModel(): Promise<mongoose.Model<CouponDoc>> {
+  const db = await getDb("kreede_booking");
+  return (db.models[MODEL_NAME] as mongoose.Model<CouponDoc>) ||
+         db.model<CouponDoc>(MODEL_NAME, CouponSchema);
+}
@@ -0,0 +1,52 @@
+// models/CouponUse.ts
+import type mongoose from "mongoose";
+import { Schema } from "mongoose";
+import { getDb } from "@/lib/db";
+import type { CouponProduct } from "@/models/Coupon";
+
+/**
+ * One redemption of a coupon: which document it discounted (`refId` in the booking,
+ * guest booking, membership or registration collection) and for whom. Counted against
+ * the coupon's total and per-customer limits. Written as a reservation when the code is
+ * applied (no refId yet, `expiresAt` set) and confirmed once the document exists; a
+ * reservation that is never confirmed is dropped by the TTL index.
+ */
+export interface CouponUseDoc extends mongoose.Document {
+  couponId: string;
+  code: string;
+  product: CouponProduct;
+  refId?: string;
+  userEmail?: string;        // lower-case, member/user
+  phone?: string;            // guests
+  listAmount: number;
+  discount: number;
+  expiresAt?: Date;          // set while only reserved
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CouponUseSchema = new Schema<CouponUseDoc>(
+  {
+    couponId:   { type: String, required: true, index: true },
+    code:       { type: String, required: true },
+    product:    { type: String, enum: ["booking", "membership", "event"], required: true },
+    refId:      { type: String },
+    userEmail:  { type: String, trim: true, lowercase: true },
+    phone:      { type: String, trim: true },
+    listAmount: { type: Number, required: true, min: 0 },
+    discount:   { type: Number, required: true, min: 0 },
+    expiresAt:  { type: Date },
+  },
+  { collection: "coupon_uses", timestamps: true, strict: true }
+);
+
+CouponUseSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const MODEL_NAME = "CouponUse";
+
+export async function CouponUseModel(): Promise<mongoose.Model<CouponUseDoc>> {
+  const db = await getDb("kreede_booking");
+  return (db.models[MODEL_NAME] as mongoose.Model<CouponUseDoc>) ||
+         db.model<CouponUseDoc>(MODEL_NAME, CouponUseSchema);
+}
@@ -0,0 +1,57 @@
+// models/Court.ts
+import type mongoose from "mongoose";
+import { Schema } from "mongoose";
+import { getDb } from "@/lib/db";
+
+export interface CourtHours {
+  weekday: number;   // 0 (Sun) .. 6 (Sat)
+  open?: string;     // "HH:MM", may be left out on closed days
+  close?: string;    // "HH:MM"
+  closed: boolean;   // whole day off
+}
+
+export interface CourtDoc extends mongoose.Document {
+  courtId: number;       // number stored on booking slots
+  name: string;          // label shown in the grids, e.g. "Court 1"
+  active: boolean;       // inactive courts are hidden and not bookable
+  hours: CourtHours[];   // one entry per weekday; missing weekday = closed
+  slotMinutes: number;   // slot length, e.g. 60
+  sortOrder: number;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+function isOpenDay(this: CourtHours) {
+  return !this.closed;
+}
+
+const CourtHoursSchema = new Schema<CourtHours>(
+  {
+    weekday: { type: Number, required: true, min: 0, max: 6 },
+    open:    { type: String, required: isOpenDay },
+    close:   { type: String, required: isOpenDay },
+    closed:  { type: Boolean, default: false },
+  },
+  { _id: false }
+);
+
+const CourtSchema = new Schema<CourtDoc>(
+  {
+    courtId:     { type: Number, required: true, unique: true, min: 1 },
+    name:        { type: String, required: true, trim: true },
+    active:      { type: Boolean, default: true },
+    hours:       { type: [CourtHoursSchema], default: [] },
+    slotMinutes: { type: Number, default: 60, min: 15 },
+    sortOrder:   { type: Number, default: 0 },
+  },
+  { collection: "courts", timestamps: true, strict: true }
+);
+
+const MODEL_NAME = "Court";
+
+export async function CourtModel(): Promise<mongoose.Model<CourtDoc>> {
+  const db = await getDb("kreede_booking");
+  return (db.models[MODEL_NAME] as mongoose.Model<CourtDoc>) ||
+         db.model<CourtDoc>(MODEL_NAME, CourtSchema);
+}
@@ -0,0 +1,50 @@
+// models/CourtBlock.ts
+import type mongoose from "mongoose";
+import { Schema } from "mongoose";
+import { getDb } from "@/lib/db";
+
+export type CourtBlockKind = "maintenance" | "coaching" | "tournament" | "other";
+
+/**
+ * Court time taken out of sale (resurfacing, coaching batches, tournaments).
+ * Applies on every date in dateFrom..dateTo whose weekday is in `weekdays`
+ * (empty = every day), for `courtIds` (empty = all courts), over timeFrom..timeTo
+ * (both empty = the whole day).
+ */
+export interface CourtBlockDoc extends mongoose.Document {
+  reason: string;
+  kind: CourtBlockKind;
+  courtIds: number[];
+  dateFrom: string;    // YYYY-MM-DD
+  dateTo: string;      // YYYY-MM-DD (inclusive)
+  timeFrom?: string;   // "HH:MM"
+  timeTo?: string;     // "HH:MM"
+  weekdays: number[];  // 0=Sun..6=Sat — recurring pattern
+  active: boolean;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CourtBlockSchema = new Schema<CourtBlockDoc>(
+  {
+    reason:   { type: String, required: true, trim: true },
+    kind:     { type: String, enum: ["maintenance", "coaching", "tournament", "other"], default: "maintenance" },
+    courtIds: { type: [Number], default: [] },
+    dateFrom: { type: String, required: true, index: true },
+    dateTo:   { type: String, required: true, index: true },
+    timeFrom: { type: String },
+    timeTo:   { type: String },
+    weekdays: { type: [Number], default: [] },
+    active:   { type: Boolean, default: true },
+  },
+  { collection: "court_blocks", timestamps: true, strict: true }
+);
+
+const MODEL_NAME = "CourtBlock";
+
+export async function CourtBlockModel(): Promise<mongoose.Model<CourtBlockDoc>> {
+  const db = await getDb("kreede_booking");
+  return (db.models[MODEL_NAME] as mongoose.Model<CourtBlockDoc>) ||
+         db.model<CourtBlockDoc>(MODEL_NAME, CourtBlockSchema);
+}
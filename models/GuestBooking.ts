@@ -2,6 +2,8 @@
 import type mongoose from "mongoose";
 import { Schema } from "mongoose";
 import { getDb } from "@/lib/db";
+import { DiscountSchema, type DiscountLine } from "@/models/Coupon";
+import type { PricingMode } from "@/models/PricingRule";
 
 export interface GuestBookingDoc extends mongoose.Document {
   orderId?: string;
@@ -13,7 +15,14 @@ export interface GuestBookingDoc extends mongoose.Document {
   guestPhone?: string;
 
   date: string; // YYYY-MM-DD
-  slots: { courtId: number; start: string; end: string }[];
+  slots: {
+    courtId: number;
+    start: string;
+    end: string;
+    price?: number;
+    attendance?: "checked_in" | "no_show"; // set at the front desk
+    attendedAt?: Date;
+  }[];
 
   amount: number;
   currency: string; // "INR"
@@ -21,15 +30,33 @@ export interface GuestBookingDoc extends mongoose.Document {
   paymentRef: "PAID.CASH" | "UNPAID.CASH" | "CASH"; // include CASH for backward compatibility
   adminPaid?: boolean; // false when pending (UNPAID.CASH), true after mark-paid (PAID.CASH)
 
+  pricingMode?: PricingMode; // rules the slot prices were quoted from
+  seriesId?: string;   // shared by every occurrence of a recurring booking
+  participants?: { _id?: mongoose.Types.ObjectId; name: string; phone?: string; share: number }[]; // split cost
+  discount?: DiscountLine; // coupon taken off `amount`
+
   createdAt: Date;
   updatedAt: Date;
 }
 
+// one player's share of a split booking (payments against it live in booking_payments)
+const ParticipantSchema = new Schema(
+  {
+    name:  { type: String, required: true, trim: true },
+    phone: { type: String, trim: true },
+    share: { type: Number, required: true, min: 0 },
+  },
+  { _id: true }
+);
+
 const SlotSchema = new Schema(
   {
     courtId: { type: Number, required: true },
     start:   { type: String, required: true }, // "HH:MM"
     end:     { type: String, required: true }, // "HH:MM"
+    price:   { type: Number }, // per-slot price at booking time
+    attendance: { type: String, enum: ["checked_in", "no_show"] },
+    attendedAt: { type: Date },
   },
   { _id: false }
 );
@@ -52,6 +79,11 @@ const GuestBookingSchema = new Schema<GuestBookingDoc>(
     status:     { type: String, enum: ["PAID"], default: "PAID" },
     paymentRef: { type: String, enum: ["PAID.CASH", "UNPAID.CASH", "CASH"], required: true },
     adminPaid:  { type: Boolean, default: false },
+
+    pricingMode: { type: String, enum: ["court", "individual", "individual2"] },
+    seriesId:   { type: String, index: true },
+    participants: { type: [ParticipantSchema], default: undefined },
+    discount:   { type: DiscountSchema },
   },
   { collection: "guest_bookings", timestamps: true, strict: true }
 );
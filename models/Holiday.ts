@@ -0,0 +1,42 @@
+// models/Holiday.ts
+import type mongoose from "mongoose";
+import { Schema } from "mongoose";
+import { getDb } from "@/lib/db";
+
+export type HolidayKind = "premium" | "closed" | "special_hours";
+
+/**
+ * A calendar date that doesn't behave like its weekday:
+ *  - premium        → priced as a weekend day
+ *  - closed         → no court is bookable
+ *  - special_hours  → every court runs open..close instead of its weekly hours
+ */
+export interface HolidayDoc extends mongoose.Document {
+  date: string;        // YYYY-MM-DD
+  name: string;        // e.g. "Diwali"
+  kind: HolidayKind;
+  open?: string;       // "HH:MM" (special_hours only)
+  close?: string;      // "HH:MM" (special_hours only)
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const HolidaySchema = new Schema<HolidayDoc>(
+  {
+    date:  { type: String, required: true, unique: true },
+    name:  { type: String, required: true, trim: true },
+    kind:  { type: String, enum: ["premium", "closed", "special_hours"], required: true },
+    open:  { type: String },
+    close: { type: String },
+  },
+  { collection: "holidays", timestamps: true, strict: true }
+);
+
+const MODEL_NAME = "Holiday";
+
+export async function HolidayModel(): Promise<mongoose.Model<HolidayDoc>> {
+  const db = await getDb("kreede_booking");
+  return (db.models[MODEL_NAME] as mongoose.Model<HolidayDoc>) ||
+         db.model<HolidayDoc>(MODEL_NAME, HolidaySchema);
+}
@@ -0,0 +1,46 @@
+// models/IdempotencyKey.ts
+import type mongoose from "mongoose";
+import { Schema } from "mongoose";
+import { getDb } from "@/lib/db";
+
+/**
+ * First response to a create request sent with an `Idempotency-Key` header. The unique
+ * key on { scope, key } lets exactly one attempt run; retries get the stored response.
+ * Records expire after a day.
+ */
+export interface IdempotencyKeyDoc extends mongoose.Document {
+  scope: string;        // which endpoint, e.g. "bookings.admin"
+  key: string;          // client-generated, one per logical submit
+  requestHash: string;  // sha256 of the body, to catch a key reused for another request
+  state: "pending" | "done";
+  responseStatus?: number;
+  responseBody?: unknown;
+  expiresAt: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const IdempotencyKeySchema = new Schema<IdempotencyKeyDoc>(
+  {
+    scope:          { type: String, required: true },
+    key:            { type: String, required: true },
+    requestHash:    { type: String, required: true },
+    state:          { type: String, enum: ["pending", "done"], default: "pending" },
+    responseStatus: { type: Number },
+    responseBody:   { type: Schema.Types.Mixed },
+    expiresAt:      { type: Date, required: true },
+  },
+  { collection: "idempotency_keys", timestamps: true, strict: true }
+);
+
+IdempotencyKeySchema.index({ scope: 1, key: 1 }, { unique: true });
+IdempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const MODEL_NAME = "IdempotencyKey";
+
+export async function IdempotencyKeyModel(): Promise<mongoose.Model<IdempotencyKeyDoc>> {
+  const db = await getDb("kreede_booking");
+  return (db.models[MODEL_NAME] as mongoose.Model<IdempotencyKeyDoc>) ||
+         db.model<IdempotencyKeyDoc>(MODEL_NAME, IdempotencyKeySchema);
+}
@@ -1,9 +1,53 @@
 // models/Membership.ts (ADMIN)
 import { Schema, type Model, type Types } from "mongoose";
 import { getDb } from "@/lib/db";
+import { DiscountSchema, type DiscountLine } from "@/models/Coupon";
 
-export type PlanId = "1M" | "3M" | "6M";
-export type MembershipStatus = "PENDING" | "PAID" | "FAILED";
+export type PlanId = string; // code from the plan catalog (models/MembershipPlan.ts)
+export type MembershipStatus = "PENDING" | "PAID" | "FAILED" | "EXPIRED";
+
+/** Plan terms as they were when the membership was sold; later plan edits don't touch them. */
+export interface PlanTerms {
+  name: string;
+  durationMonths: number;
+  games: number;
+  price: number;                          // list price charged before any coupon
+  courtIds: number[];                     // empty = all courts
+  windows: { from: string; to: string }[]; // empty = any hour
+  maxFreezeDays?: number;                 // total pause allowance
+}
+
+/** A pause the member asked for: no credits on these dates, validTo pushed out by `days`. */
+export interface MembershipFreeze {
+  from: string;          // YYYY-MM-DD (IST), inclusive
+  to: string;            // YYYY-MM-DD (IST), inclusive
+  days: number;
+  reason?: string;
+  validToBefore: string; // end date before this freeze extended it
+  createdAt: Date;
+}
+
+export type CreditReason = "booking" | "cancel" | "rollback" | "adjust";
+
+/**
+ * One line of the credit ledger. Written in the same update that moves
+ * `gamesUsed`, so the ledger and the counter can't drift apart.
+ */
+export interface CreditEntry {
+  delta: number;           // credits left: -N consumed, +N given back (what actually applied)
+  balance: number;         // games - gamesUsed after this entry
+  reason: CreditReason;
+  orderId?: string;        // booking order the credits paid for
+  bookingId?: string;
+  date?: string;           // play date
+  slots?: { courtId: number; start: string; end: string }[];
+  admin?: string;          // who did it at the desk
+  note?: string;
+  at: Date;
+}
+
+/** What a credit change is for; everything but `reason` is optional. */
+export type CreditRef = Omit<CreditEntry, "delta" | "balance" | "at">;
 
 export interface MembershipDoc {
   _id: Types.ObjectId;
@@ -13,10 +57,18 @@ export interface MembershipDoc {
   durationMonths: number;
   games: number;         // total games
   gamesUsed: number;     // consumed
-  planId: PlanId;        // "1M" | "3M" | "6M"
+  planId: PlanId;        // e.g. "1M"
   planName: string;      // e.g., "1 Month"
+  planTerms?: PlanTerms; // missing on memberships sold before the plan catalog
   status: MembershipStatus;
 
+  // Validity window in club dates (IST, YYYY-MM-DD, both inclusive); set when paid.
+  // Credits can only be used for play dates inside it.
+  validFrom?: string;
+  validTo?: string;
+  freezes: MembershipFreeze[]; // history of pauses, oldest first
+  creditLog: CreditEntry[];    // every gamesUsed change, oldest first
+
   userId: string;        // users._id as string
   userEmail: string;
   userName?: string;
@@ -26,10 +78,52 @@ export interface MembershipDoc {
   memberId?: string;
 
   paymentRaw?: Record<string, unknown>;
+  discount?: DiscountLine; // coupon taken off `amount`
   createdAt: Date;
   updatedAt: Date;
 }
 
+const PlanTermsSchema = new Schema<PlanTerms>(
+  {
+    name:           { type: String, required: true },
+    durationMonths: { type: Number, required: true },
+    games:          { type: Number, required: true },
+    price:          { type: Number, required: true },
+    courtIds:       { type: [Number], default: [] },
+    windows:        { type: [{ from: String, to: String, _id: false }], default: [] },
+    maxFreezeDays:  { type: Number },
+  },
+  { _id: false }
+);
+
+const FreezeSchema = new Schema<MembershipFreeze>(
+  {
+    from:          { type: String, required: true },
+    to:            { type: String, required: true },
+    days:          { type: Number, required: true, min: 1 },
+    reason:        { type: String, trim: true },
+    validToBefore: { type: String, required: true },
+    createdAt:     { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+const CreditEntrySchema = new Schema<CreditEntry>(
+  {
+    delta:     { type: Number, required: true },
+    balance:   { type: Number, required: true },
+    reason:    { type: String, enum: ["booking", "cancel", "rollback", "adjust"], required: true },
+    orderId:   { type: String },
+    bookingId: { type: String },
+    date:      { type: String },
+    slots:     { type: [{ courtId: Number, start: String, end: String, _id: false }], default: undefined },
+    admin:     { type: String },
+    note:      { type: String },
+    at:        { type: Date, required: true },
+  },
+  { _id: false }
+);
+
 const MembershipSchema = new Schema<MembershipDoc>(
   {
     orderId:        { type: String, required: true },
@@ -41,10 +135,16 @@ const MembershipSchema = new Schema<MembershipDoc>(
     games:          { type: Number, required: true },
     gamesUsed:      { type: Number, required: true, default: 0 },
 
-    planId:         { type: String, enum: ["1M", "3M", "6M"], required: true },
+    planId:         { type: String, required: true, trim: true, uppercase: true },
     planName:       { type: String, required: true },
+    planTerms:      { type: PlanTermsSchema },
 
-    status:         { type: String, enum: ["PENDING", "PAID", "FAILED"], default: "PENDING", index: true },
+    status:         { type: String, enum: ["PENDING", "PAID", "FAILED", "EXPIRED"], default: "PENDING", index: true },
+
+    validFrom:      { type: String, match: [/^\d{4}-\d{2}-\d{2}$/, "validFrom must be YYYY-MM-DD"] },
+    validTo:        { type: String, match: [/^\d{4}-\d{2}-\d{2}$/, "validTo must be YYYY-MM-DD"] },
+    freezes:        { type: [FreezeSchema], default: [] },
+    creditLog:      { type: [CreditEntrySchema], default: [] },
 
     userId:         { type: String, required: true, index: true },
     userEmail:      { type: String, required: true, lowercase: true, index: true },
@@ -59,6 +159,7 @@ const MembershipSchema = new Schema<MembershipDoc>(
     },
 
     paymentRaw:     { type: Schema.Types.Mixed },
+    discount:       { type: DiscountSchema },
   },
   { collection: "memberships", timestamps: true, strict: true }
 );
@@ -67,6 +168,8 @@ const MembershipSchema = new Schema<MembershipDoc>(
 MembershipSchema.index({ userId: 1, status: 1, createdAt: -1 });
 MembershipSchema.index({ orderId: 1 }, { unique: true });
 MembershipSchema.index({ memberId: 1, createdAt: -1 }); // speeds latest-by-memberId lookups
+MembershipSchema.index({ status: 1, validTo: 1 });       // expiry sweep
+MembershipSchema.index({ "creditLog.orderId": 1 });      // which membership paid for a booking
 
 /* -------------------- GOOGLE SHEETS SYNC MIDDLEWARE -------------------- */
 
@@ -175,28 +278,167 @@ export async function MembershipModel(): Promise<Model<MembershipDoc>> {
   return model;
 }
 
+/* --------------------------- VALIDITY WINDOW --------------------------- */
+
+/** Today at the club (IST) as YYYY-MM-DD */
+export function clubToday(now = new Date()): string {
+  return now.toLocaleDateString("en-CA", { timeZone: "Asia/Kolkata" });
+}
+
+/** Validity for a membership starting on `from`: `months` later, minus a day (inclusive end). */
+export function validityWindow(from: string, months: number): { validFrom: string; validTo: string } {
+  const [y, m, d] = from.split("-").map(Number);
+  const end = new Date(Date.UTC(y, m - 1 + Math.max(0, Math.floor(months)), d - 1));
+  return { validFrom: from, validTo: end.toISOString().slice(0, 10) };
+}
+
+/** `ymd` moved by `n` days */
+export function addDays(ymd: string, n: number): string {
+  const [y, m, d] = ymd.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d + n)).toISOString().slice(0, 10);
+}
+
+/** Whole days left including `today`; 0 once the window has ended. */
+export function daysLeft(validTo: string, today = clubToday()): number {
+  const ms = Date.parse(`${validTo}T00:00:00Z`) - Date.parse(`${today}T00:00:00Z`);
+  return Math.max(0, Math.floor(ms / 86_400_000) + 1);
+}
+
 /**
- * Consume N membership credits for the user's most-recent PAID membership.
- * Sheets sync is handled by the post-update middleware above.
+ * Memberships paid before validity was stored get a window from their purchase
+ * date (createdAt in IST), which is what the desk always showed as Start/End.
  */
-export async function useMembershipCredits(userId: string, count = 1): Promise<boolean> {
-  if (!userId) return false;
-  const n = Math.max(1, Math.floor(count));
+export async function backfillValidity(filter: Record<string, unknown> = {}): Promise<number> {
+  const Membership = await MembershipModel();
+  const rows = await Membership.find({ ...filter, status: { $in: ["PAID", "EXPIRED"] }, validTo: { $exists: false } })
+    .select({ createdAt: 1, durationMonths: 1 })
+    .lean();
+  if (!rows.length) return 0;
+
+  await Membership.bulkWrite(
+    rows.map((m) => ({
+      updateOne: {
+        filter: { _id: m._id },
+        update: { $set: validityWindow(clubToday(new Date(m.createdAt)), Number(m.durationMonths || 0)) },
+      },
+    }))
+  );
+  return rows.length;
+}
+
+/**
+ * Periodic sweep: fill in missing windows, then flip PAID memberships whose
+ * window has ended to EXPIRED. Safe to run as often as you like.
+ */
+export async function expireMemberships(now = new Date()): Promise<{ backfilled: number; expired: number }> {
+  const backfilled = await backfillValidity();
   const Membership = await MembershipModel();
+  const r = await Membership.updateMany(
+    { status: "PAID", validTo: { $lt: clubToday(now) } },
+    { $set: { status: "EXPIRED" } }
+  );
+  return { backfilled, expired: r.modifiedCount ?? 0 };
+}
+
+/**
+ * Filter for the member's membership that may pay for `count` slots on `date`:
+ * PAID, inside its validity window, not frozen that day and with enough games left.
+ * Call `backfillValidity({ userId })` first so legacy rows qualify.
+ */
+export function usableMembershipFilter(userId: string, date: string, count: number) {
+  return {
+    userId,
+    status: "PAID",
+    validFrom: { $lte: date },
+    validTo: { $gte: date },
+    freezes: { $not: { $elemMatch: { from: { $lte: date }, to: { $gte: date } } } },
+    $expr: { $lte: ["$gamesUsed", { $subtract: ["$games", count] }] },
+  };
+}
 
-  const pipeline = [
+/** Why no membership can pay for slots on `date` — for the error shown at the desk. */
+export async function creditGuardError(userId: string, date: string): Promise<string> {
+  const Membership = await MembershipModel();
+  const latest = await Membership.findOne({ userId, status: { $in: ["PAID", "EXPIRED"] } })
+    .sort({ createdAt: -1 })
+    .select({ validFrom: 1, validTo: 1, freezes: 1 })
+    .lean();
+  if (!latest) return "No paid membership found. Book as a user.";
+  const freeze = (latest.freezes || []).find((f) => f.from <= date && date <= f.to);
+  if (freeze) return `Membership is frozen ${freeze.from} to ${freeze.to}. Book as a user.`;
+  if (latest.validTo && date > latest.validTo) return `Membership expired on ${latest.validTo}. Book as a user.`;
+  if (latest.validFrom && date < latest.validFrom) return `Membership starts on ${latest.validFrom}. Book as a user.`;
+  return "Membership credits are over. Book as a user.";
+}
+
+/* ----------------------------- CREDIT LEDGER ----------------------------- */
+
+/**
+ * Update pipeline that moves `gamesUsed` by `used` (+ consumes, - restores; clamped
+ * to 0..games) and appends the ledger entry with the change that really applied.
+ */
+export function creditPipeline(used: number, ref: CreditRef): import("mongoose").UpdateWithAggregationPipeline {
+  const next =
+    used >= 0
+      ? { $min: ["$games", { $add: ["$gamesUsed", used] }] }
+      : { $max: [0, { $add: ["$gamesUsed", used] }] };
+
+  // $literal so desk-typed values are never read as field paths
+  const fields: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(ref)) if (v !== undefined && v !== "") fields[k] = { $literal: v };
+
+  return [
+    { $set: { _gamesUsedBefore: "$gamesUsed", gamesUsed: next } },
     {
       $set: {
-        gamesUsed: {
-          $min: ["$games", { $add: ["$gamesUsed", n] }],
+        creditLog: {
+          $concatArrays: [
+            { $ifNull: ["$creditLog", []] },
+            [
+              {
+                ...fields,
+                delta: { $subtract: ["$_gamesUsedBefore", "$gamesUsed"] },
+                balance: { $subtract: ["$games", "$gamesUsed"] },
+                at: "$$NOW",
+              },
+            ],
+          ],
         },
       },
     },
+    { $unset: "_gamesUsedBefore" },
   ] as unknown as import("mongoose").UpdateWithAggregationPipeline;
+}
+
+/** Fill in the booking id on the entries written before the booking existed. */
+export async function linkCreditsToBooking(orderId: string, bookingId: string): Promise<void> {
+  const Membership = await MembershipModel();
+  await Membership.updateOne(
+    { "creditLog.orderId": orderId },
+    { $set: { "creditLog.$[e].bookingId": bookingId } },
+    { arrayFilters: [{ "e.orderId": orderId, "e.bookingId": { $exists: false } }] }
+  );
+}
+
+/**
+ * Consume N membership credits for the user's most-recent membership valid on
+ * `date` (club date, defaults to today). Returns false outside the validity window.
+ * Sheets sync is handled by the post-update middleware above.
+ */
+export async function useMembershipCredits(
+  userId: string,
+  count = 1,
+  date = clubToday(),
+  ref: Omit<CreditRef, "reason"> = {}
+): Promise<boolean> {
+  if (!userId) return false;
+  const n = Math.max(1, Math.floor(count));
+  await backfillValidity({ userId });
+  const Membership = await MembershipModel();
 
   const updated = await Membership.findOneAndUpdate(
-    { userId, status: "PAID" },
-    pipeline,
+    usableMembershipFilter(userId, date, n),
+    creditPipeline(n, { date, ...ref, reason: "booking" }),
     { new: true, sort: { createdAt: -1 } }
   );
 
@@ -204,33 +446,49 @@ export async function useMembershipCredits(userId: string, count = 1): Promise<b
 }
 
 /**
- * Restore N membership credits for the user's most-recent PAID membership.
+ * Restore N membership credits. A booking with a ledger entry for `ref.orderId` gets them
+ * back only on that membership, while it is still PAID (otherwise nothing is restored and
+ * the mismatch is logged). Bookings from before the ledger have no entry and go back to
+ * the user's most-recent PAID membership, as they always did.
  * Sheets sync is handled by the post-update middleware above.
  */
-export async function restoreMembershipCredits(userId: string, count = 1): Promise<boolean> {
+export async function restoreMembershipCredits(
+  userId: string,
+  count = 1,
+  ref: CreditRef = { reason: "cancel" }
+): Promise<boolean> {
   if (!userId) return false;
   const n = Math.max(1, Math.floor(count));
   const Membership = await MembershipModel();
+  const pipeline = creditPipeline(-n, ref);
 
-  const pipeline = [
-    {
-      $set: {
-        gamesUsed: {
-          $max: [0, { $subtract: ["$gamesUsed", n] }],
-        },
-      },
-    },
-  ] as unknown as import("mongoose").UpdateWithAggregationPipeline;
+  const logged = ref.orderId ? await Membership.exists({ userId, "creditLog.orderId": ref.orderId }) : null;
+
+  if (!logged) {
+    const updated = await Membership.findOneAndUpdate(
+      { userId, status: "PAID" },
+      pipeline,
+      { new: true, sort: { createdAt: -1 } }
+    );
+    return !!updated;
+  }
 
   const updated = await Membership.findOneAndUpdate(
-    { userId, status: "PAID" },
+    { userId, status: "PAID", "creditLog.orderId": ref.orderId },
     pipeline,
-    { new: true, sort: { createdAt: -1 } }
+    { new: true }
   );
-
+  if (!updated) {
+    console.error("membership credit restore skipped: the membership that paid for this order is no longer PAID", {
+      userId,
+      orderId: ref.orderId,
+      bookingId: ref.bookingId,
+      count: n,
+    });
+  }
   return !!updated;
 }
 
-export async function restoreOneMembershipCredit(userId: string): Promise<boolean> {
-  return restoreMembershipCredits(userId, 1);
+export async function restoreOneMembershipCredit(userId: string, ref?: CreditRef): Promise<boolean> {
+  return restoreMembershipCredits(userId, 1, ref);
 }
@@ -0,0 +1,65 @@
+// models/MembershipPlan.ts
+import type mongoose from "mongoose";
+import { Schema } from "mongoose";
+import { getDb } from "@/lib/db";
+
+export interface PlanWindow {
+  from: string; // "HH:MM"
+  to: string;   // "HH:MM"
+}
+
+/**
+ * A membership plan on sale. Members play `games` slots within `durationMonths`,
+ * only on `courtIds` (empty = all courts) and inside `windows` (empty = any hour).
+ * `childPrice` is what children (12 and under) pay; unset = not sold to children.
+ * Memberships copy these terms when sold, so editing a plan never changes them.
+ */
+export interface MembershipPlanDoc extends mongoose.Document {
+  planId: string;          // short code stored on memberships, e.g. "3M"
+  name: string;            // e.g. "3 months"
+  durationMonths: number;
+  games: number;
+  price: number;           // list price (INR)
+  childPrice?: number;
+  courtIds: number[];
+  windows: PlanWindow[];
+  active: boolean;         // inactive plans are no longer sold
+  sortOrder: number;
+  maxFreezeDays: number;   // total days a membership may be paused (0 = no freezes)
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PlanWindowSchema = new Schema<PlanWindow>(
+  {
+    from: { type: String, required: true },
+    to:   { type: String, required: true },
+  },
+  { _id: false }
+);
+
+const MembershipPlanSchema = new Schema<MembershipPlanDoc>(
+  {
+    planId:         { type: String, required: true, unique: true, trim: true, uppercase: true },
+    name:           { type: String, required: true, trim: true },
+    durationMonths: { type: Number, required: true, min: 1 },
+    games:          { type: Number, required: true, min: 1 },
+    price:          { type: Number, required: true, min: 0 },
+    childPrice:     { type: Number, min: 0 },
+    courtIds:       { type: [Number], default: [] },
+    windows:        { type: [PlanWindowSchema], default: [] },
+    active:         { type: Boolean, default: true },
+    sortOrder:      { type: Number, default: 0 },
+    maxFreezeDays:  { type: Number, default: 0, min: 0 },
+  },
+  { collection: "membership_plans", timestamps: true, strict: true }
+);
+
+const MODEL_NAME = "MembershipPlan";
+
+export async function MembershipPlanModel(): Promise<mongoose.Model<MembershipPlanDoc>> {
+  const db = await getDb("kreede_booking");
+  return (db.models[MODEL_NAME] as mongoose.Model<MembershipPlanDoc>) ||
+         db.model<MembershipPlanDoc>(MODEL_NAME, MembershipPlanSchema);
+}
@@ -5,6 +5,13 @@ import { bookingConnection } from "@/lib/dbBookings";
 export type OfferType = "flat" | "conditional";
 export type Criteria = "one_woman" | "all_women" | "mixed";
 
+export type OfferCustomerType = "member" | "user" | "guest";
+
+export interface OfferWindow {
+  from: string; // "HH:mm"
+  to: string;   // "HH:mm"
+}
+
 export interface ConditionalRule {
   label: string;
   price: number;
@@ -19,8 +26,18 @@ export interface OfferDoc extends mongoose.Document {
   dateTo: Date;
   timeFrom: string; // "HH:mm"
   timeTo: string;   // "HH:mm"
+  // Targeting (empty = no restriction); `windows` replaces timeFrom..timeTo when set
+  weekdays?: number[];                  // 0=Sun..6=Sat
+  windows?: OfferWindow[];
+  courtIds?: number[];
+  customerTypes?: OfferCustomerType[];
+  minSlots?: number;                    // fewest slots per booking
   flatPrice?: number;
   rules?: ConditionalRule[];
+  // Usage caps, counted in bookings (unset / 0 = unlimited)
+  maxRedemptions?: number;
+  maxPerUser?: number;
+  maxPerDay?: number;
   active: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -35,6 +52,14 @@ const ConditionalRuleSchema = new Schema<ConditionalRule>(
   { _id: false }
 );
 
+const OfferWindowSchema = new Schema<OfferWindow>(
+  {
+    from: { type: String, required: true },
+    to:   { type: String, required: true },
+  },
+  { _id: false }
+);
+
 const OfferSchema = new Schema<OfferDoc>(
   {
     title:     { type: String, required: true, trim: true },
@@ -44,8 +69,16 @@ const OfferSchema = new Schema<OfferDoc>(
     dateTo:    { type: Date, required: true },
     timeFrom:  { type: String, required: true }, // "06:00"
     timeTo:    { type: String, required: true }, // "10:00"
+    weekdays:  { type: [Number], default: [] },
+    windows:   { type: [OfferWindowSchema], default: [] },
+    courtIds:  { type: [Number], default: [] },
+    customerTypes: { type: [String], enum: ["member", "user", "guest"], default: [] },
+    minSlots:  { type: Number, min: 1 },
     flatPrice: { type: Number, min: 0 },
     rules:     { type: [ConditionalRuleSchema], default: [] },
+    maxRedemptions: { type: Number, min: 0 },
+    maxPerUser:     { type: Number, min: 0 },
+    maxPerDay:      { type: Number, min: 0 },
     active:    { type: Boolean, default: true },
   },
   { timestamps: true }
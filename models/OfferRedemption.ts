@@ -0,0 +1,69 @@
+// models/OfferRedemption.ts
+import type mongoose from "mongoose";
+import { Schema } from "mongoose";
+import { getDb } from "@/lib/db";
+
+/**
+ * One booking made under an offer. `amount` is what was charged, `listPrice` what the
+ * same slots cost on the normal pricing rules, so `discount` is what the offer gave away
+ * (0 for members, who play on credits). Cancelling the whole booking sets `cancelledAt`;
+ * cancelled redemptions no longer count towards the offer's caps. Written as a hold
+ * (no bookingId yet, `expiresAt` set) before the booking is saved and confirmed after;
+ * a hold that is never confirmed is dropped by the TTL index.
+ */
+export interface OfferRedemptionDoc extends mongoose.Document {
+  offerId: string;
+  bookingId?: string;        // unset while only held
+  source?: "bookings" | "guest_bookings";
+  orderId?: string;
+  date: string;              // YYYY-MM-DD played
+  who: "member" | "user" | "guest";
+  userName?: string;
+  userEmail?: string;        // lower-case, member/user
+  phone?: string;            // guests
+  slots: number;
+  ruleLabel?: string;
+  amount: number;
+  listPrice: number;
+  discount: number;
+  currency: string;
+  cancelledAt?: Date;
+  expiresAt?: Date;          // set while only held
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const OfferRedemptionSchema = new Schema<OfferRedemptionDoc>(
+  {
+    offerId:     { type: String, required: true, index: true },
+    bookingId:   { type: String, index: true },
+    source:      { type: String, enum: ["bookings", "guest_bookings"] },
+    orderId:     { type: String },
+    date:        { type: String, required: true },
+    who:         { type: String, enum: ["member", "user", "guest"], required: true },
+    userName:    { type: String, trim: true },
+    userEmail:   { type: String, trim: true, lowercase: true },
+    phone:       { type: String, trim: true },
+    slots:       { type: Number, required: true, min: 1 },
+    ruleLabel:   { type: String, trim: true },
+    amount:      { type: Number, required: true, min: 0 },
+    listPrice:   { type: Number, required: true, min: 0 },
+    discount:    { type: Number, required: true, min: 0 },
+    currency:    { type: String, default: "INR" },
+    cancelledAt: { type: Date },
+    expiresAt:   { type: Date },
+  },
+  { collection: "offer_redemptions", timestamps: true, strict: true }
+);
+
+OfferRedemptionSchema.index({ offerId: 1, date: 1 });
+OfferRedemptionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const MODEL_NAME = "OfferRedemption";
+
+export async function OfferRedemptionModel(): Promise<mongoose.Model<OfferRedemptionDoc>> {
+  const db = await getDb("kreede_booking");
+  return (db.models[MODEL_NAME] as mongoose.Model<OfferRedemptionDoc>) ||
+         db.model<OfferRedemptionDoc>(MODEL_NAME, OfferRedemptionSchema);
+}
@@ -0,0 +1,56 @@
+// models/PricingRule.ts
+import type mongoose from "mongoose";
+import { Schema } from "mongoose";
+import { getDb } from "@/lib/db";
+
+export type PricingMode = "court" | "individual" | "individual2";
+export type DayType = "any" | "weekday" | "weekend";
+
+/**
+ * One price for one pricing mode, optionally narrowed by day, time band, court and
+ * date range. Empty arrays / missing fields mean "no restriction".
+ * See lib/pricing.ts for how overlapping rules are resolved.
+ */
+export interface PricingRuleDoc extends mongoose.Document {
+  name: string;
+  pricingMode: PricingMode;
+  dayType: DayType;
+  weekdays: number[];    // 0 (Sun) .. 6 (Sat)
+  timeFrom?: string;     // "HH:MM" — slot start >= timeFrom
+  timeTo?: string;       // "HH:MM" — slot start <  timeTo
+  courtIds: number[];
+  dateFrom?: string;     // YYYY-MM-DD inclusive
+  dateTo?: string;       // YYYY-MM-DD inclusive
+  price: number;         // per slot, INR
+  priority: number;      // higher wins
+  active: boolean;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PricingRuleSchema = new Schema<PricingRuleDoc>(
+  {
+    name:        { type: String, required: true, trim: true },
+    pricingMode: { type: String, enum: ["court", "individual", "individual2"], required: true, index: true },
+    dayType:     { type: String, enum: ["any", "weekday", "weekend"], default: "any" },
+    weekdays:    { type: [Number], default: [] },
+    timeFrom:    { type: String },
+    timeTo:      { type: String },
+    courtIds:    { type: [Number], default: [] },
+    dateFrom:    { type: String },
+    dateTo:      { type: String },
+    price:       { type: Number, required: true, min: 0 },
+    priority:    { type: Number, default: 0 },
+    active:      { type: Boolean, default: true, index: true },
+  },
+  { collection: "pricing_rules", timestamps: true, strict: true }
+);
+
+const MODEL_NAME = "PricingRule";
+
+export async function PricingRuleModel(): Promise<mongoose.Model<PricingRuleDoc>> {
+  const db = await getDb("kreede_booking");
+  return (db.models[MODEL_NAME] as mongoose.Model<PricingRuleDoc>) ||
+         db.model<PricingRuleDoc>(MODEL_NAME, PricingRuleSchema);
+}
@@ -40,6 +40,20 @@ export interface RefundDoc extends mongoose.Document {
   gateway?: "CASHFREE" | "NONE";
 
   membershipCreditRestored?: boolean;
+
+  // cancellation policy band applied at cancel time (booking slots)
+  cancellationPolicy?: {
+    policyId?: string;
+    policyName: string;
+    hoursBefore: number;
+    refundPercent: number;
+    restoreCredit: boolean;
+    tier?: string;
+    slotPrice: number;
+    refundAmount: number;
+    paid?: number;
+  };
+
   gatewayResponse?: Record<string, unknown>;
   meta?: Record<string, unknown>;
 
@@ -95,6 +109,24 @@ const RefundSchema = new Schema<RefundDoc>(
 
     membershipCreditRestored: { type: Boolean, default: false },
 
+    cancellationPolicy: {
+      type: new Schema(
+        {
+          policyId: { type: String },
+          policyName: { type: String },
+          hoursBefore: { type: Number },
+          refundPercent: { type: Number },
+          restoreCredit: { type: Boolean },
+          tier: { type: String },
+          slotPrice: { type: Number },
+          refundAmount: { type: Number },
+          paid: { type: Number },
+        },
+        { _id: false }
+      ),
+      default: undefined,
+    },
+
     gatewayResponse: Schema.Types.Mixed,
     meta: Schema.Types.Mixed,
   },
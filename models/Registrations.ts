@@ -1,6 +1,7 @@
 // models/Registrations.ts
 import mongoose, { Schema } from "mongoose";
 import { bookingConnection } from "@/lib/dbBookings";
+import { DiscountSchema, type DiscountLine } from "@/models/Coupon";
 
 export interface RegistrationDoc extends mongoose.Document {
   eventId: string;
@@ -26,6 +27,7 @@ export interface RegistrationDoc extends mongoose.Document {
   status?: "PAID" | "REFUNDED";
 
   paymentRef?: string;      // e.g. "CASH" / "ONLINE" / "FREE"
+  discount?: DiscountLine;  // coupon taken off the entry fee
 
   createdAt: Date;
   updatedAt: Date;
@@ -55,6 +57,7 @@ const RegistrationSchema = new Schema<RegistrationDoc>(
     status: { type: String, enum: ["PAID", "REFUNDED"], default: "PAID" },
 
     paymentRef: { type: String },
+    discount: { type: DiscountSchema },
   },
   { timestamps: true, collection: "registrations", strict: true }
 );
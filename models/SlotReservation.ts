@@ -0,0 +1,79 @@
+// models/SlotReservation.ts
+import type mongoose from "mongoose";
+import { Schema } from "mongoose";
+import { getDb } from "@/lib/db";
+
+/**
+ * One document per grid cell (see RESERVATION_CELL_MINUTES) a booked court slot covers.
+ * The unique key on { date, courtId, cell } is what makes two desks selling overlapping
+ * court time impossible, even when the slots have different lengths or starts.
+ */
+export interface SlotReservationDoc extends mongoose.Document {
+  date: string;      // YYYY-MM-DD
+  courtId: number;
+  start: string;     // "HH:MM" of the slot (shared by all its cells)
+  end: string;       // "HH:MM"
+  cell?: string;     // "HH:MM" of the grid cell; unset on rows from before the grid
+  orderId: string;   // booking (bookings / guest_bookings) holding the slot
+  expiresAt?: Date;  // temporary holds only (e.g. waitlist offers)
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SlotReservationSchema = new Schema<SlotReservationDoc>(
+  {
+    date:    { type: String, required: true },
+    courtId: { type: Number, required: true },
+    start:   { type: String, required: true },
+    end:     { type: String, required: true },
+    cell:    { type: String },
+    orderId: { type: String, required: true, index: true },
+    expiresAt: { type: Date },
+  },
+  { collection: "slot_reservations", timestamps: true, strict: true }
+);
+
+SlotReservationSchema.index(
+  { date: 1, courtId: 1, cell: 1 },
+  { unique: true, partialFilterExpression: { cell: { $exists: true } } }
+);
+// Mongo's TTL sweep is lazy (~60s); readers also ignore holds past expiresAt
+SlotReservationSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/* ----------------- ONE-TIME FIX FOR THE OLD PER-START INDEX ----------------- */
+/**
+ * Reservations used to be unique on { date, courtId, start }, one row per slot. With a row
+ * per cell every cell of a slot shares its start, so that index has to go.
+ */
+let droppedStartIndex = false;
+
+async function dropStartIndex() {
+  if (droppedStartIndex) return;
+  try {
+    const db = await getDb("kreede_booking");
+    const col = db.collection("slot_reservations");
+    const indexes = await col.indexes();
+    if (indexes.some((i) => i.name === "date_1_courtId_1_start_1")) {
+      await col.dropIndex("date_1_courtId_1_start_1");
+      console.warn("[SlotReservation] Dropped legacy index date_1_courtId_1_start_1");
+    }
+    droppedStartIndex = true;
+  } catch (err) {
+    // Don't crash app; just log. If it fails, you can still drop manually via mongosh.
+    console.error("[SlotReservation] dropStartIndex failed:", err);
+  }
+}
+
+const MODEL_NAME = "SlotReservation";
+
+export async function SlotReservationModel(): Promise<mongoose.Model<SlotReservationDoc>> {
+  const db = await getDb("kreede_booking");
+  const model =
+    (db.models[MODEL_NAME] as mongoose.Model<SlotReservationDoc>) ||
+    db.model<SlotReservationDoc>(MODEL_NAME, SlotReservationSchema);
+
+  await dropStartIndex();
+
+  return model;
+}
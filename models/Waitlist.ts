@@ -0,0 +1,65 @@
+// models/Waitlist.ts
+import type mongoose from "mongoose";
+import { Schema } from "mongoose";
+import { getDb } from "@/lib/db";
+
+export type WaitlistStatus = "waiting" | "offered" | "booked" | "expired";
+
+/**
+ * A player queued for a taken court slot. When the slot is cancelled the oldest
+ * "waiting" entry becomes "offered" (optionally with a timed hold on the slot);
+ * booking it from the panel turns it "booked", letting the hold run out "expired".
+ */
+export interface WaitlistDoc extends mongoose.Document {
+  date: string;        // YYYY-MM-DD
+  courtId: number;
+  start: string;       // "HH:MM"
+  end: string;         // "HH:MM"
+
+  who: "member" | "user" | "guest";
+  name: string;
+  phone?: string;
+  userEmail?: string;  // member/user only
+  userId?: string;     // username (member/user only)
+  note?: string;
+
+  status: WaitlistStatus;
+  offeredAt?: Date;
+  holdUntil?: Date;    // slot held for this entry until then
+  bookingId?: string;  // set once booked
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WaitlistSchema = new Schema<WaitlistDoc>(
+  {
+    date:    { type: String, required: true },
+    courtId: { type: Number, required: true },
+    start:   { type: String, required: true },
+    end:     { type: String, required: true },
+
+    who:       { type: String, enum: ["member", "user", "guest"], default: "guest" },
+    name:      { type: String, required: true, trim: true },
+    phone:     { type: String, trim: true },
+    userEmail: { type: String, trim: true, lowercase: true },
+    userId:    { type: String, trim: true },
+    note:      { type: String, trim: true },
+
+    status:    { type: String, enum: ["waiting", "offered", "booked", "expired"], default: "waiting", index: true },
+    offeredAt: { type: Date },
+    holdUntil: { type: Date },
+    bookingId: { type: String },
+  },
+  { collection: "waitlist", timestamps: true, strict: true }
+);
+
+WaitlistSchema.index({ date: 1, courtId: 1, start: 1, createdAt: 1 });
+
+const MODEL_NAME = "Waitlist";
+
+export async function WaitlistModel(): Promise<mongoose.Model<WaitlistDoc>> {
+  const db = await getDb("kreede_booking");
+  return (db.models[MODEL_NAME] as mongoose.Model<WaitlistDoc>) ||
+         db.model<WaitlistDoc>(MODEL_NAME, WaitlistSchema);
+}